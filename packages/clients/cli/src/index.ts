@@ -7,6 +7,12 @@ import ora from 'ora';
 import { table } from 'table';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import {
+  LoggingLevelSchema,
+  LoggingMessageNotificationSchema,
+  type LoggingLevel,
+  type LoggingMessageNotification,
+} from '@modelcontextprotocol/sdk/types.js';
 
 interface ServerConfig {
   name: string;
@@ -38,7 +44,26 @@ const DEFAULT_SERVERS: Record<string, ServerConfig> = {
   },
 };
 
+const LOG_COLORS: Partial<Record<LoggingLevel, (text: string) => string>> = {
+  debug: chalk.gray,
+  info: chalk.cyan,
+  notice: chalk.cyan,
+  warning: chalk.yellow,
+};
+
+// Prints a server log notification as one line
+function printServerLog({ level, logger, data }: LoggingMessageNotification['params']): void {
+  const { message, ...details } = typeof data === 'object' && data !== null
+    ? data as Record<string, unknown>
+    : { message: data };
+  const color = LOG_COLORS[level] ?? chalk.red;
+  const suffix = Object.keys(details).length > 0 ? chalk.gray(` ${JSON.stringify(details)}`) : '';
+  console.log(color(`[${logger ?? 'server'}] ${level}: ${message}`) + suffix);
+}
+
 class MCPClient {
+  // Minimum level of server logs shown
+  logLevel: LoggingLevel = 'warning';
   private client: Client | null = null;
   private transport: StdioClientTransport | null = null;
   private serverProcess: any = null;
@@ -51,6 +76,7 @@ class MCPClient {
     }
 
     const spinner = ora(`Connecting to ${serverConfig.name}...`).start();
+    let startupOutput: string | undefined = '';
 
     try {
       // Parse command and arguments
@@ -59,10 +85,17 @@ class MCPClient {
         throw new Error('Invalid server command');
       }
       
-      // Create transport
+      // Create transport; server logs arrive as notifications, so stderr is
+      // only kept to explain a server that fails to start
       this.transport = new StdioClientTransport({
         command,
         args,
+        stderr: 'pipe',
+      });
+      this.transport.stderr?.on('data', (chunk: Buffer) => {
+        if (startupOutput !== undefined) {
+          startupOutput += chunk.toString();
+        }
       });
 
       // Create client
@@ -73,13 +106,25 @@ class MCPClient {
         capabilities: {},
       });
 
+      this.client.setNotificationHandler(LoggingMessageNotificationSchema, notification => {
+        printServerLog(notification.params);
+      });
+
       // Connect
       await this.client.connect(this.transport);
       this.currentServer = serverKey;
+      startupOutput = undefined;
+
+      if (this.client.getServerCapabilities()?.logging) {
+        await this.client.setLoggingLevel(this.logLevel);
+      }
 
       spinner.succeed(`Connected to ${serverConfig.name}`);
     } catch (error) {
       spinner.fail(`Failed to connect to ${serverConfig.name}`);
+      if (startupOutput?.trim()) {
+        console.error(chalk.gray(startupOutput.trimEnd()));
+      }
       throw error;
     }
   }
@@ -506,7 +551,16 @@ const program = new Command();
 program
   .name('mcp-cli')
   .description('Command-line client for Model Context Protocol servers')
-  .version('1.0.0');
+  .version('1.0.0')
+  .option('-l, --log-level <level>', 'Server logs to show: debug, info, notice, warning, error, critical, alert or emergency', 'warning')
+  .hook('preAction', () => {
+    const level = LoggingLevelSchema.safeParse(program.opts().logLevel);
+    if (!level.success) {
+      console.error(chalk.red(`Invalid log level: ${program.opts().logLevel}`));
+      process.exit(1);
+    }
+    mcpClient.logLevel = level.data;
+  });
 
 program
   .command('interactive')
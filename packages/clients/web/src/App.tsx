@@ -1,6 +1,7 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { LoggingMessageNotificationSchema, type LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
 import { 
   Server, 
   Database, 
@@ -83,6 +84,8 @@ const SERVERS: ServerInfo[] = [
 
 type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
 
+const LOG_LEVELS: LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
 function App() {
   const [selectedServer, setSelectedServer] = useState<string | null>(null);
   const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('disconnected');
@@ -93,6 +96,7 @@ function App() {
   const [prompts, setPrompts] = useState<Prompt[]>([]);
   const [activeTab, setActiveTab] = useState<'tools' | 'resources' | 'prompts'>('tools');
   const [output, setOutput] = useState<string>('MCP Web Client initialized...\n');
+  const [logLevel, setLogLevel] = useState<LoggingLevel>('info');
   const [error, setError] = useState<string | null>(null);
   const outputRef = useRef<HTMLPreElement>(null);
   const [selectedTool, setSelectedTool] = useState<string | null>(null);
@@ -106,7 +110,7 @@ function App() {
   const [promptArguments, setPromptArguments] = useState<Record<string, any>>({});
 
   // Add log function
-  const addLog = useCallback((message: string, type: 'info' | 'error' | 'success' = 'info') => {
+  const addLog = useCallback((message: string, type: 'info' | 'error' | 'success' | 'server' = 'info') => {
     const timestamp = new Date().toLocaleTimeString();
     const logMessage = `[${timestamp}] ${type.toUpperCase()}: ${message}\n`;
     setOutput(prev => prev + logMessage);
@@ -143,11 +147,24 @@ function App() {
         setError(`Client error: ${error}`);
       };
 
+      // Show server logs as they arrive
+      newClient.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+        const { level, logger, data } = notification.params;
+        const { message, ...details } = typeof data === 'object' && data !== null
+          ? data as Record<string, unknown>
+          : { message: data };
+        const suffix = Object.keys(details).length > 0 ? ` ${JSON.stringify(details)}` : '';
+        addLog(`[${logger ?? serverInfo.id}] ${level}: ${message}${suffix}`, 'server');
+      });
+
       // Create transport
       const newTransport = new StreamableHTTPClientTransport(new URL(serverInfo.url));
 
       // Connect to server
       await newClient.connect(newTransport);
+      if (newClient.getServerCapabilities()?.logging) {
+        await newClient.setLoggingLevel(logLevel);
+      }
       
       setClient(newClient);
       setTransport(newTransport);
@@ -377,6 +394,19 @@ function App() {
     }
   };
 
+  // Change which server logs are sent to the console
+  const changeLogLevel = async (level: LoggingLevel) => {
+    setLogLevel(level);
+    if (client?.getServerCapabilities()?.logging) {
+      try {
+        await client.setLoggingLevel(level);
+        addLog(`Server log level set to ${level}`);
+      } catch (error) {
+        addLog(`Failed to set log level: ${error}`, 'error');
+      }
+    }
+  };
+
   // Clear output
   const clearOutput = () => {
     setOutput('Output cleared.\n');
@@ -740,12 +770,25 @@ function App() {
             <div className="bg-white rounded-lg shadow p-6">
               <div className="flex items-center justify-between mb-4">
                 <h2 className="text-xl font-semibold">Console Output</h2>
-                <button
-                  onClick={clearOutput}
-                  className="px-3 py-1 bg-gray-500 text-white rounded text-sm hover:bg-gray-600 transition-colors"
-                >
-                  Clear
-                </button>
+                <div className="flex items-center space-x-2">
+                  <label className="text-sm text-gray-600" htmlFor="log-level">Server logs</label>
+                  <select
+                    id="log-level"
+                    value={logLevel}
+                    onChange={(e) => changeLogLevel(e.target.value as LoggingLevel)}
+                    className="px-2 py-1 border border-gray-300 rounded text-sm"
+                  >
+                    {LOG_LEVELS.map(level => (
+                      <option key={level} value={level}>{level}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={clearOutput}
+                    className="px-3 py-1 bg-gray-500 text-white rounded text-sm hover:bg-gray-600 transition-colors"
+                  >
+                    Clear
+                  </button>
+                </div>
               </div>
               <div className="bg-gray-900 text-green-400 p-4 rounded-lg font-mono text-sm h-64 overflow-y-auto">
                 <pre ref={outputRef} className="whitespace-pre-wrap h-full overflow-y-auto">{output}</pre>
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { MCPError } from '../types/index.js';
+import { LLMError } from '../llm/errors.js';
+import {
+  ValidationError,
+  NotFoundError,
+  PermissionDeniedError,
+  ConflictError,
+  TimeoutError,
+  UpstreamError,
+  RateLimitedError,
+  MCPErrorCode,
+  toErrorData,
+  fromErrorData,
+  toMCPError,
+  toJsonRpcError,
+} from './errors.js';
+
+describe('MCPError subclasses', () => {
+  it('have fixed string and JSON-RPC codes', () => {
+    const cases: Array<[MCPError, string, number]> = [
+      [new ValidationError('bad'), 'VALIDATION_ERROR', ErrorCode.InvalidParams],
+      [new NotFoundError('gone', { resource: 'document', id: 'a' }), 'NOT_FOUND', MCPErrorCode.ResourceNotFound],
+      [new PermissionDeniedError('no'), 'PERMISSION_DENIED', MCPErrorCode.PermissionDenied],
+      [new ConflictError('stale'), 'CONFLICT', MCPErrorCode.Conflict],
+      [new TimeoutError('slow', { timeoutMs: 100 }), 'TIMEOUT', ErrorCode.RequestTimeout],
+      [new UpstreamError('down', { service: 'api' }), 'UPSTREAM_FAILURE', MCPErrorCode.UpstreamFailure],
+      [new RateLimitedError('later'), 'RATE_LIMITED', MCPErrorCode.RateLimited],
+      [new MCPError('plain', 'CUSTOM'), 'CUSTOM', ErrorCode.InternalError],
+    ];
+
+    for (const [error, code, jsonRpcCode] of cases) {
+      expect(error).toBeInstanceOf(MCPError);
+      expect(error.code).toBe(code);
+      expect(error.jsonRpcCode).toBe(jsonRpcCode);
+    }
+  });
+
+  it('builds a ValidationError from a ZodError', () => {
+    const parsed = z.object({ name: z.string(), size: z.number().min(1) }).safeParse({ size: 0 });
+    expect(parsed.success).toBe(false);
+
+    const error = ValidationError.fromZod((parsed as { error: z.ZodError }).error);
+    expect(error.details.issues.map(issue => issue.path)).toEqual(['name', 'size']);
+    expect(error.message).toMatch(/^Invalid input: name: .+; size: .+/);
+  });
+});
+
+describe('error data', () => {
+  it('round-trips typed errors', () => {
+    const error = new ConflictError('Version mismatch', { id: 'doc-1', expected: 'v1', actual: 'v2' });
+    const restored = fromErrorData(JSON.parse(JSON.stringify(toErrorData(error))));
+
+    expect(restored).toBeInstanceOf(ConflictError);
+    expect(restored?.message).toBe('Version mismatch');
+    expect(restored?.details).toEqual({ id: 'doc-1', expected: 'v1', actual: 'v2' });
+  });
+
+  it('keeps unknown codes on a plain MCPError and ignores other values', () => {
+    const restored = fromErrorData({ code: 'TASK_QUOTA_EXCEEDED', message: 'Too many' });
+    expect(restored?.constructor).toBe(MCPError);
+    expect(restored?.code).toBe('TASK_QUOTA_EXCEEDED');
+
+    expect(fromErrorData(undefined)).toBeUndefined();
+    expect(fromErrorData({ code: 1, message: 'x' })).toBeUndefined();
+  });
+});
+
+describe('toMCPError', () => {
+  it('returns MCPErrors unchanged', () => {
+    const error = new NotFoundError('gone', { resource: 'file' });
+    expect(toMCPError(error)).toBe(error);
+  });
+
+  it('maps ZodErrors, SDK errors and LLM errors', () => {
+    const zod = z.string().safeParse(1) as { error: z.ZodError };
+    expect(toMCPError(zod.error)).toBeInstanceOf(ValidationError);
+
+    const typed = new McpError(MCPErrorCode.Conflict, 'stale', { code: 'CONFLICT', message: 'stale' });
+    expect(toMCPError(typed)).toBeInstanceOf(ConflictError);
+    expect(toMCPError(new McpError(ErrorCode.InvalidParams, 'bad'))).toBeInstanceOf(ValidationError);
+    expect(toMCPError(new McpError(ErrorCode.RequestTimeout, 'slow', { timeout: 50 })).details).toEqual({ timeoutMs: 50 });
+
+    const limited = toMCPError(new LLMError('Slow down', {
+      code: 'RATE_LIMITED', provider: 'claude', retryable: true, rateLimited: true, retryAfterMs: 1000,
+    }));
+    expect(limited).toBeInstanceOf(RateLimitedError);
+    expect(limited.details).toEqual({ retryAfterMs: 1000 });
+
+    const failed = toMCPError(new LLMError('Bad gateway', { code: 'INTERNAL_ERROR', provider: 'openai', retryable: true }));
+    expect(failed).toBeInstanceOf(UpstreamError);
+    expect(failed.details).toEqual({ service: 'openai', retryable: true });
+  });
+
+  it('maps anything else to INTERNAL_ERROR', () => {
+    expect(toMCPError(new Error('boom'))).toMatchObject({ code: 'INTERNAL_ERROR', message: 'boom' });
+    expect(toMCPError('boom')).toMatchObject({ code: 'INTERNAL_ERROR', message: 'Unknown error' });
+  });
+});
+
+describe('toJsonRpcError', () => {
+  it('uses the JSON-RPC code and puts the error data in data', () => {
+    const error = toJsonRpcError(new PermissionDeniedError('Read-only', { action: 'write' }));
+
+    expect(error.code).toBe(MCPErrorCode.PermissionDenied);
+    expect(error.data).toEqual({ code: 'PERMISSION_DENIED', message: 'Read-only', details: { action: 'write' } });
+  });
+
+  it('passes SDK errors through', () => {
+    const error = new McpError(ErrorCode.MethodNotFound, 'nope');
+    expect(toJsonRpcError(error)).toBe(error);
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Typed MCP errors
+ *
+ * Each class has a fixed string `code` (what clients branch on) and a fixed
+ * JSON-RPC error code. Thrown from a request handler they become a JSON-RPC
+ * error whose `data` is `{ code, details }`; returned from a tool through
+ * createErrorResponse() they become an `isError` result with the same fields
+ * in `structuredContent.error`. Either form turns back into the typed error
+ * with toMCPError().
+ */
+
+import { ZodError } from 'zod';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { MCPError } from '../types/index.js';
+import { LLMError } from '../llm/errors.js';
+
+/** JSON-RPC codes of the typed errors (server-defined range, -32000 to -32099) */
+export const MCPErrorCode = {
+  ResourceNotFound: -32002,
+  PermissionDenied: -32003,
+  Conflict: -32004,
+  UpstreamFailure: -32005,
+  RateLimited: -32006
+} as const;
+
+/** Wire form of an MCPError, in JSON-RPC `data` or tool `structuredContent.error` */
+export interface MCPErrorData {
+  code: string;
+  message: string;
+  details?: unknown;
+}
+
+export interface ValidationIssue {
+  /** Dotted path of the offending field; '' for the input as a whole */
+  path: string;
+  message: string;
+}
+
+export interface ValidationErrorDetails {
+  issues: ValidationIssue[];
+}
+
+export interface NotFoundErrorDetails {
+  /** Kind of thing that was looked up, e.g. 'document' */
+  resource: string;
+  id?: string;
+}
+
+export interface PermissionDeniedErrorDetails {
+  action?: string;
+  resource?: string;
+}
+
+export interface ConflictErrorDetails {
+  resource?: string;
+  id?: string;
+  /** Version or state the caller expected */
+  expected?: unknown;
+  /** Version or state actually found */
+  actual?: unknown;
+}
+
+export interface TimeoutErrorDetails {
+  timeoutMs: number;
+  operation?: string;
+}
+
+export interface UpstreamErrorDetails {
+  /** Failing dependency, e.g. an LLM provider or API host */
+  service: string;
+  status?: number;
+  retryable?: boolean;
+}
+
+export interface RateLimitedErrorDetails {
+  retryAfterMs?: number;
+  limit?: number;
+}
+
+/**
+ * Input failed validation (JSON-RPC -32602 Invalid params)
+ */
+export class ValidationError extends MCPError {
+  static readonly code = 'VALIDATION_ERROR';
+  override readonly jsonRpcCode: number = ErrorCode.InvalidParams;
+  declare details: ValidationErrorDetails;
+
+  constructor(message: string, details: ValidationErrorDetails = { issues: [] }) {
+    super(message, ValidationError.code, details);
+    this.name = 'ValidationError';
+  }
+
+  static fromZod(error: ZodError, message = 'Invalid input'): ValidationError {
+    const issues = error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }));
+    const summary = issues.map(issue => (issue.path ? `${issue.path}: ${issue.message}` : issue.message)).join('; ');
+    return new ValidationError(summary ? `${message}: ${summary}` : message, { issues });
+  }
+}
+
+/**
+ * Requested resource does not exist (-32002, the MCP "resource not found" code)
+ */
+export class NotFoundError extends MCPError {
+  static readonly code = 'NOT_FOUND';
+  override readonly jsonRpcCode: number = MCPErrorCode.ResourceNotFound;
+  declare details: NotFoundErrorDetails;
+
+  constructor(message: string, details: NotFoundErrorDetails) {
+    super(message, NotFoundError.code, details);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Caller may not perform the operation (-32003)
+ */
+export class PermissionDeniedError extends MCPError {
+  static readonly code = 'PERMISSION_DENIED';
+  override readonly jsonRpcCode: number = MCPErrorCode.PermissionDenied;
+  declare details: PermissionDeniedErrorDetails;
+
+  constructor(message: string, details: PermissionDeniedErrorDetails = {}) {
+    super(message, PermissionDeniedError.code, details);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+/**
+ * Operation clashes with the current state, e.g. a stale version (-32004)
+ */
+export class ConflictError extends MCPError {
+  static readonly code = 'CONFLICT';
+  override readonly jsonRpcCode: number = MCPErrorCode.Conflict;
+  declare details: ConflictErrorDetails;
+
+  constructor(message: string, details: ConflictErrorDetails = {}) {
+    super(message, ConflictError.code, details);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * Operation did not finish in time (-32001, the SDK's request timeout code)
+ */
+export class TimeoutError extends MCPError {
+  static readonly code = 'TIMEOUT';
+  override readonly jsonRpcCode: number = ErrorCode.RequestTimeout;
+  declare details: TimeoutErrorDetails;
+
+  constructor(message: string, details: TimeoutErrorDetails) {
+    super(message, TimeoutError.code, details);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * A dependency the server calls failed (-32005)
+ */
+export class UpstreamError extends MCPError {
+  static readonly code = 'UPSTREAM_FAILURE';
+  override readonly jsonRpcCode: number = MCPErrorCode.UpstreamFailure;
+  declare details: UpstreamErrorDetails;
+
+  constructor(message: string, details: UpstreamErrorDetails) {
+    super(message, UpstreamError.code, details);
+    this.name = 'UpstreamError';
+  }
+}
+
+/**
+ * Too many requests; retry after `details.retryAfterMs` when given (-32006)
+ */
+export class RateLimitedError extends MCPError {
+  static readonly code = 'RATE_LIMITED';
+  override readonly jsonRpcCode: number = MCPErrorCode.RateLimited;
+  declare details: RateLimitedErrorDetails;
+
+  constructor(message: string, details: RateLimitedErrorDetails = {}) {
+    super(message, RateLimitedError.code, details);
+    this.name = 'RateLimitedError';
+  }
+}
+
+const ERROR_CLASSES: Record<string, new (message: string, details: any) => MCPError> = {
+  [ValidationError.code]: ValidationError,
+  [NotFoundError.code]: NotFoundError,
+  [PermissionDeniedError.code]: PermissionDeniedError,
+  [ConflictError.code]: ConflictError,
+  [TimeoutError.code]: TimeoutError,
+  [UpstreamError.code]: UpstreamError,
+  [RateLimitedError.code]: RateLimitedError
+};
+
+export function toErrorData(error: MCPError): MCPErrorData {
+  return {
+    code: error.code,
+    message: error.message,
+    ...(error.details !== undefined && { details: error.details })
+  };
+}
+
+/**
+ * Rebuilds the typed error from its wire form; undefined when `data` isn't one
+ */
+export function fromErrorData(data: unknown): MCPError | undefined {
+  if (typeof data !== 'object' || data === null) {
+    return undefined;
+  }
+  const { code, message, details } = data as Partial<MCPErrorData>;
+  if (typeof code !== 'string' || typeof message !== 'string') {
+    return undefined;
+  }
+  const ErrorClass = ERROR_CLASSES[code];
+  return ErrorClass ? new ErrorClass(message, details) : new MCPError(message, code, details);
+}
+
+/**
+ * Maps any thrown value to an MCPError:
+ *
+ * - MCPErrors are returned as they are
+ * - ZodErrors become ValidationErrors
+ * - SDK McpErrors become the typed error in their `data` if there is one,
+ *   otherwise a ValidationError (-32602) or TimeoutError (-32001) by code
+ * - LLMErrors become RateLimitedErrors or UpstreamErrors
+ * - anything else becomes an MCPError with code 'INTERNAL_ERROR'
+ */
+export function toMCPError(error: unknown): MCPError {
+  if (error instanceof MCPError) {
+    return error;
+  }
+  if (error instanceof ZodError) {
+    return ValidationError.fromZod(error);
+  }
+  if (error instanceof McpError) {
+    const typed = fromErrorData(error.data);
+    if (typed) {
+      return typed;
+    }
+    if (error.code === ErrorCode.InvalidParams) {
+      return new ValidationError(error.message);
+    }
+    if (error.code === ErrorCode.RequestTimeout) {
+      const timeout = (error.data as { timeout?: unknown } | undefined)?.timeout;
+      return new TimeoutError(error.message, { timeoutMs: typeof timeout === 'number' ? timeout : 0 });
+    }
+    return new MCPError(error.message, 'INTERNAL_ERROR', { jsonRpcCode: error.code });
+  }
+  if (error instanceof LLMError) {
+    return error.rateLimited
+      ? new RateLimitedError(error.message, { retryAfterMs: error.retryAfterMs })
+      : new UpstreamError(error.message, { service: error.provider, retryable: error.retryable });
+  }
+  return new MCPError(error instanceof Error ? error.message : 'Unknown error', 'INTERNAL_ERROR');
+}
+
+/**
+ * The JSON-RPC error a request handler should fail with for `error`.
+ * SDK McpErrors are passed through unchanged.
+ */
+export function toJsonRpcError(error: unknown): McpError {
+  if (error instanceof McpError) {
+    return error;
+  }
+  const mapped = toMCPError(error);
+  return new McpError(mapped.jsonRpcCode, mapped.message, toErrorData(mapped));
+}
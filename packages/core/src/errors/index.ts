@@ -0,0 +1,32 @@
+/**
+ * Error taxonomy
+ *
+ * Typed MCPError subclasses with fixed string and JSON-RPC codes, and their
+ * mapping to JSON-RPC errors and tool results.
+ */
+
+export {
+  ValidationError,
+  NotFoundError,
+  PermissionDeniedError,
+  ConflictError,
+  TimeoutError,
+  UpstreamError,
+  RateLimitedError,
+  MCPErrorCode,
+  toErrorData,
+  fromErrorData,
+  toMCPError,
+  toJsonRpcError,
+  type MCPErrorData,
+  type ValidationIssue,
+  type ValidationErrorDetails,
+  type NotFoundErrorDetails,
+  type PermissionDeniedErrorDetails,
+  type ConflictErrorDetails,
+  type TimeoutErrorDetails,
+  type UpstreamErrorDetails,
+  type RateLimitedErrorDetails,
+} from './errors.js';
+
+export { mapMcpErrors, errorFromToolResult } from './mcp.js';
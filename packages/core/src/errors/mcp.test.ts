@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { createErrorResponse } from '../utils/index.js';
+import { MCPError } from '../types/index.js';
+import { NotFoundError, ConflictError, MCPErrorCode, toMCPError } from './errors.js';
+import { mapMcpErrors, errorFromToolResult } from './mcp.js';
+
+describe('mapMcpErrors', () => {
+  let server: McpServer;
+  let client: Client;
+
+  beforeEach(async () => {
+    server = new McpServer({ name: 'test-server', version: '1.0.0' });
+    mapMcpErrors(server.server);
+    server.resource('doc', 'doc://missing', async uri => {
+      throw new NotFoundError(`No document at ${uri.href}`, { resource: 'document', id: uri.href });
+    });
+    server.resource('broken', 'doc://broken', async () => {
+      throw new Error('disk on fire');
+    });
+    server.tool('update', { version: z.number() }, async ({ version }) =>
+      createErrorResponse(new ConflictError('Document changed', { expected: version, actual: version + 1 })));
+
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it('fails requests with the JSON-RPC code of the thrown error', async () => {
+    const error = await client.readResource({ uri: 'doc://missing' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(McpError);
+    expect(error.code).toBe(MCPErrorCode.ResourceNotFound);
+
+    const typed = toMCPError(error);
+    expect(typed).toBeInstanceOf(NotFoundError);
+    expect(typed.details).toEqual({ resource: 'document', id: 'doc://missing' });
+  });
+
+  it('reports other errors as internal errors', async () => {
+    const error = await client.readResource({ uri: 'doc://broken' }).catch(e => e);
+
+    expect(error.code).toBe(-32603);
+    expect(toMCPError(error)).toMatchObject({ code: 'INTERNAL_ERROR', message: 'disk on fire' });
+  });
+
+  it('leaves tool results with typed errors readable by clients', async () => {
+    const result = await client.callTool({ name: 'update', arguments: { version: 1 } });
+
+    const error = errorFromToolResult(result);
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(error?.details).toEqual({ expected: 1, actual: 2 });
+  });
+});
+
+describe('errorFromToolResult', () => {
+  it('returns undefined for successful results', () => {
+    expect(errorFromToolResult({ content: [{ type: 'text', text: 'ok' }] })).toBeUndefined();
+  });
+
+  it('wraps untyped error results', () => {
+    const error = errorFromToolResult(createErrorResponse(new Error('nope'), 'Lookup'));
+
+    expect(error?.constructor).toBe(MCPError);
+    expect(error).toMatchObject({ code: 'TOOL_ERROR', message: 'Lookup: nope' });
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * MCPError mapping for MCP servers and clients
+ */
+
+import type { Protocol } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { MCPError } from '../types/index.js';
+import { fromErrorData, toJsonRpcError } from './errors.js';
+import { wrapRequestHandlers } from '../utils/requestHandlers.js';
+
+/**
+ * Makes errors thrown by request handlers (resources/read, prompts/get, ...)
+ * fail the request with their JSON-RPC code and `{ code, message, details }`
+ * as `data`. Without it every MCPError reaches the client as -32603.
+ *
+ * McpServer turns errors thrown by tools into text-only results before they
+ * get here; tools should return createErrorResponse(error) instead.
+ *
+ * Errors thrown by wrappers added earlier (see wrapRequestHandlers()) are
+ * not mapped.
+ */
+export function mapMcpErrors(protocol: Protocol<any, any, any>): void {
+  wrapRequestHandlers(protocol, handler => async (req, extra) => {
+    try {
+      return await handler(req, extra);
+    } catch (error) {
+      throw toJsonRpcError(error);
+    }
+  });
+}
+
+/**
+ * The error a tool result reports, typed when the tool used
+ * createErrorResponse() with an MCPError; undefined for successful results
+ */
+export function errorFromToolResult(result: {
+  isError?: boolean;
+  content?: unknown;
+  structuredContent?: unknown;
+}): MCPError | undefined {
+  if (!result.isError) {
+    return undefined;
+  }
+  const typed = fromErrorData((result.structuredContent as { error?: unknown } | undefined)?.error);
+  if (typed) {
+    return typed;
+  }
+  const text = Array.isArray(result.content)
+    ? result.content.filter(part => part?.type === 'text').map(part => part.text).join('\n')
+    : '';
+  return new MCPError(text || 'Tool returned an error', 'TOOL_ERROR');
+}
@@ -3,11 +3,37 @@ export * from './types/index.js';
 export * from './utils/index.js';
 export * from './schemas/index.js';
 
+// Export error taxonomy
+export * from './errors/index.js';
+
+// Export tool definition helpers
+export * from './tools/index.js';
+
 // Export task management
 export * from './tasks/index.js';
 
+// Export session-scoped state
+export * from './session/index.js';
+
+// Export server bootstrap
+export * from './server/index.js';
+
+// Export tracing
+export * from './tracing/index.js';
+
+// Export metrics
+export * from './metrics/index.js';
+
 // Export LLM provider system
 export * from './llm/types.js';
 export * from './llm/ProviderFactory.js';
+export * from './llm/retry.js';
+export * from './llm/RateLimiter.js';
+export * from './llm/content.js';
+export * from './llm/structured.js';
+export * from './llm/embeddings.js';
+export * from './llm/ConversationManager.js';
 export * from './llm/providers/ClaudeProvider.js';
-export * from './llm/providers/OpenAIProvider.js';
\ No newline at end of file
+export * from './llm/providers/OpenAIProvider.js';
+export * from './llm/providers/LocalProvider.js';
+export * from './llm/providers/ReplayProvider.js';
\ No newline at end of file
@@ -0,0 +1,154 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  ConversationManager,
+  estimateMessageTokens,
+  estimateConversationTokens,
+  getContextWindow,
+  summarizeWith
+} from './ConversationManager.js';
+import { LocalProvider } from './providers/LocalProvider.js';
+import { Message } from './types.js';
+
+// Each of these costs 29 tokens at 4 chars/token (100 chars + 4 overhead)
+const text = (n: number) => `${n}`.padEnd(100, '.');
+const user = (n: number): Message => ({ role: 'user', content: text(n) });
+const assistant = (n: number): Message => ({ role: 'assistant', content: text(n) });
+const window = (maxContextTokens: number) => ({ maxContextTokens, reserveTokens: 0 });
+
+describe('token estimates', () => {
+  it('should estimate text, tool calls and attachments per provider', () => {
+    const message: Message = { role: 'user', content: 'x'.repeat(350) };
+
+    expect(estimateMessageTokens(message)).toBe(92);
+    expect(estimateMessageTokens(message, 'claude')).toBe(104);
+    expect(estimateMessageTokens({
+      role: 'user',
+      content: [{ type: 'image', source: { type: 'url', url: 'https://example.com/a.png' } }]
+    })).toBe(1004);
+    expect(estimateMessageTokens({
+      role: 'assistant',
+      content: '',
+      toolCalls: [{ id: '1', name: 'read_file', arguments: { path: 'a' } }]
+    })).toBeGreaterThan(4);
+  });
+
+  it('should take the window from the model, falling back to the provider', () => {
+    const provider = new LocalProvider({ name: 'local', mock: true, contextWindow: 32768 });
+
+    expect(getContextWindow(provider)).toEqual({ maxContextTokens: 32768, reserveTokens: 4096, provider: 'local' });
+  });
+});
+
+describe('ConversationManager', () => {
+  it('should return the whole history when it fits', async () => {
+    const conversation = new ConversationManager({ messages: [{ role: 'system', content: 'Be brief' }] });
+    conversation.add(user(1), assistant(1));
+
+    const context = await conversation.getContext(window(1000), [user(2)]);
+
+    expect(context).toEqual([{ role: 'system', content: 'Be brief' }, user(1), assistant(1), user(2)]);
+    expect(conversation.messages).toHaveLength(3);
+  });
+
+  it('should drop the oldest turns but keep system messages', async () => {
+    const system: Message = { role: 'system', content: 'Be brief' };
+    const conversation = new ConversationManager({ messages: [system, user(1), assistant(1), user(2), assistant(2)] });
+
+    const context = await conversation.getContext(window(100), [user(3)]);
+
+    expect(context).toEqual([system, user(2), assistant(2), user(3)]);
+    expect(conversation.messages).toEqual([system, user(2), assistant(2)]);
+    expect(estimateConversationTokens(context)).toBeLessThanOrEqual(100);
+  });
+
+  it('should keep tool calls and their results together and start at a user message', async () => {
+    const toolCall: Message = {
+      role: 'assistant',
+      content: '',
+      toolCalls: [{ id: 'call_1', name: 'read_file', arguments: { path: 'README.md' } }]
+    };
+    const toolResult: Message = { role: 'tool', content: text(0), toolCallId: 'call_1' };
+    const conversation = new ConversationManager({
+      messages: [user(1), toolCall, toolResult, assistant(1), user(2), assistant(2)]
+    });
+
+    // The first turn goes as a whole: request, tool call, tool result and reply
+    const context = await conversation.getContext(window(110));
+
+    expect(context).toEqual([user(2), assistant(2)]);
+  });
+
+  it('should keep the latest turn whole even when it overflows', async () => {
+    const toolCall: Message = {
+      role: 'assistant',
+      content: '',
+      toolCalls: [{ id: 'call_1', name: 'read_file', arguments: {} }]
+    };
+    const toolResult: Message = { role: 'tool', content: text(0), toolCallId: 'call_1' };
+    const conversation = new ConversationManager({ messages: [user(1), toolCall, toolResult] });
+
+    const context = await conversation.getContext(window(60));
+
+    expect(context).toEqual([user(1), toolCall, toolResult]);
+  });
+
+  it('should count reserved output tokens and tool definitions against the window', async () => {
+    const conversation = new ConversationManager({ messages: [user(1), assistant(1)] });
+    const tools = [{ name: 't', description: 'x'.repeat(200), parameters: { type: 'object' as const, properties: {} } }];
+
+    expect(await conversation.getContext({ maxContextTokens: 100, reserveTokens: 0 }, [user(2)])).toHaveLength(3);
+    expect(await conversation.getContext({ maxContextTokens: 100, reserveTokens: 0, tools }, [user(2)])).toEqual([user(2)]);
+  });
+
+  it('should summarize dropped turns into the system message', async () => {
+    const summarizer = vi.fn(async (messages: Message[], previous?: string) =>
+      `${previous ? `${previous} + ` : ''}${messages.length} messages`
+    );
+    const conversation = new ConversationManager({
+      strategy: 'summarize',
+      summarizer,
+      messages: [{ role: 'system', content: 'Be brief' }, user(1), assistant(1), user(2), assistant(2)]
+    });
+
+    const context = await conversation.getContext(window(150), [user(3)]);
+
+    expect(summarizer).toHaveBeenCalledWith([user(1), assistant(1)], undefined);
+    expect(conversation.summary).toBe('2 messages');
+    expect(context[0]).toEqual({ role: 'system', content: 'Be brief\n\nSummary of the earlier conversation:\n2 messages' });
+    expect(context.slice(1)).toEqual([user(2), assistant(2), user(3)]);
+
+    conversation.add(user(3), assistant(3));
+    await conversation.getContext(window(150), [user(4)]);
+    expect(conversation.summary).toBe('2 messages + 2 messages');
+  });
+
+  it('should require a summarizer for the summarize strategy', () => {
+    expect(() => new ConversationManager({ strategy: 'summarize' })).toThrow('requires a summarizer');
+  });
+
+  it('should clear everything but system messages', () => {
+    const conversation = new ConversationManager({ messages: [{ role: 'system', content: 'Be brief' }, user(1)] });
+    conversation.clear();
+    expect(conversation.messages).toEqual([{ role: 'system', content: 'Be brief' }]);
+  });
+});
+
+describe('summarizeWith', () => {
+  it('should ask the LLM for a summary of the transcript', async () => {
+    const complete = vi.fn(async () => ({ content: ' Short summary ', finishReason: 'stop' as const, model: 'm' }));
+
+    const summary = await summarizeWith({ complete })([
+      { role: 'user', content: 'Read the readme' },
+      { role: 'assistant', content: '', toolCalls: [{ id: '1', name: 'read_file', arguments: { path: 'README.md' } }] },
+      { role: 'tool', content: '# Demo', toolCallId: '1' }
+    ], 'Earlier summary');
+
+    expect(summary).toBe('Short summary');
+    const [prompt, options] = complete.mock.calls[0] as unknown as [string, { maxTokens: number }];
+    expect(prompt).toContain('Earlier summary');
+    expect(prompt).toContain('user: Read the readme');
+    expect(prompt).toContain('[called read_file({"path":"README.md"})]');
+    expect(prompt).toContain('tool result: # Demo');
+    expect(options.maxTokens).toBe(512);
+  });
+});
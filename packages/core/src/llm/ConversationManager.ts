@@ -0,0 +1,284 @@
+/**
+ * Conversation history with context-window management
+ */
+
+import {
+  LLMProvider,
+  CompletionOptions,
+  CompletionResponse,
+  Message,
+  ToolDefinition
+} from './types.js';
+import { LLMError } from './errors.js';
+import { countAttachments, getTextContent } from './content.js';
+import { ATTACHMENT_TOKEN_ESTIMATE } from './RateLimiter.js';
+
+/** Approximate characters per token of each provider's tokenizer */
+const CHARS_PER_TOKEN: Record<string, number> = {
+  claude: 3.5,
+  openai: 4,
+  local: 3.5
+};
+const DEFAULT_CHARS_PER_TOKEN = 4;
+/** Role markers and separators each message adds to the prompt */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+/** Summarizing trims history to this share of the budget so it isn't needed again every turn */
+const SUMMARIZE_TARGET_RATIO = 0.75;
+
+export type ContextStrategy = 'truncate' | 'summarize';
+
+/**
+ * Condenses older messages (and the summary of anything before them) into a short text
+ */
+export type Summarizer = (messages: Message[], previousSummary?: string) => Promise<string>;
+
+export interface ConversationOptions {
+  /**
+   * - truncate: drop the oldest turns (default)
+   * - summarize: replace the oldest turns with a running summary
+   */
+  strategy?: ContextStrategy;
+  /** Required for the summarize strategy; see summarizeWith() */
+  summarizer?: Summarizer;
+  /** Initial history, system messages included */
+  messages?: Message[];
+}
+
+/**
+ * Token budget of the model a conversation is sent to
+ */
+export interface ContextWindow {
+  maxContextTokens: number;
+  /** Tokens kept free for the reply (default: 4096) */
+  reserveTokens?: number;
+  /** Provider whose tokenizer to approximate */
+  provider?: string;
+  /** Tool definitions sent with the request, which also take up the window */
+  tools?: ToolDefinition[];
+}
+
+/**
+ * Estimated prompt tokens of one message for a provider
+ */
+export function estimateMessageTokens(message: Message, provider?: string): number {
+  const charsPerToken = (provider && CHARS_PER_TOKEN[provider]) || DEFAULT_CHARS_PER_TOKEN;
+  const chars = getTextContent(message.content).length
+    + (message.toolCalls ? JSON.stringify(message.toolCalls).length : 0);
+  return Math.ceil(chars / charsPerToken)
+    + countAttachments(message.content) * ATTACHMENT_TOKEN_ESTIMATE
+    + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Estimated prompt tokens of a message history for a provider
+ */
+export function estimateConversationTokens(messages: Message[], provider?: string): number {
+  return messages.reduce((total, message) => total + estimateMessageTokens(message, provider), 0);
+}
+
+/**
+ * Context window of a provider's model (or the provider's defaults when the model isn't listed)
+ */
+export function getContextWindow(provider: LLMProvider, model?: string): ContextWindow {
+  const capabilities = provider.models.find(m => m.id === model)?.capabilities ?? provider.capabilities;
+  return {
+    maxContextTokens: capabilities.maxContextTokens,
+    reserveTokens: Math.min(capabilities.maxOutputTokens, 4096),
+    provider: provider.name
+  };
+}
+
+/**
+ * Builds a Summarizer that asks an LLM (a provider or LLMProviderManager) for the summary
+ */
+export function summarizeWith(
+  llm: { complete(prompt: string, options?: CompletionOptions): Promise<CompletionResponse> },
+  options: CompletionOptions = {}
+): Summarizer {
+  return async (messages, previousSummary) => {
+    const transcript = messages.map(formatForSummary).join('\n');
+    const prompt = [
+      'Summarize this conversation so it can continue without the original messages.',
+      'Keep facts, decisions, file names, tool results that matter and open questions. Be concise.',
+      previousSummary ? `\nSummary of what came before:\n${previousSummary}` : '',
+      `\nConversation:\n${transcript}`
+    ].filter(Boolean).join('\n');
+
+    const response = await llm.complete(prompt, { maxTokens: 512, ...options });
+    return response.content.trim();
+  };
+}
+
+/**
+ * Keeps a conversation's history and fits it into a model's context window,
+ * dropping or summarizing the oldest turns when it grows too long.
+ *
+ * History is dropped a turn at a time (a user message and the replies, tool
+ * calls and tool results that follow it), so tool calls are never separated
+ * from their results and the window always starts at a user message.
+ *
+ * @example
+ * ```typescript
+ * const conversation = new ConversationManager({
+ *   strategy: 'summarize',
+ *   summarizer: summarizeWith(manager),
+ *   messages: [{ role: 'system', content: 'You are a helpful assistant.' }],
+ * });
+ *
+ * const question: Message = { role: 'user', content: 'And the second file?' };
+ * const messages = await conversation.getContext(getContextWindow(provider), [question]);
+ * const response = await provider.chatCompletion!({ messages });
+ * conversation.add(question, { role: 'assistant', content: response.content });
+ * ```
+ */
+export class ConversationManager {
+  private history: Message[];
+  private strategy: ContextStrategy;
+  private summarizer?: Summarizer;
+  private runningSummary?: string;
+
+  constructor(options: ConversationOptions = {}) {
+    this.strategy = options.strategy ?? 'truncate';
+    this.summarizer = options.summarizer;
+    this.history = [...(options.messages ?? [])];
+
+    if (this.strategy === 'summarize' && !this.summarizer) {
+      throw new LLMError('The summarize strategy requires a summarizer', {
+        code: 'INVALID_CONFIG',
+        provider: 'none',
+        retryable: false
+      });
+    }
+  }
+
+  /** Messages still in the history (turns dropped or summarized to fit are gone) */
+  get messages(): Message[] {
+    return [...this.history];
+  }
+
+  /** Summary of the turns that no longer fit, if any were summarized */
+  get summary(): string | undefined {
+    return this.runningSummary;
+  }
+
+  /**
+   * Append messages to the history
+   */
+  add(...messages: Message[]): void {
+    this.history.push(...messages);
+  }
+
+  /**
+   * Estimated prompt tokens of the current history
+   */
+  countTokens(provider?: string): number {
+    return estimateConversationTokens(this.withSummary(this.history), provider);
+  }
+
+  /**
+   * Forget everything except the system messages
+   */
+  clear(): void {
+    this.history = this.history.filter(m => m.role === 'system');
+    this.runningSummary = undefined;
+  }
+
+  /**
+   * Messages to send: the history fitted into the window, followed by
+   * `pending` messages (like the new user message) which are counted but
+   * only become history once add()ed.
+   *
+   * Turns that don't fit are removed from the history for good (summarized
+   * first with the summarize strategy). Without pending messages the most
+   * recent turn is always kept, even if it alone overflows the window.
+   */
+  async getContext(window: ContextWindow, pending: Message[] = []): Promise<Message[]> {
+    const { provider } = window;
+    const budget = window.maxContextTokens
+      - (window.reserveTokens ?? 4096)
+      - (window.tools ? Math.ceil(JSON.stringify(window.tools).length / DEFAULT_CHARS_PER_TOKEN) : 0)
+      - estimateConversationTokens(pending, provider);
+
+    const system = this.history.filter(m => m.role === 'system');
+    const turns = groupTurns(this.history.filter(m => m.role !== 'system'));
+    const turnTokens = turns.map(turn => estimateConversationTokens(turn, provider));
+    const target = this.strategy === 'summarize' ? budget * SUMMARIZE_TARGET_RATIO : budget;
+
+    let total = estimateConversationTokens(this.withSummary(system), provider) + sum(turnTokens);
+    if (total <= budget) {
+      return [...this.withSummary(this.history), ...pending];
+    }
+
+    // Keep at least one turn; pending messages may be the only thing left to send
+    const keepAtLeast = pending.length > 0 ? 0 : 1;
+    let dropped = 0;
+    while (dropped < turns.length - keepAtLeast && total > target) {
+      total -= turnTokens[dropped]!;
+      dropped++;
+    }
+
+    const removed = turns.slice(0, dropped).flat();
+    if (this.strategy === 'summarize' && removed.length > 0) {
+      this.runningSummary = await this.summarizer!(removed, this.runningSummary);
+    }
+    this.history = [...system, ...turns.slice(dropped).flat()];
+
+    return [...this.withSummary(this.history), ...pending];
+  }
+
+  /**
+   * Folds the running summary into the first system message, since some
+   * providers only read one
+   */
+  private withSummary(messages: Message[]): Message[] {
+    if (!this.runningSummary) {
+      return messages;
+    }
+
+    const note = `Summary of the earlier conversation:\n${this.runningSummary}`;
+    const index = messages.findIndex(m => m.role === 'system');
+    if (index === -1) {
+      return [{ role: 'system', content: note }, ...messages];
+    }
+
+    const result = [...messages];
+    result[index] = { ...messages[index]!, content: `${getTextContent(messages[index]!.content)}\n\n${note}` };
+    return result;
+  }
+}
+
+/**
+ * Splits messages into turns that are kept or dropped as a unit: a user
+ * message and everything up to the next one. Tool results (role 'tool', or
+ * user messages carrying a toolCallId) don't start a turn, so they always
+ * stay with the tool calls they answer.
+ */
+function groupTurns(messages: Message[]): Message[][] {
+  const turns: Message[][] = [];
+  for (const message of messages) {
+    const startsTurn = message.role === 'user' && message.toolCallId === undefined;
+    const current = turns[turns.length - 1];
+    if (startsTurn || !current) {
+      turns.push([message]);
+    } else {
+      current.push(message);
+    }
+  }
+  return turns;
+}
+
+function formatForSummary(message: Message): string {
+  const text = getTextContent(message.content);
+  if (message.toolCalls?.length) {
+    const calls = message.toolCalls.map(tc => `${tc.name}(${JSON.stringify(tc.arguments)})`).join(', ');
+    return `assistant: ${text ? `${text} ` : ''}[called ${calls}]`;
+  }
+  if (message.role === 'tool' || message.toolCallId) {
+    return `tool result: ${text.length > 500 ? `${text.slice(0, 500)}...` : text}`;
+  }
+  return `${message.role}: ${text}`;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
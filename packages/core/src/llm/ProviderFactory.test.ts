@@ -4,12 +4,16 @@ import {
   LLMProviderManager,
   LLMError
 } from './ProviderFactory.js';
-import { LLMProvider, ProviderConfig, LLMCapabilities, ModelInfo } from './types.js';
+import { LLMProvider, ProviderConfig, LLMCapabilities, ModelInfo, ChatCompletionOptions, StreamingChunk } from './types.js';
+import { LocalConfig } from './providers/LocalProvider.js';
+import { z } from 'zod';
 
 // Mock provider for testing
 class MockProvider extends LLMProvider {
   private _isHealthy = true;
   private _isValidConfig = true;
+  private _failures: Error[] = [];
+  calls = 0;
 
   constructor(config: ProviderConfig) {
     super(config);
@@ -61,6 +65,20 @@ class MockProvider extends LLMProvider {
     };
   }
 
+  override async chatCompletion(options: ChatCompletionOptions) {
+    this.calls++;
+    const failure = this._failures.shift();
+    if (failure) throw failure;
+    return { ...(await this.complete()), model: options.model ?? 'mock-model-1' };
+  }
+
+  override async *chatCompletionStream(): AsyncIterable<StreamingChunk> {
+    this.calls++;
+    const failure = this._failures.shift();
+    if (failure) throw failure;
+    yield* this.stream();
+  }
+
   async *stream() {
     yield { content: 'Mock ' };
     yield { content: 'streaming ' };
@@ -84,6 +102,14 @@ class MockProvider extends LLMProvider {
   setValidConfig(valid: boolean) {
     this._isValidConfig = valid;
   }
+
+  failNext(...errors: Error[]) {
+    this._failures.push(...errors);
+  }
+}
+
+function retryableError(provider = 'mock') {
+  return new LLMError('Service unavailable', { code: 'SERVICE_UNAVAILABLE', provider, retryable: true });
 }
 
 describe('DefaultLLMProviderFactory', () => {
@@ -109,6 +135,7 @@ describe('DefaultLLMProviderFactory', () => {
 
       expect(providers).toContain('claude');
       expect(providers).toContain('openai');
+      expect(providers).toContain('local');
     });
   });
 
@@ -162,6 +189,12 @@ describe('DefaultLLMProviderFactory', () => {
 
       expect(isValid).toBe(false);
     });
+
+    it('should not require an apiKey for local providers', async () => {
+      const local: LocalConfig = { name: 'Local', mock: true };
+
+      expect(await factory.validateProviderConfig('local', local)).toBe(true);
+    });
   });
 });
 
@@ -374,6 +407,202 @@ describe('LLMProviderManager', () => {
   });
 });
 
+describe('LLMProviderManager retries and fallback', () => {
+  let manager: LLMProviderManager;
+  let primary: MockProvider;
+  let secondary: MockProvider;
+  const messages = [{ role: 'user' as const, content: 'Hi' }];
+
+  beforeEach(async () => {
+    const factory = DefaultLLMProviderFactory.getInstance();
+    factory.registerProvider('mock', MockProvider);
+    manager = new LLMProviderManager(factory, {
+      retry: { maxRetries: 2, initialDelayMs: 0, jitter: 0 },
+      fallbackChain: ['primary', 'secondary'],
+    });
+    await manager.addProvider('primary', 'mock', { name: 'Primary', apiKey: 'key' });
+    await manager.addProvider('secondary', 'mock', { name: 'Secondary', apiKey: 'key', defaultModel: 'secondary-model' });
+    primary = manager.getProvider('primary') as MockProvider;
+    secondary = manager.getProvider('secondary') as MockProvider;
+  });
+
+  it('should retry retryable errors on the same provider', async () => {
+    primary.failNext(retryableError(), retryableError());
+
+    const response = await manager.chatCompletion({ messages, model: 'primary-model' });
+
+    expect(response.provider).toBe('primary');
+    expect(response.attempts).toBe(3);
+    expect(response.model).toBe('primary-model');
+    expect(secondary.calls).toBe(0);
+  });
+
+  it('should fall back when retries are exhausted and use the fallback default model', async () => {
+    primary.failNext(retryableError(), retryableError(), retryableError());
+
+    const response = await manager.chatCompletion({ messages, model: 'primary-model' });
+
+    expect(response.provider).toBe('secondary');
+    expect(response.model).toBe('secondary-model');
+    expect(primary.calls).toBe(3);
+  });
+
+  it('should not retry non-retryable errors but still fall back', async () => {
+    primary.failNext(new LLMError('Bad key', { code: 'INVALID_API_KEY', provider: 'mock', retryable: false }));
+
+    const response = await manager.chatCompletion({ messages });
+
+    expect(primary.calls).toBe(1);
+    expect(response.provider).toBe('secondary');
+  });
+
+  it('should honor per-provider retryAttempts', async () => {
+    await manager.addProvider('single', 'mock', { name: 'Single', apiKey: 'key', retryAttempts: 0 });
+    const single = manager.getProvider('single') as MockProvider;
+    single.failNext(retryableError());
+
+    const response = await manager.chatCompletion({ messages }, { provider: 'single' });
+
+    expect(single.calls).toBe(1);
+    expect(response.provider).toBe('primary');
+  });
+
+  it('should rethrow the original error when fallback is disabled', async () => {
+    primary.failNext(retryableError(), retryableError(), retryableError());
+
+    await expect(manager.chatCompletion({ messages }, { fallback: false })).rejects.toMatchObject({
+      code: 'SERVICE_UNAVAILABLE',
+    });
+  });
+
+  it('should summarize errors when every provider fails', async () => {
+    primary.failNext(retryableError(), retryableError(), retryableError());
+    secondary.failNext(retryableError(), retryableError(), retryableError());
+
+    await expect(manager.chatCompletion({ messages })).rejects.toMatchObject({
+      code: 'ALL_PROVIDERS_FAILED',
+      retryable: true,
+    });
+  });
+
+  it('should route getProvider to the fallback while the primary cools down', async () => {
+    primary.failNext(retryableError(), retryableError(), retryableError());
+    await manager.chatCompletion({ messages });
+
+    expect(manager.getProvider()).toBe(secondary);
+    expect(manager.getProvider('primary')).toBe(secondary);
+  });
+
+  it('should not send the requested model to the fallback while the requested provider cools down', async () => {
+    primary.failNext(retryableError(), retryableError(), retryableError());
+    await manager.chatCompletion({ messages });
+
+    const response = await manager.chatCompletion({ messages, model: 'primary-model' });
+
+    expect(response.provider).toBe('secondary');
+    expect(response.model).toBe('secondary-model');
+  });
+
+  it('should fall back for streams that fail before the first chunk', async () => {
+    primary.failNext(retryableError(), retryableError(), retryableError());
+
+    const chunks: StreamingChunk[] = [];
+    for await (const chunk of manager.chatCompletionStream({ messages })) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.map(c => c.content).join('')).toBe('Mock streaming response');
+    expect(chunks.every(c => c.provider === 'secondary')).toBe(true);
+  });
+
+  it('should fall back for structured completions that fail validation', async () => {
+    const local: LocalConfig = { name: 'Local', mock: true };
+    await manager.addProvider('structured', 'local', local);
+    manager.setFallbackChain(['primary', 'structured']);
+
+    const response = await manager.completeStructured('Hi', z.object({ status: z.enum(['ok', 'error']) }), {
+      maxValidationRetries: 0
+    });
+
+    expect(response.provider).toBe('structured');
+    expect(response.data).toEqual({ status: 'ok' });
+    expect(primary.calls).toBe(1);
+  });
+
+  it('should embed with the first provider that supports embeddings', async () => {
+    const local: LocalConfig = { name: 'Local', mock: true, defaultModel: 'llama3.2' };
+    await manager.addProvider('embedder', 'local', local);
+    manager.setFallbackChain(['primary', 'embedder']);
+
+    const response = await manager.embed(['text']);
+
+    expect(response.provider).toBe('embedder');
+    expect(response.model).toBe('hashing-256');
+    expect(response.embeddings[0]).toHaveLength(256);
+  });
+
+  it('should skip providers that cannot read attachments without cooling them down', async () => {
+    const local: LocalConfig = { name: 'Local', mock: true };
+    await manager.addProvider('vision', 'local', local);
+    manager.setFallbackChain(['primary', 'vision']);
+    const withImage = [{
+      role: 'user' as const,
+      content: [
+        { type: 'text' as const, text: 'What is this?' },
+        { type: 'image' as const, source: { type: 'url' as const, url: 'https://example.com/cat.png' } }
+      ]
+    }];
+
+    const response = await manager.chatCompletion({ messages: withImage });
+
+    expect(response.provider).toBe('vision');
+    expect(response.content).toBe('Mock response to: What is this? (with 1 attachment)');
+    expect(primary.calls).toBe(0);
+    expect(manager.getProvider()).toBe(primary);
+  });
+
+  it('should reject attachments the only candidate cannot read', async () => {
+    const withDocument = [{
+      role: 'user' as const,
+      content: [{ type: 'document' as const, source: { type: 'base64' as const, mediaType: 'application/pdf', data: 'JVBERi0=' } }]
+    }];
+
+    await expect(manager.chatCompletion({ messages: withDocument }, { fallback: false })).rejects.toMatchObject({
+      code: 'UNSUPPORTED_CONTENT',
+      retryable: false,
+      details: { unsupported: ['document'] },
+    });
+    expect(primary.calls).toBe(0);
+  });
+
+  it('should skip providers that only read inline documents', async () => {
+    class InlineDocumentProvider extends MockProvider {
+      override get capabilities(): LLMCapabilities {
+        return { ...super.capabilities, inputFormats: ['text', 'document'] };
+      }
+    }
+    DefaultLLMProviderFactory.getInstance().registerProvider('inline-documents', InlineDocumentProvider);
+    await manager.addProvider('inline', 'inline-documents', { name: 'Inline', apiKey: 'key' });
+    const local: LocalConfig = { name: 'Local', mock: true };
+    await manager.addProvider('fetching', 'local', local);
+    manager.setFallbackChain(['inline', 'fetching']);
+    const inline = manager.getProvider('inline') as InlineDocumentProvider;
+    const withDocumentUrl = [{
+      role: 'user' as const,
+      content: [{ type: 'document' as const, source: { type: 'url' as const, url: 'https://example.com/report.pdf' } }]
+    }];
+
+    await expect(manager.chatCompletion({ messages: withDocumentUrl }, { provider: 'inline', fallback: false })).rejects.toMatchObject({
+      code: 'UNSUPPORTED_CONTENT',
+      details: { unsupported: ['document URL'] },
+    });
+    const response = await manager.chatCompletion({ messages: withDocumentUrl }, { provider: 'inline' });
+
+    expect(response.provider).toBe('fetching');
+    expect(inline.calls).toBe(0);
+  });
+});
+
 describe('LLMError', () => {
   it('should create error with all properties', () => {
     const error = new LLMError('Test error', {
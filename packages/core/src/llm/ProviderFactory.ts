@@ -6,10 +6,29 @@ import {
   LLMProvider, 
   LLMProviderFactory, 
   ProviderConfig, 
-  ProviderType
+  ProviderType,
+  ChatCompletionOptions,
+  CompletionOptions,
+  CompletionResponse,
+  StreamingChunk,
+  UsageStats,
+  Message,
+  EmbeddingOptions,
+  EmbeddingResponse
 } from './types.js';
+import type { ZodType, ZodTypeDef } from 'zod';
+import { traceProvider } from '../tracing/llm.js';
+import { meterProvider } from '../metrics/llm.js';
 import { ClaudeProvider } from './providers/ClaudeProvider.js';
 import { OpenAIProvider } from './providers/OpenAIProvider.js';
+import { LocalProvider } from './providers/LocalProvider.js';
+import { ReplayProvider } from './providers/ReplayProvider.js';
+import { DEFAULT_RETRY_POLICY, RetryPolicy, computeBackoffDelay, isRetryableError, sleep } from './retry.js';
+import { LLMError } from './errors.js';
+import { getLastUserText, getUnsupportedInputFormats, hasDocumentUrls } from './content.js';
+import { StructuredOptions, StructuredResponse } from './structured.js';
+
+export { LLMError };
 
 export class DefaultLLMProviderFactory implements LLMProviderFactory {
   private static instance: DefaultLLMProviderFactory;
@@ -29,6 +48,8 @@ export class DefaultLLMProviderFactory implements LLMProviderFactory {
   private registerDefaultProviders(): void {
     this.providers.set('claude', ClaudeProvider);
     this.providers.set('openai', OpenAIProvider);
+    this.providers.set('local', LocalProvider);
+    this.providers.set('replay', ReplayProvider);
   }
 
   /**
@@ -79,8 +100,8 @@ export class DefaultLLMProviderFactory implements LLMProviderFactory {
    */
   async validateProviderConfig(type: string, config: ProviderConfig): Promise<boolean> {
     try {
-      // Ensure apiKey is required for validation
-      if (!config.apiKey) {
+      // Local servers usually run without an API key
+      if (!config.apiKey && type !== 'local') {
         return false;
       }
       const provider = this.createProvider(type, config);
@@ -91,16 +112,50 @@ export class DefaultLLMProviderFactory implements LLMProviderFactory {
   }
 }
 
+export interface LLMProviderManagerOptions {
+  /** Retry behaviour for retryable errors (merged over DEFAULT_RETRY_POLICY) */
+  retry?: Partial<RetryPolicy>;
+  /** Provider names to try, in order, when the requested provider fails */
+  fallbackChain?: string[];
+  /** How long a provider that exhausted its retries is skipped by getProvider() (default: 30s) */
+  failureCooldownMs?: number;
+}
+
+export interface ProviderRouting {
+  /** Provider to try first (defaults to the default provider) */
+  provider?: string;
+  /** Try the fallback chain when the provider fails (default: true) */
+  fallback?: boolean;
+}
+
 /**
  * Provider Manager for handling multiple providers and switching between them
+ *
+ * @example
+ * ```typescript
+ * const manager = new LLMProviderManager(undefined, {
+ *   retry: { maxRetries: 3 },
+ *   fallbackChain: ['claude', 'openai', 'local'],
+ * });
+ * const response = await manager.chatCompletion({ messages });
+ * console.log(response.provider); // e.g. 'openai' if Claude was down
+ * ```
  */
 export class LLMProviderManager {
   private providers: Map<string, LLMProvider> = new Map();
+  private providerConfigs: Map<string, ProviderConfig> = new Map();
   private factory: LLMProviderFactory;
   private defaultProvider?: string;
+  private retryPolicy: RetryPolicy;
+  private fallbackChain: string[];
+  private failureCooldownMs: number;
+  private failedUntil: Map<string, number> = new Map();
 
-  constructor(factory?: LLMProviderFactory) {
+  constructor(factory?: LLMProviderFactory, options: LLMProviderManagerOptions = {}) {
     this.factory = factory || DefaultLLMProviderFactory.getInstance();
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+    this.fallbackChain = options.fallbackChain ?? [];
+    this.failureCooldownMs = options.failureCooldownMs ?? 30000;
   }
 
   /**
@@ -124,7 +179,8 @@ export class LLMProviderManager {
         });
       }
 
-      this.providers.set(name, provider);
+      this.providers.set(name, traceProvider(meterProvider(provider)));
+      this.providerConfigs.set(name, config);
       
       // Set as default if it's the first provider
       if (!this.defaultProvider) {
@@ -145,6 +201,8 @@ export class LLMProviderManager {
    */
   removeProvider(name: string): void {
     this.providers.delete(name);
+    this.providerConfigs.delete(name);
+    this.failedUntil.delete(name);
     
     // Update default if removed
     if (this.defaultProvider === name) {
@@ -154,7 +212,11 @@ export class LLMProviderManager {
   }
 
   /**
-   * Get a provider by name
+   * Get a provider by name.
+   *
+   * When the requested provider is missing or recently exhausted its
+   * retries, the first healthy provider in the fallback chain is returned
+   * instead.
    */
   getProvider(name?: string): LLMProvider {
     const providerName = name || this.defaultProvider;
@@ -167,6 +229,15 @@ export class LLMProviderManager {
       });
     }
 
+    if (!this.providers.has(providerName) || this.isCoolingDown(providerName)) {
+      const fallback = this.fallbackChain.find(
+        candidate => candidate !== providerName && this.providers.has(candidate) && !this.isCoolingDown(candidate)
+      );
+      if (fallback) {
+        return this.providers.get(fallback)!;
+      }
+    }
+
     const provider = this.providers.get(providerName);
     if (!provider) {
       throw new LLMError(`Provider not found: ${providerName}`, {
@@ -193,6 +264,143 @@ export class LLMProviderManager {
     this.defaultProvider = name;
   }
 
+  /**
+   * Set the ordered list of providers to fall back to
+   */
+  setFallbackChain(names: string[]): void {
+    this.fallbackChain = [...names];
+  }
+
+  /**
+   * Get the ordered list of fallback providers
+   */
+  getFallbackChain(): string[] {
+    return [...this.fallbackChain];
+  }
+
+  /**
+   * Generate a completion, retrying and falling back across providers
+   */
+  async complete(
+    prompt: string,
+    options: CompletionOptions & { model?: string } = {},
+    routing: ProviderRouting = {}
+  ): Promise<CompletionResponse> {
+    return this.runWithFallback(routing, options.model, [], (provider, model) =>
+      provider.complete(prompt, { ...options, model } as CompletionOptions)
+    );
+  }
+
+  /**
+   * Generate a JSON value validated against a Zod schema, retrying and
+   * falling back across providers like chatCompletion
+   */
+  async completeStructured<T>(
+    prompt: string,
+    schema: ZodType<T, ZodTypeDef, unknown>,
+    options: StructuredOptions = {},
+    routing: ProviderRouting = {}
+  ): Promise<StructuredResponse<T>> {
+    return this.runWithFallback(routing, options.model, [], (provider, model) =>
+      provider.completeStructured(prompt, schema, { ...options, model })
+    );
+  }
+
+  /**
+   * Embed texts with the first provider in the chain that supports embeddings.
+   * Vectors from different models aren't comparable, so callers storing them
+   * should keep the response's model alongside.
+   */
+  async embed(
+    texts: string[],
+    options: EmbeddingOptions = {},
+    routing: ProviderRouting = {}
+  ): Promise<EmbeddingResponse> {
+    return this.runWithFallback(routing, options.model, [], (provider, model, name) => {
+      if (!provider.embed) {
+        throw new LLMError(`Provider ${name} does not support embeddings`, {
+          code: 'UNSUPPORTED',
+          provider: provider.name,
+          retryable: false
+        });
+      }
+      // Fallbacks get their configured chat model here; let them use their default embedding model instead
+      return provider.embed(texts, { ...options, model: model === options.model ? model : undefined });
+    });
+  }
+
+  /**
+   * Generate a chat completion, retrying and falling back across providers.
+   * The response's `provider` field names the provider that answered.
+   */
+  async chatCompletion(
+    options: ChatCompletionOptions,
+    routing: ProviderRouting = {}
+  ): Promise<CompletionResponse> {
+    return this.runWithFallback(routing, options.model, options.messages, (provider, model, name) => {
+      if (!provider.chatCompletion) {
+        throw new LLMError(`Provider ${name} does not support chat completion`, {
+          code: 'UNSUPPORTED',
+          provider: provider.name,
+          retryable: false
+        });
+      }
+      return provider.chatCompletion({ ...options, model });
+    });
+  }
+
+  /**
+   * Stream a chat completion with retries and fallback. A provider is only
+   * retried or replaced if it fails before producing its first chunk.
+   */
+  async *chatCompletionStream(
+    options: ChatCompletionOptions,
+    routing: ProviderRouting = {}
+  ): AsyncIterable<StreamingChunk> {
+    const candidates = this.resolveCandidates(routing);
+    const errors: { provider: string; error: unknown }[] = [];
+
+    for (const name of candidates) {
+      const provider = this.providers.get(name)!;
+      const model = this.modelFor(name, routing, options.model);
+      const maxRetries = this.getMaxRetries(name);
+
+      const unsupported = this.checkContentSupport(name, provider, options.messages);
+      if (unsupported) {
+        errors.push({ provider: name, error: unsupported });
+        continue;
+      }
+
+      for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        if (attempt > 0) {
+          await sleep(this.getRetryDelay(attempt, errors[errors.length - 1]?.error));
+        }
+
+        let started = false;
+        try {
+          const stream = provider.chatCompletionStream
+            ? provider.chatCompletionStream({ ...options, model })
+            : provider.stream(getLastUserText(options.messages), { ...options, model } as CompletionOptions);
+
+          for await (const chunk of stream) {
+            started = true;
+            yield { ...chunk, provider: name };
+          }
+          this.failedUntil.delete(name);
+          return;
+        } catch (error) {
+          if (started) throw error;
+          errors.push({ provider: name, error });
+          if (!isRetryableError(error)) break;
+        }
+      }
+
+      this.failedUntil.set(name, Date.now() + this.failureCooldownMs);
+    }
+
+    throw this.combineErrors(errors);
+  }
+
   /**
    * Get the default provider name
    */
@@ -230,6 +438,19 @@ export class LLMProviderManager {
     return healthResults;
   }
 
+  /**
+   * Get usage counters for every provider that reports them
+   */
+  async getUsage(): Promise<Record<string, UsageStats>> {
+    const usage: Record<string, UsageStats> = {};
+    for (const [name, provider] of this.providers) {
+      if (provider.getUsage) {
+        usage[name] = await provider.getUsage();
+      }
+    }
+    return usage;
+  }
+
   /**
    * Get provider capabilities
    */
@@ -242,6 +463,150 @@ export class LLMProviderManager {
     };
   }
 
+  /**
+   * Runs a call against each candidate provider in turn, retrying
+   * retryable errors with backoff before moving to the next provider
+   */
+  private async runWithFallback<R extends { provider?: string; attempts?: number }>(
+    routing: ProviderRouting,
+    requestedModel: string | undefined,
+    messages: Message[],
+    call: (provider: LLMProvider, model: string | undefined, name: string) => Promise<R>
+  ): Promise<R> {
+    const candidates = this.resolveCandidates(routing);
+    const errors: { provider: string; error: unknown }[] = [];
+    let attempts = 0;
+
+    for (const name of candidates) {
+      const provider = this.providers.get(name)!;
+      const model = this.modelFor(name, routing, requestedModel);
+      const maxRetries = this.getMaxRetries(name);
+
+      // Providers that can't read the attachments are skipped without a cooldown
+      const unsupported = this.checkContentSupport(name, provider, messages);
+      if (unsupported) {
+        errors.push({ provider: name, error: unsupported });
+        continue;
+      }
+
+      for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        if (attempt > 0) {
+          await sleep(this.getRetryDelay(attempt, errors[errors.length - 1]?.error));
+        }
+
+        attempts++;
+        try {
+          const response = await call(provider, model, name);
+          this.failedUntil.delete(name);
+          return { ...response, provider: name, attempts };
+        } catch (error) {
+          errors.push({ provider: name, error });
+          if (!isRetryableError(error)) break;
+        }
+      }
+
+      this.failedUntil.set(name, Date.now() + this.failureCooldownMs);
+    }
+
+    throw this.combineErrors(errors);
+  }
+
+  /**
+   * The requested model only makes sense for the requested provider, which
+   * is not necessarily the first candidate while it cools down; every other
+   * provider uses its default model
+   */
+  private modelFor(name: string, routing: ProviderRouting, requestedModel: string | undefined): string | undefined {
+    const requested = routing.provider || this.defaultProvider;
+    return name === requested ? requestedModel : this.providerConfigs.get(name)?.defaultModel;
+  }
+
+  /**
+   * Orders the providers to try: the requested one, then the fallback
+   * chain, with providers in failure cooldown moved to the end
+   */
+  private resolveCandidates(routing: ProviderRouting): string[] {
+    const requested = routing.provider || this.defaultProvider;
+    if (!requested) {
+      throw new LLMError('No provider specified and no default provider set', {
+        code: 'NO_PROVIDER',
+        provider: 'none',
+        retryable: false
+      });
+    }
+
+    const names = routing.fallback === false
+      ? [requested]
+      : [requested, ...this.fallbackChain.filter(name => name !== requested)];
+    const available = names.filter(name => this.providers.has(name));
+
+    if (available.length === 0) {
+      throw new LLMError(`Provider not found: ${requested}`, {
+        code: 'PROVIDER_NOT_FOUND',
+        provider: requested,
+        retryable: false
+      });
+    }
+
+    return [
+      ...available.filter(name => !this.isCoolingDown(name)),
+      ...available.filter(name => this.isCoolingDown(name)),
+    ];
+  }
+
+  private checkContentSupport(name: string, provider: LLMProvider, messages: Message[]): LLMError | undefined {
+    const unsupported: string[] = getUnsupportedInputFormats(messages, provider.capabilities);
+    if (!unsupported.includes('document') && !provider.capabilities.documentUrls && hasDocumentUrls(messages)) {
+      unsupported.push('document URL');
+    }
+    if (unsupported.length === 0) {
+      return undefined;
+    }
+    return new LLMError(`Provider ${name} does not accept ${unsupported.join(', ')} content`, {
+      code: 'UNSUPPORTED_CONTENT',
+      provider: provider.name,
+      retryable: false,
+      details: { unsupported }
+    });
+  }
+
+  private getMaxRetries(name: string): number {
+    return this.providerConfigs.get(name)?.retryAttempts ?? this.retryPolicy.maxRetries;
+  }
+
+  private getRetryDelay(retry: number, lastError: unknown): number {
+    const retryAfterMs = lastError instanceof LLMError ? lastError.retryAfterMs : undefined;
+    return computeBackoffDelay(retry, this.retryPolicy, retryAfterMs);
+  }
+
+  private isCoolingDown(name: string): boolean {
+    const until = this.failedUntil.get(name);
+    return until !== undefined && until > Date.now();
+  }
+
+  /**
+   * Rethrows a single provider's error as-is, or summarizes failures across the chain
+   */
+  private combineErrors(errors: { provider: string; error: unknown }[]): unknown {
+    const providers = Array.from(new Set(errors.map(e => e.provider)));
+    const last = errors[errors.length - 1]?.error;
+    if (providers.length <= 1) {
+      return last;
+    }
+
+    return new LLMError(`All providers failed: ${providers.join(', ')}`, {
+      code: 'ALL_PROVIDERS_FAILED',
+      provider: providers.join(','),
+      retryable: isRetryableError(last),
+      rateLimited: last instanceof LLMError ? last.rateLimited : undefined,
+      details: errors.map(({ provider, error }) => ({
+        provider,
+        code: error instanceof LLMError ? error.code : undefined,
+        message: error instanceof Error ? error.message : String(error)
+      }))
+    });
+  }
+
   /**
    * Auto-select best provider for a task
    */
@@ -282,31 +647,3 @@ export class LLMProviderManager {
     return candidates[0]?.[0];
   }
 }
-
-// LLM Error class
-export class LLMError extends Error {
-  public code: string;
-  public provider: string;
-  public model?: string;
-  public retryable: boolean;
-  public rateLimited?: boolean;
-  public details?: any;
-
-  constructor(message: string, options: {
-    code: string;
-    provider: string;
-    model?: string;
-    retryable: boolean;
-    rateLimited?: boolean;
-    details?: any;
-  }) {
-    super(message);
-    this.name = 'LLMError';
-    this.code = options.code;
-    this.provider = options.provider;
-    this.model = options.model;
-    this.retryable = options.retryable;
-    this.rateLimited = options.rateLimited;
-    this.details = options.details;
-  }
-}
\ No newline at end of file
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RateLimiter, TokenBucket, estimateCost, estimatePromptTokens } from './RateLimiter.js';
+import { LLMError } from './ProviderFactory.js';
+
+describe('TokenBucket', () => {
+  it('should start full and refill over time', () => {
+    let now = 0;
+    const bucket = new TokenBucket(60, 60, () => now);
+
+    expect(bucket.reserve(60)).toBe(0);
+    expect(bucket.reserve(1)).toBe(1000);
+
+    now = 30000;
+    expect(bucket.available).toBeCloseTo(29);
+  });
+
+  it('should never refill past capacity', () => {
+    let now = 0;
+    const bucket = new TokenBucket(10, 60, () => now);
+    now = 600000;
+    expect(bucket.available).toBe(10);
+  });
+});
+
+describe('RateLimiter', () => {
+  let now: number;
+  const clock = () => now;
+
+  beforeEach(() => {
+    now = Date.parse('2026-01-01T12:00:00.000Z');
+    vi.useFakeTimers({ now });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should let requests through while under the per-minute limit', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 2 }, clock);
+
+    await limiter.acquire(10, 'test');
+    await limiter.acquire(10, 'test');
+
+    expect(limiter.getUsage().requestsToday).toBe(2);
+  });
+
+  it('should make requests over the limit wait for the bucket to refill', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 1 }, clock);
+    await limiter.acquire(10, 'test');
+
+    let acquired = false;
+    const pending = limiter.acquire(10, 'test').then(() => (acquired = true));
+
+    await vi.advanceTimersByTimeAsync(59000);
+    expect(acquired).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await pending;
+    expect(acquired).toBe(true);
+  });
+
+  it('should fail with a retryable RATE_LIMITED error when the wait is too long', async () => {
+    const limiter = new RateLimiter({ tokensPerMinute: 1000, maxWaitMs: 1000 }, clock);
+    await limiter.acquire(1000, 'test');
+
+    const error = await limiter.acquire(500, 'test').catch(e => e);
+    expect(error).toBeInstanceOf(LLMError);
+    expect(error).toMatchObject({ code: 'RATE_LIMITED', retryable: true, rateLimited: true, retryAfterMs: 30000 });
+  });
+
+  it('should charge the token bucket for actual usage', async () => {
+    const limiter = new RateLimiter({ tokensPerMinute: 1000, maxWaitMs: 0 }, clock);
+    await limiter.acquire(100, 'test');
+    limiter.record({ promptTokens: 100, completionTokens: 900, totalTokens: 1000 }, undefined, 100);
+
+    await expect(limiter.acquire(100, 'test')).rejects.toMatchObject({ code: 'RATE_LIMITED' });
+  });
+
+  it('should enforce the daily token budget', async () => {
+    const limiter = new RateLimiter({ dailyTokenBudget: 1000 }, clock);
+    await limiter.acquire(100, 'test');
+    limiter.record({ promptTokens: 100, completionTokens: 800, totalTokens: 900 });
+
+    const error = await limiter.acquire(200, 'test').catch(e => e);
+    expect(error).toMatchObject({ code: 'BUDGET_EXCEEDED', retryable: false, provider: 'test' });
+    expect(error.details).toMatchObject({ budget: 1000, used: 900, resetsAt: '2026-01-02T00:00:00.000Z' });
+    expect(error.retryAfterMs).toBe(12 * 3600 * 1000);
+    expect(limiter.getUsage().remainingQuota).toBe(100);
+  });
+
+  it('should enforce the daily cost budget', async () => {
+    const limiter = new RateLimiter({ dailyCostBudget: 0.01 }, clock);
+    const pricing = { input: 0.003, output: 0.015 };
+    await limiter.acquire(1000, 'test');
+    limiter.record({ promptTokens: 1000, completionTokens: 1000, totalTokens: 2000 }, pricing);
+
+    expect(limiter.getUsage()).toMatchObject({ costToday: 0.018, remainingBudget: 0 });
+    await expect(limiter.acquire(10, 'test')).rejects.toMatchObject({ code: 'BUDGET_EXCEEDED' });
+  });
+
+  it('should reset daily counters at UTC midnight', async () => {
+    const limiter = new RateLimiter({ dailyTokenBudget: 1000 }, clock);
+    await limiter.acquire(100, 'test');
+    limiter.record({ promptTokens: 500, completionTokens: 500, totalTokens: 1000 });
+
+    now = Date.parse('2026-01-02T00:00:01.000Z');
+
+    expect(limiter.getUsage()).toMatchObject({ requestsToday: 0, tokensToday: 0, remainingQuota: 1000 });
+    await expect(limiter.acquire(100, 'test')).resolves.toBeUndefined();
+  });
+});
+
+describe('estimates', () => {
+  it('should estimate prompt tokens from messages and tools', () => {
+    const tokens = estimatePromptTokens({
+      messages: [{ role: 'user', content: 'x'.repeat(400) }],
+    });
+    expect(tokens).toBe(100);
+  });
+
+  it('should price prompt and completion tokens separately', () => {
+    const cost = estimateCost({ promptTokens: 2000, completionTokens: 1000, totalTokens: 3000 }, { input: 0.001, output: 0.002 });
+    expect(cost).toBeCloseTo(0.004);
+    expect(estimateCost({ promptTokens: 1, completionTokens: 1, totalTokens: 2 })).toBe(0);
+  });
+});
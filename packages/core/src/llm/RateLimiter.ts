@@ -0,0 +1,247 @@
+/**
+ * Client-side rate limiting and daily budgets for LLM providers
+ */
+
+import { ChatCompletionOptions, CompletionResponse, ModelInfo, ProviderConfig, UsageStats } from './types.js';
+import { LLMError } from './errors.js';
+import { sleep } from './retry.js';
+import { countAttachments, getTextContent } from './content.js';
+
+export interface RateLimiterConfig {
+  /** Maximum requests per minute */
+  requestsPerMinute?: number;
+  /** Maximum tokens (prompt + completion) per minute */
+  tokensPerMinute?: number;
+  /** Maximum tokens per UTC day */
+  dailyTokenBudget?: number;
+  /** Maximum spend per UTC day, in the currency of ModelInfo.costPer1kTokens */
+  dailyCostBudget?: number;
+  /** Longest a request may wait for the rate limit before failing (default: 60s) */
+  maxWaitMs?: number;
+}
+
+type TokenUsage = NonNullable<CompletionResponse['usage']>;
+
+/**
+ * Token bucket that refills continuously. Reservations may drive the
+ * balance negative, which makes later callers wait in arrival order.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(
+    private readonly capacity: number,
+    private readonly refillPerMinute: number,
+    private readonly now: () => number = Date.now
+  ) {
+    this.tokens = capacity;
+    this.lastRefill = now();
+  }
+
+  /**
+   * Reserves `amount` tokens and returns how long (ms) the caller must wait
+   * before the reservation is covered
+   */
+  reserve(amount: number): number {
+    this.refill();
+    this.tokens -= amount;
+    return this.tokens >= 0 ? 0 : Math.ceil((-this.tokens / this.refillPerMinute) * 60000);
+  }
+
+  /**
+   * Returns tokens to the bucket (negative amounts take more)
+   */
+  release(amount: number): void {
+    this.refill();
+    this.tokens = Math.min(this.capacity, this.tokens + amount);
+  }
+
+  get available(): number {
+    this.refill();
+    return this.tokens;
+  }
+
+  private refill(): void {
+    const now = this.now();
+    const elapsed = now - this.lastRefill;
+    this.lastRefill = now;
+    this.tokens = Math.min(this.capacity, this.tokens + (elapsed / 60000) * this.refillPerMinute);
+  }
+}
+
+/**
+ * Rate limiter and usage ledger shared by one or more providers.
+ *
+ * Pass the same instance as `ProviderConfig.rateLimiter` to make several
+ * providers draw from one set of limits and budgets.
+ */
+export class RateLimiter {
+  private requestBucket?: TokenBucket;
+  private tokenBucket?: TokenBucket;
+  private day: string;
+  private requestsToday = 0;
+  private tokensToday = 0;
+  private costToday = 0;
+
+  constructor(
+    private readonly config: RateLimiterConfig = {},
+    private readonly now: () => number = Date.now
+  ) {
+    if (config.requestsPerMinute) {
+      this.requestBucket = new TokenBucket(config.requestsPerMinute, config.requestsPerMinute, now);
+    }
+    if (config.tokensPerMinute) {
+      this.tokenBucket = new TokenBucket(config.tokensPerMinute, config.tokensPerMinute, now);
+    }
+    this.day = utcDay(now());
+  }
+
+  /**
+   * Builds a limiter from the rate limit and budget fields of a provider config
+   */
+  static fromProviderConfig(config: ProviderConfig): RateLimiter {
+    return config.rateLimiter ?? new RateLimiter({
+      requestsPerMinute: config.rateLimitRpm,
+      tokensPerMinute: config.rateLimitTpm,
+      dailyTokenBudget: config.dailyTokenBudget,
+      dailyCostBudget: config.dailyCostBudget,
+    });
+  }
+
+  /**
+   * Waits until a request estimated at `estimatedTokens` may be sent.
+   * Throws BUDGET_EXCEEDED when a daily budget would be exceeded and
+   * RATE_LIMITED when the wait would exceed `maxWaitMs`.
+   */
+  async acquire(estimatedTokens: number, provider: string): Promise<void> {
+    this.rollover();
+    this.checkBudgets(estimatedTokens, provider);
+
+    const requestWait = this.requestBucket?.reserve(1) ?? 0;
+    const tokenWait = this.tokenBucket?.reserve(estimatedTokens) ?? 0;
+    const wait = Math.max(requestWait, tokenWait);
+    const maxWaitMs = this.config.maxWaitMs ?? 60000;
+
+    if (wait > maxWaitMs) {
+      this.requestBucket?.release(1);
+      this.tokenBucket?.release(estimatedTokens);
+      throw new LLMError(`Client rate limit reached for ${provider}; retry in ${Math.ceil(wait / 1000)}s`, {
+        code: 'RATE_LIMITED',
+        provider,
+        retryable: true,
+        rateLimited: true,
+        retryAfterMs: wait
+      });
+    }
+
+    if (wait > 0) {
+      await sleep(wait);
+    }
+    this.requestsToday++;
+  }
+
+  /**
+   * Records the actual usage of a finished request. `estimatedTokens` is the
+   * amount reserved by acquire(); the token bucket is corrected by the difference.
+   */
+  record(usage: TokenUsage, pricing?: ModelInfo['costPer1kTokens'], estimatedTokens = 0): void {
+    this.rollover();
+    this.tokensToday += usage.totalTokens;
+    this.costToday += estimateCost(usage, pricing);
+    this.tokenBucket?.release(estimatedTokens - usage.totalTokens);
+  }
+
+  getUsage(): UsageStats {
+    this.rollover();
+    const { dailyTokenBudget, dailyCostBudget } = this.config;
+    return {
+      requestsToday: this.requestsToday,
+      tokensToday: this.tokensToday,
+      costToday: roundCost(this.costToday),
+      remainingQuota: dailyTokenBudget !== undefined ? Math.max(0, dailyTokenBudget - this.tokensToday) : undefined,
+      remainingBudget: dailyCostBudget !== undefined ? roundCost(Math.max(0, dailyCostBudget - this.costToday)) : undefined,
+      resetsAt: new Date(this.nextReset()).toISOString(),
+    };
+  }
+
+  private checkBudgets(estimatedTokens: number, provider: string): void {
+    const { dailyTokenBudget, dailyCostBudget } = this.config;
+
+    if (dailyTokenBudget !== undefined && this.tokensToday + estimatedTokens > dailyTokenBudget) {
+      throw this.budgetError(`Daily token budget of ${dailyTokenBudget} exhausted`, provider, {
+        budget: dailyTokenBudget,
+        used: this.tokensToday,
+      });
+    }
+
+    if (dailyCostBudget !== undefined && this.costToday >= dailyCostBudget) {
+      throw this.budgetError(`Daily cost budget of ${dailyCostBudget} exhausted`, provider, {
+        budget: dailyCostBudget,
+        used: roundCost(this.costToday),
+      });
+    }
+  }
+
+  private budgetError(message: string, provider: string, details: Record<string, number>): LLMError {
+    const resetsAt = this.nextReset();
+    return new LLMError(message, {
+      code: 'BUDGET_EXCEEDED',
+      provider,
+      retryable: false,
+      retryAfterMs: resetsAt - this.now(),
+      details: { ...details, resetsAt: new Date(resetsAt).toISOString() }
+    });
+  }
+
+  private nextReset(): number {
+    return Date.parse(`${this.day}T00:00:00.000Z`) + 86400000;
+  }
+
+  private rollover(): void {
+    const today = utcDay(this.now());
+    if (today !== this.day) {
+      this.day = today;
+      this.requestsToday = 0;
+      this.tokensToday = 0;
+      this.costToday = 0;
+    }
+  }
+}
+
+/** Rough cost of one image or document page; providers bill by size, this only reserves capacity */
+export const ATTACHMENT_TOKEN_ESTIMATE = 1000;
+
+/**
+ * Rough token count for text (about four characters per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Rough prompt token count for a chat request, used to reserve capacity
+ * before the provider reports actual usage
+ */
+export function estimatePromptTokens(options: ChatCompletionOptions): number {
+  const text = options.messages.map(m => getTextContent(m.content)).join('\n');
+  const tools = options.tools ? JSON.stringify(options.tools) : '';
+  const attachments = options.messages.reduce((count, m) => count + countAttachments(m.content), 0);
+  return estimateTokens(text) + estimateTokens(tools) + attachments * ATTACHMENT_TOKEN_ESTIMATE;
+}
+
+/**
+ * Cost of a request from its usage and the model's per-1k-token pricing
+ */
+export function estimateCost(usage: TokenUsage, pricing?: ModelInfo['costPer1kTokens']): number {
+  if (!pricing) return 0;
+  return (usage.promptTokens / 1000) * pricing.input + (usage.completionTokens / 1000) * pricing.output;
+}
+
+function roundCost(cost: number): number {
+  return Math.round(cost * 1e6) / 1e6;
+}
+
+function utcDay(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getTextContent,
+  getLastUserText,
+  countAttachments,
+  getRequiredInputFormats,
+  getUnsupportedInputFormats,
+  hasDocumentUrls
+} from './content.js';
+import { LLMCapabilities, Message, MessageContent } from './types.js';
+
+const parts: MessageContent = [
+  { type: 'text', text: 'Compare these' },
+  { type: 'image', source: { type: 'base64', mediaType: 'image/png', data: 'iVBORw0KGgo=' } },
+  { type: 'document', source: { type: 'text', text: 'Plain notes' }, name: 'notes.txt' },
+  { type: 'document', source: { type: 'url', url: 'https://example.com/report.pdf' } }
+];
+
+const textOnly: LLMCapabilities = {
+  streaming: true,
+  tools: true,
+  multimodal: false,
+  maxContextTokens: 1000,
+  maxOutputTokens: 100,
+  inputFormats: ['text']
+};
+
+describe('content helpers', () => {
+  it('should join text parts and plain-text documents', () => {
+    expect(getTextContent('Hello')).toBe('Hello');
+    expect(getTextContent(parts)).toBe('Compare these\nPlain notes');
+  });
+
+  it('should find the last user message text', () => {
+    const messages: Message[] = [
+      { role: 'user', content: 'First' },
+      { role: 'user', content: parts },
+      { role: 'assistant', content: 'Sure' }
+    ];
+    expect(getLastUserText(messages)).toBe('Compare these\nPlain notes');
+    expect(getLastUserText([])).toBe('');
+  });
+
+  it('should count images and binary documents as attachments', () => {
+    expect(countAttachments('Hello')).toBe(0);
+    expect(countAttachments(parts)).toBe(2);
+  });
+
+  it('should report the input formats a provider is missing', () => {
+    const messages: Message[] = [{ role: 'user', content: parts }];
+
+    expect(getRequiredInputFormats(messages)).toEqual(['text', 'image', 'document']);
+    expect(getUnsupportedInputFormats(messages, textOnly)).toEqual(['image', 'document']);
+    expect(getUnsupportedInputFormats([{ role: 'user', content: 'Hi' }], textOnly)).toEqual([]);
+  });
+
+  it('should detect documents attached by URL', () => {
+    expect(hasDocumentUrls([{ role: 'user', content: parts }])).toBe(true);
+    expect(hasDocumentUrls([{ role: 'user', content: parts.slice(0, 3) }])).toBe(false);
+  });
+});
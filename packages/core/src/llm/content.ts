@@ -0,0 +1,73 @@
+/**
+ * Helpers for multimodal message content
+ */
+
+import { LLMCapabilities, Message, MessageContent } from './types.js';
+
+/**
+ * Returns the text of a message, joining text parts and plain-text documents
+ */
+export function getTextContent(content: MessageContent): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  return content
+    .map(part => {
+      if (part.type === 'text') return part.text;
+      if (part.type === 'document' && part.source.type === 'text') return part.source.text;
+      return '';
+    })
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Returns the text of the most recent user message
+ */
+export function getLastUserText(messages: Message[]): string {
+  const lastUser = [...messages].reverse().find(m => m.role === 'user');
+  return lastUser ? getTextContent(lastUser.content) : '';
+}
+
+/**
+ * Counts image and non-text document parts in a message
+ */
+export function countAttachments(content: MessageContent): number {
+  if (typeof content === 'string') return 0;
+  return content.filter(part => part.type === 'image' || (part.type === 'document' && part.source.type !== 'text')).length;
+}
+
+/**
+ * Input formats (beyond text) that a set of messages needs from a provider
+ */
+export function getRequiredInputFormats(messages: Message[]): LLMCapabilities['inputFormats'] {
+  const formats = new Set<LLMCapabilities['inputFormats'][number]>(['text']);
+  for (const message of messages) {
+    if (typeof message.content === 'string') continue;
+    for (const part of message.content) {
+      if (part.type === 'image') formats.add('image');
+      if (part.type === 'document' && part.source.type !== 'text') formats.add('document');
+    }
+  }
+  return Array.from(formats);
+}
+
+/**
+ * Whether any message attaches a document by URL rather than inline
+ */
+export function hasDocumentUrls(messages: Message[]): boolean {
+  return messages.some(message =>
+    typeof message.content !== 'string' &&
+    message.content.some(part => part.type === 'document' && part.source.type === 'url')
+  );
+}
+
+/**
+ * Formats the messages need that the provider doesn't accept
+ */
+export function getUnsupportedInputFormats(
+  messages: Message[],
+  capabilities: LLMCapabilities
+): LLMCapabilities['inputFormats'] {
+  return getRequiredInputFormats(messages).filter(format => !capabilities.inputFormats.includes(format));
+}
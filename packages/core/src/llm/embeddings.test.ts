@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { HashingEmbedder, cosineSimilarity } from './embeddings.js';
+
+describe('HashingEmbedder', () => {
+  const embedder = new HashingEmbedder();
+
+  it('should return one normalized vector per text', async () => {
+    const response = await embedder.embed(['first text', 'second text']);
+
+    expect(response.embeddings).toHaveLength(2);
+    expect(response.model).toBe('hashing-256');
+    for (const vector of response.embeddings) {
+      expect(vector).toHaveLength(256);
+      expect(Math.hypot(...vector)).toBeCloseTo(1);
+    }
+  });
+
+  it('should be deterministic across instances', async () => {
+    const [a] = (await embedder.embed(['Deterministic embeddings'])).embeddings;
+    const [b] = (await new HashingEmbedder().embed(['Deterministic embeddings'])).embeddings;
+    expect(a).toEqual(b);
+  });
+
+  it('should score texts sharing words and word fragments as more similar', () => {
+    const query = embedder.embedText('configure the database connection');
+    const related = embedder.embedText('Database connections are configured in config.ts');
+    const unrelated = embedder.embedText('Bake the bread for forty minutes');
+
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+    expect(cosineSimilarity(query, query)).toBeCloseTo(1);
+  });
+
+  it('should honor requested dimensions and handle empty text', async () => {
+    const response = await embedder.embed(['', 'text'], { dimensions: 64 });
+
+    expect(response.model).toBe('hashing-64');
+    expect(response.embeddings[0]).toEqual(new Array(64).fill(0));
+    expect(response.embeddings[1]).toHaveLength(64);
+  });
+});
+
+describe('cosineSimilarity', () => {
+  it('should compare vectors of the same size', () => {
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([1, 1], [2, 2])).toBeCloseTo(1);
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+    expect(() => cosineSimilarity([1], [1, 2])).toThrow('Vector sizes differ');
+  });
+});
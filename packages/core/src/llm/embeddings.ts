@@ -0,0 +1,129 @@
+/**
+ * Embedding helpers and a deterministic offline embedder
+ */
+
+import { EmbeddingOptions, EmbeddingResponse, ModelInfo } from './types.js';
+import { estimateTokens } from './RateLimiter.js';
+
+/**
+ * Anything that turns texts into vectors: embedding-capable providers,
+ * LLMProviderManager.embed bound to a routing, or HashingEmbedder
+ */
+export interface Embedder {
+  embed(texts: string[], options?: EmbeddingOptions): Promise<EmbeddingResponse>;
+}
+
+export interface HashingEmbedderOptions {
+  /** Vector size (default: 256) */
+  dimensions?: number;
+  /** Weight of character trigrams relative to whole words (default: 0.5; 0 disables them) */
+  trigramWeight?: number;
+}
+
+/**
+ * Feature-hashing embedder: words and character trigrams are hashed into a
+ * fixed number of signed buckets and the vector is L2-normalized.
+ *
+ * It needs no model or network and always returns the same vector for the
+ * same text, so semantic features can be built and tested offline. Texts
+ * sharing words (or word fragments) score a higher cosine similarity; it
+ * knows nothing about synonyms.
+ */
+export class HashingEmbedder implements Embedder {
+  readonly dimensions: number;
+  private trigramWeight: number;
+
+  constructor(options: HashingEmbedderOptions = {}) {
+    this.dimensions = options.dimensions ?? 256;
+    this.trigramWeight = options.trigramWeight ?? 0.5;
+  }
+
+  get model(): string {
+    return `hashing-${this.dimensions}`;
+  }
+
+  get modelInfo(): ModelInfo {
+    return {
+      id: this.model,
+      name: `Hashing embedder (${this.dimensions} dimensions)`,
+      description: 'Deterministic offline feature-hashing embeddings',
+      capabilities: {
+        streaming: false,
+        tools: false,
+        multimodal: false,
+        maxContextTokens: Number.MAX_SAFE_INTEGER,
+        maxOutputTokens: 0,
+        inputFormats: ['text']
+      },
+      dimensions: this.dimensions
+    };
+  }
+
+  async embed(texts: string[], options: EmbeddingOptions = {}): Promise<EmbeddingResponse> {
+    const dimensions = options.dimensions ?? this.dimensions;
+    const tokens = texts.reduce((total, text) => total + estimateTokens(text), 0);
+    return {
+      embeddings: texts.map(text => this.embedText(text, dimensions)),
+      model: `hashing-${dimensions}`,
+      usage: { promptTokens: tokens, totalTokens: tokens },
+      requestId: options.requestId
+    };
+  }
+
+  /**
+   * Synchronous single-text variant of embed()
+   */
+  embedText(text: string, dimensions = this.dimensions): number[] {
+    const vector = new Array<number>(dimensions).fill(0);
+    const add = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      // The sign bit keeps colliding features from always adding up
+      vector[hash % dimensions]! += hash & 0x80000000 ? -weight : weight;
+    };
+
+    for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+      add(`w:${word}`, 1);
+      if (this.trigramWeight > 0) {
+        const padded = `#${word}#`;
+        for (let i = 0; i + 3 <= padded.length; i++) {
+          add(`t:${padded.slice(i, i + 3)}`, this.trigramWeight);
+        }
+      }
+    }
+
+    return normalize(vector);
+  }
+}
+
+/**
+ * Cosine similarity of two vectors (0 when either is all zeros)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error(`Vector sizes differ: ${a.length} vs ${b.length}`);
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i]! * b[i]!;
+    normA += a[i]! * a[i]!;
+    normB += b[i]! * b[i]!;
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map(v => v / norm);
+}
+
+/** 32-bit FNV-1a hash */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
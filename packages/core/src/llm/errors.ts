@@ -0,0 +1,34 @@
+/**
+ * Error types for the LLM provider system
+ */
+
+export class LLMError extends Error {
+  public code: string;
+  public provider: string;
+  public model?: string;
+  public retryable: boolean;
+  public rateLimited?: boolean;
+  /** Server-requested wait before retrying (from Retry-After) */
+  public retryAfterMs?: number;
+  public details?: any;
+
+  constructor(message: string, options: {
+    code: string;
+    provider: string;
+    model?: string;
+    retryable: boolean;
+    rateLimited?: boolean;
+    retryAfterMs?: number;
+    details?: any;
+  }) {
+    super(message);
+    this.name = 'LLMError';
+    this.code = options.code;
+    this.provider = options.provider;
+    this.model = options.model;
+    this.retryable = options.retryable;
+    this.rateLimited = options.rateLimited;
+    this.retryAfterMs = options.retryAfterMs;
+    this.details = options.details;
+  }
+}
@@ -1,5 +1,6 @@
-import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
-import { ClaudeProvider } from './ClaudeProvider.js';
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import { z } from 'zod';
+import { ClaudeProvider, toClaudeContent } from './ClaudeProvider.js';
 import { LLMError } from '../ProviderFactory.js';
 
 // Use CLAUDE_CODE_OAUTH_TOKEN for OAuth authentication
@@ -158,6 +159,162 @@ describe('ClaudeProvider', () => {
     });
   });
 
+  describe('Structured Output', () => {
+    const fetchMock = vi.fn();
+
+    beforeEach(() => {
+      fetchMock.mockReset();
+      vi.stubGlobal('fetch', fetchMock);
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should force a tool call with the schema and return its input as the reply', async () => {
+      fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({
+        model: 'claude-3-5-haiku-20241022',
+        content: [{ type: 'tool_use', id: 'toolu_1', name: 'answer', input: { answer: 42 } }],
+        stop_reason: 'tool_use',
+        usage: { input_tokens: 20, output_tokens: 10 }
+      })));
+      const provider = new ClaudeProvider({ name: 'test', apiKey: 'test-key' });
+
+      const response = await provider.completeStructured('What is the answer?', z.object({ answer: z.number() }), {
+        schemaName: 'answer'
+      });
+
+      expect(response.data).toEqual({ answer: 42 });
+      expect(response.finishReason).toBe('stop');
+      expect(response.toolCalls).toBeUndefined();
+
+      const body = JSON.parse(fetchMock.mock.calls[0]![1].body);
+      expect(body.tool_choice).toEqual({ type: 'tool', name: 'answer' });
+      expect(body.tools[0]).toMatchObject({ name: 'answer', input_schema: { type: 'object', required: ['answer'] } });
+    });
+  });
+
+  describe('Tool Calls', () => {
+    const fetchMock = vi.fn();
+
+    beforeEach(() => {
+      fetchMock.mockReset();
+      vi.stubGlobal('fetch', fetchMock);
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should send tool calls as tool_use blocks and their results in one user turn', async () => {
+      fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({
+        model: 'claude-3-5-haiku-20241022',
+        content: [{ type: 'text', text: 'Sunny in both.' }],
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 40, output_tokens: 5 }
+      })));
+      const provider = new ClaudeProvider({ name: 'test', apiKey: 'test-key' });
+
+      await provider.chatCompletion({
+        messages: [
+          { role: 'user', content: 'Weather in Paris and Rome?' },
+          {
+            role: 'assistant',
+            content: '',
+            toolCalls: [
+              { id: 'toolu_1', name: 'get_weather', arguments: { city: 'Paris' } },
+              { id: 'toolu_2', name: 'get_weather', arguments: { city: 'Rome' } }
+            ]
+          },
+          { role: 'tool', content: 'Sunny', toolCallId: 'toolu_1' },
+          { role: 'tool', content: 'Sunny', toolCallId: 'toolu_2' }
+        ]
+      });
+
+      const body = JSON.parse(fetchMock.mock.calls[0]![1].body);
+      expect(body.messages).toEqual([
+        { role: 'user', content: 'Weather in Paris and Rome?' },
+        {
+          role: 'assistant',
+          content: [
+            { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Paris' } },
+            { type: 'tool_use', id: 'toolu_2', name: 'get_weather', input: { city: 'Rome' } }
+          ]
+        },
+        {
+          role: 'user',
+          content: [
+            { type: 'tool_result', tool_use_id: 'toolu_1', content: 'Sunny' },
+            { type: 'tool_result', tool_use_id: 'toolu_2', content: 'Sunny' }
+          ]
+        }
+      ]);
+    });
+  });
+
+  describe('Embeddings', () => {
+    const fetchMock = vi.fn();
+
+    beforeEach(() => {
+      fetchMock.mockReset();
+      vi.stubGlobal('fetch', fetchMock);
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should list Voyage embedding models', () => {
+      const provider = new ClaudeProvider({ name: 'test', apiKey: 'test-key' });
+      expect(provider.embeddingModels.map(m => [m.id, m.dimensions])).toEqual([['voyage-3', 1024], ['voyage-3-lite', 512]]);
+    });
+
+    it('should require a Voyage API key', async () => {
+      const provider = new ClaudeProvider({ name: 'test', apiKey: 'test-key' });
+      await expect(provider.embed(['text'])).rejects.toMatchObject({ code: 'UNSUPPORTED', retryable: false });
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should embed through Voyage AI', async () => {
+      fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({
+        model: 'voyage-3-lite',
+        data: [{ index: 0, embedding: [0.6, 0.8] }],
+        usage: { total_tokens: 3 }
+      })));
+      const provider = new ClaudeProvider({ name: 'test', apiKey: 'test-key', voyageApiKey: 'voyage-key' });
+
+      const response = await provider.embed(['find docs'], { model: 'voyage-3-lite', inputType: 'query' });
+
+      expect(response).toMatchObject({ embeddings: [[0.6, 0.8]], model: 'voyage-3-lite', usage: { totalTokens: 3 } });
+      const [url, init] = fetchMock.mock.calls[0]!;
+      expect(url).toBe('https://api.voyageai.com/v1/embeddings');
+      expect(init.headers.Authorization).toBe('Bearer voyage-key');
+      expect(JSON.parse(init.body)).toEqual({ model: 'voyage-3-lite', input: ['find docs'], input_type: 'query' });
+    });
+  });
+
+  describe('Content Translation', () => {
+    it('should pass plain strings through', () => {
+      expect(toClaudeContent('Hi')).toBe('Hi');
+    });
+
+    it('should translate images and documents to content blocks', () => {
+      expect(toClaudeContent([
+        { type: 'text', text: 'Summarize' },
+        { type: 'image', source: { type: 'base64', mediaType: 'image/jpeg', data: '/9j/4AAQ' } },
+        { type: 'image', source: { type: 'url', url: 'https://example.com/cat.png' } },
+        { type: 'document', source: { type: 'base64', mediaType: 'application/pdf', data: 'JVBERi0=' }, name: 'Report' },
+        { type: 'document', source: { type: 'text', text: 'Plain notes' } }
+      ])).toEqual([
+        { type: 'text', text: 'Summarize' },
+        { type: 'image', source: { type: 'base64', media_type: 'image/jpeg', data: '/9j/4AAQ' } },
+        { type: 'image', source: { type: 'url', url: 'https://example.com/cat.png' } },
+        { type: 'document', source: { type: 'base64', media_type: 'application/pdf', data: 'JVBERi0=' }, title: 'Report' },
+        { type: 'document', source: { type: 'text', media_type: 'text/plain', data: 'Plain notes' } }
+      ]);
+    });
+  });
+
   // Integration tests that require actual API key
   // These tests validate the API key first and skip if authentication fails
   describe.skipIf(!HAS_API_KEY)('API Integration Tests', () => {
@@ -12,26 +12,45 @@ import {
   ProviderConfig,
   ChatCompletionOptions,
   Message,
-  ToolCall
+  ToolCall,
+  UsageStats,
+  EmbeddingOptions,
+  EmbeddingResponse,
+  MessageContent,
+  MediaSource
 } from '../types.js';
-import { LLMError } from '../ProviderFactory.js';
+import { LLMError } from '../errors.js';
+import { parseRetryAfter } from '../retry.js';
+import { RateLimiter, estimatePromptTokens, estimateTokens } from '../RateLimiter.js';
+import { getTextContent } from '../content.js';
 
 export interface ClaudeConfig extends ProviderConfig {
-  apiKey: string;
   baseUrl?: string;
   version?: string;
+  /** Voyage AI key for embed(); Anthropic recommends Voyage as it has no embeddings API */
+  voyageApiKey?: string;
+  /** Voyage model used by embed() when a request doesn't name one (default: voyage-3) */
+  embeddingModel?: string;
 }
 
+const VOYAGE_BASE_URL = 'https://api.voyageai.com/v1';
+
 export class ClaudeProvider extends LLMProvider {
   private apiKey: string;
   private baseUrl: string;
   private version: string;
+  private limiter: RateLimiter;
+  private voyageApiKey?: string;
+  private embeddingModel: string;
 
   constructor(config: ClaudeConfig) {
     super(config);
-    this.apiKey = config.apiKey;
+    this.apiKey = config.apiKey ?? '';
+    this.limiter = RateLimiter.fromProviderConfig(config);
     this.baseUrl = config.baseUrl || 'https://api.anthropic.com';
     this.version = config.version || '2023-06-01';
+    this.voyageApiKey = config.voyageApiKey;
+    this.embeddingModel = config.embeddingModel || 'voyage-3';
   }
 
   get name(): string {
@@ -50,7 +69,7 @@ export class ClaudeProvider extends LLMProvider {
           multimodal: true,
           maxContextTokens: 200000,
           maxOutputTokens: 8192,
-          inputFormats: ['text', 'image']
+          inputFormats: ['text', 'image', 'document']
         },
         costPer1kTokens: {
           input: 0.003,
@@ -67,7 +86,7 @@ export class ClaudeProvider extends LLMProvider {
           multimodal: true,
           maxContextTokens: 200000,
           maxOutputTokens: 8192,
-          inputFormats: ['text', 'image']
+          inputFormats: ['text', 'image', 'document']
         },
         costPer1kTokens: {
           input: 0.0008,
@@ -94,6 +113,47 @@ export class ClaudeProvider extends LLMProvider {
     ];
   }
 
+  override get embeddingModels(): ModelInfo[] {
+    return [
+      {
+        id: 'voyage-3',
+        name: 'Voyage 3',
+        description: 'General-purpose embeddings from Voyage AI, recommended by Anthropic',
+        capabilities: {
+          streaming: false,
+          tools: false,
+          multimodal: false,
+          maxContextTokens: 32000,
+          maxOutputTokens: 0,
+          inputFormats: ['text']
+        },
+        costPer1kTokens: {
+          input: 0.00006,
+          output: 0
+        },
+        dimensions: 1024
+      },
+      {
+        id: 'voyage-3-lite',
+        name: 'Voyage 3 Lite',
+        description: 'Faster, cheaper Voyage AI embeddings',
+        capabilities: {
+          streaming: false,
+          tools: false,
+          multimodal: false,
+          maxContextTokens: 32000,
+          maxOutputTokens: 0,
+          inputFormats: ['text']
+        },
+        costPer1kTokens: {
+          input: 0.00002,
+          output: 0
+        },
+        dimensions: 512
+      }
+    ];
+  }
+
   get capabilities(): LLMCapabilities {
     return {
       streaming: true,
@@ -101,7 +161,9 @@ export class ClaudeProvider extends LLMProvider {
       multimodal: true,
       maxContextTokens: 200000,
       maxOutputTokens: 8192,
-      inputFormats: ['text', 'image']
+      inputFormats: ['text', 'image', 'document'],
+      documentUrls: true,
+      structuredOutput: true
     };
   }
 
@@ -137,6 +199,8 @@ export class ClaudeProvider extends LLMProvider {
 
   override async chatCompletion(options: ChatCompletionOptions): Promise<CompletionResponse> {
     const requestBody = this.buildRequestBody(options);
+    const estimatedTokens = estimatePromptTokens(options);
+    await this.limiter.acquire(estimatedTokens, 'claude');
     
     try {
       const response = await fetch(`${this.baseUrl}/v1/messages`, {
@@ -155,7 +219,9 @@ export class ClaudeProvider extends LLMProvider {
       }
 
       const data = await response.json();
-      return this.parseCompletionResponse(data, options.requestId);
+      const result = this.parseCompletionResponse(data, options.requestId, options.responseFormat?.name);
+      this.recordUsage(requestBody.model, result.usage, estimatedTokens);
+      return result;
     } catch (error) {
       if (error instanceof LLMError) {
         throw error;
@@ -171,6 +237,10 @@ export class ClaudeProvider extends LLMProvider {
 
   override async *chatCompletionStream(options: ChatCompletionOptions): AsyncIterable<StreamingChunk> {
     const requestBody = { ...this.buildRequestBody(options), stream: true };
+    const estimatedTokens = estimatePromptTokens(options);
+    await this.limiter.acquire(estimatedTokens, 'claude');
+    let usage: CompletionResponse['usage'];
+    let streamedText = '';
     
     try {
       const response = await fetch(`${this.baseUrl}/v1/messages`, {
@@ -216,6 +286,8 @@ export class ClaudeProvider extends LLMProvider {
                 const parsed = JSON.parse(data);
                 const streamChunk = this.parseStreamingChunk(parsed);
                 if (streamChunk) {
+                  if (streamChunk.usage) usage = streamChunk.usage;
+                  if (streamChunk.content) streamedText += streamChunk.content;
                   yield streamChunk;
                 }
               } catch (e) {
@@ -227,6 +299,11 @@ export class ClaudeProvider extends LLMProvider {
         }
       } finally {
         reader.releaseLock();
+        this.recordUsage(requestBody.model, usage ?? {
+          promptTokens: estimatedTokens,
+          completionTokens: estimateTokens(streamedText),
+          totalTokens: estimatedTokens + estimateTokens(streamedText)
+        }, estimatedTokens);
       }
     } catch (error) {
       if (error instanceof LLMError) {
@@ -241,6 +318,63 @@ export class ClaudeProvider extends LLMProvider {
     }
   }
 
+  override async embed(texts: string[], options: EmbeddingOptions = {}): Promise<EmbeddingResponse> {
+    if (!this.voyageApiKey) {
+      throw new LLMError('Anthropic has no embeddings API; set voyageApiKey to embed with Voyage AI', {
+        code: 'UNSUPPORTED',
+        provider: 'claude',
+        retryable: false
+      });
+    }
+
+    const model = options.model || this.embeddingModel;
+    const estimatedTokens = texts.reduce((total, text) => total + estimateTokens(text), 0);
+    await this.limiter.acquire(estimatedTokens, 'claude');
+
+    try {
+      const response = await fetch(`${VOYAGE_BASE_URL}/embeddings`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${this.voyageApiKey}`
+        },
+        body: JSON.stringify({
+          model,
+          input: texts,
+          ...(options.inputType && { input_type: options.inputType }),
+          ...(options.dimensions && { output_dimension: options.dimensions })
+        })
+      });
+
+      if (!response.ok) {
+        throw await this.handleApiError(response);
+      }
+
+      const data: any = await response.json();
+      const totalTokens = data.usage?.total_tokens ?? estimatedTokens;
+      this.recordUsage(model, { promptTokens: totalTokens, completionTokens: 0, totalTokens }, estimatedTokens);
+
+      return {
+        embeddings: [...data.data]
+          .sort((a: any, b: any) => a.index - b.index)
+          .map((item: any) => item.embedding),
+        model: data.model || model,
+        usage: { promptTokens: totalTokens, totalTokens },
+        requestId: options.requestId
+      };
+    } catch (error) {
+      if (error instanceof LLMError) {
+        throw error;
+      }
+      throw new LLMError(`Voyage embeddings request failed: ${error}`, {
+        code: 'API_ERROR',
+        provider: 'claude',
+        retryable: true,
+        details: error
+      });
+    }
+  }
+
   async callTool(toolCall: ToolCall): Promise<any> {
     // This would integrate with MCP servers for actual tool execution
     // For now, return a mock response
@@ -250,17 +384,9 @@ export class ClaudeProvider extends LLMProvider {
     };
   }
 
-  async getUsage(): Promise<{
-    requestsToday: number;
-    tokensToday: number;
-    remainingQuota?: number;
-  }> {
-    // Claude doesn't provide usage stats via API, return mock data
-    return {
-      requestsToday: 0,
-      tokensToday: 0,
-      remainingQuota: undefined
-    };
+  async getUsage(): Promise<UsageStats> {
+    // Claude doesn't expose usage via API, so report what this client has sent
+    return this.limiter.getUsage();
   }
 
   async healthCheck(): Promise<boolean> {
@@ -288,10 +414,7 @@ export class ClaudeProvider extends LLMProvider {
 
     const body: any = {
       model,
-      messages: conversationMessages.map(msg => ({
-        role: msg.role,
-        content: msg.content
-      })),
+      messages: toClaudeMessages(conversationMessages),
       max_tokens: otherOptions.maxTokens || 4096,
       temperature: otherOptions.temperature,
       top_p: otherOptions.topP,
@@ -299,7 +422,7 @@ export class ClaudeProvider extends LLMProvider {
     };
 
     if (systemMessage) {
-      body.system = systemMessage.content;
+      body.system = getTextContent(systemMessage.content);
     }
 
     if (otherOptions.tools && otherOptions.tools.length > 0) {
@@ -310,10 +433,38 @@ export class ClaudeProvider extends LLMProvider {
       }));
     }
 
+    // Claude has no JSON mode; forcing a tool whose input is the schema gives the same guarantee
+    if (otherOptions.responseFormat) {
+      const { name, description, schema } = otherOptions.responseFormat;
+      body.tools = [
+        ...(body.tools ?? []),
+        { name, description: description ?? `Respond with the ${name} object`, input_schema: schema }
+      ];
+      body.tool_choice = { type: 'tool', name };
+    }
+
     return body;
   }
 
-  private parseCompletionResponse(data: any, requestId?: string): CompletionResponse {
+  private parseCompletionResponse(data: any, requestId?: string, responseFormatTool?: string): CompletionResponse {
+    // A forced response-format tool call is the structured reply, not a tool the caller has to run
+    const structured = responseFormatTool
+      ? data.content?.find((c: any) => c.type === 'tool_use' && c.name === responseFormatTool)
+      : undefined;
+    if (structured) {
+      return {
+        content: JSON.stringify(structured.input),
+        finishReason: 'stop',
+        usage: {
+          promptTokens: data.usage?.input_tokens || 0,
+          completionTokens: data.usage?.output_tokens || 0,
+          totalTokens: (data.usage?.input_tokens || 0) + (data.usage?.output_tokens || 0)
+        },
+        model: data.model,
+        requestId
+      };
+    }
+
     const content = data.content?.[0]?.text || '';
     const toolCalls = data.content?.filter((c: any) => c.type === 'tool_use')?.map((c: any) => ({
       id: c.id,
@@ -390,10 +541,20 @@ export class ClaudeProvider extends LLMProvider {
       provider: 'claude',
       retryable: response.status >= 500 || response.status === 429,
       rateLimited: response.status === 429,
+      retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
       details: errorData
     });
   }
 
+  private recordUsage(model: string, usage: CompletionResponse['usage'], estimatedTokens: number): void {
+    const pricing = [...this.models, ...this.embeddingModels].find(m => m.id === model)?.costPer1kTokens;
+    this.limiter.record(
+      usage ?? { promptTokens: estimatedTokens, completionTokens: 0, totalTokens: estimatedTokens },
+      pricing,
+      estimatedTokens
+    );
+  }
+
   private mapErrorCode(status: number): string {
     switch (status) {
       case 400:
@@ -416,3 +577,71 @@ export class ClaudeProvider extends LLMProvider {
   }
 }
 
+/**
+ * Translates messages to Anthropic Messages API turns: an assistant's tool
+ * calls become tool_use blocks, and the 'tool' messages answering them become
+ * tool_result blocks of one user turn
+ */
+function toClaudeMessages(messages: Message[]): any[] {
+  const turns: any[] = [];
+  for (const msg of messages) {
+    if (msg.role === 'tool') {
+      const result = { type: 'tool_result', tool_use_id: msg.toolCallId, content: toClaudeContent(msg.content) };
+      const last = turns[turns.length - 1];
+      if (last?.role === 'user' && Array.isArray(last.content) && last.content.every((block: any) => block.type === 'tool_result')) {
+        last.content.push(result);
+      } else {
+        turns.push({ role: 'user', content: [result] });
+      }
+      continue;
+    }
+
+    const content = toClaudeContent(msg.content);
+    if (msg.role === 'assistant' && msg.toolCalls?.length) {
+      const blocks = typeof content === 'string' ? (content ? [{ type: 'text', text: content }] : []) : content;
+      turns.push({
+        role: 'assistant',
+        content: [
+          ...blocks,
+          ...msg.toolCalls.map(toolCall => ({ type: 'tool_use', id: toolCall.id, name: toolCall.name, input: toolCall.arguments }))
+        ]
+      });
+      continue;
+    }
+
+    turns.push({ role: msg.role, content });
+  }
+  return turns;
+}
+
+/**
+ * Translates message content to Anthropic Messages API content blocks
+ */
+export function toClaudeContent(content: MessageContent): string | any[] {
+  if (typeof content === 'string') {
+    return content;
+  }
+
+  return content.map(part => {
+    switch (part.type) {
+      case 'text':
+        return { type: 'text', text: part.text };
+      case 'image':
+        return { type: 'image', source: toClaudeSource(part.source) };
+      case 'document':
+        return {
+          type: 'document',
+          source: part.source.type === 'text'
+            ? { type: 'text', media_type: 'text/plain', data: part.source.text }
+            : toClaudeSource(part.source),
+          ...(part.name && { title: part.name })
+        };
+    }
+  });
+}
+
+function toClaudeSource(source: MediaSource) {
+  return source.type === 'base64'
+    ? { type: 'base64', media_type: source.mediaType, data: source.data }
+    : { type: 'url', url: source.url };
+}
@@ -0,0 +1,214 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { z } from 'zod';
+import { LocalProvider } from './LocalProvider.js';
+import { LLMError } from '../ProviderFactory.js';
+import { StreamingChunk } from '../types.js';
+
+const tools = [
+  {
+    name: 'read_file',
+    description: 'Read a file',
+    parameters: { type: 'object' as const, properties: { path: { type: 'string' } } }
+  }
+];
+
+describe('LocalProvider', () => {
+  describe('Provider Properties', () => {
+    it('should default to Ollama and llama3.2', () => {
+      const provider = new LocalProvider({ name: 'local' });
+
+      expect(provider.name).toBe('local');
+      expect(provider.models[0]?.id).toBe('llama3.2');
+      expect(provider.models[0]?.description).toContain('http://localhost:11434/v1');
+      expect(provider.capabilities.tools).toBe(true);
+      expect(provider.capabilities.streaming).toBe(true);
+      expect(provider.capabilities.inputFormats).toEqual(['text']);
+    });
+
+    it('should accept images from vision models', () => {
+      const provider = new LocalProvider({ name: 'local', vision: true });
+      expect(provider.capabilities.multimodal).toBe(true);
+      expect(provider.capabilities.inputFormats).toEqual(['text', 'image']);
+    });
+
+    it('should use the configured model and context window', () => {
+      const provider = new LocalProvider({ name: 'local', defaultModel: 'qwen2.5', contextWindow: 32768 });
+
+      expect(provider.models.map(m => m.id)).toEqual(['qwen2.5']);
+      expect(provider.capabilities.maxContextTokens).toBe(32768);
+    });
+  });
+
+  describe('Mock Mode', () => {
+    let provider: LocalProvider;
+
+    beforeEach(() => {
+      provider = new LocalProvider({ name: 'local', mock: true });
+    });
+
+    it('should validate without a server', async () => {
+      expect(await provider.validateConfig()).toBe(true);
+    });
+
+    it('should answer deterministically', async () => {
+      const first = await provider.complete('Hello there');
+      const second = await provider.complete('Hello there');
+
+      expect(first.content).toBe('Mock response to: Hello there');
+      expect(second).toEqual(first);
+      expect(first.finishReason).toBe('stop');
+      expect(first.model).toBe('llama3.2');
+    });
+
+    it('should call a tool mentioned by name with its JSON arguments', async () => {
+      const response = await provider.chatCompletion({
+        messages: [{ role: 'user', content: 'Please read_file {"path": "README.md"}' }],
+        tools
+      });
+
+      expect(response.finishReason).toBe('tool_calls');
+      expect(response.toolCalls).toEqual([
+        { id: 'call_mock_1', name: 'read_file', arguments: { path: 'README.md' } }
+      ]);
+    });
+
+    it('should answer tool results', async () => {
+      const response = await provider.chatCompletion({
+        messages: [
+          { role: 'user', content: 'read_file' },
+          { role: 'assistant', content: '', toolCalls: [{ id: 'call_mock_1', name: 'read_file', arguments: {} }] },
+          { role: 'tool', content: '# Readme', toolCallId: 'call_mock_1' }
+        ],
+        tools
+      });
+
+      expect(response.content).toBe('Tool result: # Readme');
+    });
+
+    it('should stream content, tool calls, finish reason and usage', async () => {
+      const chunks: StreamingChunk[] = [];
+      for await (const chunk of provider.stream('Hi you')) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks.filter(c => c.content).map(c => c.content)).toEqual(['Mock ', 'response ', 'to: ', 'Hi ', 'you']);
+      expect(chunks.some(c => c.finishReason === 'stop')).toBe(true);
+      expect(chunks[chunks.length - 1]?.usage?.totalTokens).toBeGreaterThan(0);
+    });
+
+    it('should accept attachments and mention them in the reply', async () => {
+      const response = await provider.chatCompletion({
+        messages: [{
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Look' },
+            { type: 'image', source: { type: 'url', url: 'https://example.com/a.png' } },
+            { type: 'image', source: { type: 'url', url: 'https://example.com/b.png' } }
+          ]
+        }]
+      });
+
+      expect(provider.capabilities.inputFormats).toEqual(['text', 'image', 'document']);
+      expect(response.content).toBe('Mock response to: Look (with 2 attachments)');
+    });
+
+    it('should produce schema-shaped JSON for structured completions', async () => {
+      const schema = z.object({
+        title: z.string(),
+        level: z.enum(['low', 'high']),
+        count: z.number().int().min(1),
+        tags: z.array(z.string()).min(2),
+        done: z.boolean().optional()
+      });
+
+      const response = await provider.completeStructured('Classify this', schema);
+
+      expect(response.data).toEqual({ title: 'mock', level: 'low', count: 1, tags: ['mock', 'mock'], done: false });
+      expect(response.validationAttempts).toBe(1);
+    });
+
+    it('should embed offline with the hashing embedder', async () => {
+      const first = await provider.embed(['local search']);
+      const second = await provider.embed(['local search']);
+
+      expect(first.embeddings).toEqual(second.embeddings);
+      expect(first.model).toBe('hashing-256');
+      expect(provider.embeddingModels[0]).toMatchObject({ id: 'hashing-256', dimensions: 256 });
+      expect((await provider.getUsage()).requestsToday).toBe(2);
+    });
+
+    it('should count usage and enforce budgets', async () => {
+      provider = new LocalProvider({ name: 'local', mock: true, dailyTokenBudget: 10 });
+      await provider.complete('Hi');
+
+      expect((await provider.getUsage()).requestsToday).toBe(1);
+      await expect(provider.complete('x'.repeat(100))).rejects.toBeInstanceOf(LLMError);
+    });
+  });
+
+  describe('Server Mode', () => {
+    const fetchMock = vi.fn();
+
+    beforeEach(() => {
+      fetchMock.mockReset();
+      vi.stubGlobal('fetch', fetchMock);
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should post OpenAI-format requests to the configured baseUrl without auth', async () => {
+      fetchMock.mockResolvedValue(new Response(JSON.stringify({
+        model: 'mistral',
+        choices: [{ message: { content: 'Bonjour' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 }
+      })));
+      const provider = new LocalProvider({ name: 'local', baseUrl: 'http://127.0.0.1:8080/v1', defaultModel: 'mistral' });
+
+      const response = await provider.complete('Hello');
+
+      expect(response.content).toBe('Bonjour');
+      const [url, init] = fetchMock.mock.calls[0]!;
+      expect(url).toBe('http://127.0.0.1:8080/v1/chat/completions');
+      expect(init.headers.Authorization).toBeUndefined();
+      expect(JSON.parse(init.body).model).toBe('mistral');
+    });
+
+    it('should report errors under the local provider name', async () => {
+      fetchMock.mockResolvedValue(new Response('{}', { status: 503 }));
+      const provider = new LocalProvider({ name: 'local' });
+
+      await expect(provider.complete('Hello')).rejects.toMatchObject({
+        provider: 'local',
+        code: 'SERVICE_UNAVAILABLE',
+        retryable: true
+      });
+    });
+
+    it('should embed through the server with the configured embedding model', async () => {
+      fetchMock.mockResolvedValue(new Response(JSON.stringify({
+        data: [{ index: 0, embedding: [1, 0, 0] }]
+      })));
+      const provider = new LocalProvider({ name: 'local', embeddingModel: 'mxbai-embed-large' });
+
+      const response = await provider.embed(['hello']);
+
+      expect(response.embeddings).toEqual([[1, 0, 0]]);
+      expect(response.model).toBe('mxbai-embed-large');
+      expect(fetchMock.mock.calls[0]![0]).toBe('http://localhost:11434/v1/embeddings');
+      expect(provider.embeddingModels.map(m => m.id)).toEqual(['mxbai-embed-large']);
+    });
+
+    it('should check health through the models endpoint', async () => {
+      fetchMock.mockResolvedValueOnce(new Response('{"data": []}'));
+      const provider = new LocalProvider({ name: 'local' });
+
+      expect(await provider.healthCheck()).toBe(true);
+      expect(fetchMock.mock.calls[0]![0]).toBe('http://localhost:11434/v1/models');
+
+      fetchMock.mockRejectedValueOnce(new Error('ECONNREFUSED'));
+      expect(await provider.healthCheck()).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Local LLM Provider for OpenAI-compatible servers (Ollama, llama.cpp, vLLM)
+ */
+
+import {
+  CompletionResponse,
+  StreamingChunk,
+  LLMCapabilities,
+  ModelInfo,
+  ChatCompletionOptions,
+  EmbeddingOptions,
+  EmbeddingResponse,
+  ToolCall
+} from '../types.js';
+import { OpenAIProvider, OpenAIConfig } from './OpenAIProvider.js';
+import { estimatePromptTokens, estimateTokens } from '../RateLimiter.js';
+import { countAttachments, getTextContent } from '../content.js';
+import { HashingEmbedder } from '../embeddings.js';
+
+export interface LocalConfig extends OpenAIConfig {
+  /** Sent as a bearer token when the server is set up to require one */
+  apiKey?: string;
+  /** Defaults to Ollama's OpenAI-compatible endpoint (http://localhost:11434/v1) */
+  baseUrl?: string;
+  /** Answer deterministically without contacting a server (for tests and offline demos) */
+  mock?: boolean;
+  /** Context window of the served model (default: 8192) */
+  contextWindow?: number;
+  /** Served model accepts images (e.g. llava, llama3.2-vision) */
+  vision?: boolean;
+}
+
+interface MockReply {
+  content: string;
+  toolCalls?: ToolCall[];
+}
+
+/**
+ * Speaks the OpenAI chat-completions wire format against a local server.
+ *
+ * In mock mode no server is needed: the reply echoes the last user message,
+ * and mentioning a tool by name (optionally followed by JSON arguments) makes
+ * the model call that tool.
+ */
+export class LocalProvider extends OpenAIProvider {
+  private mock: boolean;
+  private contextWindow: number;
+  private vision: boolean;
+  private hashingEmbedder?: HashingEmbedder;
+
+  constructor(config: LocalConfig) {
+    super({ ...config, baseUrl: config.baseUrl || 'http://localhost:11434/v1' });
+    this.mock = config.mock ?? false;
+    this.contextWindow = config.contextWindow ?? 8192;
+    this.vision = config.vision ?? false;
+    if (this.mock) {
+      this.hashingEmbedder = new HashingEmbedder();
+    }
+  }
+
+  override get name(): string {
+    return 'local';
+  }
+
+  protected override get apiLabel(): string {
+    return 'Local LLM';
+  }
+
+  protected override get defaultModel(): string {
+    return this.config.defaultModel || 'llama3.2';
+  }
+
+  protected override get defaultEmbeddingModel(): string {
+    return this.hashingEmbedder?.model ?? ((this.config as LocalConfig).embeddingModel || 'nomic-embed-text');
+  }
+
+  override get models(): ModelInfo[] {
+    return [
+      {
+        id: this.defaultModel,
+        name: this.defaultModel,
+        description: this.mock ? 'Deterministic mock model' : `Model served by ${this.baseUrl}`,
+        capabilities: this.capabilities
+      }
+    ];
+  }
+
+  override get embeddingModels(): ModelInfo[] {
+    if (this.hashingEmbedder) {
+      return [this.hashingEmbedder.modelInfo];
+    }
+    return [
+      {
+        id: this.defaultEmbeddingModel,
+        name: this.defaultEmbeddingModel,
+        description: `Embedding model served by ${this.baseUrl}`,
+        capabilities: { ...this.capabilities, streaming: false, tools: false, maxOutputTokens: 0 }
+      }
+    ];
+  }
+
+  override get capabilities(): LLMCapabilities {
+    return {
+      streaming: true,
+      tools: true,
+      // The mock accepts anything so attachment flows can be exercised offline
+      multimodal: this.mock || this.vision,
+      maxContextTokens: this.contextWindow,
+      maxOutputTokens: 4096,
+      inputFormats: this.mock ? ['text', 'image', 'document'] : this.vision ? ['text', 'image'] : ['text'],
+      documentUrls: this.mock,
+      // Ollama, llama.cpp and vLLM accept OpenAI's json_schema response format
+      structuredOutput: true
+    };
+  }
+
+  override async chatCompletion(options: ChatCompletionOptions): Promise<CompletionResponse> {
+    if (!this.mock) {
+      return super.chatCompletion(options);
+    }
+
+    const model = options.model || this.defaultModel;
+    const estimatedTokens = estimatePromptTokens(options);
+    await this.limiter.acquire(estimatedTokens, this.name);
+
+    const reply = this.mockReply(options);
+    const usage = this.mockUsage(reply, estimatedTokens);
+    this.recordUsage(model, usage, estimatedTokens);
+
+    return {
+      content: reply.content,
+      finishReason: reply.toolCalls ? 'tool_calls' : 'stop',
+      toolCalls: reply.toolCalls,
+      usage,
+      model,
+      requestId: options.requestId
+    };
+  }
+
+  override async *chatCompletionStream(options: ChatCompletionOptions): AsyncIterable<StreamingChunk> {
+    if (!this.mock) {
+      yield* super.chatCompletionStream(options);
+      return;
+    }
+
+    const model = options.model || this.defaultModel;
+    const estimatedTokens = estimatePromptTokens(options);
+    await this.limiter.acquire(estimatedTokens, this.name);
+
+    const reply = this.mockReply(options);
+    const usage = this.mockUsage(reply, estimatedTokens);
+
+    for (const word of reply.content.match(/\S+\s*/g) ?? []) {
+      yield { content: word };
+    }
+    if (reply.toolCalls) {
+      yield { toolCalls: reply.toolCalls };
+    }
+    yield { finishReason: reply.toolCalls ? 'tool_calls' : 'stop' };
+    yield { usage };
+
+    this.recordUsage(model, usage, estimatedTokens);
+  }
+
+  override async embed(texts: string[], options: EmbeddingOptions = {}): Promise<EmbeddingResponse> {
+    if (!this.hashingEmbedder) {
+      return super.embed(texts, options);
+    }
+
+    const response = await this.hashingEmbedder.embed(texts, options);
+    const tokens = response.usage?.totalTokens ?? 0;
+    await this.limiter.acquire(tokens, this.name);
+    this.recordUsage(response.model, { promptTokens: tokens, completionTokens: 0, totalTokens: tokens }, tokens);
+    return response;
+  }
+
+  override async healthCheck(): Promise<boolean> {
+    if (this.mock) {
+      return true;
+    }
+
+    try {
+      const response = await fetch(`${this.baseUrl}/models`, {
+        headers: this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {}
+      });
+      return response.ok;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  override async validateConfig(): Promise<boolean> {
+    // Local servers usually don't need an API key
+    return this.healthCheck();
+  }
+
+  private mockReply(options: ChatCompletionOptions): MockReply {
+    const last = options.messages[options.messages.length - 1];
+
+    if (options.responseFormat) {
+      return { content: JSON.stringify(mockValue(options.responseFormat.schema)) };
+    }
+
+    if (last?.role === 'tool') {
+      return { content: `Tool result: ${getTextContent(last.content)}` };
+    }
+
+    const text = last ? getTextContent(last.content) : '';
+    const tool = options.tools?.find(t => text.includes(t.name));
+    if (tool) {
+      return {
+        content: '',
+        toolCalls: [{
+          id: `call_mock_${options.messages.length}`,
+          name: tool.name,
+          arguments: parseMockArguments(text.slice(text.indexOf(tool.name) + tool.name.length))
+        }]
+      };
+    }
+
+    const attachments = last ? countAttachments(last.content) : 0;
+    const suffix = attachments > 0 ? ` (with ${attachments} attachment${attachments === 1 ? '' : 's'})` : '';
+    return { content: `Mock response to: ${text}${suffix}` };
+  }
+
+  private mockUsage(reply: MockReply, promptTokens: number): NonNullable<CompletionResponse['usage']> {
+    const completionTokens = estimateTokens(reply.content + JSON.stringify(reply.toolCalls ?? []));
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+}
+
+/**
+ * Smallest plausible value for a JSON Schema: first enum/const, minimum
+ * numbers, minItems array entries and every object property
+ */
+function mockValue(schema: Record<string, any>): unknown {
+  if ('const' in schema) return schema.const;
+  if (schema.enum) return schema.enum[0];
+  if (schema.default !== undefined) return schema.default;
+  const variant = schema.anyOf ?? schema.oneOf;
+  if (variant) return mockValue(variant[0]);
+  if (schema.allOf) return Object.assign({}, ...schema.allOf.map(mockValue));
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries<Record<string, any>>(schema.properties ?? {}).map(([key, value]) => [key, mockValue(value)])
+      );
+    case 'array':
+      return Array.from({ length: schema.minItems ?? 0 }, () => mockValue(schema.items ?? {}));
+    case 'string':
+      return 'mock'.padEnd(schema.minLength ?? 0, '-');
+    case 'number':
+    case 'integer':
+      if (schema.minimum !== undefined) return schema.minimum;
+      return schema.exclusiveMinimum !== undefined ? schema.exclusiveMinimum + 1 : 0;
+    case 'boolean':
+      return false;
+    default:
+      return null;
+  }
+}
+
+function parseMockArguments(text: string): Record<string, any> {
+  const json = text.match(/\{[\s\S]*\}/);
+  if (!json) return {};
+  try {
+    return JSON.parse(json[0]);
+  } catch (error) {
+    return {};
+  }
+}
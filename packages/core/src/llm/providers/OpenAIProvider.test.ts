@@ -1,5 +1,6 @@
-import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
-import { OpenAIProvider } from './OpenAIProvider.js';
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import { OpenAIProvider, toOpenAIContent } from './OpenAIProvider.js';
+import { z } from 'zod';
 import { LLMError } from '../ProviderFactory.js';
 
 // Use OPENAI_API_KEY for API authentication
@@ -68,6 +69,13 @@ describe('OpenAIProvider', () => {
       expect(caps.inputFormats).toContain('text');
       expect(caps.inputFormats).toContain('image');
       expect(caps.inputFormats).toContain('audio');
+      expect(caps.documentUrls).toBeFalsy();
+    });
+
+    it('should list embedding models with their dimensions', () => {
+      const small = provider.embeddingModels.find(m => m.id === 'text-embedding-3-small');
+      expect(small?.dimensions).toBe(1536);
+      expect(provider.embeddingModels.every(m => m.costPer1kTokens?.input)).toBe(true);
     });
 
     it('should have cost information for models', () => {
@@ -158,6 +166,126 @@ describe('OpenAIProvider', () => {
       expect(typeof usage.requestsToday).toBe('number');
       expect(typeof usage.tokensToday).toBe('number');
     });
+
+    describe('with a stubbed API', () => {
+      const fetchMock = vi.fn();
+
+      beforeEach(() => {
+        fetchMock.mockReset();
+        fetchMock.mockImplementation(async () => new Response(JSON.stringify({
+          model: 'gpt-4o-mini-2024-07-18',
+          choices: [{ message: { content: 'Hi there' }, finish_reason: 'stop' }],
+          usage: { prompt_tokens: 1000, completion_tokens: 500, total_tokens: 1500 }
+        })));
+        vi.stubGlobal('fetch', fetchMock);
+      });
+
+      afterEach(() => {
+        vi.unstubAllGlobals();
+      });
+
+      it('should count requests, tokens and cost from responses', async () => {
+        await provider.chatCompletion({ messages: [{ role: 'user', content: 'Hi' }], model: 'gpt-4o-mini' });
+
+        const usage = await provider.getUsage();
+        expect(usage.requestsToday).toBe(1);
+        expect(usage.tokensToday).toBe(1500);
+        // 1000 * 0.00015/1k + 500 * 0.0006/1k
+        expect(usage.costToday).toBeCloseTo(0.00045, 6);
+      });
+
+      it('should reject requests once the daily token budget is spent', async () => {
+        provider = new OpenAIProvider({ name: 'test', apiKey: 'test-key', dailyTokenBudget: 2000 });
+        await provider.chatCompletion({ messages: [{ role: 'user', content: 'Hi' }] });
+
+        await expect(
+          provider.chatCompletion({ messages: [{ role: 'user', content: 'x'.repeat(4000) }] })
+        ).rejects.toMatchObject({ code: 'BUDGET_EXCEEDED', retryable: false });
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect((await provider.getUsage()).remainingQuota).toBe(500);
+      });
+
+      it('should request json_schema output for structured completions', async () => {
+        fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({
+          model: 'gpt-4o-mini',
+          choices: [{ message: { content: '{"answer": 42}' }, finish_reason: 'stop' }]
+        })));
+
+        const response = await provider.completeStructured('What is the answer?', z.object({ answer: z.number() }), {
+          schemaName: 'answer'
+        });
+
+        expect(response.data).toEqual({ answer: 42 });
+        const body = JSON.parse(fetchMock.mock.calls[0]![1].body);
+        expect(body.response_format).toMatchObject({
+          type: 'json_schema',
+          json_schema: { name: 'answer', strict: false, schema: { type: 'object', required: ['answer'] } }
+        });
+      });
+
+      it('should embed texts in input order and count their cost', async () => {
+        fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({
+          model: 'text-embedding-3-small',
+          data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }],
+          usage: { prompt_tokens: 1000, total_tokens: 1000 }
+        })));
+
+        const response = await provider.embed(['first', 'second'], { dimensions: 2 });
+
+        expect(response.embeddings).toEqual([[1, 0], [0, 1]]);
+        expect(response.usage).toEqual({ promptTokens: 1000, totalTokens: 1000 });
+        const [url, init] = fetchMock.mock.calls[0]!;
+        expect(url).toBe('https://api.openai.com/v1/embeddings');
+        expect(JSON.parse(init.body)).toEqual({ model: 'text-embedding-3-small', input: ['first', 'second'], dimensions: 2 });
+        expect((await provider.getUsage()).costToday).toBeCloseTo(0.00002, 8);
+      });
+
+      it('should send attachments as OpenAI content parts', async () => {
+        await provider.chatCompletion({
+          messages: [
+            { role: 'system', content: [{ type: 'text', text: 'Be brief' }] },
+            {
+              role: 'user',
+              content: [
+                { type: 'text', text: 'Describe' },
+                { type: 'image', source: { type: 'base64', mediaType: 'image/png', data: 'iVBORw0KGgo=' } },
+                { type: 'document', source: { type: 'base64', mediaType: 'application/pdf', data: 'JVBERi0=' }, name: 'a.pdf' }
+              ]
+            }
+          ]
+        });
+
+        const body = JSON.parse(fetchMock.mock.calls[0]![1].body);
+        expect(body.messages[0].content).toBe('Be brief');
+        expect(body.messages[1].content).toEqual([
+          { type: 'text', text: 'Describe' },
+          { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } },
+          { type: 'file', file: { filename: 'a.pdf', file_data: 'data:application/pdf;base64,JVBERi0=' } }
+        ]);
+      });
+    });
+  });
+
+  describe('Content Translation', () => {
+    it('should pass plain strings through', () => {
+      expect(toOpenAIContent('Hi')).toBe('Hi');
+    });
+
+    it('should inline plain-text documents and image URLs', () => {
+      expect(toOpenAIContent([
+        { type: 'image', source: { type: 'url', url: 'https://example.com/cat.png' } },
+        { type: 'document', source: { type: 'text', text: 'Body' }, name: 'notes.txt' }
+      ])).toEqual([
+        { type: 'image_url', image_url: { url: 'https://example.com/cat.png' } },
+        { type: 'text', text: 'notes.txt:\nBody' }
+      ]);
+    });
+
+    it('should reject document URLs', () => {
+      expect(() => toOpenAIContent([
+        { type: 'document', source: { type: 'url', url: 'https://example.com/report.pdf' } }
+      ])).toThrow(expect.objectContaining({ code: 'UNSUPPORTED_CONTENT', retryable: false }));
+    });
   });
 
   // Integration tests that require actual API key
@@ -12,24 +12,35 @@ import {
   ProviderConfig,
   ChatCompletionOptions,
   Message,
-  ToolCall
+  ToolCall,
+  UsageStats,
+  EmbeddingOptions,
+  EmbeddingResponse,
+  MessageContent,
+  MediaSource
 } from '../types.js';
-import { LLMError } from '../ProviderFactory.js';
+import { LLMError } from '../errors.js';
+import { parseRetryAfter } from '../retry.js';
+import { RateLimiter, estimatePromptTokens, estimateTokens } from '../RateLimiter.js';
+import { getTextContent } from '../content.js';
 
 export interface OpenAIConfig extends ProviderConfig {
-  apiKey: string;
   baseUrl?: string;
   organization?: string;
+  /** Model used by embed() when a request doesn't name one */
+  embeddingModel?: string;
 }
 
 export class OpenAIProvider extends LLMProvider {
-  private apiKey: string;
-  private baseUrl: string;
+  protected apiKey: string;
+  protected baseUrl: string;
   private organization?: string;
+  protected limiter: RateLimiter;
 
   constructor(config: OpenAIConfig) {
     super(config);
-    this.apiKey = config.apiKey;
+    this.apiKey = config.apiKey ?? '';
+    this.limiter = RateLimiter.fromProviderConfig(config);
     this.baseUrl = config.baseUrl || 'https://api.openai.com/v1';
     this.organization = config.organization;
   }
@@ -38,6 +49,21 @@ export class OpenAIProvider extends LLMProvider {
     return 'openai';
   }
 
+  /** Name used in error messages */
+  protected get apiLabel(): string {
+    return 'OpenAI';
+  }
+
+  /** Model used when a request doesn't name one */
+  protected get defaultModel(): string {
+    return this.config.defaultModel || 'gpt-4o-mini';
+  }
+
+  /** Embedding model used when a request doesn't name one */
+  protected get defaultEmbeddingModel(): string {
+    return (this.config as OpenAIConfig).embeddingModel || 'text-embedding-3-small';
+  }
+
   get models(): ModelInfo[] {
     return [
       {
@@ -50,7 +76,7 @@ export class OpenAIProvider extends LLMProvider {
           multimodal: true,
           maxContextTokens: 128000,
           maxOutputTokens: 16384,
-          inputFormats: ['text', 'image', 'audio']
+          inputFormats: ['text', 'image', 'document', 'audio']
         },
         costPer1kTokens: {
           input: 0.0025,
@@ -67,7 +93,7 @@ export class OpenAIProvider extends LLMProvider {
           multimodal: true,
           maxContextTokens: 128000,
           maxOutputTokens: 16384,
-          inputFormats: ['text', 'image']
+          inputFormats: ['text', 'image', 'document']
         },
         costPer1kTokens: {
           input: 0.00015,
@@ -111,6 +137,47 @@ export class OpenAIProvider extends LLMProvider {
     ];
   }
 
+  override get embeddingModels(): ModelInfo[] {
+    return [
+      {
+        id: 'text-embedding-3-small',
+        name: 'Text Embedding 3 Small',
+        description: 'Efficient embedding model for search and clustering',
+        capabilities: {
+          streaming: false,
+          tools: false,
+          multimodal: false,
+          maxContextTokens: 8191,
+          maxOutputTokens: 0,
+          inputFormats: ['text']
+        },
+        costPer1kTokens: {
+          input: 0.00002,
+          output: 0
+        },
+        dimensions: 1536
+      },
+      {
+        id: 'text-embedding-3-large',
+        name: 'Text Embedding 3 Large',
+        description: 'Most capable embedding model',
+        capabilities: {
+          streaming: false,
+          tools: false,
+          multimodal: false,
+          maxContextTokens: 8191,
+          maxOutputTokens: 0,
+          inputFormats: ['text']
+        },
+        costPer1kTokens: {
+          input: 0.00013,
+          output: 0
+        },
+        dimensions: 3072
+      }
+    ];
+  }
+
   get capabilities(): LLMCapabilities {
     return {
       streaming: true,
@@ -118,7 +185,8 @@ export class OpenAIProvider extends LLMProvider {
       multimodal: true,
       maxContextTokens: 128000,
       maxOutputTokens: 16384,
-      inputFormats: ['text', 'image', 'audio']
+      inputFormats: ['text', 'image', 'document', 'audio'],
+      structuredOutput: true
     };
   }
 
@@ -154,13 +222,15 @@ export class OpenAIProvider extends LLMProvider {
 
   override async chatCompletion(options: ChatCompletionOptions): Promise<CompletionResponse> {
     const requestBody = this.buildRequestBody(options);
+    const estimatedTokens = estimatePromptTokens(options);
+    await this.limiter.acquire(estimatedTokens, this.name);
     
     try {
       const response = await fetch(`${this.baseUrl}/chat/completions`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`,
+          ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` }),
           ...(this.organization && { 'OpenAI-Organization': this.organization })
         },
         body: JSON.stringify(requestBody)
@@ -171,14 +241,16 @@ export class OpenAIProvider extends LLMProvider {
       }
 
       const data = await response.json();
-      return this.parseCompletionResponse(data, options.requestId);
+      const result = this.parseCompletionResponse(data, options.requestId);
+      this.recordUsage(requestBody.model, result.usage, estimatedTokens);
+      return result;
     } catch (error) {
       if (error instanceof LLMError) {
         throw error;
       }
-      throw new LLMError(`OpenAI API request failed: ${error}`, {
+      throw new LLMError(`${this.apiLabel} API request failed: ${error}`, {
         code: 'API_ERROR',
-        provider: 'openai',
+        provider: this.name,
         retryable: true,
         details: error
       });
@@ -186,14 +258,18 @@ export class OpenAIProvider extends LLMProvider {
   }
 
   override async *chatCompletionStream(options: ChatCompletionOptions): AsyncIterable<StreamingChunk> {
-    const requestBody = { ...this.buildRequestBody(options), stream: true };
+    const requestBody = { ...this.buildRequestBody(options), stream: true, stream_options: { include_usage: true } };
+    const estimatedTokens = estimatePromptTokens(options);
+    await this.limiter.acquire(estimatedTokens, this.name);
+    let usage: CompletionResponse['usage'];
+    let streamedText = '';
     
     try {
       const response = await fetch(`${this.baseUrl}/chat/completions`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`,
+          ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` }),
           ...(this.organization && { 'OpenAI-Organization': this.organization })
         },
         body: JSON.stringify(requestBody)
@@ -206,7 +282,7 @@ export class OpenAIProvider extends LLMProvider {
       if (!response.body) {
         throw new LLMError('No response body received', {
           code: 'NO_BODY',
-          provider: 'openai',
+          provider: this.name,
           retryable: false
         });
       }
@@ -231,6 +307,8 @@ export class OpenAIProvider extends LLMProvider {
                 const parsed = JSON.parse(data);
                 const streamChunk = this.parseStreamingChunk(parsed);
                 if (streamChunk) {
+                  if (streamChunk.usage) usage = streamChunk.usage;
+                  if (streamChunk.content) streamedText += streamChunk.content;
                   yield streamChunk;
                 }
               } catch (e) {
@@ -242,14 +320,71 @@ export class OpenAIProvider extends LLMProvider {
         }
       } finally {
         reader.releaseLock();
+        this.recordUsage(requestBody.model, usage ?? {
+          promptTokens: estimatedTokens,
+          completionTokens: estimateTokens(streamedText),
+          totalTokens: estimatedTokens + estimateTokens(streamedText)
+        }, estimatedTokens);
       }
     } catch (error) {
       if (error instanceof LLMError) {
         throw error;
       }
-      throw new LLMError(`OpenAI streaming request failed: ${error}`, {
+      throw new LLMError(`${this.apiLabel} streaming request failed: ${error}`, {
         code: 'STREAM_ERROR',
-        provider: 'openai',
+        provider: this.name,
+        retryable: true,
+        details: error
+      });
+    }
+  }
+
+  override async embed(texts: string[], options: EmbeddingOptions = {}): Promise<EmbeddingResponse> {
+    const model = options.model || this.defaultEmbeddingModel;
+    const estimatedTokens = texts.reduce((total, text) => total + estimateTokens(text), 0);
+    await this.limiter.acquire(estimatedTokens, this.name);
+
+    try {
+      const response = await fetch(`${this.baseUrl}/embeddings`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` }),
+          ...(this.organization && { 'OpenAI-Organization': this.organization })
+        },
+        body: JSON.stringify({
+          model,
+          input: texts,
+          ...(options.dimensions && { dimensions: options.dimensions })
+        })
+      });
+
+      if (!response.ok) {
+        throw await this.handleApiError(response);
+      }
+
+      const data: any = await response.json();
+      const usage = {
+        promptTokens: data.usage?.prompt_tokens ?? estimatedTokens,
+        totalTokens: data.usage?.total_tokens ?? estimatedTokens
+      };
+      this.recordUsage(model, { ...usage, completionTokens: 0 }, estimatedTokens);
+
+      return {
+        embeddings: [...data.data]
+          .sort((a: any, b: any) => a.index - b.index)
+          .map((item: any) => item.embedding),
+        model: data.model || model,
+        usage,
+        requestId: options.requestId
+      };
+    } catch (error) {
+      if (error instanceof LLMError) {
+        throw error;
+      }
+      throw new LLMError(`${this.apiLabel} embeddings request failed: ${error}`, {
+        code: 'API_ERROR',
+        provider: this.name,
         retryable: true,
         details: error
       });
@@ -274,17 +409,9 @@ export class OpenAIProvider extends LLMProvider {
     }
   }
 
-  async getUsage(): Promise<{
-    requestsToday: number;
-    tokensToday: number;
-    remainingQuota?: number;
-  }> {
-    // OpenAI doesn't provide usage stats via API, return mock data
-    return {
-      requestsToday: 0,
-      tokensToday: 0,
-      remainingQuota: undefined
-    };
+  async getUsage(): Promise<UsageStats> {
+    // OpenAI doesn't expose usage via API, so report what this client has sent
+    return this.limiter.getUsage();
   }
 
   async validateConfig(): Promise<boolean> {
@@ -295,13 +422,14 @@ export class OpenAIProvider extends LLMProvider {
   }
 
   private buildRequestBody(options: ChatCompletionOptions) {
-    const { messages, model = 'gpt-4o-mini', ...otherOptions } = options;
+    const { messages, model = this.defaultModel, ...otherOptions } = options;
 
     const body: any = {
       model,
       messages: messages.map(msg => ({
         role: msg.role,
-        content: msg.content,
+        // Only user messages may carry images and files
+        content: msg.role === 'user' ? toOpenAIContent(msg.content, this.name) : getTextContent(msg.content),
         ...(msg.name && { name: msg.name }),
         ...(msg.toolCalls && { 
           tool_calls: msg.toolCalls.map(tc => ({
@@ -333,6 +461,15 @@ export class OpenAIProvider extends LLMProvider {
       body.tool_choice = 'auto';
     }
 
+    if (otherOptions.responseFormat) {
+      const { name, description, schema } = otherOptions.responseFormat;
+      body.response_format = {
+        type: 'json_schema',
+        // Strict mode would reject schemas with optional properties
+        json_schema: { name, description, schema, strict: false }
+      };
+    }
+
     return body;
   }
 
@@ -436,13 +573,23 @@ export class OpenAIProvider extends LLMProvider {
 
     return new LLMError(message, {
       code,
-      provider: 'openai',
+      provider: this.name,
       retryable: response.status >= 500 || response.status === 429,
       rateLimited: response.status === 429,
+      retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
       details: errorData
     });
   }
 
+  protected recordUsage(model: string, usage: CompletionResponse['usage'], estimatedTokens: number): void {
+    const pricing = [...this.models, ...this.embeddingModels].find(m => m.id === model)?.costPer1kTokens;
+    this.limiter.record(
+      usage ?? { promptTokens: estimatedTokens, completionTokens: 0, totalTokens: estimatedTokens },
+      pricing,
+      estimatedTokens
+    );
+  }
+
   private mapErrorCode(status: number): string {
     switch (status) {
       case 400:
@@ -465,3 +612,36 @@ export class OpenAIProvider extends LLMProvider {
   }
 }
 
+/**
+ * Translates message content to OpenAI chat-completions content parts
+ */
+export function toOpenAIContent(content: MessageContent, provider = 'openai'): string | any[] {
+  if (typeof content === 'string') {
+    return content;
+  }
+
+  return content.map(part => {
+    switch (part.type) {
+      case 'text':
+        return { type: 'text', text: part.text };
+      case 'image':
+        return { type: 'image_url', image_url: { url: toDataUrl(part.source) } };
+      case 'document':
+        if (part.source.type === 'text') {
+          return { type: 'text', text: part.name ? `${part.name}:\n${part.source.text}` : part.source.text };
+        }
+        if (part.source.type === 'base64') {
+          return { type: 'file', file: { filename: part.name ?? 'document.pdf', file_data: toDataUrl(part.source) } };
+        }
+        throw new LLMError('Documents must be sent as base64; URLs are not supported by the chat completions API', {
+          code: 'UNSUPPORTED_CONTENT',
+          provider,
+          retryable: false
+        });
+    }
+  });
+}
+
+function toDataUrl(source: MediaSource): string {
+  return source.type === 'base64' ? `data:${source.mediaType};base64,${source.data}` : source.url;
+}
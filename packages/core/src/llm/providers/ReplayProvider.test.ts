@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, existsSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ReplayProvider, ReplayConfig, Cassette, requestKey } from './ReplayProvider.js';
+import { DefaultLLMProviderFactory, LLMError } from '../ProviderFactory.js';
+import { LLMProvider, ChatCompletionOptions, StreamingChunk } from '../types.js';
+import { collect } from '../../../test/helpers.js';
+
+// Answers "Answer N" so repeated identical requests can be told apart
+class CountingProvider extends LLMProvider {
+  static calls = 0;
+
+  get name() { return 'counting'; }
+  get models() { return []; }
+  get capabilities() {
+    return { streaming: true, tools: true, multimodal: false, maxContextTokens: 1000, maxOutputTokens: 100, inputFormats: ['text' as const] };
+  }
+
+  async complete() {
+    return this.chatCompletion({ messages: [] });
+  }
+
+  async *stream() {
+    yield* this.chatCompletionStream({ messages: [] });
+  }
+
+  override async chatCompletion(options: ChatCompletionOptions) {
+    CountingProvider.calls++;
+    if (options.messages[0]?.content === 'fail') {
+      throw new LLMError('Overloaded', { code: 'SERVICE_UNAVAILABLE', provider: 'counting', retryable: true });
+    }
+    return {
+      content: `Answer ${CountingProvider.calls}`,
+      finishReason: 'tool_calls' as const,
+      toolCalls: [{ id: 'call_1', name: 'lookup', arguments: { q: 'x' } }],
+      usage: { promptTokens: 3, completionTokens: 2, totalTokens: 5 },
+      model: 'counting-1'
+    };
+  }
+
+  override async *chatCompletionStream(): AsyncIterable<StreamingChunk> {
+    CountingProvider.calls++;
+    yield { content: 'Hel' };
+    yield { content: 'lo wo' };
+    yield { toolCalls: [{ id: 'call_1', name: 'lookup' }] };
+    yield { content: 'rld' };
+    yield { finishReason: 'stop' };
+  }
+
+  async healthCheck() { return true; }
+  async validateConfig() { return true; }
+  async getUsage() { return { requestsToday: 0, tokensToday: 0 }; }
+  async callTool() { return undefined; }
+}
+
+const messages = [{ role: 'user' as const, content: 'Hi' }];
+
+describe('ReplayProvider', () => {
+  let dir: string;
+  let cassette: string;
+
+  const provider = (mode: ReplayConfig['mode']) =>
+    new ReplayProvider({
+      name: 'replay',
+      apiKey: '',
+      cassette,
+      mode,
+      recordFrom: { type: 'custom', config: { name: 'Counting', apiKey: '' } }
+    });
+
+  beforeAll(() => {
+    DefaultLLMProviderFactory.getInstance().registerProvider('custom', CountingProvider);
+  });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'replay-'));
+    cassette = join(dir, 'cassettes', 'chat.json');
+    CountingProvider.calls = 0;
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should be registered with the default factory', () => {
+    expect(DefaultLLMProviderFactory.getInstance().getSupportedProviders()).toContain('replay');
+  });
+
+  it('should require a cassette path', () => {
+    expect(() => new ReplayProvider({ name: 'replay', apiKey: '' })).toThrow(LLMError);
+  });
+
+  it('should record chat completions and replay them without the real provider', async () => {
+    const recorded = await provider('record').chatCompletion({ messages, model: 'counting-1' });
+    expect(existsSync(cassette)).toBe(true);
+
+    const replayer = provider('replay');
+    const replayed = await replayer.chatCompletion({ messages, model: 'counting-1', requestId: 'ignored' });
+
+    expect(replayed).toEqual(recorded);
+    expect(replayed.toolCalls).toEqual([{ id: 'call_1', name: 'lookup', arguments: { q: 'x' } }]);
+    expect(CountingProvider.calls).toBe(1);
+    expect(replayer.recordedProvider).toBe('counting');
+    expect(await replayer.getUsage()).toEqual({ requestsToday: 1, tokensToday: 5 });
+  });
+
+  it('should replay stream chunks with their original boundaries', async () => {
+    const recorded = await collect(provider('record').chatCompletionStream({ messages }));
+    const replayed = await collect(provider('replay').chatCompletionStream({ messages }));
+
+    expect(replayed).toEqual(recorded);
+    expect(replayed.map(c => c.content)).toEqual(['Hel', 'lo wo', undefined, 'rld', undefined]);
+    expect(CountingProvider.calls).toBe(1);
+
+    const file = JSON.parse(readFileSync(cassette, 'utf-8')) as Cassette;
+    expect(file.interactions[0]?.kind).toBe('stream');
+    expect(file.interactions[0]?.key).toBe(requestKey('stream', { messages }));
+  });
+
+  it('should pass the system prompt of complete() as a message only', async () => {
+    await provider('record').complete('Hi', { systemPrompt: 'Be brief', maxTokens: 10 });
+
+    const file = JSON.parse(readFileSync(cassette, 'utf-8')) as Cassette;
+    expect(file.interactions[0]?.request).toEqual({
+      messages: [{ role: 'system', content: 'Be brief' }, { role: 'user', content: 'Hi' }],
+      maxTokens: 10
+    });
+  });
+
+  it('should serve identical requests in recording order', async () => {
+    const recorder = provider('record');
+    await recorder.chatCompletion({ messages });
+    await recorder.chatCompletion({ messages });
+
+    const replayer = provider('replay');
+    expect((await replayer.chatCompletion({ messages })).content).toBe('Answer 1');
+    expect((await replayer.chatCompletion({ messages })).content).toBe('Answer 2');
+    await expect(replayer.chatCompletion({ messages })).rejects.toMatchObject({ code: 'CASSETTE_MISS' });
+  });
+
+  it('should fail on unrecorded requests in replay mode', async () => {
+    await provider('record').chatCompletion({ messages });
+
+    await expect(
+      provider('replay').chatCompletion({ messages: [{ role: 'user', content: 'Something else' }] })
+    ).rejects.toMatchObject({ code: 'CASSETTE_MISS', retryable: false });
+  });
+
+  it('should record only missing exchanges in auto mode', async () => {
+    await provider('record').chatCompletion({ messages });
+
+    const auto = provider('auto');
+    await auto.chatCompletion({ messages });
+    await auto.chatCompletion({ messages: [{ role: 'user', content: 'New' }] });
+
+    expect(CountingProvider.calls).toBe(2);
+    expect((JSON.parse(readFileSync(cassette, 'utf-8')) as Cassette).interactions).toHaveLength(2);
+  });
+
+  it('should replace earlier recordings when re-recording', async () => {
+    await provider('record').chatCompletion({ messages });
+    await provider('record').chatCompletion({ messages });
+
+    const replayed = await provider('replay').chatCompletion({ messages });
+    expect(replayed.content).toBe('Answer 2');
+  });
+
+  it('should record and replay provider errors', async () => {
+    const failing = { messages: [{ role: 'user' as const, content: 'fail' }] };
+    await expect(provider('record').chatCompletion(failing)).rejects.toThrow('Overloaded');
+
+    const error = await provider('replay').chatCompletion(failing).catch(e => e);
+    expect(error).toBeInstanceOf(LLMError);
+    expect(error).toMatchObject({ code: 'SERVICE_UNAVAILABLE', provider: 'counting', retryable: true });
+  });
+
+  it('should validate against the cassette in replay mode', async () => {
+    expect(await provider('replay').validateConfig()).toBe(false);
+    await provider('record').chatCompletion({ messages });
+    expect(await provider('replay').validateConfig()).toBe(true);
+  });
+});
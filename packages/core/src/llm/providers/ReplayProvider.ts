@@ -0,0 +1,382 @@
+/**
+ * Record/replay LLM Provider for deterministic tests
+ */
+
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import {
+  LLMProvider,
+  CompletionOptions,
+  CompletionResponse,
+  StreamingChunk,
+  LLMCapabilities,
+  ModelInfo,
+  ProviderConfig,
+  ProviderType,
+  ChatCompletionOptions,
+  Message,
+  ToolCall,
+  UsageStats
+} from '../types.js';
+import { LLMError } from '../errors.js';
+import { getLastUserText } from '../content.js';
+import { DefaultLLMProviderFactory } from '../ProviderFactory.js';
+
+export type ReplayMode = 'record' | 'replay' | 'auto';
+
+export interface ReplayConfig extends ProviderConfig {
+  /** Path of the cassette JSON file (required) */
+  cassette?: string;
+  /**
+   * - replay: serve recorded exchanges only; unknown requests fail
+   * - record: always call the real provider and (re)record the exchange
+   * - auto: replay when recorded, otherwise record
+   */
+  mode?: ReplayMode;
+  /** Real provider to record from (required for record and auto modes) */
+  recordFrom?: { type: ProviderType; config: ProviderConfig };
+}
+
+/**
+ * One recorded request and what the provider answered
+ */
+export interface CassetteInteraction {
+  key: string;
+  kind: 'chat' | 'stream';
+  request: ChatCompletionOptions;
+  response?: CompletionResponse;
+  /** Stream chunks exactly as the provider yielded them */
+  chunks?: StreamingChunk[];
+  error?: {
+    message: string;
+    code: string;
+    provider: string;
+    retryable: boolean;
+    rateLimited?: boolean;
+  };
+}
+
+export interface Cassette {
+  version: 1;
+  /** Name of the provider the exchanges were recorded from */
+  provider?: string;
+  interactions: CassetteInteraction[];
+}
+
+/**
+ * Records real chatCompletion/chatCompletionStream exchanges to a cassette
+ * file and serves them back verbatim, chunk boundaries included.
+ *
+ * Requests are matched on model, messages, tools and sampling options.
+ * Identical requests are served in the order they were recorded.
+ *
+ * @example
+ * ```typescript
+ * const provider = new ReplayProvider({
+ *   name: 'replay',
+ *   apiKey: '',
+ *   cassette: 'test/cassettes/chat.json',
+ *   mode: process.env.RECORD ? 'record' : 'replay',
+ *   recordFrom: { type: 'claude', config: { name: 'Claude', apiKey: process.env.ANTHROPIC_API_KEY ?? '' } },
+ * });
+ * ```
+ */
+export class ReplayProvider extends LLMProvider {
+  private cassettePath: string;
+  private mode: ReplayMode;
+  private cassette: Cassette;
+  private recordFrom?: ReplayConfig['recordFrom'];
+  private delegate?: LLMProvider;
+  /** How many times each key has been served in this session */
+  private served = new Map<string, number>();
+  /** Keys re-recorded in this session (record mode replaces old recordings) */
+  private rerecorded = new Set<string>();
+  private usage = { requests: 0, tokens: 0 };
+
+  constructor(config: ReplayConfig) {
+    super(config);
+    if (!config.cassette) {
+      throw new LLMError('ReplayProvider requires a cassette path', {
+        code: 'INVALID_CONFIG',
+        provider: 'replay',
+        retryable: false
+      });
+    }
+    this.cassettePath = config.cassette;
+    this.mode = config.mode ?? 'replay';
+    this.recordFrom = config.recordFrom;
+    this.cassette = existsSync(config.cassette)
+      ? (JSON.parse(readFileSync(config.cassette, 'utf-8')) as Cassette)
+      : { version: 1, interactions: [] };
+  }
+
+  get name(): string {
+    return 'replay';
+  }
+
+  /**
+   * Name of the provider the cassette was recorded from, so callers can
+   * apply that provider's message conventions
+   */
+  get recordedProvider(): string | undefined {
+    return this.cassette.provider ?? this.recordFrom?.type;
+  }
+
+  get models(): ModelInfo[] {
+    if (this.delegate) {
+      return this.delegate.models;
+    }
+    const ids = Array.from(new Set(
+      this.cassette.interactions.map(i => i.response?.model ?? i.request.model).filter((id): id is string => Boolean(id))
+    ));
+    return ids.map(id => ({
+      id,
+      name: id,
+      description: `Recorded in ${this.cassettePath}`,
+      capabilities: this.capabilities
+    }));
+  }
+
+  get capabilities(): LLMCapabilities {
+    return this.delegate?.capabilities ?? {
+      streaming: true,
+      tools: true,
+      multimodal: true,
+      maxContextTokens: 200000,
+      maxOutputTokens: 8192,
+      inputFormats: ['text', 'image', 'document'],
+      documentUrls: true,
+      structuredOutput: true
+    };
+  }
+
+  async complete(
+    prompt: string,
+    options: CompletionOptions = {}
+  ): Promise<CompletionResponse> {
+    const { systemPrompt, ...rest } = options;
+    return this.chatCompletion({ messages: toMessages(prompt, systemPrompt), ...rest });
+  }
+
+  async *stream(
+    prompt: string,
+    options: CompletionOptions = {}
+  ): AsyncIterable<StreamingChunk> {
+    const { systemPrompt, ...rest } = options;
+    yield* this.chatCompletionStream({ messages: toMessages(prompt, systemPrompt), ...rest });
+  }
+
+  override async chatCompletion(options: ChatCompletionOptions): Promise<CompletionResponse> {
+    const key = requestKey('chat', options);
+    const recorded = this.nextRecording(key);
+
+    if (recorded) {
+      this.countUsage(recorded.response?.usage);
+      if (recorded.error) throw toLLMError(recorded.error);
+      return recorded.response!;
+    }
+
+    const delegate = this.getDelegate(key);
+    if (!delegate.chatCompletion) {
+      throw new LLMError(`Provider ${delegate.name} does not support chat completion`, {
+        code: 'UNSUPPORTED',
+        provider: this.name,
+        retryable: false
+      });
+    }
+
+    try {
+      const response = await delegate.chatCompletion(options);
+      this.record({ key, kind: 'chat', request: options, response });
+      return response;
+    } catch (error) {
+      this.record({ key, kind: 'chat', request: options, error: fromError(error, delegate.name) });
+      throw error;
+    }
+  }
+
+  override async *chatCompletionStream(options: ChatCompletionOptions): AsyncIterable<StreamingChunk> {
+    const key = requestKey('stream', options);
+    const recorded = this.nextRecording(key);
+
+    if (recorded) {
+      this.countUsage(recorded.chunks?.find(c => c.usage)?.usage);
+      for (const chunk of recorded.chunks ?? []) {
+        yield chunk;
+      }
+      if (recorded.error) throw toLLMError(recorded.error);
+      return;
+    }
+
+    const delegate = this.getDelegate(key);
+    const source = delegate.chatCompletionStream
+      ? delegate.chatCompletionStream(options)
+      : delegate.stream(getLastUserText(options.messages), options);
+    const chunks: StreamingChunk[] = [];
+
+    try {
+      for await (const chunk of source) {
+        chunks.push(chunk);
+        yield chunk;
+      }
+      this.record({ key, kind: 'stream', request: options, chunks });
+    } catch (error) {
+      this.record({ key, kind: 'stream', request: options, chunks, error: fromError(error, delegate.name) });
+      throw error;
+    }
+  }
+
+  async callTool(toolCall: ToolCall): Promise<any> {
+    return this.getDelegate().callTool?.(toolCall);
+  }
+
+  /**
+   * Counts requests and tokens served from the cassette
+   */
+  async getUsage(): Promise<UsageStats> {
+    return {
+      requestsToday: this.usage.requests,
+      tokensToday: this.usage.tokens
+    };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    if (this.mode === 'replay') {
+      return this.cassette.interactions.length > 0;
+    }
+    return this.getDelegate().healthCheck();
+  }
+
+  async validateConfig(): Promise<boolean> {
+    if (this.mode === 'replay') {
+      return existsSync(this.cassettePath);
+    }
+    return Boolean(this.recordFrom);
+  }
+
+  /**
+   * Returns the recorded interaction to serve for a key, or undefined when
+   * the request should go to the real provider
+   */
+  private nextRecording(key: string): CassetteInteraction | undefined {
+    if (this.mode === 'record') {
+      return undefined;
+    }
+
+    const matches = this.cassette.interactions.filter(i => i.key === key);
+    const index = this.served.get(key) ?? 0;
+    const match = matches[index];
+
+    if (match) {
+      this.served.set(key, index + 1);
+      return match;
+    }
+
+    if (this.mode === 'replay') {
+      throw new LLMError(`No recorded response in ${this.cassettePath} for request ${key} (occurrence ${index + 1})`, {
+        code: 'CASSETTE_MISS',
+        provider: this.name,
+        retryable: false,
+        details: { key, cassette: this.cassettePath }
+      });
+    }
+    return undefined;
+  }
+
+  private countUsage(usage: CompletionResponse['usage']): void {
+    this.usage.requests++;
+    this.usage.tokens += usage?.totalTokens ?? 0;
+  }
+
+  private getDelegate(key?: string): LLMProvider {
+    if (!this.recordFrom) {
+      throw new LLMError(`Cannot record${key ? ` request ${key}` : ''}: no recordFrom provider configured`, {
+        code: 'INVALID_CONFIG',
+        provider: this.name,
+        retryable: false
+      });
+    }
+    this.delegate ??= DefaultLLMProviderFactory.getInstance().createProvider(this.recordFrom.type, this.recordFrom.config);
+    return this.delegate;
+  }
+
+  private record(interaction: CassetteInteraction): void {
+    if (this.mode === 'record' && !this.rerecorded.has(interaction.key)) {
+      // The first exchange for a key in a record session replaces what was recorded before
+      this.cassette.interactions = this.cassette.interactions.filter(i => i.key !== interaction.key);
+      this.rerecorded.add(interaction.key);
+    }
+    this.cassette.interactions.push(interaction);
+    this.cassette.provider = this.delegate?.name ?? this.cassette.provider;
+    this.flush();
+  }
+
+  private flush(): void {
+    mkdirSync(dirname(this.cassettePath), { recursive: true });
+    const tmpPath = `${this.cassettePath}.tmp`;
+    writeFileSync(tmpPath, JSON.stringify(this.cassette, null, 2) + '\n', 'utf-8');
+    renameSync(tmpPath, this.cassettePath);
+  }
+}
+
+/**
+ * Stable key for a request: everything that affects the answer, nothing that doesn't (like requestId)
+ */
+export function requestKey(kind: CassetteInteraction['kind'], options: ChatCompletionOptions): string {
+  const { messages, tools, model, maxTokens, temperature, topP, stopSequences, systemPrompt, responseFormat } = options;
+  const canonical = stableStringify({ kind, model, messages, tools, maxTokens, temperature, topP, stopSequences, systemPrompt, responseFormat });
+  return createHash('sha256').update(canonical).digest('hex').slice(0, 16);
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * The system prompt goes into the messages only; passing it as an option as
+ * well would send (and record) it twice
+ */
+function toMessages(prompt: string, systemPrompt: string | undefined): Message[] {
+  const messages: Message[] = [{ role: 'user', content: prompt }];
+  if (systemPrompt) {
+    messages.unshift({ role: 'system', content: systemPrompt });
+  }
+  return messages;
+}
+
+function fromError(error: unknown, provider: string): NonNullable<CassetteInteraction['error']> {
+  if (error instanceof LLMError) {
+    return {
+      message: error.message,
+      code: error.code,
+      provider: error.provider,
+      retryable: error.retryable,
+      rateLimited: error.rateLimited
+    };
+  }
+  return {
+    message: error instanceof Error ? error.message : String(error),
+    code: 'API_ERROR',
+    provider,
+    retryable: false
+  };
+}
+
+function toLLMError(error: NonNullable<CassetteInteraction['error']>): LLMError {
+  return new LLMError(error.message, {
+    code: error.code,
+    provider: error.provider,
+    retryable: error.retryable,
+    rateLimited: error.rateLimited
+  });
+}
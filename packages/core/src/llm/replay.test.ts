@@ -0,0 +1,90 @@
+/**
+ * LLMProviderManager driven by the Claude exchanges in test/cassettes, so the
+ * manager, the provider wrappers and structured output run end to end
+ * without an API key. Re-record with RECORD_CASSETTES=1 and ANTHROPIC_API_KEY.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { fileURLToPath } from 'node:url';
+import { z } from 'zod';
+import { LLMProviderManager } from './ProviderFactory.js';
+import { ReplayConfig } from './providers/ReplayProvider.js';
+import { ToolDefinition } from './types.js';
+import { collect } from '../../test/helpers.js';
+
+const cassette = fileURLToPath(new URL('../../test/cassettes/claude.json', import.meta.url));
+
+const weatherTool: ToolDefinition = {
+  name: 'get_weather',
+  description: 'Current weather for a city',
+  parameters: {
+    type: 'object',
+    properties: { city: { type: 'string' } },
+    required: ['city']
+  }
+};
+
+const replayConfig: ReplayConfig = {
+  name: 'Claude (recorded)',
+  apiKey: '',
+  defaultModel: 'claude-3-5-haiku-20241022',
+  cassette,
+  mode: process.env.RECORD_CASSETTES ? 'record' : 'replay',
+  recordFrom: { type: 'claude', config: { name: 'Claude', apiKey: process.env.ANTHROPIC_API_KEY ?? '' } }
+};
+
+describe('LLMProviderManager with recorded Claude exchanges', () => {
+  let manager: LLMProviderManager;
+
+  beforeEach(async () => {
+    manager = new LLMProviderManager();
+    await manager.addProvider('claude', 'replay', replayConfig);
+  });
+
+  it('completes a prompt with a system prompt', async () => {
+    const response = await manager.complete('What is the capital of France?', {
+      systemPrompt: 'Answer with a single word.',
+      maxTokens: 16
+    });
+
+    expect(response.content).toBe('Paris');
+    expect(response.provider).toBe('claude');
+    expect(response.usage?.totalTokens).toBe(23);
+  });
+
+  it('returns tool calls', async () => {
+    const response = await manager.chatCompletion({
+      messages: [{ role: 'user', content: 'Is it raining in Paris?' }],
+      tools: [weatherTool],
+      maxTokens: 256
+    });
+
+    expect(response.finishReason).toBe('tool_calls');
+    expect(response.toolCalls).toEqual([
+      { id: 'toolu_01A9pGXsR3fT2vWn8kYcQe4L', name: 'get_weather', arguments: { city: 'Paris' } }
+    ]);
+  });
+
+  it('streams chunks as they were received', async () => {
+    const chunks = await collect(manager.chatCompletionStream({
+      messages: [{ role: 'user', content: 'How tall is the Eiffel Tower? One sentence.' }],
+      maxTokens: 64
+    }));
+
+    expect(chunks.map(chunk => chunk.content ?? '').join('')).toBe('The Eiffel Tower is about 330 metres tall.');
+    expect(chunks.every(chunk => chunk.provider === 'claude')).toBe(true);
+    expect(chunks.at(-1)?.finishReason).toBe('stop');
+  });
+
+  it('parses structured output', async () => {
+    const city = z.object({ name: z.string(), country: z.string(), population: z.number() });
+
+    const response = await manager.completeStructured('Describe the capital of France.', city, {
+      schemaName: 'city',
+      maxTokens: 128
+    });
+
+    expect(response.data).toEqual({ name: 'Paris', country: 'France', population: 2102650 });
+    expect(response.validationAttempts).toBe(1);
+  });
+});
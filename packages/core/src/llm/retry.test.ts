@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { computeBackoffDelay, isRetryableError, parseRetryAfter, DEFAULT_RETRY_POLICY } from './retry.js';
+import { LLMError } from './ProviderFactory.js';
+
+describe('computeBackoffDelay', () => {
+  const policy = { ...DEFAULT_RETRY_POLICY, initialDelayMs: 100, maxDelayMs: 1000, multiplier: 2, jitter: 0 };
+
+  it('should grow exponentially', () => {
+    expect(computeBackoffDelay(1, policy)).toBe(100);
+    expect(computeBackoffDelay(2, policy)).toBe(200);
+    expect(computeBackoffDelay(3, policy)).toBe(400);
+  });
+
+  it('should cap at maxDelayMs', () => {
+    expect(computeBackoffDelay(10, policy)).toBe(1000);
+  });
+
+  it('should apply jitter within the configured fraction', () => {
+    const jittered = { ...policy, jitter: 0.5 };
+    expect(computeBackoffDelay(1, jittered, undefined, () => 0)).toBe(50);
+    expect(computeBackoffDelay(1, jittered, undefined, () => 1)).toBe(100);
+  });
+
+  it('should wait at least the server-provided Retry-After', () => {
+    expect(computeBackoffDelay(1, policy, 5000)).toBe(5000);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should parse seconds', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+  });
+
+  it('should parse HTTP dates', () => {
+    const inTenSeconds = new Date(Date.now() + 10000).toUTCString();
+    expect(parseRetryAfter(inTenSeconds)).toBeGreaterThan(8000);
+  });
+
+  it('should ignore missing or invalid headers', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('isRetryableError', () => {
+  it('should only retry LLMErrors flagged retryable', () => {
+    expect(isRetryableError(new LLMError('x', { code: 'X', provider: 'p', retryable: true }))).toBe(true);
+    expect(isRetryableError(new LLMError('x', { code: 'X', provider: 'p', retryable: false }))).toBe(false);
+    expect(isRetryableError(new Error('x'))).toBe(false);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Retry helpers for LLM provider calls
+ */
+
+import { LLMError } from './errors.js';
+
+export interface RetryPolicy {
+  /** Retries after the first attempt (ProviderConfig.retryAttempts overrides this per provider) */
+  maxRetries: number;
+  /** Delay before the first retry in milliseconds */
+  initialDelayMs: number;
+  /** Upper bound for any single delay in milliseconds */
+  maxDelayMs: number;
+  /** Factor applied to the delay after each retry */
+  multiplier: number;
+  /** Fraction of the delay (0-1) that is randomized to spread out retries */
+  jitter: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  initialDelayMs: 500,
+  maxDelayMs: 10000,
+  multiplier: 2,
+  jitter: 0.2,
+};
+
+/**
+ * Computes the delay before retry number `retry` (1-based) using
+ * exponential backoff with jitter. A server-provided Retry-After wins
+ * when it is longer.
+ */
+export function computeBackoffDelay(
+  retry: number,
+  policy: RetryPolicy,
+  retryAfterMs?: number,
+  random: () => number = Math.random
+): number {
+  const base = Math.min(policy.maxDelayMs, policy.initialDelayMs * Math.pow(policy.multiplier, retry - 1));
+  const jittered = base * (1 - policy.jitter + policy.jitter * random());
+  return Math.round(Math.max(jittered, retryAfterMs ?? 0));
+}
+
+/**
+ * Whether an error from a provider call is worth retrying on the same provider
+ */
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof LLMError && error.retryable;
+}
+
+/**
+ * Parses an HTTP Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { toResponseFormat } from './structured.js';
+import { LLMError } from './errors.js';
+import { LLMProvider, ChatCompletionOptions, CompletionResponse } from './types.js';
+
+// Answers with scripted replies and keeps the requests it received
+class ScriptedProvider extends LLMProvider {
+  requests: ChatCompletionOptions[] = [];
+  replies: string[] = [];
+  native = true;
+
+  get name() { return 'scripted'; }
+  get models() { return []; }
+  get capabilities() {
+    return {
+      streaming: false,
+      tools: false,
+      multimodal: false,
+      maxContextTokens: 1000,
+      maxOutputTokens: 100,
+      inputFormats: ['text' as const],
+      structuredOutput: this.native
+    };
+  }
+
+  async complete(): Promise<CompletionResponse> {
+    throw new Error('not used');
+  }
+
+  async *stream() {}
+
+  override async chatCompletion(options: ChatCompletionOptions): Promise<CompletionResponse> {
+    this.requests.push(structuredClone(options));
+    return {
+      content: this.replies.shift() ?? '',
+      finishReason: 'stop',
+      usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+      model: 'scripted-1'
+    };
+  }
+
+  async healthCheck() { return true; }
+  async validateConfig() { return true; }
+  async getUsage() { return { requestsToday: 0, tokensToday: 0 }; }
+  async callTool() { return undefined; }
+}
+
+const Summary = z.object({
+  title: z.string(),
+  tags: z.array(z.string()),
+  score: z.number().min(0).max(1).optional()
+});
+
+describe('toResponseFormat', () => {
+  it('should convert a Zod schema to an inline JSON Schema', () => {
+    const format = toResponseFormat(Summary, 'summary', 'A document summary');
+
+    expect(format).toMatchObject({ type: 'json_schema', name: 'summary', description: 'A document summary' });
+    expect(format.schema).not.toHaveProperty('$schema');
+    expect(format.schema).toMatchObject({
+      type: 'object',
+      properties: { title: { type: 'string' }, tags: { type: 'array', items: { type: 'string' } } },
+      required: ['title', 'tags']
+    });
+  });
+});
+
+describe('LLMProvider.completeStructured', () => {
+  it('should send the schema as the response format and return typed data', async () => {
+    const provider = new ScriptedProvider({ name: 'scripted', apiKey: '' });
+    provider.replies = ['{"title": "Intro", "tags": ["a"]}'];
+
+    const response = await provider.completeStructured('Summarize', Summary, { schemaName: 'summary' });
+
+    expect(response.data).toEqual({ title: 'Intro', tags: ['a'] });
+    expect(response.validationAttempts).toBe(1);
+    expect(provider.requests[0]?.responseFormat?.name).toBe('summary');
+    expect(provider.requests[0]?.messages).toEqual([{ role: 'user', content: 'Summarize' }]);
+  });
+
+  it('should feed validation errors back and retry', async () => {
+    const provider = new ScriptedProvider({ name: 'scripted', apiKey: '' });
+    provider.replies = ['not json', '{"title": "Intro", "tags": "a"}', '```json\n{"title": "Intro", "tags": ["a"]}\n```'];
+
+    const response = await provider.completeStructured('Summarize', Summary);
+
+    expect(response.data.tags).toEqual(['a']);
+    expect(response.validationAttempts).toBe(3);
+    expect(response.usage).toEqual({ promptTokens: 30, completionTokens: 15, totalTokens: 45 });
+
+    const retry = provider.requests[2]!.messages;
+    expect(retry).toHaveLength(5);
+    expect(retry[1]).toEqual({ role: 'assistant', content: 'not json' });
+    expect(retry[2]?.content).toContain('not valid JSON');
+    expect(retry[4]?.content).toContain('tags: Expected array, received string');
+  });
+
+  it('should fail with STRUCTURED_OUTPUT_INVALID once retries run out', async () => {
+    const provider = new ScriptedProvider({ name: 'scripted', apiKey: '' });
+    provider.replies = ['{}', '{}'];
+
+    const error = await provider.completeStructured('Summarize', Summary, { maxValidationRetries: 1 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(LLMError);
+    expect(error).toMatchObject({ code: 'STRUCTURED_OUTPUT_INVALID', retryable: false, provider: 'scripted' });
+    expect(provider.requests).toHaveLength(2);
+  });
+
+  it('should describe the schema in the system prompt for providers without native support', async () => {
+    const provider = new ScriptedProvider({ name: 'scripted', apiKey: '' });
+    provider.native = false;
+    provider.replies = ['{"title": "Intro", "tags": []}'];
+
+    await provider.completeStructured('Summarize', Summary, { systemPrompt: 'Be terse.' });
+
+    const [system] = provider.requests[0]!.messages;
+    expect(provider.requests[0]?.responseFormat).toBeUndefined();
+    expect(system?.role).toBe('system');
+    expect(system?.content).toMatch(/^Be terse\.\n\nReply with a single JSON value/);
+    expect(system?.content).toContain('"required":["title","tags"]');
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Structured (JSON-schema constrained) completions
+ */
+
+import type { ZodType, ZodTypeDef } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type {
+  LLMProvider,
+  CompletionOptions,
+  CompletionResponse,
+  Message,
+  ResponseFormat
+} from './types.js';
+import { LLMError } from './errors.js';
+
+export interface StructuredOptions extends Omit<CompletionOptions, 'responseFormat' | 'stream'> {
+  /** Schema name sent to the provider (default: 'response') */
+  schemaName?: string;
+  /** What the value represents, to help the model fill it in */
+  schemaDescription?: string;
+  /** Further attempts after a reply fails validation (default: 2) */
+  maxValidationRetries?: number;
+  /** Model to use; defaults to the provider's default model */
+  model?: string;
+}
+
+export interface StructuredResponse<T> extends CompletionResponse {
+  /** The validated value */
+  data: T;
+  /** Number of replies requested, including ones that failed validation */
+  validationAttempts: number;
+}
+
+const DEFAULT_VALIDATION_RETRIES = 2;
+
+/**
+ * Converts a Zod schema to a self-contained JSON Schema for a provider's response format
+ */
+export function toResponseFormat(
+  schema: ZodType<unknown, ZodTypeDef, unknown>,
+  name = 'response',
+  description?: string
+): ResponseFormat {
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema, { $refStrategy: 'none' }) as Record<string, any>;
+  return {
+    type: 'json_schema',
+    name,
+    ...(description && { description }),
+    schema: jsonSchema
+  };
+}
+
+/**
+ * Asks the provider for JSON matching the schema, validating each reply and
+ * retrying with the validation errors until it passes or retries run out.
+ *
+ * Providers declaring `capabilities.structuredOutput` receive the schema as
+ * `responseFormat` and enforce it natively; others are instructed to reply
+ * with JSON in the system prompt.
+ */
+export async function completeStructured<T>(
+  provider: LLMProvider,
+  prompt: string,
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  options: StructuredOptions = {}
+): Promise<StructuredResponse<T>> {
+  const { schemaName, schemaDescription, maxValidationRetries = DEFAULT_VALIDATION_RETRIES, ...completionOptions } = options;
+  const responseFormat = toResponseFormat(schema, schemaName, schemaDescription);
+  const native = provider.capabilities.structuredOutput === true;
+
+  const systemPrompt = native
+    ? completionOptions.systemPrompt
+    : [completionOptions.systemPrompt, jsonInstruction(responseFormat)].filter(Boolean).join('\n\n');
+  const messages: Message[] = [{ role: 'user', content: prompt }];
+  if (systemPrompt) {
+    messages.unshift({ role: 'system', content: systemPrompt });
+  }
+
+  let usage: CompletionResponse['usage'];
+  let lastError = '';
+
+  for (let attempt = 1; attempt <= maxValidationRetries + 1; attempt++) {
+    const response = await requestJson(provider, messages, { ...completionOptions, systemPrompt }, native ? responseFormat : undefined);
+    usage = addUsage(usage, response.usage);
+
+    const parsed = parseJson(response.content);
+    if (!parsed.ok) {
+      lastError = `not valid JSON (${parsed.error})`;
+    } else {
+      const result = schema.safeParse(parsed.value);
+      if (result.success) {
+        return { ...response, usage, data: result.data, validationAttempts: attempt };
+      }
+      lastError = result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+    }
+
+    messages.push(
+      { role: 'assistant', content: response.content },
+      { role: 'user', content: `That reply did not match the schema: ${lastError}. Reply again with corrected JSON only.` }
+    );
+  }
+
+  throw new LLMError(`Structured output failed validation after ${maxValidationRetries + 1} attempts: ${lastError}`, {
+    code: 'STRUCTURED_OUTPUT_INVALID',
+    provider: provider.name,
+    model: options.model,
+    retryable: false,
+    details: { schema: responseFormat.name, error: lastError }
+  });
+}
+
+async function requestJson(
+  provider: LLMProvider,
+  messages: Message[],
+  options: CompletionOptions & { model?: string },
+  responseFormat: ResponseFormat | undefined
+): Promise<CompletionResponse> {
+  if (provider.chatCompletion) {
+    return provider.chatCompletion({ ...options, messages, responseFormat });
+  }
+
+  // Without chat support only the original prompt can be sent; retries repeat it
+  const prompt = messages.find(m => m.role === 'user')?.content;
+  return provider.complete(typeof prompt === 'string' ? prompt : '', { ...options, responseFormat });
+}
+
+function jsonInstruction(format: ResponseFormat): string {
+  return [
+    'Reply with a single JSON value and nothing else (no prose, no code fences).',
+    format.description ? `It describes: ${format.description}.` : '',
+    `It must match this JSON Schema:\n${JSON.stringify(format.schema)}`
+  ].filter(Boolean).join('\n');
+}
+
+/**
+ * Parses a JSON reply, tolerating surrounding code fences
+ */
+function parseJson(content: string): { ok: true; value: unknown } | { ok: false; error: string } {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const text = (fenced?.[1] ?? content).trim();
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+function addUsage(
+  total: CompletionResponse['usage'],
+  usage: CompletionResponse['usage']
+): CompletionResponse['usage'] {
+  if (!usage) return total;
+  if (!total) return { ...usage };
+  return {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    totalTokens: total.totalTokens + usage.totalTokens
+  };
+}
@@ -2,6 +2,10 @@
  * Core types for LLM provider abstraction
  */
 
+import type { ZodType, ZodTypeDef } from 'zod';
+import type { RateLimiter } from './RateLimiter.js';
+import { completeStructured, StructuredOptions, StructuredResponse } from './structured.js';
+
 export interface CompletionOptions {
   /** Maximum number of tokens to generate */
   maxTokens?: number;
@@ -19,6 +23,20 @@ export interface CompletionOptions {
   tools?: ToolDefinition[];
   /** Unique identifier for the request */
   requestId?: string;
+  /** Constrain the reply to JSON matching a schema (see LLMProvider.completeStructured) */
+  responseFormat?: ResponseFormat;
+}
+
+/**
+ * JSON Schema the reply must match, enforced with the provider's native
+ * structured-output or tool-forcing mode
+ */
+export interface ResponseFormat {
+  type: 'json_schema';
+  /** Schema identifier (letters, digits, underscores and dashes) */
+  name: string;
+  description?: string;
+  schema: Record<string, any>;
 }
 
 export interface ToolDefinition {
@@ -48,6 +66,10 @@ export interface CompletionResponse {
   };
   model: string;
   requestId?: string;
+  /** Name of the provider (as registered with LLMProviderManager) that answered */
+  provider?: string;
+  /** Number of attempts made across retries and fallbacks */
+  attempts?: number;
 }
 
 export interface StreamingChunk {
@@ -55,6 +77,8 @@ export interface StreamingChunk {
   toolCalls?: Partial<ToolCall>[];
   finishReason?: CompletionResponse['finishReason'];
   usage?: CompletionResponse['usage'];
+  /** Name of the provider (as registered with LLMProviderManager) producing the stream */
+  provider?: string;
 }
 
 export interface LLMCapabilities {
@@ -69,7 +93,11 @@ export interface LLMCapabilities {
   /** Maximum output tokens */
   maxOutputTokens: number;
   /** Supported input formats */
-  inputFormats: ('text' | 'image' | 'audio' | 'video')[];
+  inputFormats: ('text' | 'image' | 'document' | 'audio' | 'video')[];
+  /** Accepts documents by URL as well as inline */
+  documentUrls?: boolean;
+  /** Enforces CompletionOptions.responseFormat natively */
+  structuredOutput?: boolean;
 }
 
 export interface ModelInfo {
@@ -81,19 +109,70 @@ export interface ModelInfo {
     input: number;
     output: number;
   };
+  /** Vector size, for embedding models */
+  dimensions?: number;
+}
+
+export interface EmbeddingOptions {
+  /** Embedding model; defaults to the provider's default embedding model */
+  model?: string;
+  /** Requested vector size, for models that can shorten their output */
+  dimensions?: number;
+  /** Whether the texts are search queries or documents being indexed (some models embed them differently) */
+  inputType?: 'query' | 'document';
+  /** Unique identifier for the request */
+  requestId?: string;
+}
+
+export interface EmbeddingResponse {
+  /** One vector per input text, in input order */
+  embeddings: number[][];
+  model: string;
+  usage?: {
+    promptTokens: number;
+    totalTokens: number;
+  };
+  requestId?: string;
+  /** Name of the provider (as registered with LLMProviderManager) that answered */
+  provider?: string;
+  /** Number of attempts made across retries and fallbacks */
+  attempts?: number;
 }
 
 export interface ProviderConfig {
   name: string;
-  apiKey: string;
+  /** Required by hosted providers; local servers usually run without one */
+  apiKey?: string;
   baseUrl?: string;
   defaultModel?: string;
   timeout?: number;
   retryAttempts?: number;
+  /** Client-side limit on requests per minute */
   rateLimitRpm?: number;
+  /** Client-side limit on tokens per minute */
+  rateLimitTpm?: number;
+  /** Maximum tokens per UTC day */
+  dailyTokenBudget?: number;
+  /** Maximum spend per UTC day, computed from ModelInfo.costPer1kTokens */
+  dailyCostBudget?: number;
+  /** Limiter shared with other providers; overrides the limit and budget fields above */
+  rateLimiter?: RateLimiter;
   extra?: Record<string, any>;
 }
 
+export interface UsageStats {
+  requestsToday: number;
+  tokensToday: number;
+  /** Estimated spend today, from ModelInfo.costPer1kTokens */
+  costToday?: number;
+  /** Tokens left in the daily token budget, if one is set */
+  remainingQuota?: number;
+  /** Spend left in the daily cost budget, if one is set */
+  remainingBudget?: number;
+  /** When the daily counters reset (ISO 8601) */
+  resetsAt?: string;
+}
+
 /**
  * Abstract base class for LLM providers
  */
@@ -113,6 +192,11 @@ export abstract class LLMProvider {
   /** Provider capabilities */
   abstract get capabilities(): LLMCapabilities;
 
+  /** Embedding models, if the provider supports embed() */
+  get embeddingModels(): ModelInfo[] {
+    return [];
+  }
+
   /**
    * Generate a completion for the given prompt
    */
@@ -141,6 +225,24 @@ export abstract class LLMProvider {
    */
   chatCompletionStream?(options: ChatCompletionOptions): AsyncIterable<StreamingChunk>;
 
+  /**
+   * Generate a JSON value validated against a Zod schema, retrying with the
+   * validation errors fed back when the reply doesn't match
+   */
+  completeStructured<T>(
+    prompt: string,
+    schema: ZodType<T, ZodTypeDef, unknown>,
+    options?: StructuredOptions
+  ): Promise<StructuredResponse<T>> {
+    return completeStructured(this, prompt, schema, options);
+  }
+
+  /**
+   * Embed texts as vectors for semantic search
+   * Optional method - providers can implement if they support it
+   */
+  embed?(texts: string[], options?: EmbeddingOptions): Promise<EmbeddingResponse>;
+
   /**
    * Execute a tool call (if supported)
    */
@@ -157,11 +259,7 @@ export abstract class LLMProvider {
   /**
    * Get usage statistics (if available)
    */
-  abstract getUsage?(): Promise<{
-    requestsToday: number;
-    tokensToday: number;
-    remainingQuota?: number;
-  }>;
+  abstract getUsage?(): Promise<UsageStats>;
 
   /**
    * Validate provider configuration
@@ -174,11 +272,41 @@ export interface LLMProviderFactory {
   getSupportedProviders(): string[];
 }
 
-export type ProviderType = 'claude' | 'openai' | 'local' | 'custom';
+export type ProviderType = 'claude' | 'openai' | 'local' | 'replay' | 'custom';
+
+/**
+ * Where the bytes of an image or document come from
+ */
+export type MediaSource =
+  | { type: 'base64'; mediaType: string; data: string }
+  | { type: 'url'; url: string };
+
+export interface TextContentPart {
+  type: 'text';
+  text: string;
+}
+
+export interface ImageContentPart {
+  type: 'image';
+  source: MediaSource;
+}
+
+export interface DocumentContentPart {
+  type: 'document';
+  /** PDF (or other supported file) as base64 or URL, or plain text */
+  source: MediaSource | { type: 'text'; text: string };
+  /** File name or title shown to the model */
+  name?: string;
+}
+
+export type ContentPart = TextContentPart | ImageContentPart | DocumentContentPart;
+
+/** Plain text, or typed parts for multimodal messages */
+export type MessageContent = string | ContentPart[];
 
 export interface Message {
   role: 'system' | 'user' | 'assistant' | 'tool';
-  content: string;
+  content: MessageContent;
   toolCalls?: ToolCall[];
   toolCallId?: string;
   name?: string;
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MetricsRegistry, PROMETHEUS_CONTENT_TYPE, metricsHandler } from './MetricsRegistry.js';
+
+describe('MetricsRegistry', () => {
+  let registry: MetricsRegistry;
+
+  beforeEach(() => {
+    registry = new MetricsRegistry();
+  });
+
+  it('renders counters and gauges in the text exposition format', () => {
+    const requests = registry.counter('requests_total', 'Requests served', ['route', 'status']);
+    const sessions = registry.gauge('sessions', 'Open sessions');
+    requests.inc({ route: '/mcp', status: 'ok' });
+    requests.inc({ route: '/mcp', status: 'ok' }, 2);
+    requests.inc({ route: '/health', status: 'ok' });
+    sessions.inc();
+    sessions.inc();
+    sessions.dec();
+
+    expect(registry.render()).toBe([
+      '# HELP requests_total Requests served',
+      '# TYPE requests_total counter',
+      'requests_total{route="/mcp",status="ok"} 3',
+      'requests_total{route="/health",status="ok"} 1',
+      '# HELP sessions Open sessions',
+      '# TYPE sessions gauge',
+      'sessions 1',
+      '',
+    ].join('\n'));
+  });
+
+  it('exports unlabeled metrics at zero before they are used', () => {
+    registry.counter('jobs_total', 'Jobs run');
+    registry.counter('errors_total', 'Errors', ['kind']);
+
+    expect(registry.render()).toContain('jobs_total 0\n');
+    expect(registry.render()).not.toContain('errors_total{');
+  });
+
+  it('renders cumulative histogram buckets with sum and count', () => {
+    const duration = registry.histogram('duration_seconds', 'Durations', ['tool'], [0.1, 1]);
+    duration.observe(0.05, { tool: 'a' });
+    duration.observe(0.5, { tool: 'a' });
+    duration.observe(3, { tool: 'a' });
+
+    const output = registry.render();
+    expect(output).toContain('duration_seconds_bucket{tool="a",le="0.1"} 1\n');
+    expect(output).toContain('duration_seconds_bucket{tool="a",le="1"} 2\n');
+    expect(output).toContain('duration_seconds_bucket{tool="a",le="+Inf"} 3\n');
+    expect(output).toContain('duration_seconds_sum{tool="a"} 3.55\n');
+    expect(output).toContain('duration_seconds_count{tool="a"} 3\n');
+    expect(duration.get({ tool: 'a' })).toEqual({ sum: 3.55, count: 3 });
+  });
+
+  it('times observations', () => {
+    const duration = registry.histogram('op_seconds', 'Operation time', ['op', 'status']);
+    const stop = duration.startTimer({ op: 'read' });
+    const seconds = stop({ status: 'ok' });
+
+    expect(seconds).toBeGreaterThanOrEqual(0);
+    expect(duration.get({ op: 'read', status: 'ok' }).count).toBe(1);
+  });
+
+  it('escapes label values and help text', () => {
+    registry.counter('weird_total', 'Line one\nline two', ['path']).inc({ path: 'C:\\dir\\"quoted"' });
+
+    const output = registry.render();
+    expect(output).toContain('# HELP weird_total Line one\\nline two');
+    expect(output).toContain('weird_total{path="C:\\\\dir\\\\\\"quoted\\""} 1');
+  });
+
+  it('returns the existing metric for a known name', () => {
+    const first = registry.counter('calls_total', 'Calls', ['tool']);
+    const second = registry.counter('calls_total', 'Calls', ['tool']);
+    first.inc({ tool: 'echo' });
+
+    expect(second).toBe(first);
+    expect(second.get({ tool: 'echo' })).toBe(1);
+    expect(() => registry.gauge('calls_total', 'Calls')).toThrow('already registered as a counter');
+  });
+
+  it('rejects invalid names, unknown labels and decreasing counters', () => {
+    expect(() => registry.counter('bad-name', 'Bad')).toThrow('Invalid metric name');
+    expect(() => registry.histogram('h', 'H', ['le'])).toThrow('Invalid label name');
+
+    const counter = registry.counter('c_total', 'C', ['a']);
+    expect(() => counter.inc({ b: 'x' })).toThrow('Unknown label');
+    expect(() => counter.inc({ a: 'x' }, -1)).toThrow('cannot decrease');
+  });
+
+  it('reads values without creating series', () => {
+    const counter = registry.counter('reads_total', 'Reads', ['file']);
+
+    expect(counter.get({ file: 'a' })).toBe(0);
+    expect(registry.render()).not.toContain('reads_total{');
+  });
+
+  it('clears values on reset', () => {
+    const counter = registry.counter('resets_total', 'Resets', ['kind']);
+    counter.inc({ kind: 'x' });
+    registry.reset();
+
+    expect(counter.get({ kind: 'x' })).toBe(0);
+    expect(registry.getMetric('resets_total')).toBe(counter);
+  });
+
+  it('serves the registry over HTTP', () => {
+    registry.counter('served_total', 'Served').inc();
+    const headers: Record<string, string> = {};
+    let body = '';
+
+    metricsHandler(registry)({}, {
+      setHeader: (name, value) => (headers[name] = value),
+      end: (text: string) => (body = text),
+    });
+
+    expect(headers['Content-Type']).toBe(PROMETHEUS_CONTENT_TYPE);
+    expect(body).toContain('served_total 1');
+  });
+});
@@ -0,0 +1,305 @@
+/**
+ * Prometheus-style metrics
+ *
+ * Counters, gauges and histograms kept in a registry and rendered in the
+ * Prometheus text exposition format, for a `/metrics` endpoint.
+ */
+
+export type Labels = Record<string, string | number>;
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+/** Content-Type of render()'s output */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/** Histogram buckets in seconds, suited to request latencies */
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const METRIC_NAME = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_NAME = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+abstract class Metric<V> {
+  abstract readonly type: MetricType;
+  protected series = new Map<string, { labels: Labels; value: V }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: readonly string[]
+  ) {
+    if (!METRIC_NAME.test(name)) {
+      throw new Error(`Invalid metric name: ${name}`);
+    }
+    for (const label of labelNames) {
+      if (!LABEL_NAME.test(label) || label === 'le') {
+        throw new Error(`Invalid label name for ${name}: ${label}`);
+      }
+    }
+  }
+
+  protected abstract initialValue(): V;
+
+  protected getSeries(labels: Labels): { labels: Labels; value: V } {
+    const { key, values } = this.seriesKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = {
+        labels: Object.fromEntries(this.labelNames.map((label, i) => [label, values[i]!])),
+        value: this.initialValue()
+      };
+      this.series.set(key, series);
+    }
+    return series;
+  }
+
+  /** Recorded value, without creating the series */
+  protected peekSeries(labels: Labels): V | undefined {
+    return this.series.get(this.seriesKey(labels).key)?.value;
+  }
+
+  private seriesKey(labels: Labels): { key: string; values: string[] } {
+    for (const name of Object.keys(labels)) {
+      if (!this.labelNames.includes(name)) {
+        throw new Error(`Unknown label for ${this.name}: ${name}`);
+      }
+    }
+    // Missing labels are exported as empty strings
+    const values = this.labelNames.map(label => String(labels[label] ?? ''));
+    return { key: JSON.stringify(values), values };
+  }
+
+  /** Clears every recorded value */
+  reset(): void {
+    this.series.clear();
+  }
+
+  render(): string[] {
+    // Unlabeled metrics are exported from the start, at zero
+    if (this.labelNames.length === 0) {
+      this.getSeries({});
+    }
+    const lines = [`# HELP ${this.name} ${escapeHelp(this.help)}`, `# TYPE ${this.name} ${this.type}`];
+    for (const { labels, value } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, value));
+    }
+    return lines;
+  }
+
+  protected abstract renderSeries(labels: Labels, value: V): string[];
+}
+
+/**
+ * A value that only goes up, e.g. requests served
+ */
+export class Counter extends Metric<number> {
+  readonly type = 'counter';
+
+  inc(labels: Labels = {}, amount = 1): void {
+    if (amount < 0) {
+      throw new Error(`Counter ${this.name} cannot decrease`);
+    }
+    this.getSeries(labels).value += amount;
+  }
+
+  get(labels: Labels = {}): number {
+    return this.peekSeries(labels) ?? 0;
+  }
+
+  protected initialValue(): number {
+    return 0;
+  }
+
+  protected renderSeries(labels: Labels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`];
+  }
+}
+
+/**
+ * A value that goes up and down, e.g. open sessions
+ */
+export class Gauge extends Metric<number> {
+  readonly type = 'gauge';
+
+  set(value: number, labels: Labels = {}): void {
+    this.getSeries(labels).value = value;
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    this.getSeries(labels).value += amount;
+  }
+
+  dec(labels: Labels = {}, amount = 1): void {
+    this.getSeries(labels).value -= amount;
+  }
+
+  get(labels: Labels = {}): number {
+    return this.peekSeries(labels) ?? 0;
+  }
+
+  protected initialValue(): number {
+    return 0;
+  }
+
+  protected renderSeries(labels: Labels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`];
+  }
+}
+
+interface HistogramValue {
+  /** Observations per bucket (not cumulative), then above the last bucket */
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Observations counted in buckets, e.g. request durations
+ */
+export class Histogram extends Metric<HistogramValue> {
+  readonly type = 'histogram';
+  readonly buckets: readonly number[];
+
+  constructor(name: string, help: string, labelNames: readonly string[], buckets: readonly number[] = DEFAULT_BUCKETS) {
+    super(name, help, labelNames);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(value: number, labels: Labels = {}): void {
+    const series = this.getSeries(labels).value;
+    const index = this.buckets.findIndex(bound => value <= bound);
+    series.counts[index === -1 ? this.buckets.length : index]! += 1;
+    series.sum += value;
+    series.count += 1;
+  }
+
+  /**
+   * Starts timing; the returned function observes the elapsed seconds
+   */
+  startTimer(labels: Labels = {}): (extraLabels?: Labels) => number {
+    const start = performance.now();
+    return (extraLabels = {}) => {
+      const seconds = (performance.now() - start) / 1000;
+      this.observe(seconds, { ...labels, ...extraLabels });
+      return seconds;
+    };
+  }
+
+  get(labels: Labels = {}): { sum: number; count: number } {
+    const { sum = 0, count = 0 } = this.peekSeries(labels) ?? {};
+    return { sum, count };
+  }
+
+  protected initialValue(): HistogramValue {
+    return { counts: new Array(this.buckets.length + 1).fill(0), sum: 0, count: 0 };
+  }
+
+  protected renderSeries(labels: Labels, value: HistogramValue): string[] {
+    const lines: string[] = [];
+    let cumulative = 0;
+    this.buckets.forEach((bound, i) => {
+      cumulative += value.counts[i]!;
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${cumulative}`);
+    });
+    lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`);
+    lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`);
+    lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    return lines;
+  }
+}
+
+/**
+ * Holds a process's metrics. Asking for an existing metric returns it, so
+ * per-session code can look its metrics up every time.
+ *
+ * @example
+ * ```typescript
+ * const calls = defaultRegistry.counter('jobs_total', 'Jobs run', ['status']);
+ * calls.inc({ status: 'ok' });
+ *
+ * app.get('/metrics', metricsHandler());
+ * ```
+ */
+export class MetricsRegistry {
+  private metrics = new Map<string, Counter | Gauge | Histogram>();
+
+  counter(name: string, help: string, labelNames: readonly string[] = []): Counter {
+    return this.getOrCreate(name, 'counter', () => new Counter(name, help, labelNames)) as Counter;
+  }
+
+  gauge(name: string, help: string, labelNames: readonly string[] = []): Gauge {
+    return this.getOrCreate(name, 'gauge', () => new Gauge(name, help, labelNames)) as Gauge;
+  }
+
+  histogram(name: string, help: string, labelNames: readonly string[] = [], buckets?: readonly number[]): Histogram {
+    return this.getOrCreate(name, 'histogram', () => new Histogram(name, help, labelNames, buckets)) as Histogram;
+  }
+
+  getMetric(name: string): Counter | Gauge | Histogram | undefined {
+    return this.metrics.get(name);
+  }
+
+  /** Clears the values of every metric, keeping the metrics themselves */
+  reset(): void {
+    for (const metric of this.metrics.values()) {
+      metric.reset();
+    }
+  }
+
+  /**
+   * Every metric in the Prometheus text exposition format
+   */
+  render(): string {
+    const lines = [...this.metrics.values()].flatMap(metric => metric.render());
+    return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+  }
+
+  private getOrCreate(name: string, type: MetricType, create: () => Counter | Gauge | Histogram) {
+    const existing = this.metrics.get(name);
+    if (existing) {
+      if (existing.type !== type) {
+        throw new Error(`Metric ${name} is already registered as a ${existing.type}`);
+      }
+      return existing;
+    }
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
+
+/** The registry served by metricsHandler() unless another is given */
+export const defaultRegistry = new MetricsRegistry();
+
+interface MetricsResponse {
+  setHeader(name: string, value: string): unknown;
+  end(body: string): unknown;
+}
+
+/**
+ * Request handler serving the registry, for Express or node:http
+ */
+export function metricsHandler(registry: MetricsRegistry = defaultRegistry): (req: unknown, res: MetricsResponse) => void {
+  return (_req, res) => {
+    res.setHeader('Content-Type', PROMETHEUS_CONTENT_TYPE);
+    res.end(registry.render());
+  };
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(String(value))}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
@@ -0,0 +1,23 @@
+/**
+ * Metrics utilities
+ *
+ * A Prometheus-style registry with MCP server and LLM provider
+ * instrumentation, served from a `/metrics` endpoint.
+ */
+
+export {
+  MetricsRegistry,
+  Counter,
+  Gauge,
+  Histogram,
+  defaultRegistry,
+  metricsHandler,
+  PROMETHEUS_CONTENT_TYPE,
+  DEFAULT_BUCKETS,
+  type Labels,
+  type MetricType,
+} from './MetricsRegistry.js';
+
+export { collectMcpMetrics } from './mcp.js';
+
+export { meterProvider } from './llm.js';
@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LocalProvider } from '../llm/providers/LocalProvider.js';
+import { MetricsRegistry, type Counter } from './MetricsRegistry.js';
+import { meterProvider } from './llm.js';
+
+describe('meterProvider', () => {
+  let registry: MetricsRegistry;
+  let provider: LocalProvider;
+
+  const counter = (name: string) => registry.getMetric(name) as Counter;
+
+  beforeEach(() => {
+    registry = new MetricsRegistry();
+    provider = meterProvider(new LocalProvider({ name: 'local', mock: true }), registry);
+  });
+
+  it('counts completions and their tokens', async () => {
+    const response = await provider.complete('Hello there');
+
+    const labels = { provider: 'local', model: response.model };
+    expect(counter('llm_requests_total').get({ provider: 'local', operation: 'chat', status: 'ok' })).toBe(1);
+    expect(counter('llm_tokens_total').get({ ...labels, type: 'input' })).toBe(response.usage!.promptTokens);
+    expect(counter('llm_tokens_total').get({ ...labels, type: 'output' })).toBe(response.usage!.completionTokens);
+  });
+
+  it('counts streamed tokens once the stream ends', async () => {
+    let usage;
+    for await (const chunk of provider.stream('Hello there', { model: 'mock-model' })) {
+      usage = chunk.usage ?? usage;
+    }
+
+    const labels = { provider: 'local', model: 'mock-model' };
+    expect(counter('llm_requests_total').get({ provider: 'local', operation: 'chat', status: 'ok' })).toBe(1);
+    expect(counter('llm_tokens_total').get({ ...labels, type: 'output' })).toBe(usage!.completionTokens);
+  });
+
+  it('counts failed calls', async () => {
+    const offline = new LocalProvider({ name: 'local', mock: true });
+    offline.chatCompletion = async () => {
+      throw new Error('Connection refused');
+    };
+    const failing = meterProvider(offline, registry);
+
+    await expect(failing.complete('Hello')).rejects.toThrow('Connection refused');
+    expect(counter('llm_requests_total').get({ provider: 'local', operation: 'chat', status: 'error' })).toBe(1);
+  });
+});
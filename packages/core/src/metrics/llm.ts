@@ -0,0 +1,94 @@
+/**
+ * Metrics of LLM provider calls: requests and token usage
+ */
+
+import type { LLMProvider, CompletionResponse, EmbeddingOptions } from '../llm/types.js';
+import { MetricsRegistry, defaultRegistry } from './MetricsRegistry.js';
+
+function llmMetrics(registry: MetricsRegistry) {
+  return {
+    requests: registry.counter('llm_requests_total', 'LLM provider calls, by provider, operation and outcome', ['provider', 'operation', 'status']),
+    tokens: registry.counter('llm_tokens_total', 'Tokens reported by LLM providers', ['provider', 'model', 'type']),
+    duration: registry.histogram('llm_request_duration_seconds', 'Time spent in LLM provider calls', ['provider', 'operation'])
+  };
+}
+
+/**
+ * Counts the provider's chatCompletion, chatCompletionStream and embed calls
+ * and the tokens they report (`llm_requests_total`, `llm_tokens_total` with
+ * `type="input"` or `"output"`, `llm_request_duration_seconds`). The
+ * provider is changed in place and returned.
+ */
+export function meterProvider<P extends LLMProvider>(provider: P, registry: MetricsRegistry = defaultRegistry): P {
+  const metrics = llmMetrics(registry);
+
+  const record = (operation: string, stopTimer: () => number, status: string) => {
+    stopTimer();
+    metrics.requests.inc({ provider: provider.name, operation, status });
+  };
+  const recordUsage = (model: string | undefined, usage: CompletionResponse['usage']) => {
+    if (!usage) {
+      return;
+    }
+    const labels = { provider: provider.name, model: model ?? '' };
+    metrics.tokens.inc({ ...labels, type: 'input' }, usage.promptTokens);
+    metrics.tokens.inc({ ...labels, type: 'output' }, usage.completionTokens);
+  };
+
+  const chatCompletion = provider.chatCompletion?.bind(provider);
+  if (chatCompletion) {
+    provider.chatCompletion = async options => {
+      const stopTimer = metrics.duration.startTimer({ provider: provider.name, operation: 'chat' });
+      try {
+        const response = await chatCompletion(options);
+        recordUsage(response.model, response.usage);
+        record('chat', stopTimer, 'ok');
+        return response;
+      } catch (error) {
+        record('chat', stopTimer, 'error');
+        throw error;
+      }
+    };
+  }
+
+  const chatCompletionStream = provider.chatCompletionStream?.bind(provider);
+  if (chatCompletionStream) {
+    provider.chatCompletionStream = async function* (options) {
+      const stopTimer = metrics.duration.startTimer({ provider: provider.name, operation: 'chat' });
+      let usage: CompletionResponse['usage'];
+      let status = 'ok';
+      try {
+        for await (const chunk of chatCompletionStream(options)) {
+          usage = chunk.usage ?? usage;
+          yield chunk;
+        }
+      } catch (error) {
+        status = 'error';
+        throw error;
+      } finally {
+        recordUsage(options.model, usage);
+        record('chat', stopTimer, status);
+      }
+    };
+  }
+
+  const embed = provider.embed?.bind(provider);
+  if (embed) {
+    provider.embed = async (texts: string[], options: EmbeddingOptions = {}) => {
+      const stopTimer = metrics.duration.startTimer({ provider: provider.name, operation: 'embeddings' });
+      try {
+        const response = await embed(texts, options);
+        if (response.usage) {
+          metrics.tokens.inc({ provider: provider.name, model: response.model, type: 'input' }, response.usage.promptTokens);
+        }
+        record('embeddings', stopTimer, 'ok');
+        return response;
+      } catch (error) {
+        record('embeddings', stopTimer, 'error');
+        throw error;
+      }
+    };
+  }
+
+  return provider;
+}
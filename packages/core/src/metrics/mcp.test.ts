@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CallToolResultSchema, ElicitRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { MetricsRegistry, type Counter, type Gauge, type Histogram } from './MetricsRegistry.js';
+import { collectMcpMetrics } from './mcp.js';
+import { waitFor } from '../../test/helpers.js';
+
+describe('collectMcpMetrics', () => {
+  let registry: MetricsRegistry;
+  let server: McpServer;
+  let client: Client;
+  let elicitAction: 'accept' | 'decline' | 'cancel';
+
+  const counter = (name: string) => registry.getMetric(name) as Counter;
+
+  beforeEach(async () => {
+    registry = new MetricsRegistry();
+    elicitAction = 'accept';
+
+    server = new McpServer({ name: 'test-server', version: '1.0.0' }, { capabilities: {} });
+    collectMcpMetrics(server.server, registry);
+    server.tool('echo', { text: z.string() }, async ({ text }, extra) => {
+      await extra.sendNotification({
+        method: 'notifications/progress',
+        params: { progressToken: extra._meta?.progressToken ?? 0, progress: 1, total: 1 },
+      });
+      return { content: [{ type: 'text', text }] };
+    });
+    server.tool('fail', {}, async () => ({ content: [{ type: 'text', text: 'nope' }], isError: true }));
+    server.tool('crash', {}, async () => {
+      throw new Error('boom');
+    });
+    server.tool('confirm', {}, async () => {
+      const result = await server.server.elicitInput({
+        message: 'Proceed?',
+        requestedSchema: { type: 'object', properties: { ok: { type: 'boolean' } } },
+      });
+      return { content: [{ type: 'text', text: result.action }] };
+    });
+
+    client = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: { elicitation: {} } });
+    client.setRequestHandler(ElicitRequestSchema, async () => (
+      elicitAction === 'accept' ? { action: 'accept', content: { ok: true } } : { action: elicitAction }
+    ));
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+  });
+
+  it('counts tool calls by outcome and times them', async () => {
+    await client.callTool({ name: 'echo', arguments: { text: 'hi' } });
+    await client.callTool({ name: 'echo', arguments: { text: 'again' } });
+    await client.callTool({ name: 'fail', arguments: {} });
+    await client.callTool({ name: 'crash', arguments: {} });
+
+    const calls = counter('mcp_tool_calls_total');
+    expect(calls.get({ tool: 'echo', status: 'ok' })).toBe(2);
+    expect(calls.get({ tool: 'fail', status: 'error' })).toBe(1);
+    expect(calls.get({ tool: 'crash', status: 'error' })).toBe(1);
+    expect((registry.getMetric('mcp_tool_call_duration_seconds') as Histogram).get({ tool: 'echo' }).count).toBe(2);
+  });
+
+  it('labels calls to tools the server does not list as unknown', async () => {
+    await client.callTool({ name: 'made-up-1', arguments: {} });
+    await client.callTool({ name: 'made-up-2', arguments: {} });
+    server.tool('late', {}, async () => ({ content: [{ type: 'text', text: 'here' }] }));
+    await client.callTool({ name: 'late', arguments: {} });
+
+    const calls = counter('mcp_tool_calls_total');
+    expect(calls.get({ tool: 'unknown', status: 'error' })).toBe(2);
+    expect(calls.get({ tool: 'late', status: 'ok' })).toBe(1);
+    expect(registry.render()).not.toContain('made-up');
+  });
+
+  it('tracks active sessions', async () => {
+    const sessions = registry.getMetric('mcp_active_sessions') as Gauge;
+    await waitFor(() => sessions.get() === 1);
+
+    await client.close();
+    expect(sessions.get()).toBe(0);
+  });
+
+  it('counts elicitation outcomes', async () => {
+    await client.callTool({ name: 'confirm', arguments: {} });
+    elicitAction = 'decline';
+    await client.callTool({ name: 'confirm', arguments: {} });
+
+    const elicitations = counter('mcp_elicitations_total');
+    expect(elicitations.get({ action: 'accept' })).toBe(1);
+    expect(elicitations.get({ action: 'decline' })).toBe(1);
+  });
+
+  it('counts progress tokens and progress notifications', async () => {
+    await client.request(
+      { method: 'tools/call', params: { name: 'echo', arguments: { text: 'hi' }, _meta: { progressToken: 'p1' } } },
+      CallToolResultSchema
+    );
+    await client.callTool({ name: 'echo', arguments: { text: 'no token' } });
+
+    expect(counter('mcp_progress_tokens_total').get({ method: 'tools/call' })).toBe(1);
+    expect(counter('mcp_progress_notifications_total').get()).toBe(2);
+  });
+
+  it('shares metrics between sessions', async () => {
+    const other = new McpServer({ name: 'test-server', version: '1.0.0' }, { capabilities: {} });
+    collectMcpMetrics(other.server, registry);
+    other.tool('echo', { text: z.string() }, async ({ text }) => ({ content: [{ type: 'text', text }] }));
+    const otherClient = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([otherClient.connect(clientTransport), other.connect(serverTransport)]);
+
+    await client.callTool({ name: 'echo', arguments: { text: 'one' } });
+    await otherClient.callTool({ name: 'echo', arguments: { text: 'two' } });
+
+    expect(counter('mcp_tool_calls_total').get({ tool: 'echo', status: 'ok' })).toBe(2);
+    await waitFor(() => (registry.getMetric('mcp_active_sessions') as Gauge).get() === 2);
+    await otherClient.close();
+    await other.close();
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Metrics of an MCP server: tool calls, sessions, elicitations and progress
+ */
+
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { MetricsRegistry, defaultRegistry } from './MetricsRegistry.js';
+import { wrapRequestHandlers, type RequestHandler } from '../utils/requestHandlers.js';
+
+function mcpMetrics(registry: MetricsRegistry) {
+  return {
+    toolCalls: registry.counter('mcp_tool_calls_total', 'Tool calls handled, by tool and outcome', ['tool', 'status']),
+    toolDuration: registry.histogram('mcp_tool_call_duration_seconds', 'Time spent handling tool calls', ['tool']),
+    activeSessions: registry.gauge('mcp_active_sessions', 'Initialized MCP sessions that are still open'),
+    elicitations: registry.counter('mcp_elicitations_total', 'Elicitation requests sent to clients, by outcome', ['action']),
+    progressTokens: registry.counter('mcp_progress_tokens_total', 'Requests received with a progress token', ['method']),
+    progressNotifications: registry.counter('mcp_progress_notifications_total', 'Progress notifications sent to clients')
+  };
+}
+
+/**
+ * Records the metrics of an MCP server session (McpServer's `server`):
+ *
+ * - `mcp_tool_calls_total{tool,status}` and `mcp_tool_call_duration_seconds{tool}`;
+ *   results with `isError` and thrown errors count as `status="error"`, and
+ *   calls to tools the server doesn't list count as `tool="unknown"`
+ * - `mcp_active_sessions`, up on initialization and down on close
+ * - `mcp_elicitations_total{action}` with accept, decline, cancel or error
+ * - `mcp_progress_tokens_total{method}` and `mcp_progress_notifications_total`
+ *
+ * Metrics are shared through the registry, so call this for every session.
+ */
+export function collectMcpMetrics(server: Server, registry: MetricsRegistry = defaultRegistry): void {
+  const metrics = mcpMetrics(registry);
+
+  // Tool names come from the client, so only those the server lists become
+  // label values; the list is fetched again after tools/list_changed
+  let listTools: RequestHandler | undefined;
+  let toolNames: Promise<Set<string>> | undefined;
+  const toolLabel = async (name: unknown, extra: Parameters<RequestHandler>[1]): Promise<string> => {
+    if (typeof name !== 'string' || !listTools) {
+      return 'unknown';
+    }
+    toolNames ??= listTools({ method: 'tools/list', params: {} }, extra)
+      .then((result: { tools: { name: string }[] }) => new Set(result.tools.map(tool => tool.name)));
+    try {
+      return (await toolNames).has(name) ? name : 'unknown';
+    } catch {
+      toolNames = undefined;
+      return 'unknown';
+    }
+  };
+
+  wrapRequestHandlers(server, (handler, method) => {
+    if (method === 'tools/list') {
+      listTools = handler;
+    }
+    return async (req, extra) => {
+      if (req.params?._meta?.progressToken !== undefined) {
+        metrics.progressTokens.inc({ method });
+      }
+      if (method !== 'tools/call') {
+        return handler(req, extra);
+      }
+
+      const tool = await toolLabel(req.params?.name, extra);
+      const stopTimer = metrics.toolDuration.startTimer({ tool });
+      let status = 'error';
+      try {
+        const result = await handler(req, extra) as { isError?: boolean } | undefined;
+        status = result?.isError ? 'error' : 'ok';
+        return result;
+      } finally {
+        stopTimer();
+        metrics.toolCalls.inc({ tool, status });
+      }
+    };
+  });
+
+  const request = server.request.bind(server);
+  server.request = (async (req: { method: string }, resultSchema: any, options?: any) => {
+    if (req.method !== 'elicitation/create') {
+      return request(req as any, resultSchema, options);
+    }
+    try {
+      const result = await request(req as any, resultSchema, options);
+      metrics.elicitations.inc({ action: String((result as { action?: string }).action) });
+      return result;
+    } catch (error) {
+      metrics.elicitations.inc({ action: 'error' });
+      throw error;
+    }
+  }) as typeof server.request;
+
+  const notification = server.notification.bind(server);
+  server.notification = (async (message: { method: string }, options?: any) => {
+    if (message.method === 'notifications/progress') {
+      metrics.progressNotifications.inc();
+    }
+    if (message.method === 'notifications/tools/list_changed') {
+      toolNames = undefined;
+    }
+    return notification(message as any, options);
+  }) as typeof server.notification;
+
+  let counted = false;
+  const oninitialized = server.oninitialized;
+  server.oninitialized = () => {
+    if (!counted) {
+      counted = true;
+      metrics.activeSessions.inc();
+    }
+    oninitialized?.();
+  };
+  const onclose = server.onclose;
+  server.onclose = () => {
+    if (counted) {
+      counted = false;
+      metrics.activeSessions.dec();
+    }
+    onclose?.();
+  };
+}
@@ -301,6 +301,7 @@ describe('progressUpdateSchema', () => {
 
 describe('taskStatusSchema', () => {
   it('should accept valid task statuses', () => {
+    expect(() => taskStatusSchema.parse('queued')).not.toThrow();
     expect(() => taskStatusSchema.parse('working')).not.toThrow();
     expect(() => taskStatusSchema.parse('input_required')).not.toThrow();
     expect(() => taskStatusSchema.parse('completed')).not.toThrow();
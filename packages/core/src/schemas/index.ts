@@ -89,8 +89,9 @@ export const progressUpdateSchema = z.object({
   eta: z.string().datetime().optional()
 }).passthrough();
 
-// MCP 2025-11-25 Task status schema
+// MCP 2025-11-25 Task status schema, plus 'queued' for tasks waiting on a worker slot
 export const taskStatusSchema = z.enum([
+  'queued',
   'working',
   'input_required',
   'completed',
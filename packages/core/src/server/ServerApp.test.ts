@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { Logger } from '../utils/logger.js';
+import { createServerApp, parseServerArgs, type ServerApp } from './ServerApp.js';
+import { waitFor } from '../../test/helpers.js';
+
+function createEchoServer() {
+  const mcpServer = new McpServer({ name: 'echo-server', version: '1.0.0' });
+  mcpServer.tool('echo', { text: z.string() }, async ({ text }) => ({ content: [{ type: 'text', text }] }));
+  return { mcpServer };
+}
+
+beforeAll(() => {
+  Logger.configure({ sinks: [] });
+});
+
+afterAll(() => {
+  Logger.resetConfiguration();
+});
+
+describe('parseServerArgs', () => {
+  it('reads the transport, port and host', () => {
+    expect(parseServerArgs(['--http', '--port=3005', '--host=127.0.0.1'])).toEqual({
+      transport: 'http',
+      httpPort: 3005,
+      host: '127.0.0.1',
+    });
+    expect(parseServerArgs(['--transport=stdio'])).toEqual({ transport: 'stdio' });
+    expect(parseServerArgs([])).toEqual({});
+  });
+
+  it('leaves invalid values for the schema to reject', () => {
+    expect(() => createServerApp(
+      { name: 'bad', version: '1.0.0', ...parseServerArgs(['--port=abc']) },
+      createEchoServer
+    )).toThrow();
+    expect(() => createServerApp(
+      { name: 'bad', version: '1.0.0', ...parseServerArgs(['--transport=websocket']) },
+      createEchoServer
+    )).toThrow();
+  });
+});
+
+describe('createServerApp (HTTP)', () => {
+  let app: ServerApp;
+  let clients: Client[];
+
+  beforeEach(async () => {
+    clients = [];
+    app = createServerApp(
+      { name: 'echo-server', version: '1.2.3', description: 'Echoes text', transport: 'http', httpPort: 0, host: '127.0.0.1' },
+      createEchoServer,
+      { handleSignals: false }
+    );
+    await app.start();
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.map(client => client.close()));
+    await app.close();
+  });
+
+  async function connect(transport: StreamableHTTPClientTransport | SSEClientTransport): Promise<Client> {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(transport);
+    clients.push(client);
+    return client;
+  }
+
+  it('serves health, info and metrics', async () => {
+    const health = await (await fetch(`${app.url}/health`)).json();
+    expect(health).toEqual({ status: 'ok', server: 'echo-server', version: '1.2.3', sessions: 0 });
+
+    const info = await (await fetch(`${app.url}/`)).json();
+    expect(info).toMatchObject({
+      server: 'echo-server',
+      description: 'Echoes text',
+      endpoints: ['/health', '/metrics', '/mcp', '/sse', '/messages'],
+    });
+
+    const metrics = await fetch(`${app.url}/metrics`);
+    expect(metrics.headers.get('content-type')).toContain('text/plain');
+  });
+
+  it('keeps one MCP server per Streamable HTTP session', async () => {
+    const first = await connect(new StreamableHTTPClientTransport(new URL(`${app.url}/mcp`)));
+    const second = await connect(new StreamableHTTPClientTransport(new URL(`${app.url}/mcp`)));
+
+    const result = await first.callTool({ name: 'echo', arguments: { text: 'hello' } });
+    expect(result.content).toEqual([{ type: 'text', text: 'hello' }]);
+    await second.listTools();
+    expect(app.sessions.size).toBe(2);
+  });
+
+  it('forgets sessions the client terminates', async () => {
+    const transport = new StreamableHTTPClientTransport(new URL(`${app.url}/mcp`));
+    await connect(transport);
+    expect(app.sessions.size).toBe(1);
+
+    await transport.terminateSession();
+    await waitFor(() => app.sessions.size === 0);
+  });
+
+  it('rejects requests without a session or with an unknown one', async () => {
+    const headers = { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' };
+    const body = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' });
+
+    const missing = await fetch(`${app.url}/mcp`, { method: 'POST', headers, body });
+    expect(missing.status).toBe(400);
+
+    const unknown = await fetch(`${app.url}/mcp`, {
+      method: 'POST',
+      headers: { ...headers, 'Mcp-Session-Id': 'no-such-session' },
+      body,
+    });
+    expect(unknown.status).toBe(404);
+    expect((await unknown.json()).error.code).toBe(-32001);
+  });
+
+  it('serves the deprecated HTTP+SSE transport', async () => {
+    const client = await connect(new SSEClientTransport(new URL(`${app.url}/sse`)));
+
+    const result = await client.callTool({ name: 'echo', arguments: { text: 'over sse' } });
+    expect(result.content).toEqual([{ type: 'text', text: 'over sse' }]);
+  });
+
+  it('closes sessions and stops listening on close()', async () => {
+    await connect(new StreamableHTTPClientTransport(new URL(`${app.url}/mcp`)));
+    const url = app.url;
+
+    await app.close();
+
+    expect(app.sessions.size).toBe(0);
+    await expect(fetch(`${url}/health`)).rejects.toThrow();
+  });
+
+  it('runs the onClose hook once', async () => {
+    let calls = 0;
+    const other = createServerApp(
+      { name: 'hooked', version: '1.0.0', transport: 'http', httpPort: 0, host: '127.0.0.1' },
+      createEchoServer,
+      { handleSignals: false, onClose: () => { calls++; } }
+    );
+    await other.start();
+
+    await Promise.all([other.close(), other.close()]);
+    expect(calls).toBe(1);
+  });
+});
@@ -0,0 +1,332 @@
+/**
+ * Shared bootstrap for MCP servers
+ *
+ * Starts a server over stdio or HTTP (Streamable HTTP, plus the deprecated
+ * HTTP+SSE transport), keeps one MCP server per HTTP session, serves
+ * /health and /metrics and shuts everything down on SIGINT/SIGTERM.
+ */
+
+import express, { type Express, type Request, type Response } from 'express';
+import cors from 'cors';
+import { createServer, type Server as HttpServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { randomUUID } from 'node:crypto';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest, LATEST_PROTOCOL_VERSION } from '@modelcontextprotocol/sdk/types.js';
+import { serverConfigSchema, type ServerConfig, type ResolvedServerConfig } from '../types/index.js';
+import { Logger } from '../utils/logger.js';
+import { getTracer } from '../tracing/Tracer.js';
+import { metricsHandler } from '../metrics/MetricsRegistry.js';
+
+/**
+ * Creates the MCP server of one session (HTTP mode calls it per session)
+ */
+export type McpServerFactory = () => McpServer | { mcpServer: McpServer };
+
+export type SessionTransport = StreamableHTTPServerTransport | SSEServerTransport;
+
+export interface ServerAppOptions {
+  /** Close and exit on SIGINT/SIGTERM (default: true) */
+  handleSignals?: boolean;
+  /** Runs first in close(), e.g. to stop background jobs */
+  onClose?: () => Promise<void> | void;
+}
+
+/**
+ * Reads `--http`, `--stdio`, `--transport=<stdio|http>`, `--port=<n>` and
+ * `--host=<address>`. Values are checked when the config is parsed.
+ */
+export function parseServerArgs(argv: readonly string[] = process.argv.slice(2)): Partial<ServerConfig> {
+  const option = (name: string) => argv.find(arg => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+  const config: Partial<ServerConfig> = {};
+
+  const transport = option('transport')
+    ?? (argv.includes('--http') ? 'http' : argv.includes('--stdio') ? 'stdio' : undefined);
+  if (transport !== undefined) {
+    config.transport = transport as ServerConfig['transport'];
+  }
+  const port = option('port');
+  if (port !== undefined) {
+    config.httpPort = port.trim() === '' ? NaN : Number(port);
+  }
+  const host = option('host');
+  if (host !== undefined) {
+    config.host = host;
+  }
+  return config;
+}
+
+/**
+ * Validates the config (throwing a ZodError when it's invalid) and prepares
+ * the server; nothing listens until start().
+ *
+ * @example
+ * ```typescript
+ * const app = createServerApp(
+ *   { name: 'dev-tools-server', version: '1.0.0', httpPort: 3001, ...parseServerArgs() },
+ *   createMCPServer
+ * );
+ * await app.start();
+ * ```
+ */
+export function createServerApp(config: ServerConfig, factory: McpServerFactory, options: ServerAppOptions = {}): ServerApp {
+  return new ServerApp(serverConfigSchema.parse(config), factory, options);
+}
+
+export class ServerApp {
+  /** HTTP routes; add custom ones before start() */
+  readonly http: Express;
+  private readonly logger: Logger;
+  private readonly transports = new Map<string, SessionTransport>();
+  private httpServer?: HttpServer;
+  private stdioServer?: McpServer;
+  private closing?: Promise<void>;
+
+  constructor(
+    readonly config: ResolvedServerConfig,
+    private factory: McpServerFactory,
+    private options: ServerAppOptions = {}
+  ) {
+    this.logger = new Logger(config.name);
+    this.http = this.createHttpApp();
+  }
+
+  /** Open HTTP sessions by session id */
+  get sessions(): ReadonlyMap<string, SessionTransport> {
+    return this.transports;
+  }
+
+  /** Base URL of the HTTP transport once it listens */
+  get url(): string | undefined {
+    const address = this.httpServer?.address() as AddressInfo | null | undefined;
+    if (!address) {
+      return undefined;
+    }
+    const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+    return `http://${host === '[::]' || host === '0.0.0.0' ? 'localhost' : host}:${address.port}`;
+  }
+
+  /**
+   * Connects stdio or starts listening, depending on `transport`
+   */
+  async start(): Promise<void> {
+    if (this.config.transport === 'stdio') {
+      this.logger.info(`Starting ${this.config.name} (stdio mode)`);
+      this.stdioServer = this.createMcpServer();
+      await this.stdioServer.connect(new StdioServerTransport());
+      this.logger.info(`${this.config.name} connected and ready (stdio)`);
+    } else {
+      await this.listen();
+      this.logger.info(`${this.config.name} listening on ${this.url}`, {
+        endpoints: this.endpoints(),
+        protocol: LATEST_PROTOCOL_VERSION
+      });
+    }
+
+    if (this.options.handleSignals ?? true) {
+      this.handleSignals();
+    }
+  }
+
+  /**
+   * Closes every session and the HTTP listener, then flushes pending spans.
+   * Sessions still open after `shutdownTimeoutMs` are abandoned.
+   */
+  close(): Promise<void> {
+    this.closing ??= this.shutdown();
+    return this.closing;
+  }
+
+  private async shutdown(): Promise<void> {
+    this.logger.info(`Shutting down ${this.config.name}...`);
+    await this.options.onClose?.();
+
+    const sessions = [...this.transports].map(async ([sessionId, transport]) => {
+      try {
+        await transport.close();
+      } catch (error) {
+        this.logger.error(`Error closing transport for session ${sessionId}`, error);
+      }
+    });
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<void>(resolve => {
+      timer = setTimeout(() => {
+        this.logger.warn(`Sessions still open after ${this.config.shutdownTimeoutMs} ms, closing anyway`);
+        resolve();
+      }, this.config.shutdownTimeoutMs);
+    });
+    await Promise.race([Promise.all(sessions), timeout]);
+    clearTimeout(timer);
+    this.transports.clear();
+
+    await this.stdioServer?.close();
+    if (this.httpServer) {
+      const server = this.httpServer;
+      await new Promise<void>(resolve => {
+        server.close(() => resolve());
+        // Streams clients left open (GET /mcp, /sse) would hold close() forever
+        server.closeAllConnections();
+      });
+    }
+
+    await getTracer().shutdown();
+    this.logger.info(`${this.config.name} shutdown complete`);
+  }
+
+  private createMcpServer(): McpServer {
+    const created = this.factory();
+    return 'mcpServer' in created ? created.mcpServer : created;
+  }
+
+  private createHttpApp(): Express {
+    const app = express();
+    app.use(express.json());
+    app.use(cors({
+      origin: this.config.corsOrigin,
+      exposedHeaders: ['Mcp-Session-Id']
+    }));
+
+    app.get('/health', (_req, res) => {
+      res.json({
+        status: 'ok',
+        server: this.config.name,
+        version: this.config.version,
+        sessions: this.transports.size
+      });
+    });
+
+    app.get('/metrics', metricsHandler());
+
+    app.get('/', (_req, res) => {
+      res.json({
+        server: this.config.name,
+        version: this.config.version,
+        description: this.config.description,
+        endpoints: this.endpoints(),
+        protocol: LATEST_PROTOCOL_VERSION
+      });
+    });
+
+    app.all('/mcp', (req, res) => this.handleStreamableHttp(req, res));
+
+    if (this.config.legacySse) {
+      app.get('/sse', (req, res) => this.handleSseConnect(req, res));
+      app.post('/messages', (req, res) => this.handleSseMessage(req, res));
+    }
+
+    return app;
+  }
+
+  private endpoints(): string[] {
+    return ['/health', '/metrics', '/mcp', ...(this.config.legacySse ? ['/sse', '/messages'] : [])];
+  }
+
+  private listen(): Promise<void> {
+    const server = createServer(this.http);
+    this.httpServer = server;
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen({ port: this.config.httpPort, host: this.config.host }, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+  }
+
+  // Streamable HTTP transport (protocol version 2025-03-26 and later)
+  private async handleStreamableHttp(req: Request, res: Response): Promise<void> {
+    this.logger.debug(`Received ${req.method} request to /mcp`);
+
+    try {
+      const sessionId = req.headers['mcp-session-id'] as string | undefined;
+      let transport: StreamableHTTPServerTransport;
+
+      if (sessionId) {
+        const existing = this.transports.get(sessionId);
+        if (!existing) {
+          // Tells the client to start a new session
+          sendJsonRpcError(res, 404, -32001, 'Session not found');
+          return;
+        }
+        if (!(existing instanceof StreamableHTTPServerTransport)) {
+          sendJsonRpcError(res, 400, -32000, 'Bad Request: Session exists but uses a different transport protocol');
+          return;
+        }
+        transport = existing;
+      } else if (req.method === 'POST' && isInitializeRequest(req.body)) {
+        transport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: id => {
+            this.logger.info(`StreamableHTTP session initialized with ID: ${id}`);
+            this.transports.set(id, transport);
+          }
+        });
+        transport.onclose = () => {
+          const id = transport.sessionId;
+          if (id && this.transports.delete(id)) {
+            this.logger.info(`Transport closed for session ${id}`);
+          }
+        };
+        await this.createMcpServer().connect(transport);
+      } else {
+        sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+        return;
+      }
+
+      await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      this.logger.error('Error handling MCP request', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    }
+  }
+
+  // Deprecated HTTP+SSE transport (protocol version 2024-11-05)
+  private async handleSseConnect(_req: Request, res: Response): Promise<void> {
+    this.logger.info('Received GET request to /sse (deprecated SSE transport)');
+    const transport = new SSEServerTransport('/messages', res);
+    this.transports.set(transport.sessionId, transport);
+    res.on('close', () => {
+      this.transports.delete(transport.sessionId);
+    });
+
+    try {
+      await this.createMcpServer().connect(transport);
+    } catch (error) {
+      this.logger.error('Error starting SSE session', error);
+      this.transports.delete(transport.sessionId);
+    }
+  }
+
+  private async handleSseMessage(req: Request, res: Response): Promise<void> {
+    const transport = this.transports.get(req.query.sessionId as string);
+    if (!(transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: Session exists but uses a different transport protocol or session not found');
+      return;
+    }
+    await transport.handlePostMessage(req, res, req.body);
+  }
+
+  private handleSignals(): void {
+    const onSignal = (signal: NodeJS.Signals) => {
+      this.logger.info(`Received ${signal}`);
+      this.close().then(
+        () => process.exit(0),
+        error => {
+          this.logger.error('Shutdown failed', error);
+          process.exit(1);
+        }
+      );
+    };
+    process.once('SIGINT', onSignal);
+    process.once('SIGTERM', onSignal);
+  }
+}
+
+function sendJsonRpcError(res: Response, status: number, code: number, message: string): void {
+  res.status(status).json({ jsonrpc: '2.0', error: { code, message }, id: null });
+}
@@ -0,0 +1,15 @@
+/**
+ * Server bootstrap utilities
+ *
+ * createServerApp() runs an MCP server over stdio or HTTP with the session
+ * handling, health and metrics routes and shutdown every server needs.
+ */
+
+export {
+  createServerApp,
+  parseServerArgs,
+  ServerApp,
+  type McpServerFactory,
+  type ServerAppOptions,
+  type SessionTransport,
+} from './ServerApp.js';
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  SessionManager,
+  attachSessionContext,
+  getSessionContext,
+  DEFAULT_SESSION_KEY,
+} from './SessionContext.js';
+import { waitFor } from '../../test/helpers.js';
+
+describe('SessionManager', () => {
+  it('keeps state per context', () => {
+    const sessions = new SessionManager();
+    sessions.get('a').get('notes', () => [] as string[]).push('from a');
+
+    expect(sessions.get('a').get('notes', () => [] as string[])).toEqual(['from a']);
+    expect(sessions.get('b').get('notes', () => [] as string[])).toEqual([]);
+    expect(sessions.size).toBe(2);
+  });
+
+  it('shares state only through shared()', () => {
+    const sessions = new SessionManager();
+    sessions.get('a').shared('counter', () => ({ value: 0 })).value++;
+
+    expect(sessions.get('b').shared('counter', () => ({ value: 0 })).value).toBe(1);
+    expect(sessions.get('b').has('counter')).toBe(false);
+  });
+
+  it('resolves request keys from the session id, a custom key or the default', () => {
+    const sessions = new SessionManager();
+    expect(sessions.keyFor({ sessionId: 's1' })).toBe('s1');
+    expect(sessions.keyFor({})).toBe(DEFAULT_SESSION_KEY);
+
+    const tenants = new SessionManager({ resolveKey: extra => extra.authInfo?.clientId });
+    expect(tenants.keyFor({ sessionId: 's1', authInfo: { clientId: 'acme' } })).toBe('acme');
+    expect(tenants.keyFor({ sessionId: 's2' })).toBe('s2');
+  });
+
+  it('creates and disposes stores', async () => {
+    const disposed: string[] = [];
+    const sessions = new SessionManager({
+      createStore: key => ({ key }),
+      disposeStore: store => { disposed.push(store.key); },
+    });
+
+    expect(sessions.get('a').store).toEqual({ key: 'a' });
+    expect(await sessions.delete('a')).toBe(true);
+    expect(await sessions.delete('a')).toBe(false);
+    expect(disposed).toEqual(['a']);
+    expect(sessions.has('a')).toBe(false);
+  });
+});
+
+describe('attachSessionContext', () => {
+  let sessions: SessionManager;
+  let clients: Client[];
+
+  function createServer(): McpServer {
+    const server = new McpServer({ name: 'test-server', version: '1.0.0' });
+    attachSessionContext(sessions, server.server);
+    server.tool('add_note', { text: z.string() }, async ({ text }, extra) => {
+      const notes = getSessionContext(extra).get('notes', () => [] as string[]);
+      notes.push(text);
+      return { content: [{ type: 'text', text: notes.join(', ') }] };
+    });
+    return server;
+  }
+
+  async function connect(sessionId: string): Promise<Client> {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    // InMemoryTransport has no session id of its own; give each pair one
+    (serverTransport as { sessionId?: string }).sessionId = sessionId;
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([client.connect(clientTransport), createServer().connect(serverTransport)]);
+    clients.push(client);
+    return client;
+  }
+
+  beforeEach(() => {
+    sessions = new SessionManager();
+    clients = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.map(client => client.close()));
+  });
+
+  it('gives each session its own state', async () => {
+    const first = await connect('s1');
+    const second = await connect('s2');
+
+    await first.callTool({ name: 'add_note', arguments: { text: 'one' } });
+    const result = await first.callTool({ name: 'add_note', arguments: { text: 'two' } });
+    const other = await second.callTool({ name: 'add_note', arguments: { text: 'three' } });
+
+    expect(result.content).toEqual([{ type: 'text', text: 'one, two' }]);
+    expect(other.content).toEqual([{ type: 'text', text: 'three' }]);
+  });
+
+  it('drops the context when the session closes', async () => {
+    const client = await connect('s1');
+    await client.callTool({ name: 'add_note', arguments: { text: 'one' } });
+    expect(sessions.has('s1')).toBe(true);
+
+    await client.close();
+    await waitFor(() => !sessions.has('s1'));
+  });
+
+  it('throws without attachSessionContext', () => {
+    expect(() => getSessionContext({})).toThrow(expect.objectContaining({ code: 'SESSION_CONTEXT_MISSING' }));
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Session-scoped state for multi-client servers
+ *
+ * A SessionManager keeps one SessionContext per MCP session (or per tenant,
+ * with a custom key), so state a tool creates is only visible to the
+ * session that created it. State meant for everyone goes through shared().
+ */
+
+import type { Protocol } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { MCPError } from '../types/index.js';
+import { wrapRequestHandlers } from '../utils/requestHandlers.js';
+
+/** Key used for requests without a session id, e.g. over stdio */
+export const DEFAULT_SESSION_KEY = 'default';
+
+/** The parts of a request's `extra` used to pick its context */
+export interface SessionRequestExtra {
+  sessionId?: string;
+  authInfo?: { clientId?: string; extra?: Record<string, unknown> };
+}
+
+export interface SessionManagerOptions<S> {
+  /**
+   * Context key of a request (default: its MCP session id). Return e.g. a
+   * tenant id from `authInfo` to share a context between a tenant's sessions.
+   */
+  resolveKey?: (extra: SessionRequestExtra) => string | undefined;
+  /** Creates the store handle of a new context */
+  createStore?: (key: string) => S;
+  /** Releases a store when its context is deleted */
+  disposeStore?: (store: S, key: string) => void | Promise<void>;
+}
+
+export class SessionContext<S = undefined> {
+  private readonly state = new Map<string, unknown>();
+
+  constructor(
+    /** Session id or tenant key the context belongs to */
+    readonly key: string,
+    /** Store handle created by the manager's createStore */
+    readonly store: S,
+    private readonly manager: SessionManager<S>
+  ) {}
+
+  /**
+   * Session-scoped value for `name`, created by `init` on first use
+   */
+  get<T>(name: string, init: () => T): T {
+    if (!this.state.has(name)) {
+      this.state.set(name, init());
+    }
+    return this.state.get(name) as T;
+  }
+
+  set<T>(name: string, value: T): void {
+    this.state.set(name, value);
+  }
+
+  has(name: string): boolean {
+    return this.state.has(name);
+  }
+
+  delete(name: string): boolean {
+    return this.state.delete(name);
+  }
+
+  /**
+   * Value shared by every context of the manager (opt-in sharing)
+   */
+  shared<T>(name: string, init: () => T): T {
+    return this.manager.shared(name, init);
+  }
+}
+
+export class SessionManager<S = undefined> {
+  private readonly contexts = new Map<string, SessionContext<S>>();
+  private readonly sharedState = new Map<string, unknown>();
+
+  constructor(private readonly options: SessionManagerOptions<S> = {}) {}
+
+  get size(): number {
+    return this.contexts.size;
+  }
+
+  /**
+   * The context for `key`, created on first use
+   */
+  get(key: string): SessionContext<S> {
+    let context = this.contexts.get(key);
+    if (!context) {
+      const store = this.options.createStore?.(key) as S;
+      context = new SessionContext(key, store, this);
+      this.contexts.set(key, context);
+    }
+    return context;
+  }
+
+  /**
+   * The context a request belongs to
+   */
+  forRequest(extra: SessionRequestExtra): SessionContext<S> {
+    return this.get(this.keyFor(extra));
+  }
+
+  keyFor(extra: SessionRequestExtra): string {
+    return this.options.resolveKey?.(extra) ?? extra.sessionId ?? DEFAULT_SESSION_KEY;
+  }
+
+  has(key: string): boolean {
+    return this.contexts.has(key);
+  }
+
+  /**
+   * Drops a context and disposes its store
+   */
+  async delete(key: string): Promise<boolean> {
+    const context = this.contexts.get(key);
+    if (!context) {
+      return false;
+    }
+    this.contexts.delete(key);
+    await this.options.disposeStore?.(context.store, key);
+    return true;
+  }
+
+  shared<T>(name: string, init: () => T): T {
+    if (!this.sharedState.has(name)) {
+      this.sharedState.set(name, init());
+    }
+    return this.sharedState.get(name) as T;
+  }
+}
+
+/**
+ * Hands every request handler of a server (tools, resources, prompts, ...)
+ * its SessionContext as `extra.session`; read it with getSessionContext().
+ *
+ * When the server closes, the context keyed by its session id is deleted.
+ * Contexts under other keys (tenants) outlive the sessions using them.
+ *
+ * @example
+ * ```typescript
+ * const sessions = new SessionManager();
+ *
+ * function createMCPServer() {
+ *   const mcpServer = new McpServer(info);
+ *   attachSessionContext(sessions, mcpServer.server);
+ *   mcpServer.registerTool('add_note', config, async ({ text }, extra) => {
+ *     getSessionContext(extra).get('notes', () => [] as string[]).push(text);
+ *     ...
+ *   });
+ * }
+ * ```
+ */
+export function attachSessionContext<S>(manager: SessionManager<S>, server: Protocol<any, any, any>): void {
+  let sessionId: string | undefined;
+
+  wrapRequestHandlers(server, handler => (req, extra) => {
+    sessionId ??= extra.sessionId;
+    return handler(req, { ...extra, session: manager.forRequest(extra) } as typeof extra);
+  });
+
+  const onclose = server.onclose;
+  server.onclose = () => {
+    if (sessionId !== undefined) {
+      void manager.delete(sessionId);
+    }
+    onclose?.();
+  };
+}
+
+/**
+ * The SessionContext of a request handled by a server set up with
+ * attachSessionContext()
+ *
+ * @throws MCPError with code 'SESSION_CONTEXT_MISSING' otherwise
+ */
+export function getSessionContext<S = undefined>(extra: object): SessionContext<S> {
+  const session = (extra as { session?: SessionContext<S> }).session;
+  if (!session) {
+    throw new MCPError('No session context; call attachSessionContext() on the server', 'SESSION_CONTEXT_MISSING');
+  }
+  return session;
+}
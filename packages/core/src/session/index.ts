@@ -0,0 +1,16 @@
+/**
+ * Session-scoped state
+ *
+ * Per-session (or per-tenant) state containers for servers that serve
+ * several clients, with explicit opt-in sharing.
+ */
+
+export {
+  SessionContext,
+  SessionManager,
+  attachSessionContext,
+  getSessionContext,
+  DEFAULT_SESSION_KEY,
+  type SessionManagerOptions,
+  type SessionRequestExtra,
+} from './SessionContext.js';
@@ -117,6 +117,15 @@ describe('TaskManager', () => {
       });
     });
 
+    it('should prefer the per-task notifier', async () => {
+      const sessionNotify = vi.fn().mockResolvedValue(undefined);
+      const task = taskManager.createTask('Test Task', 'token-123', { sendNotification: sessionNotify });
+      await taskManager.updateProgress(task.id, 'token-123', 25);
+
+      expect(sessionNotify).toHaveBeenCalledOnce();
+      expect(mockNotify).not.toHaveBeenCalled();
+    });
+
     it('should not send notification without token', async () => {
       const task = taskManager.createTask('Test Task');
       await taskManager.updateProgress(task.id, undefined, 50, 'Processing');
@@ -170,6 +179,172 @@ describe('TaskManager', () => {
 
       expect(taskManager.isTokenActive('token-123')).toBe(false);
     });
+
+    it('should abort the task signal with the reason', () => {
+      const task = taskManager.createTask('Test Task');
+      const signal = taskManager.getSignal(task.id);
+      taskManager.cancelTask(task.id, 'User stopped it');
+
+      expect(signal?.aborted).toBe(true);
+      expect((signal?.reason as Error).message).toBe('User stopped it');
+      expect(taskManager.getTask(task.id)?.message).toBe('User stopped it');
+    });
+  });
+
+  describe('cancellation signals', () => {
+    it('should not abort the signal when the task completes', () => {
+      const task = taskManager.createTask('Test Task');
+      const signal = taskManager.getSignal(task.id);
+      taskManager.completeTask(task.id);
+
+      expect(signal?.aborted).toBe(false);
+      expect(taskManager.getSignal(task.id)).toBeUndefined();
+    });
+
+    it('should cancel the task when a linked signal aborts', () => {
+      const upstream = new AbortController();
+      const task = taskManager.createTask('Test Task', undefined, { signal: upstream.signal });
+      const signal = taskManager.getSignal(task.id);
+
+      upstream.abort();
+
+      expect(taskManager.getTask(task.id)?.status).toBe('cancelled');
+      expect(signal?.aborted).toBe(true);
+    });
+
+    it('should fail the task and abort its signal on timeout', () => {
+      vi.useFakeTimers();
+      try {
+        const task = taskManager.createTask('Test Task', undefined, { timeout: 1000 });
+        const signal = taskManager.getSignal(task.id);
+
+        vi.advanceTimersByTime(1001);
+
+        expect(signal?.aborted).toBe(true);
+        expect(taskManager.getTask(task.id)?.status).toBe('failed');
+        expect(taskManager.getTask(task.id)?.error).toBe('Task timed out after 1000ms');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should keep a partial result attached after cancellation', () => {
+      const task = taskManager.createTask('Test Task');
+      taskManager.cancelTask(task.id);
+      taskManager.attachResult(task.id, { processed: 3 });
+
+      const updated = taskManager.getTask(task.id);
+      expect(updated?.status).toBe('cancelled');
+      expect(updated?.result).toEqual({ processed: 3 });
+    });
+  });
+
+  describe('concurrency and queueing', () => {
+    let pool: TaskManager;
+
+    beforeEach(() => {
+      pool = new TaskManager({
+        sendNotification: mockNotify,
+        maxConcurrentTasks: 2,
+        maxTasksPerSession: 1,
+        maxQueuedPerSession: 2,
+      });
+    });
+
+    it('should queue tasks beyond the session quota', () => {
+      const first = pool.createTask('First', undefined, { sessionId: 'a' });
+      const second = pool.createTask('Second', undefined, { sessionId: 'a' });
+      const other = pool.createTask('Other', undefined, { sessionId: 'b' });
+
+      expect(first.status).toBe('working');
+      expect(second.status).toBe('queued');
+      expect(other.status).toBe('working');
+      expect(pool.getQueuePosition(second.id)).toBe(1);
+    });
+
+    it('should queue tasks beyond the global limit', () => {
+      pool.createTask('A', undefined, { sessionId: 'a' });
+      pool.createTask('B', undefined, { sessionId: 'b' });
+      const third = pool.createTask('C', undefined, { sessionId: 'c' });
+
+      expect(third.status).toBe('queued');
+    });
+
+    it('should start the highest priority task when a slot frees up', async () => {
+      const running = pool.createTask('Running', undefined, { sessionId: 'a' });
+      pool.createTask('Busy', undefined, { sessionId: 'b' });
+      const low = pool.createTask('Low', undefined, { sessionId: 'c' });
+      const high = pool.createTask('High', undefined, { sessionId: 'd', priority: 5 });
+
+      expect(pool.getQueuedTasks().map(t => t.id)).toEqual([high.id, low.id]);
+
+      const started = pool.waitForStart(high.id);
+      pool.completeTask(running.id);
+
+      await expect(started).resolves.toBe(true);
+      expect(pool.getTask(high.id)?.status).toBe('working');
+      expect(pool.getTask(low.id)?.status).toBe('queued');
+    });
+
+    it('should reorder the queue when priority changes', () => {
+      pool.createTask('A', undefined, { sessionId: 'a' });
+      pool.createTask('B', undefined, { sessionId: 'b' });
+      const first = pool.createTask('C', undefined, { sessionId: 'c' });
+      const second = pool.createTask('D', undefined, { sessionId: 'd' });
+
+      pool.setPriority(second.id, 10);
+
+      expect(pool.getQueuePosition(second.id)).toBe(1);
+      expect(pool.getQueuePosition(first.id)).toBe(2);
+    });
+
+    it('should resolve waitForStart with false when a queued task is cancelled', async () => {
+      pool.createTask('Running', undefined, { sessionId: 'a' });
+      const queued = pool.createTask('Queued', undefined, { sessionId: 'a' });
+
+      const started = pool.waitForStart(queued.id);
+      pool.cancelTask(queued.id);
+
+      await expect(started).resolves.toBe(false);
+      expect(pool.getQueuedTasks()).toHaveLength(0);
+    });
+
+    it('should reject tasks beyond the queued quota', () => {
+      pool.createTask('Running', undefined, { sessionId: 'a' });
+      pool.createTask('Queued 1', undefined, { sessionId: 'a' });
+      pool.createTask('Queued 2', undefined, { sessionId: 'a' });
+
+      expect(() => pool.createTask('Queued 3', undefined, { sessionId: 'a' })).toThrow(
+        expect.objectContaining({ code: 'TASK_QUOTA_EXCEEDED' })
+      );
+    });
+
+    it('should report queue position through progress notifications', async () => {
+      pool.createTask('Running', undefined, { sessionId: 'a' });
+      pool.createTask('Queued', 'token-q', { sessionId: 'a' });
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(mockNotify).toHaveBeenCalledWith({
+        method: 'notifications/progress',
+        params: {
+          progressToken: 'token-q',
+          progress: 0,
+          total: 100,
+          message: 'Queued: position 1',
+        },
+      });
+    });
+
+    it('should not renotify a queued task when tasks queue up behind it', async () => {
+      pool.createTask('Running', undefined, { sessionId: 'a' });
+      pool.createTask('Queued', 'token-q', { sessionId: 'a' });
+      await new Promise(resolve => setImmediate(resolve));
+      pool.createTask('Queued behind', 'token-b', { sessionId: 'a' });
+      await new Promise(resolve => setImmediate(resolve));
+
+      const messages = mockNotify.mock.calls.map(([n]) => `${n.params.progressToken}: ${n.params.message}`);
+      expect(messages).toEqual(['token-q: Queued: position 1', 'token-b: Queued: position 2']);
+    });
   });
 
   describe('setInputRequired', () => {
@@ -7,6 +7,8 @@
 
 import { z } from 'zod';
 import { taskStatusSchema, taskResultSchema, progressUpdateSchema } from '../schemas/index.js';
+import { MCPError } from '../types/index.js';
+import { InMemoryTaskStore, type TaskStore } from './TaskStore.js';
 
 export type TaskStatus = z.infer<typeof taskStatusSchema>;
 export type TaskResult = z.infer<typeof taskResultSchema>;
@@ -20,20 +22,82 @@ export interface Task {
   message?: string;
   result?: unknown;
   error?: string;
+  /** Input the task was started with, kept so interrupted work can be re-run */
+  input?: unknown;
+  /** MCP session that created the task (HTTP transports only) */
+  sessionId?: string;
+  /** Milliseconds to keep the task after it finishes; null keeps it until pruned */
+  ttl?: number | null;
+  /** Suggested delay in milliseconds between tasks/get polls */
+  pollInterval?: number;
+  /** Queue priority; higher values start first */
+  priority?: number;
   createdAt: Date;
   updatedAt: Date;
+  /** Set when the task was still active while the owning process stopped */
+  interruptedAt?: Date;
 }
 
+export interface CreateTaskOptions {
+  /** Input parameters to persist alongside the task */
+  input?: unknown;
+  /** Owning MCP session */
+  sessionId?: string;
+  /** Retention after completion in milliseconds */
+  ttl?: number | null;
+  /** Suggested poll interval in milliseconds */
+  pollInterval?: number;
+  /** Aborts the task's signal and fails the task after this many milliseconds */
+  timeout?: number;
+  /** Upstream signal (e.g. the request's `extra.signal`) that cancels the task when aborted */
+  signal?: AbortSignal;
+  /** Queue priority when no worker slot is free; higher values start first (default: 0) */
+  priority?: number;
+  /** Sends this task's notifications instead of the manager-wide sendNotification,
+   *  e.g. to reach the right session when one TaskManager serves several */
+  sendNotification?: (notification: { method: string; params: unknown }) => Promise<void>;
+}
+
+/**
+ * What to do with tasks found active in the store at startup:
+ * - 'fail': mark them failed with an explanatory error (default)
+ * - 'resume': keep them open and flag them so the owner can pick them up again
+ */
+export type InterruptedTaskPolicy = 'fail' | 'resume';
+
 export interface TaskManagerOptions {
   /** Function to send notifications (typically baseServer.notification) */
   sendNotification?: (notification: { method: string; params: unknown }) => Promise<void>;
   /** Maximum number of completed tasks to keep in history */
   maxHistorySize?: number;
+  /** Persistence backend (defaults to an in-memory store) */
+  store?: TaskStore;
+  /** Handling of tasks left active by a previous process (defaults to 'fail') */
+  interruptedTaskPolicy?: InterruptedTaskPolicy;
+  /** Maximum number of tasks running at once; extra tasks are queued (default: unlimited) */
+  maxConcurrentTasks?: number;
+  /** Maximum number of tasks one session may run at once (default: unlimited) */
+  maxTasksPerSession?: number;
+  /** Maximum number of tasks one session may have waiting; createTask throws beyond this (default: unlimited) */
+  maxQueuedPerSession?: number;
+}
+
+interface QueueEntry {
+  taskId: string;
+  sessionId?: string;
+  priority: number;
+  sequence: number;
+  /** Last queue position reported to the client */
+  notifiedPosition?: number;
 }
 
 /**
  * TaskManager handles creation, tracking, and progress reporting for long-running operations.
  *
+ * Create one manager per store and process, shared by every session: the
+ * constructor treats all tasks the store lists as active as left behind by
+ * a previous process (see InterruptedTaskPolicy).
+ *
  * @example
  * ```typescript
  * const taskManager = new TaskManager({
@@ -46,42 +110,113 @@ export interface TaskManagerOptions {
  * // Update progress
  * await taskManager.updateProgress(task.id, progressToken, 50, 'Halfway done');
  *
+ * // Stop early when the client cancels or the timeout elapses
+ * const signal = taskManager.getSignal(task.id);
+ * if (signal?.aborted) return partialResult;
+ *
  * // Complete the task
  * taskManager.completeTask(task.id, { data: 'result' });
+ *
+ * // Persist task history across restarts
+ * const durable = new TaskManager({ store: new SqliteTaskStore('./data/tasks.db') });
+ *
+ * // Run at most 4 tasks (2 per session) and queue the rest by priority
+ * const pooled = new TaskManager({ maxConcurrentTasks: 4, maxTasksPerSession: 2 });
+ * const job = pooled.createTask('Import', token, { sessionId, priority: 1 });
+ * if (await pooled.waitForStart(job.id)) { ... }
  * ```
  */
 export class TaskManager {
-  private tasks = new Map<string, Task>();
+  private store: TaskStore;
   private activeProgressTokens = new Map<string | number, string>(); // token -> taskId
+  private abortControllers = new Map<string, AbortController>(); // taskId -> controller
+  private timeouts = new Map<string, ReturnType<typeof setTimeout>>(); // taskId -> timer
   private sendNotification?: (notification: { method: string; params: unknown }) => Promise<void>;
   private maxHistorySize: number;
+  private maxConcurrentTasks: number;
+  private maxTasksPerSession: number;
+  private maxQueuedPerSession: number;
+  private running = new Map<string, string | undefined>(); // taskId -> sessionId
+  private queue: QueueEntry[] = [];
+  private queueSequence = 0;
+  private startWaiters = new Map<string, (started: boolean) => void>();
+  private notifiers = new Map<string, (notification: { method: string; params: unknown }) => Promise<void>>();
 
   constructor(options: TaskManagerOptions = {}) {
     this.sendNotification = options.sendNotification;
     this.maxHistorySize = options.maxHistorySize ?? 100;
+    this.maxConcurrentTasks = options.maxConcurrentTasks ?? Infinity;
+    this.maxTasksPerSession = options.maxTasksPerSession ?? Infinity;
+    this.maxQueuedPerSession = options.maxQueuedPerSession ?? Infinity;
+    this.store = options.store ?? new InMemoryTaskStore();
+    this.recoverInterruptedTasks(options.interruptedTaskPolicy ?? 'fail');
   }
 
   /**
-   * Creates a new task for tracking a long-running operation
+   * Creates a new task for tracking a long-running operation.
+   *
+   * The task starts as 'working' when a worker slot is free and as 'queued'
+   * otherwise; use waitForStart() before doing the work.
+   *
+   * @throws MCPError with code 'TASK_QUOTA_EXCEEDED' when the session already
+   * has maxQueuedPerSession tasks waiting
    */
-  createTask(title: string, progressToken?: string | number): Task {
+  createTask(title: string, progressToken?: string | number, options: CreateTaskOptions = {}): Task {
     const id = `task-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
     const now = new Date();
+    const queued = !this.hasCapacity(options.sessionId);
+
+    if (queued && this.countQueued(options.sessionId) >= this.maxQueuedPerSession) {
+      throw new MCPError(
+        `Too many queued tasks for this session (limit ${this.maxQueuedPerSession})`,
+        'TASK_QUOTA_EXCEEDED',
+        { sessionId: options.sessionId, limit: this.maxQueuedPerSession }
+      );
+    }
 
     const task: Task = {
       id,
       title,
-      status: 'working',
+      status: queued ? 'queued' : 'working',
       progress: 0,
+      input: options.input,
+      sessionId: options.sessionId,
+      ttl: options.ttl,
+      pollInterval: options.pollInterval,
+      priority: options.priority,
       createdAt: now,
       updatedAt: now,
     };
 
-    this.tasks.set(id, task);
+    this.store.save(task);
 
     if (progressToken !== undefined) {
       this.activeProgressTokens.set(progressToken, id);
     }
+    if (options.sendNotification) {
+      this.notifiers.set(id, options.sendNotification);
+    }
+
+    if (queued) {
+      this.queue.push({
+        taskId: id,
+        sessionId: options.sessionId,
+        priority: options.priority ?? 0,
+        sequence: this.queueSequence++,
+      });
+      this.sortQueue();
+      void this.notifyQueuePositions();
+    } else {
+      this.running.set(id, options.sessionId);
+    }
+
+    this.abortControllers.set(id, new AbortController());
+    if (options.timeout !== undefined) {
+      this.setTaskTimeout(id, options.timeout);
+    }
+    if (options.signal) {
+      this.linkSignal(id, options.signal);
+    }
 
     return task;
   }
@@ -90,16 +225,160 @@ export class TaskManager {
    * Gets a task by ID
    */
   getTask(taskId: string): Task | undefined {
-    return this.tasks.get(taskId);
+    return this.store.get(taskId);
+  }
+
+  /**
+   * Gets all tasks known to the store, most recently updated first
+   */
+  listTasks(): Task[] {
+    return this.store
+      .list()
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
   }
 
   /**
    * Gets all active (non-completed) tasks
    */
   getActiveTasks(): Task[] {
-    return Array.from(this.tasks.values()).filter(
-      t => t.status === 'working' || t.status === 'input_required'
-    );
+    return this.store.list().filter(isActive);
+  }
+
+  /**
+   * Gets tasks waiting for a worker slot, in the order they will start
+   */
+  getQueuedTasks(): Task[] {
+    return this.queue
+      .map(entry => this.store.get(entry.taskId))
+      .filter((t): t is Task => t !== undefined);
+  }
+
+  /**
+   * Gets a queued task's 1-based position, or undefined if it is not queued
+   */
+  getQueuePosition(taskId: string): number | undefined {
+    const index = this.queue.findIndex(entry => entry.taskId === taskId);
+    return index < 0 ? undefined : index + 1;
+  }
+
+  /**
+   * Resolves true once the task holds a worker slot, or false if it is
+   * cancelled, fails or is unknown before it gets one
+   */
+  waitForStart(taskId: string): Promise<boolean> {
+    const task = this.store.get(taskId);
+    if (!task || task.status !== 'queued') {
+      return Promise.resolve(task !== undefined && isActive(task));
+    }
+    return new Promise(resolve => this.startWaiters.set(taskId, resolve));
+  }
+
+  /**
+   * Changes the priority of a queued task and reorders the queue
+   */
+  setPriority(taskId: string, priority: number): void {
+    const task = this.store.get(taskId);
+    if (!task) return;
+
+    task.priority = priority;
+    this.store.save(task);
+
+    const entry = this.queue.find(e => e.taskId === taskId);
+    if (entry) {
+      entry.priority = priority;
+      this.sortQueue();
+      void this.notifyQueuePositions();
+    }
+  }
+
+  /**
+   * Gets tasks that were active when a previous process stopped and are
+   * still waiting to be resumed (only populated with the 'resume' policy)
+   */
+  getInterruptedTasks(): Task[] {
+    return this.store.list().filter(t => t.interruptedAt && isActive(t));
+  }
+
+  /**
+   * Picks up an interrupted task so the caller can continue reporting on it
+   */
+  resumeInterruptedTask(taskId: string, progressToken?: string | number): Task | undefined {
+    const task = this.store.get(taskId);
+    if (!task || !task.interruptedAt || !isActive(task)) return undefined;
+
+    const queued = !this.hasCapacity(task.sessionId);
+    task.status = queued ? 'queued' : 'working';
+    task.interruptedAt = undefined;
+    task.message = 'Resumed after restart';
+    task.updatedAt = new Date();
+    this.store.save(task);
+
+    if (progressToken !== undefined) {
+      this.activeProgressTokens.set(progressToken, taskId);
+    }
+    this.abortControllers.set(taskId, new AbortController());
+
+    if (queued) {
+      this.queue.push({
+        taskId,
+        sessionId: task.sessionId,
+        priority: task.priority ?? 0,
+        sequence: this.queueSequence++,
+      });
+      this.sortQueue();
+      void this.notifyQueuePositions();
+    } else {
+      this.running.set(taskId, task.sessionId);
+    }
+
+    return task;
+  }
+
+  /**
+   * Gets the signal that aborts when the task is cancelled or times out.
+   * Undefined for unknown tasks and for tasks created by another process.
+   */
+  getSignal(taskId: string): AbortSignal | undefined {
+    return this.abortControllers.get(taskId)?.signal;
+  }
+
+  /**
+   * Cancels the task when the given signal aborts, e.g. the `extra.signal`
+   * the SDK aborts on notifications/cancelled for the originating request
+   */
+  linkSignal(taskId: string, signal: AbortSignal): void {
+    const controller = this.abortControllers.get(taskId);
+    if (!controller) return;
+
+    const onAbort = () => {
+      const task = this.store.get(taskId);
+      if (task && isActive(task)) {
+        this.cancelTask(taskId, 'Cancelled by client');
+      }
+    };
+
+    if (signal.aborted) {
+      onAbort();
+    } else {
+      signal.addEventListener('abort', onAbort, { once: true, signal: controller.signal });
+    }
+  }
+
+  /**
+   * Fails the task and aborts its signal if it is still active after `timeoutMs`
+   */
+  setTaskTimeout(taskId: string, timeoutMs: number): void {
+    if (!this.abortControllers.has(taskId)) return;
+
+    clearTimeout(this.timeouts.get(taskId));
+    const timer = setTimeout(() => {
+      const task = this.store.get(taskId);
+      if (task && isActive(task)) {
+        this.failTask(taskId, `Task timed out after ${timeoutMs}ms`);
+      }
+    }, timeoutMs);
+    timer.unref?.();
+    this.timeouts.set(taskId, timer);
   }
 
   /**
@@ -125,17 +404,19 @@ export class TaskManager {
     progress: number,
     message?: string
   ): Promise<void> {
-    const task = this.tasks.get(taskId);
+    const task = this.store.get(taskId);
     if (!task) return;
 
     task.progress = Math.max(0, Math.min(100, progress));
     task.message = message;
     task.updatedAt = new Date();
+    this.store.save(task);
 
     // Send progress notification if we have a token and notification function
-    if (progressToken !== undefined && this.sendNotification && this.isTokenActive(progressToken)) {
+    const sendNotification = this.notifiers.get(taskId) ?? this.sendNotification;
+    if (progressToken !== undefined && sendNotification && this.isTokenActive(progressToken)) {
       try {
-        await this.sendNotification({
+        await sendNotification({
           method: 'notifications/progress',
           params: {
             progressToken,
@@ -155,76 +436,106 @@ export class TaskManager {
    * Marks a task as completed with an optional result
    */
   completeTask(taskId: string, result?: unknown): void {
-    const task = this.tasks.get(taskId);
+    const task = this.store.get(taskId);
     if (!task) return;
 
     task.status = 'completed';
     task.progress = 100;
     task.result = result;
     task.updatedAt = new Date();
+    this.store.save(task);
 
     // Clean up progress token
     this.cleanupTaskToken(taskId);
+    this.releaseCancellation(taskId);
+    this.releaseSlot(taskId);
     this.pruneHistory();
   }
 
   /**
-   * Marks a task as failed with an error message
+   * Marks a task as failed with an error message and optional error result
    */
-  failTask(taskId: string, error: string): void {
-    const task = this.tasks.get(taskId);
+  failTask(taskId: string, error: string, result?: unknown): void {
+    const task = this.store.get(taskId);
     if (!task) return;
 
     task.status = 'failed';
     task.error = error;
+    if (result !== undefined) {
+      task.result = result;
+    }
     task.updatedAt = new Date();
+    this.store.save(task);
 
     this.cleanupTaskToken(taskId);
+    this.abortTask(taskId, new Error(error));
+    this.releaseSlot(taskId);
     this.pruneHistory();
   }
 
   /**
-   * Cancels a task
+   * Cancels a task and aborts its signal so the running work can stop early
    */
-  cancelTask(taskId: string): void {
-    const task = this.tasks.get(taskId);
+  cancelTask(taskId: string, reason?: string): void {
+    const task = this.store.get(taskId);
     if (!task) return;
 
     task.status = 'cancelled';
+    if (reason) {
+      task.message = reason;
+    }
     task.updatedAt = new Date();
+    this.store.save(task);
 
     this.cleanupTaskToken(taskId);
+    this.abortTask(taskId, new Error(reason ?? 'Task cancelled'));
+    this.releaseSlot(taskId);
     this.pruneHistory();
   }
 
+  /**
+   * Records the result produced by work that stopped after the task was
+   * cancelled or failed, without changing the task's status
+   */
+  attachResult(taskId: string, result: unknown): void {
+    const task = this.store.get(taskId);
+    if (!task) return;
+
+    task.result = result;
+    task.updatedAt = new Date();
+    this.store.save(task);
+  }
+
   /**
    * Marks a task as requiring input (for elicitation)
    */
   setInputRequired(taskId: string, message?: string): void {
-    const task = this.tasks.get(taskId);
+    const task = this.store.get(taskId);
     if (!task) return;
 
     task.status = 'input_required';
     task.message = message;
     task.updatedAt = new Date();
+    this.store.save(task);
   }
 
   /**
    * Resumes a task that was waiting for input
    */
   resumeTask(taskId: string): void {
-    const task = this.tasks.get(taskId);
+    const task = this.store.get(taskId);
     if (!task || task.status !== 'input_required') return;
 
     task.status = 'working';
     task.updatedAt = new Date();
+    this.store.save(task);
   }
 
   /**
    * Converts a task to a TaskResult object for schema validation
    */
   toTaskResult(taskId: string): TaskResult | undefined {
-    const task = this.tasks.get(taskId);
+    const task = this.store.get(taskId);
     if (!task) return undefined;
 
     return taskResultSchema.parse({
@@ -238,23 +549,175 @@ export class TaskManager {
   }
 
   /**
-   * Cleans up completed tasks when history limit is exceeded
+   * Clears pending timeouts and releases the underlying store
+   */
+  close(): void {
+    for (const taskId of Array.from(this.abortControllers.keys())) {
+      this.releaseCancellation(taskId);
+    }
+    this.store.close?.();
+  }
+
+  /**
+   * Handles tasks left active by a previous process using the same store
+   */
+  private recoverInterruptedTasks(policy: InterruptedTaskPolicy): void {
+    const now = new Date();
+
+    for (const task of this.store.list().filter(isActive)) {
+      const reason = `Interrupted by server restart while ${task.status} at ${task.progress}%`;
+      task.interruptedAt = now;
+      task.updatedAt = now;
+
+      if (policy === 'fail') {
+        task.status = 'failed';
+        task.error = reason;
+      } else {
+        task.message = `${reason}; awaiting resume`;
+      }
+
+      this.store.save(task);
+    }
+  }
+
+  /**
+   * Cleans up finished tasks whose ttl has elapsed or that exceed the history limit
    */
   private pruneHistory(): void {
-    const completedTasks = Array.from(this.tasks.values())
+    const now = Date.now();
+    const completedTasks = this.store.list()
       .filter(t => t.status === 'completed' || t.status === 'failed' || t.status === 'cancelled')
       .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
 
-    if (completedTasks.length > this.maxHistorySize) {
-      const toRemove = completedTasks.slice(this.maxHistorySize);
-      toRemove.forEach(t => this.tasks.delete(t.id));
+    const isExpired = (t: Task) => t.ttl != null && t.updatedAt.getTime() + t.ttl < now;
+    completedTasks.filter(isExpired).forEach(t => this.store.delete(t.id));
+
+    const retained = completedTasks.filter(t => !isExpired(t));
+    if (retained.length > this.maxHistorySize) {
+      const toRemove = retained.slice(this.maxHistorySize);
+      toRemove.forEach(t => this.store.delete(t.id));
     }
   }
 
   /**
-   * Removes progress token association for a task
+   * Checks whether a task from the given session may start now
+   */
+  private hasCapacity(sessionId: string | undefined): boolean {
+    if (this.running.size >= this.maxConcurrentTasks) return false;
+
+    let sessionRunning = 0;
+    for (const owner of this.running.values()) {
+      if (owner === sessionId) sessionRunning++;
+    }
+    return sessionRunning < this.maxTasksPerSession;
+  }
+
+  private countQueued(sessionId: string | undefined): number {
+    return this.queue.filter(entry => entry.sessionId === sessionId).length;
+  }
+
+  private sortQueue(): void {
+    this.queue.sort((a, b) => b.priority - a.priority || a.sequence - b.sequence);
+  }
+
+  /**
+   * Frees the slot (or queue entry) held by a finished task and starts
+   * whatever queued work now fits
+   */
+  private releaseSlot(taskId: string): void {
+    const index = this.queue.findIndex(entry => entry.taskId === taskId);
+    if (index >= 0) {
+      this.queue.splice(index, 1);
+      this.startWaiters.get(taskId)?.(false);
+      this.startWaiters.delete(taskId);
+    }
+
+    if (this.running.delete(taskId) || index >= 0) {
+      this.drainQueue();
+    }
+  }
+
+  /**
+   * Starts queued tasks in priority order while slots are free, skipping
+   * sessions that are at their quota
+   */
+  private drainQueue(): void {
+    for (let i = 0; i < this.queue.length && this.running.size < this.maxConcurrentTasks; ) {
+      const entry = this.queue[i]!;
+      if (!this.hasCapacity(entry.sessionId)) {
+        i++;
+        continue;
+      }
+
+      this.queue.splice(i, 1);
+      const task = this.store.get(entry.taskId);
+      if (!task || task.status !== 'queued') continue;
+
+      task.status = 'working';
+      task.message = 'Started';
+      task.updatedAt = new Date();
+      this.store.save(task);
+      this.running.set(entry.taskId, entry.sessionId);
+
+      this.startWaiters.get(entry.taskId)?.(true);
+      this.startWaiters.delete(entry.taskId);
+    }
+
+    void this.notifyQueuePositions();
+  }
+
+  /**
+   * Tells each queued task's client where it stands when its position changes.
+   * The queue's length is left out: it changes as tasks queue up behind, which
+   * wouldn't trigger a new message, so it would go stale.
+   */
+  private async notifyQueuePositions(): Promise<void> {
+    for (const [index, entry] of [...this.queue].entries()) {
+      const position = index + 1;
+      if (entry.notifiedPosition === position) continue;
+      entry.notifiedPosition = position;
+
+      await this.updateProgress(
+        entry.taskId,
+        this.getTokenForTask(entry.taskId),
+        0,
+        `Queued: position ${position}`
+      );
+    }
+  }
+
+  private getTokenForTask(taskId: string): string | number | undefined {
+    for (const [token, id] of this.activeProgressTokens.entries()) {
+      if (id === taskId) return token;
+    }
+    return undefined;
+  }
+
+  /**
+   * Aborts a task's signal, then drops its controller and timer
+   */
+  private abortTask(taskId: string, reason: Error): void {
+    this.abortControllers.get(taskId)?.abort(reason);
+    this.releaseCancellation(taskId);
+  }
+
+  /**
+   * Drops a task's controller and timer without aborting
+   */
+  private releaseCancellation(taskId: string): void {
+    const timer = this.timeouts.get(taskId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timeouts.delete(taskId);
+    }
+    this.abortControllers.delete(taskId);
+  }
+
+  /**
+   * Removes the progress token and notifier associated with a task
    */
   private cleanupTaskToken(taskId: string): void {
+    this.notifiers.delete(taskId);
     for (const [token, id] of this.activeProgressTokens.entries()) {
       if (id === taskId) {
         this.activeProgressTokens.delete(token);
@@ -264,4 +727,8 @@ export class TaskManager {
   }
 }
 
+function isActive(task: Task): boolean {
+  return task.status === 'queued' || task.status === 'working' || task.status === 'input_required';
+}
+
 export default TaskManager;
@@ -0,0 +1,228 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  CallToolResultSchema,
+  CancelTaskResultSchema,
+  CreateTaskResultSchema,
+  GetTaskResultSchema,
+  ListTasksResultSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { TaskManager } from './TaskManager.js';
+import { registerTaskTool, withTaskSupport, toMcpTask } from './TaskProtocol.js';
+import { waitFor } from '../../test/helpers.js';
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => (resolve = r));
+  return { promise, resolve };
+}
+
+describe('MCP tasks protocol', () => {
+  let taskManager: TaskManager;
+  let server: McpServer;
+  let client: Client;
+  let release: ReturnType<typeof deferred>;
+
+  beforeEach(async () => {
+    release = deferred();
+    taskManager = new TaskManager({
+      sendNotification: n => server.server.notification(n as any),
+    });
+    server = new McpServer(
+      { name: 'test-server', version: '1.0.0' },
+      withTaskSupport({ capabilities: {} }, taskManager, { pollInterval: 20 })
+    );
+
+    registerTaskTool(
+      server,
+      taskManager,
+      'slow_sum',
+      {
+        description: 'Adds numbers slowly',
+        inputSchema: { values: z.array(z.number()) },
+      },
+      async ({ values }, context) => {
+        await context.reportProgress(50, 'Halfway');
+        await Promise.race([
+          release.promise,
+          new Promise(resolve => context.signal.addEventListener('abort', resolve)),
+        ]);
+        if (context.signal.aborted) {
+          return { content: [{ type: 'text', text: `Stopped early after ${values.length} values` }] };
+        }
+        if (values.length === 0) {
+          throw new Error('Nothing to add');
+        }
+        const sum = values.reduce((a, b) => a + b, 0);
+        return { content: [{ type: 'text', text: `Sum: ${sum}` }] };
+      }
+    );
+
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  afterEach(async () => {
+    release.resolve();
+    await client.close();
+    await server.close();
+  });
+
+  it('should declare the tasks capability', () => {
+    const caps = client.getServerCapabilities();
+    expect(caps?.tasks?.list).toBeDefined();
+    expect(caps?.tasks?.cancel).toBeDefined();
+    expect(caps?.tasks?.requests?.tools?.call).toBeDefined();
+  });
+
+  it('should return a task handle immediately for task-augmented calls', async () => {
+    const created = await client.request(
+      { method: 'tools/call', params: { name: 'slow_sum', arguments: { values: [1, 2, 3] }, task: { ttl: 60000 } } },
+      CreateTaskResultSchema
+    );
+
+    expect(created.task.status).toBe('working');
+    expect(created.task.ttl).toBe(60000);
+
+    const taskId = created.task.taskId;
+    const status = await client.request({ method: 'tasks/get', params: { taskId } }, GetTaskResultSchema);
+    expect(status.status).toBe('working');
+
+    release.resolve();
+    const result = await client.request({ method: 'tasks/result', params: { taskId } }, CallToolResultSchema);
+    expect(result.content[0]).toEqual({ type: 'text', text: 'Sum: 6' });
+    expect(taskManager.getTask(taskId)?.status).toBe('completed');
+  });
+
+  it('should still answer plain tools/call with the final result', async () => {
+    release.resolve();
+    const result = await client.callTool({ name: 'slow_sum', arguments: { values: [2, 2] } });
+    expect(result.content).toEqual([{ type: 'text', text: 'Sum: 4' }]);
+  });
+
+  it('should record handler errors as failed tasks', async () => {
+    const created = await client.request(
+      { method: 'tools/call', params: { name: 'slow_sum', arguments: { values: [] }, task: {} } },
+      CreateTaskResultSchema
+    );
+    release.resolve();
+
+    const taskId = created.task.taskId;
+    await waitFor(() => taskManager.getTask(taskId)?.status === 'failed');
+    const result = await client.request({ method: 'tasks/result', params: { taskId } }, CallToolResultSchema);
+    expect(result.isError).toBe(true);
+    expect(taskManager.getTask(taskId)?.error).toContain('Nothing to add');
+  });
+
+  it('should list and cancel tasks', async () => {
+    const created = await client.request(
+      { method: 'tools/call', params: { name: 'slow_sum', arguments: { values: [1] }, task: {} } },
+      CreateTaskResultSchema
+    );
+    const taskId = created.task.taskId;
+
+    const list = await client.request({ method: 'tasks/list', params: {} }, ListTasksResultSchema);
+    expect(list.tasks.map(t => t.taskId)).toContain(taskId);
+
+    const cancelled = await client.request({ method: 'tasks/cancel', params: { taskId } }, CancelTaskResultSchema);
+    expect(cancelled.status).toBe('cancelled');
+
+    release.resolve();
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(taskManager.getTask(taskId)?.status).toBe('cancelled');
+  });
+
+  it('should abort the handler signal on cancel and keep its partial result', async () => {
+    const created = await client.request(
+      { method: 'tools/call', params: { name: 'slow_sum', arguments: { values: [1, 2] }, task: {} } },
+      CreateTaskResultSchema
+    );
+    const taskId = created.task.taskId;
+
+    await client.request({ method: 'tasks/cancel', params: { taskId } }, CancelTaskResultSchema);
+    await waitFor(() => taskManager.getTask(taskId)?.result !== undefined);
+
+    const result = await client.request({ method: 'tasks/result', params: { taskId } }, CallToolResultSchema);
+    expect(result.content[0]).toEqual({ type: 'text', text: 'Stopped early after 2 values' });
+    expect(taskManager.getTask(taskId)?.status).toBe('cancelled');
+  });
+
+  it('should reject tasks/get for unknown tasks', async () => {
+    await expect(
+      client.request({ method: 'tasks/get', params: { taskId: 'missing' } }, GetTaskResultSchema)
+    ).rejects.toThrow();
+  });
+});
+
+describe('MCP tasks with a bounded worker pool', () => {
+  it('should report queued tasks as working with their queue position', async () => {
+    const taskManager = new TaskManager({ maxConcurrentTasks: 1 });
+    const server = new McpServer(
+      { name: 'test-server', version: '1.0.0' },
+      withTaskSupport({ capabilities: {} }, taskManager, { pollInterval: 20 })
+    );
+    const release = deferred();
+    const started: string[] = [];
+
+    registerTaskTool(
+      server,
+      taskManager,
+      'job',
+      { inputSchema: { name: z.string() } },
+      async ({ name }) => {
+        started.push(name);
+        await release.promise;
+        return { content: [{ type: 'text', text: name }] };
+      }
+    );
+
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    const call = (name: string) =>
+      client.request(
+        { method: 'tools/call', params: { name: 'job', arguments: { name }, task: {} } },
+        CreateTaskResultSchema
+      );
+    const first = await call('first');
+    const second = await call('second');
+
+    const status = await client.request(
+      { method: 'tasks/get', params: { taskId: second.task.taskId } },
+      GetTaskResultSchema
+    );
+    expect(status.status).toBe('working');
+    expect(status.statusMessage).toBe('Queued: position 1');
+    expect(started).toEqual(['first']);
+
+    release.resolve();
+    await waitFor(() => taskManager.getTask(second.task.taskId)?.status === 'completed');
+    expect(started).toEqual(['first', 'second']);
+    expect(taskManager.getTask(first.task.taskId)?.status).toBe('completed');
+
+    await client.close();
+    await server.close();
+  });
+});
+
+describe('toMcpTask', () => {
+  it('should map TaskManager fields to the wire format', () => {
+    const manager = new TaskManager();
+    const task = manager.createTask('Job', undefined, { pollInterval: 250 });
+    manager.failTask(task.id, 'Boom');
+
+    const wire = toMcpTask(manager.getTask(task.id)!);
+    expect(wire).toMatchObject({
+      taskId: task.id,
+      status: 'failed',
+      ttl: null,
+      pollInterval: 250,
+      statusMessage: 'Boom',
+    });
+  });
+});
@@ -0,0 +1,380 @@
+/**
+ * MCP tasks protocol support backed by TaskManager
+ *
+ * Bridges TaskManager to the SDK task plumbing so a server answers
+ * tasks/get, tasks/list, tasks/cancel and tasks/result, and long-running
+ * tools can hand back a task immediately instead of blocking tools/call.
+ */
+
+import type { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { ServerOptions } from '@modelcontextprotocol/sdk/server/index.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { ShapeOutput, ZodRawShapeCompat } from '@modelcontextprotocol/sdk/server/zod-compat.js';
+import {
+  isTerminal,
+  type CreateTaskOptions as McpCreateTaskOptions,
+  type TaskStore as McpTaskStore,
+  type ToolTaskHandler,
+} from '@modelcontextprotocol/sdk/experimental/tasks';
+import type {
+  CallToolResult,
+  Request,
+  RequestId,
+  Result,
+  ServerNotification,
+  ServerRequest,
+  Task as McpTask,
+  ToolAnnotations,
+} from '@modelcontextprotocol/sdk/types.js';
+import { TaskManager, type Task, type TaskStatus } from './TaskManager.js';
+import { createErrorResponse, Logger } from '../utils/index.js';
+
+const DEFAULT_POLL_INTERVAL = 500;
+const DEFAULT_PAGE_SIZE = 20;
+
+export interface TaskProtocolOptions {
+  /** Retention for finished tasks when the client does not request a ttl (default: keep until pruned) */
+  defaultTtl?: number | null;
+  /** Poll interval suggested to clients, also used when the SDK polls for a plain tools/call */
+  pollInterval?: number;
+  /** Maximum number of tasks returned per tasks/list page */
+  pageSize?: number;
+  /** Sends notifications for tasks created through this server; needed when
+   *  one TaskManager is shared by per-session servers */
+  sendNotification?: (notification: { method: string; params: unknown }) => Promise<void>;
+}
+
+/**
+ * Maps a TaskManager status to the MCP wire status. MCP has no queued
+ * state, so queued tasks are reported as working with their queue position
+ * in the status message.
+ */
+export function toMcpStatus(status: TaskStatus): McpTask['status'] {
+  return status === 'queued' ? 'working' : status;
+}
+
+/**
+ * Converts a TaskManager task to the MCP wire representation
+ */
+export function toMcpTask(task: Task): McpTask {
+  return {
+    taskId: task.id,
+    status: toMcpStatus(task.status),
+    ttl: task.ttl ?? null,
+    createdAt: task.createdAt.toISOString(),
+    lastUpdatedAt: task.updatedAt.toISOString(),
+    pollInterval: task.pollInterval,
+    statusMessage: task.error ?? task.message,
+  };
+}
+
+/**
+ * SDK TaskStore implementation that reads and writes through a TaskManager,
+ * so protocol-created tasks share persistence and progress reporting with
+ * every other task on the server.
+ */
+export class TaskManagerTaskStore implements McpTaskStore {
+  constructor(
+    private taskManager: TaskManager,
+    private options: TaskProtocolOptions = {}
+  ) {}
+
+  async createTask(
+    taskParams: McpCreateTaskOptions,
+    _requestId: RequestId,
+    request: Request,
+    sessionId?: string
+  ): Promise<McpTask> {
+    const params = (request.params ?? {}) as {
+      name?: string;
+      arguments?: unknown;
+      _meta?: { progressToken?: string | number };
+    };
+
+    const task = this.taskManager.createTask(params.name ?? request.method, params._meta?.progressToken, {
+      input: params.arguments,
+      sessionId,
+      ttl: taskParams.ttl !== undefined ? taskParams.ttl : this.options.defaultTtl ?? null,
+      pollInterval: taskParams.pollInterval ?? this.options.pollInterval ?? DEFAULT_POLL_INTERVAL,
+      sendNotification: this.options.sendNotification,
+    });
+
+    return toMcpTask(task);
+  }
+
+  async getTask(taskId: string, sessionId?: string): Promise<McpTask | null> {
+    const task = this.findTask(taskId, sessionId);
+    return task ? toMcpTask(task) : null;
+  }
+
+  async storeTaskResult(
+    taskId: string,
+    status: 'completed' | 'failed',
+    result: Result,
+    sessionId?: string
+  ): Promise<void> {
+    const task = this.requireTask(taskId, sessionId);
+    if (isTerminal(toMcpStatus(task.status))) {
+      throw new Error(`Cannot store result for task ${taskId} in terminal status '${task.status}'`);
+    }
+
+    if (status === 'completed') {
+      this.taskManager.completeTask(taskId, result);
+    } else {
+      this.taskManager.failTask(taskId, extractErrorText(result), result);
+    }
+  }
+
+  async getTaskResult(taskId: string, sessionId?: string): Promise<Result> {
+    const task = this.requireTask(taskId, sessionId);
+
+    if (task.result !== undefined) {
+      return task.result as Result;
+    }
+    if (task.status === 'failed' || task.status === 'cancelled') {
+      return createErrorResponse(new Error(task.error ?? `Task ${task.status}`), `Task ${taskId}`);
+    }
+    throw new Error(`Task ${taskId} has no result stored`);
+  }
+
+  async updateTaskStatus(
+    taskId: string,
+    status: McpTask['status'],
+    statusMessage?: string,
+    sessionId?: string
+  ): Promise<void> {
+    const task = this.requireTask(taskId, sessionId);
+    if (isTerminal(toMcpStatus(task.status))) {
+      throw new Error(`Cannot update task ${taskId} from terminal status '${task.status}' to '${status}'`);
+    }
+
+    switch (status) {
+      case 'cancelled':
+        this.taskManager.cancelTask(taskId, statusMessage);
+        break;
+      case 'failed':
+        this.taskManager.failTask(taskId, statusMessage ?? 'Task failed');
+        break;
+      case 'completed':
+        this.taskManager.completeTask(taskId);
+        break;
+      case 'input_required':
+        this.taskManager.setInputRequired(taskId, statusMessage);
+        break;
+      case 'working':
+        this.taskManager.resumeTask(taskId);
+        break;
+    }
+  }
+
+  async listTasks(cursor?: string, sessionId?: string): Promise<{ tasks: McpTask[]; nextCursor?: string }> {
+    const pageSize = this.options.pageSize ?? DEFAULT_PAGE_SIZE;
+    const tasks = this.taskManager
+      .listTasks()
+      .filter(t => isVisibleTo(t, sessionId))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+    let start = 0;
+    if (cursor) {
+      const index = tasks.findIndex(t => t.id === cursor);
+      if (index < 0) {
+        throw new Error(`Invalid cursor: ${cursor}`);
+      }
+      start = index + 1;
+    }
+
+    const page = tasks.slice(start, start + pageSize);
+    const nextCursor = start + pageSize < tasks.length ? page[page.length - 1]?.id : undefined;
+    return { tasks: page.map(toMcpTask), nextCursor };
+  }
+
+  private findTask(taskId: string, sessionId?: string): Task | undefined {
+    const task = this.taskManager.getTask(taskId);
+    return task && isVisibleTo(task, sessionId) ? task : undefined;
+  }
+
+  private requireTask(taskId: string, sessionId?: string): Task {
+    const task = this.findTask(taskId, sessionId);
+    if (!task) {
+      throw new Error(`Task with ID ${taskId} not found`);
+    }
+    return task;
+  }
+}
+
+/**
+ * Adds MCP tasks support to McpServer options.
+ *
+ * Passing the returned options to `new McpServer()` declares the tasks
+ * capability and installs the tasks/get, tasks/list, tasks/cancel and
+ * tasks/result handlers, all served from the given TaskManager.
+ *
+ * @example
+ * ```typescript
+ * const taskManager = new TaskManager({ sendNotification: n => server.server.notification(n) });
+ * const server = new McpServer(
+ *   { name: 'analytics-server', version: '1.0.0' },
+ *   withTaskSupport({ capabilities: { logging: {} } }, taskManager)
+ * );
+ * ```
+ */
+export function withTaskSupport(
+  serverOptions: ServerOptions,
+  taskManager: TaskManager,
+  options: TaskProtocolOptions = {}
+): ServerOptions {
+  return {
+    ...serverOptions,
+    capabilities: {
+      ...serverOptions.capabilities,
+      tasks: {
+        list: {},
+        cancel: {},
+        requests: { tools: { call: {} } },
+      },
+    },
+    taskStore: new TaskManagerTaskStore(taskManager, options),
+  };
+}
+
+/**
+ * Context handed to a task-backed tool while it runs in the background
+ */
+export interface TaskToolContext {
+  /** ID of the task tracking this invocation */
+  taskId: string;
+  /** Progress token from the originating tools/call request, if any */
+  progressToken?: string | number;
+  /** Reports progress as a percentage (0-100) through TaskManager */
+  reportProgress(progress: number, message?: string): Promise<void>;
+  /** Aborts on tasks/cancel, notifications/cancelled for a plain call, or the tool timeout */
+  signal: AbortSignal;
+  /** Request extra from the originating tools/call */
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>;
+}
+
+export interface TaskToolConfig<Args extends ZodRawShapeCompat> {
+  title?: string;
+  description?: string;
+  inputSchema: Args;
+  annotations?: ToolAnnotations;
+  /** 'optional' (default) also serves plain tools/call by waiting for the task */
+  taskSupport?: 'optional' | 'required';
+  /** Fails the task and aborts its signal after this many milliseconds */
+  timeout?: number;
+  /** Queue priority, fixed or derived from the call arguments; higher starts first */
+  priority?: number | ((args: ShapeOutput<Args>) => number);
+  /** Defaults to a Logger named after the tool */
+  logger?: Logger;
+}
+
+export type TaskToolHandler<Args extends ZodRawShapeCompat> = (
+  args: ShapeOutput<Args>,
+  context: TaskToolContext
+) => Promise<CallToolResult>;
+
+/**
+ * Registers a tool whose work runs as an MCP task.
+ *
+ * A task-augmented tools/call returns the task handle right away and the
+ * client follows up with tasks/get and tasks/result. A plain tools/call
+ * still works: the SDK waits for the task and returns its result inline.
+ * Handler failures are stored as failed tasks with an error result.
+ *
+ * Handlers should watch `context.signal` and return early with what they
+ * have so far; a result returned after cancellation is kept on the task
+ * and served by tasks/result.
+ *
+ * When the TaskManager has concurrency limits the handler only runs once
+ * the task leaves the queue.
+ */
+export function registerTaskTool<Args extends ZodRawShapeCompat>(
+  server: McpServer,
+  taskManager: TaskManager,
+  name: string,
+  config: TaskToolConfig<Args>,
+  handler: TaskToolHandler<Args>
+): RegisteredTool {
+  const { taskSupport = 'optional', timeout, priority, inputSchema, logger: toolLogger, ...toolConfig } = config;
+  const logger = (toolLogger ?? new Logger(name)).child({ toolName: name });
+
+  // Typed against the widened shape: the SDK's conditional handler type
+  // cannot be resolved for a generic Args parameter
+  const taskHandler: ToolTaskHandler<ZodRawShapeCompat> = {
+    createTask: async (args, extra) => {
+      const task = await extra.taskStore.createTask({ ttl: extra.taskRequestedTtl });
+      const progressToken = extra._meta?.progressToken;
+      const signal = taskManager.getSignal(task.taskId) ?? new AbortController().signal;
+
+      // A plain tools/call keeps its request open while the SDK polls, so
+      // notifications/cancelled for that request cancels the task too
+      taskManager.linkSignal(task.taskId, extra.signal);
+      if (timeout !== undefined) {
+        taskManager.setTaskTimeout(task.taskId, timeout);
+      }
+      if (priority !== undefined) {
+        const value = typeof priority === 'function' ? priority(args as ShapeOutput<Args>) : priority;
+        taskManager.setPriority(task.taskId, value);
+      }
+
+      const context: TaskToolContext = {
+        taskId: task.taskId,
+        progressToken,
+        reportProgress: (progress, message) =>
+          taskManager.updateProgress(task.taskId, progressToken, progress, message),
+        signal,
+        extra,
+      };
+
+      const storeResult = async (status: 'completed' | 'failed', result: CallToolResult) => {
+        const current = taskManager.getTask(task.taskId);
+        if (!current) return;
+        if (isTerminal(toMcpStatus(current.status))) {
+          // Keep the partial result of work that stopped after cancellation
+          if (signal.aborted && status === 'completed' && current.result === undefined) {
+            taskManager.attachResult(task.taskId, result);
+          }
+          return;
+        }
+        try {
+          await extra.taskStore.storeTaskResult(task.taskId, status, result);
+        } catch (error) {
+          logger.error(`Failed to store result for task ${task.taskId}`, error);
+        }
+      };
+
+      // Run detached so the tools/call request can return the task handle now
+      void (async () => {
+        try {
+          if (!(await taskManager.waitForStart(task.taskId))) return;
+          const result = await handler(args as ShapeOutput<Args>, context);
+          await storeResult(result.isError ? 'failed' : 'completed', result);
+        } catch (error) {
+          logger.error(`${name} failed for task ${task.taskId}`, error);
+          await storeResult('failed', createErrorResponse(error, `${name} failed`));
+        }
+      })();
+
+      return { task };
+    },
+    getTask: async (_args, extra) => extra.taskStore.getTask(extra.taskId),
+    getTaskResult: async (_args, extra) =>
+      (await extra.taskStore.getTaskResult(extra.taskId)) as CallToolResult,
+  };
+
+  return server.experimental.tasks.registerToolTask(
+    name,
+    { ...toolConfig, inputSchema: inputSchema as ZodRawShapeCompat, execution: { taskSupport } },
+    taskHandler
+  );
+}
+
+function isVisibleTo(task: Task, sessionId?: string): boolean {
+  return !sessionId || !task.sessionId || task.sessionId === sessionId;
+}
+
+function extractErrorText(result: Result): string {
+  const content = (result as Partial<CallToolResult>).content;
+  const text = content?.find(c => c.type === 'text');
+  return text && 'text' in text ? text.text : 'Task failed';
+}
@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  InMemoryTaskStore,
+  JsonFileTaskStore,
+  SqliteTaskStore,
+  createTaskStore,
+  serializeTask,
+  deserializeTask,
+  type TaskStore,
+} from './TaskStore.js';
+import { TaskManager, type Task } from './TaskManager.js';
+
+function makeTask(overrides: Partial<Task> = {}): Task {
+  const now = new Date('2025-01-01T00:00:00.000Z');
+  return {
+    id: 'task-1',
+    title: 'Test Task',
+    status: 'working',
+    progress: 0,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+describe('task serialization', () => {
+  it('should round-trip dates through ISO strings', () => {
+    const task = makeTask({ interruptedAt: new Date('2025-01-02T00:00:00.000Z') });
+    const serialized = serializeTask(task);
+
+    expect(serialized.createdAt).toBe('2025-01-01T00:00:00.000Z');
+    expect(deserializeTask(serialized)).toEqual(task);
+  });
+});
+
+describe('TaskStore implementations', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'task-store-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const factories: Array<[string, () => TaskStore]> = [
+    ['InMemoryTaskStore', () => new InMemoryTaskStore()],
+    ['JsonFileTaskStore', () => new JsonFileTaskStore(join(dir, 'tasks.json'))],
+    ['SqliteTaskStore', () => new SqliteTaskStore(join(dir, 'tasks.db'))],
+  ];
+
+  describe.each(factories)('%s', (_name, createStore) => {
+    it('should save and get a task', () => {
+      const store = createStore();
+      store.save(makeTask({ result: { rows: 3 } }));
+
+      const task = store.get('task-1');
+      expect(task?.title).toBe('Test Task');
+      expect(task?.result).toEqual({ rows: 3 });
+      expect(task?.createdAt).toBeInstanceOf(Date);
+      store.close?.();
+    });
+
+    it('should replace a task on save', () => {
+      const store = createStore();
+      store.save(makeTask());
+      store.save(makeTask({ status: 'completed', progress: 100 }));
+
+      expect(store.list()).toHaveLength(1);
+      expect(store.get('task-1')?.status).toBe('completed');
+      store.close?.();
+    });
+
+    it('should delete a task', () => {
+      const store = createStore();
+      store.save(makeTask());
+      store.delete('task-1');
+
+      expect(store.get('task-1')).toBeUndefined();
+      expect(store.list()).toHaveLength(0);
+      store.close?.();
+    });
+  });
+
+  describe('persistence across instances', () => {
+    it('should reload tasks from a JSON file', () => {
+      const filePath = join(dir, 'nested', 'tasks.json');
+      new JsonFileTaskStore(filePath).save(makeTask({ error: 'boom', status: 'failed' }));
+
+      const reopened = new JsonFileTaskStore(filePath);
+      expect(reopened.get('task-1')?.error).toBe('boom');
+      expect(JSON.parse(readFileSync(filePath, 'utf-8'))).toHaveLength(1);
+    });
+
+    it('should reload tasks from an SQLite file', () => {
+      const filePath = join(dir, 'tasks.db');
+      const first = new SqliteTaskStore(filePath);
+      first.save(makeTask({ status: 'completed', result: { ok: true } }));
+      first.close();
+
+      const reopened = new SqliteTaskStore(filePath);
+      expect(reopened.get('task-1')?.result).toEqual({ ok: true });
+      reopened.close();
+    });
+  });
+
+  describe('createTaskStore', () => {
+    it('should default to an in-memory store', () => {
+      expect(createTaskStore('test-server', {})).toBeInstanceOf(InMemoryTaskStore);
+    });
+
+    it('should open the selected store at the given path', () => {
+      const store = createTaskStore('test-server', { type: 'sqlite', path: join(dir, 'tasks.db') });
+      expect(store).toBeInstanceOf(SqliteTaskStore);
+      store.close?.();
+
+      const json = createTaskStore('test-server', { type: 'json', path: join(dir, 'tasks.json') });
+      json.save(makeTask());
+      expect(JSON.parse(readFileSync(join(dir, 'tasks.json'), 'utf-8'))).toHaveLength(1);
+    });
+
+    it('should reject unknown store types', () => {
+      expect(() => createTaskStore('test-server', { type: 'redis' })).toThrow(/Unknown task store "redis"/);
+    });
+  });
+
+  describe('TaskManager restart recovery', () => {
+    it('should fail tasks that were working when the process stopped', () => {
+      const filePath = join(dir, 'tasks.db');
+      const before = new TaskManager({ store: new SqliteTaskStore(filePath) });
+      const running = before.createTask('Long job', undefined, { input: { recordCount: 5000 } });
+      const done = before.createTask('Short job');
+      before.completeTask(done.id, { ok: true });
+      before.close();
+
+      const after = new TaskManager({ store: new SqliteTaskStore(filePath) });
+      const recovered = after.getTask(running.id);
+      expect(recovered?.status).toBe('failed');
+      expect(recovered?.error).toMatch(/Interrupted by server restart/);
+      expect(recovered?.input).toEqual({ recordCount: 5000 });
+      expect(after.getTask(done.id)?.result).toEqual({ ok: true });
+      after.close();
+    });
+
+    it('should keep interrupted tasks resumable with the resume policy', () => {
+      const filePath = join(dir, 'tasks.json');
+      const before = new TaskManager({ store: new JsonFileTaskStore(filePath) });
+      const running = before.createTask('Long job');
+
+      const after = new TaskManager({
+        store: new JsonFileTaskStore(filePath),
+        interruptedTaskPolicy: 'resume',
+      });
+      const interrupted = after.getInterruptedTasks();
+      expect(interrupted).toHaveLength(1);
+      expect(interrupted[0]?.message).toMatch(/awaiting resume/);
+
+      const resumed = after.resumeInterruptedTask(running.id, 'token-1');
+      expect(resumed?.status).toBe('working');
+      expect(after.isTokenActive('token-1')).toBe(true);
+      expect(after.getInterruptedTasks()).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * TaskStore - Pluggable persistence for TaskManager
+ *
+ * Stores are synchronous so TaskManager can keep its synchronous API.
+ * Three implementations are provided:
+ * - InMemoryTaskStore: process-local Map (default, no persistence)
+ * - JsonFileTaskStore: a single JSON file rewritten atomically on each change
+ * - SqliteTaskStore: an embedded SQLite database file (via better-sqlite3)
+ *
+ * createTaskStore() picks one from the TASK_STORE environment variable.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { createRequire } from 'node:module';
+import type BetterSqlite3 from 'better-sqlite3';
+import type { Task } from './TaskManager.js';
+
+/**
+ * Persistence backend used by TaskManager
+ */
+export interface TaskStore {
+  /** Returns a task by ID, or undefined if it is not stored */
+  get(taskId: string): Task | undefined;
+  /** Inserts or replaces a task */
+  save(task: Task): void;
+  /** Removes a task */
+  delete(taskId: string): void;
+  /** Returns every stored task */
+  list(): Task[];
+  /** Releases any underlying resources (file handles, connections) */
+  close?(): void;
+}
+
+/**
+ * JSON-safe representation of a Task (dates as ISO strings)
+ */
+export interface SerializedTask extends Omit<Task, 'createdAt' | 'updatedAt' | 'interruptedAt'> {
+  createdAt: string;
+  updatedAt: string;
+  interruptedAt?: string;
+}
+
+export function serializeTask(task: Task): SerializedTask {
+  return {
+    ...task,
+    createdAt: task.createdAt.toISOString(),
+    updatedAt: task.updatedAt.toISOString(),
+    interruptedAt: task.interruptedAt?.toISOString(),
+  };
+}
+
+export function deserializeTask(data: SerializedTask): Task {
+  return {
+    ...data,
+    createdAt: new Date(data.createdAt),
+    updatedAt: new Date(data.updatedAt),
+    interruptedAt: data.interruptedAt ? new Date(data.interruptedAt) : undefined,
+  };
+}
+
+/**
+ * Keeps tasks in a process-local Map. State is lost when the process exits.
+ */
+export class InMemoryTaskStore implements TaskStore {
+  private tasks = new Map<string, Task>();
+
+  get(taskId: string): Task | undefined {
+    return this.tasks.get(taskId);
+  }
+
+  save(task: Task): void {
+    this.tasks.set(task.id, task);
+  }
+
+  delete(taskId: string): void {
+    this.tasks.delete(taskId);
+  }
+
+  list(): Task[] {
+    return Array.from(this.tasks.values());
+  }
+}
+
+/**
+ * Persists tasks to a single JSON file.
+ *
+ * The whole file is loaded once on construction and rewritten (via a
+ * temporary file and rename) after every change, so a crash never leaves
+ * a half-written file behind. Suited to demo servers with modest history.
+ */
+export class JsonFileTaskStore implements TaskStore {
+  private tasks = new Map<string, Task>();
+
+  constructor(private filePath: string) {
+    if (existsSync(filePath)) {
+      const raw = readFileSync(filePath, 'utf-8');
+      const entries = raw.trim() ? (JSON.parse(raw) as SerializedTask[]) : [];
+      for (const entry of entries) {
+        this.tasks.set(entry.id, deserializeTask(entry));
+      }
+    }
+  }
+
+  get(taskId: string): Task | undefined {
+    const task = this.tasks.get(taskId);
+    return task ? { ...task } : undefined;
+  }
+
+  save(task: Task): void {
+    this.tasks.set(task.id, { ...task });
+    this.flush();
+  }
+
+  delete(taskId: string): void {
+    if (this.tasks.delete(taskId)) {
+      this.flush();
+    }
+  }
+
+  list(): Task[] {
+    return Array.from(this.tasks.values()).map(t => ({ ...t }));
+  }
+
+  private flush(): void {
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    const data = Array.from(this.tasks.values()).map(serializeTask);
+    writeFileSync(tmpPath, JSON.stringify(data, null, 2), 'utf-8');
+    renameSync(tmpPath, this.filePath);
+  }
+}
+
+/**
+ * Persists tasks to an SQLite database file.
+ *
+ * better-sqlite3 is loaded lazily so importing @mcp-demo/core does not
+ * require the native module unless this store is actually used.
+ */
+export class SqliteTaskStore implements TaskStore {
+  private db: BetterSqlite3.Database;
+
+  constructor(filePath: string) {
+    if (filePath !== ':memory:') {
+      mkdirSync(dirname(filePath), { recursive: true });
+    }
+
+    const require = createRequire(import.meta.url);
+    const Database = require('better-sqlite3') as typeof BetterSqlite3;
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS tasks (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks (status);
+    `);
+  }
+
+  get(taskId: string): Task | undefined {
+    const row = this.db
+      .prepare('SELECT data FROM tasks WHERE id = ?')
+      .get(taskId) as { data: string } | undefined;
+    return row ? deserializeTask(JSON.parse(row.data)) : undefined;
+  }
+
+  save(task: Task): void {
+    const serialized = serializeTask(task);
+    this.db
+      .prepare(
+        `INSERT INTO tasks (id, status, updated_at, data) VALUES (?, ?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET status = excluded.status,
+           updated_at = excluded.updated_at, data = excluded.data`
+      )
+      .run(task.id, task.status, serialized.updatedAt, JSON.stringify(serialized));
+  }
+
+  delete(taskId: string): void {
+    this.db.prepare('DELETE FROM tasks WHERE id = ?').run(taskId);
+  }
+
+  list(): Task[] {
+    const rows = this.db
+      .prepare('SELECT data FROM tasks ORDER BY updated_at DESC')
+      .all() as { data: string }[];
+    return rows.map(row => deserializeTask(JSON.parse(row.data)));
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+export interface TaskStoreOptions {
+  /** 'memory' (default), 'json' or 'sqlite' */
+  type?: string;
+  /** JSON or database file (default: data/<name>-tasks.json or data/<name>-tasks.db) */
+  path?: string;
+}
+
+/**
+ * Opens the store selected by TASK_STORE (memory, json or sqlite) and
+ * TASK_STORE_PATH. `name` keeps the default files of different servers
+ * apart: a store must only be used by one process, since its TaskManager
+ * fails every task it finds running when it starts.
+ */
+export function createTaskStore(name: string, options: TaskStoreOptions = {
+  type: process.env.TASK_STORE,
+  path: process.env.TASK_STORE_PATH,
+}): TaskStore {
+  switch (options.type ?? 'memory') {
+    case 'memory':
+      return new InMemoryTaskStore();
+    case 'json':
+      return new JsonFileTaskStore(options.path ?? join('data', `${name}-tasks.json`));
+    case 'sqlite':
+      return new SqliteTaskStore(options.path ?? join('data', `${name}-tasks.db`));
+    default:
+      throw new Error(`Unknown task store "${options.type}" (expected memory, json or sqlite)`);
+  }
+}
@@ -9,7 +9,33 @@ export {
   TaskManager,
   type Task,
   type TaskManagerOptions,
+  type CreateTaskOptions,
+  type InterruptedTaskPolicy,
   type TaskStatus,
   type TaskResult,
   type ProgressUpdate,
 } from './TaskManager.js';
+
+export {
+  InMemoryTaskStore,
+  JsonFileTaskStore,
+  SqliteTaskStore,
+  createTaskStore,
+  serializeTask,
+  deserializeTask,
+  type TaskStore,
+  type TaskStoreOptions,
+  type SerializedTask,
+} from './TaskStore.js';
+
+export {
+  TaskManagerTaskStore,
+  withTaskSupport,
+  registerTaskTool,
+  toMcpTask,
+  toMcpStatus,
+  type TaskProtocolOptions,
+  type TaskToolContext,
+  type TaskToolConfig,
+  type TaskToolHandler,
+} from './TaskProtocol.js';
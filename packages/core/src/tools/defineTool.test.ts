@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Logger, LogLevel, type LogEntry } from '../utils/logger.js';
+import { ok, err } from '../utils/result.js';
+import { NotFoundError, ValidationError } from '../errors/errors.js';
+import { errorFromToolResult } from '../errors/mcp.js';
+import { defineTool } from './defineTool.js';
+
+describe('defineTool', () => {
+  let entries: LogEntry[];
+  let logger: Logger;
+
+  const documents = new Map([['doc-1', { id: 'doc-1', title: 'Intro', words: 120 }]]);
+
+  const getDocument = () => defineTool({
+    name: 'get_document',
+    description: 'Get a document',
+    input: { id: z.string(), withWords: z.boolean().default(false) },
+    output: { id: z.string(), title: z.string(), words: z.number().optional() },
+    logger,
+    format: doc => `# ${doc.title}`,
+    handler: async ({ id, withWords }) => {
+      const doc = documents.get(id);
+      if (!doc) {
+        return err(new NotFoundError(`Document ${id} not found`, { resource: 'document', id }));
+      }
+      return ok(withWords ? doc : { id: doc.id, title: doc.title });
+    },
+  });
+
+  beforeEach(() => {
+    entries = [];
+    logger = new Logger('test', { level: LogLevel.DEBUG, sinks: [{ write: entry => entries.push(entry) }] });
+  });
+
+  it('returns data as structured content and formatted text', async () => {
+    const result = await getDocument().call({ id: 'doc-1', withWords: true });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.structuredContent).toEqual({ id: 'doc-1', title: 'Intro', words: 120 });
+    expect(result.content).toEqual([{ type: 'text', text: '# Intro' }]);
+  });
+
+  it('turns failed results into typed tool errors', async () => {
+    const result = await getDocument().call({ id: 'missing' });
+
+    expect(result.isError).toBe(true);
+    expect(errorFromToolResult(result)).toBeInstanceOf(NotFoundError);
+  });
+
+  it('rejects invalid arguments with a ValidationError', async () => {
+    const result = await getDocument().call({ id: 42 });
+
+    const error = errorFromToolResult(result);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).details.issues[0]?.path).toBe('id');
+  });
+
+  it('rejects output that does not match the output schema', async () => {
+    const tool = defineTool({
+      name: 'broken',
+      input: {},
+      output: { count: z.number() },
+      logger,
+      handler: async () => ok({ count: 'many' } as never),
+    });
+
+    const error = errorFromToolResult(await tool.call({}));
+    expect(error).toMatchObject({ code: 'INTERNAL_ERROR', message: 'Tool broken returned invalid output' });
+  });
+
+  it('maps thrown errors and plain data without an output schema', async () => {
+    const crash = defineTool({ name: 'crash', input: {}, logger, handler: () => { throw new Error('boom'); } });
+    expect(errorFromToolResult(await crash.call({}))).toMatchObject({ code: 'INTERNAL_ERROR', message: 'boom' });
+
+    const greet = defineTool({ name: 'greet', input: { name: z.string() }, logger, handler: ({ name }) => ok(`Hello ${name}`) });
+    const result = await greet.call({ name: 'Ada' });
+    expect(result.content).toEqual([{ type: 'text', text: 'Hello Ada' }]);
+    expect(result.structuredContent).toBeUndefined();
+  });
+
+  it('logs each call with its duration', async () => {
+    await getDocument().call({ id: 'doc-1' });
+    await getDocument().call({ id: 'missing' });
+
+    expect(entries.map(entry => [entry.level, entry.message])).toEqual([
+      [LogLevel.INFO, 'Calling get_document'],
+      [LogLevel.INFO, 'get_document completed'],
+      [LogLevel.INFO, 'Calling get_document'],
+      [LogLevel.WARN, 'get_document failed'],
+    ]);
+    expect(entries[1]?.context).toEqual({ toolName: 'get_document' });
+    expect(entries[1]?.data).toEqual({ durationMs: expect.any(Number) });
+    expect(entries[3]?.data).toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  describe('registered on a server', () => {
+    let client: Client;
+
+    beforeEach(async () => {
+      const server = new McpServer({ name: 'test-server', version: '1.0.0' });
+      getDocument().register(server);
+
+      client = new Client({ name: 'test-client', version: '1.0.0' });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+    });
+
+    afterEach(async () => {
+      await client.close();
+    });
+
+    it('advertises the input and output schemas', async () => {
+      const { tools } = await client.listTools();
+
+      expect(tools[0]).toMatchObject({
+        name: 'get_document',
+        description: 'Get a document',
+        inputSchema: { properties: { id: { type: 'string' } }, required: ['id'] },
+        outputSchema: { properties: { title: { type: 'string' } } },
+      });
+    });
+
+    it('serves structured results and typed errors over tools/call', async () => {
+      const result = await client.callTool({ name: 'get_document', arguments: { id: 'doc-1' } });
+      expect(result.structuredContent).toEqual({ id: 'doc-1', title: 'Intro' });
+
+      const failed = await client.callTool({ name: 'get_document', arguments: { id: 'nope' } });
+      expect(errorFromToolResult(failed)).toBeInstanceOf(NotFoundError);
+    });
+  });
+});
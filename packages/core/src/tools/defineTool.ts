@@ -0,0 +1,176 @@
+/**
+ * Schema-validated tool handlers
+ *
+ * defineTool() turns a handler returning a Result into an MCP tool: it
+ * validates the arguments and the output, maps failures to typed tool
+ * errors and logs every call with its duration.
+ */
+
+import { performance } from 'node:perf_hooks';
+import { z } from 'zod';
+import type { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type {
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+  ToolAnnotations,
+} from '@modelcontextprotocol/sdk/types.js';
+import { MCPError, type Result } from '../types/index.js';
+import { ValidationError, toMCPError } from '../errors/errors.js';
+import { Logger } from '../utils/logger.js';
+import { createErrorResponse } from '../utils/index.js';
+
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/** Data a successful handler returns: the output schema's type when there is one */
+export type ToolOutput<Out extends z.ZodRawShape | undefined> =
+  Out extends z.ZodRawShape ? z.input<z.ZodObject<Out>> : string | Record<string, unknown>;
+
+export interface ToolContext {
+  /** The tool's logger, tagged with the tool name */
+  logger: Logger;
+  /** Aborts when the client cancels the call */
+  signal: AbortSignal;
+  /** Request extra of the tools/call; undefined when called directly */
+  extra?: ToolExtra;
+}
+
+export interface DefineToolConfig<In extends z.ZodRawShape, Out extends z.ZodRawShape | undefined> {
+  name: string;
+  title?: string;
+  description?: string;
+  annotations?: ToolAnnotations;
+  input: In;
+  /** Schema of the structured result, advertised as the tool's outputSchema */
+  output?: Out;
+  /** Defaults to a Logger named after the tool */
+  logger?: Logger;
+  /** Text content of a successful result (default: the string itself or pretty-printed JSON) */
+  format?: (data: ToolOutput<Out>) => string;
+  handler: (
+    args: z.output<z.ZodObject<In>>,
+    context: ToolContext
+  ) => Promise<Result<ToolOutput<Out>, MCPError>> | Result<ToolOutput<Out>, MCPError>;
+}
+
+export interface DefinedTool<In extends z.ZodRawShape, Out extends z.ZodRawShape | undefined> {
+  name: string;
+  config: {
+    title?: string;
+    description?: string;
+    inputSchema: In;
+    outputSchema?: Out;
+    annotations?: ToolAnnotations;
+  };
+  /** Validates `args`, runs the handler and builds the tool result */
+  call(args: unknown, extra?: ToolExtra): Promise<CallToolResult>;
+  /**
+   * Registers the tool. McpServer checks arguments against inputSchema
+   * first, so invalid tools/call arguments get the SDK's text-only error
+   * rather than the ValidationError call() returns.
+   */
+  register(server: McpServer): RegisteredTool;
+}
+
+/**
+ * Defines a tool whose handler returns a Result instead of a CallToolResult.
+ *
+ * - invalid arguments fail with a ValidationError
+ * - a failed Result, or an error the handler throws, becomes an `isError`
+ *   result carrying the typed error (see createErrorResponse)
+ * - successful data is checked against `output` and returned both as
+ *   `structuredContent` (for objects) and as text
+ *
+ * Each call is logged on start and completion with its duration.
+ *
+ * @example
+ * ```typescript
+ * defineTool({
+ *   name: 'get_document',
+ *   input: { documentId: z.string() },
+ *   output: { id: z.string(), title: z.string() },
+ *   handler: async ({ documentId }) => {
+ *     const doc = documents.get(documentId);
+ *     return doc ? ok(doc) : err(new NotFoundError('No such document', { resource: 'document', id: documentId }));
+ *   },
+ * }).register(server);
+ * ```
+ */
+export function defineTool<In extends z.ZodRawShape, Out extends z.ZodRawShape | undefined = undefined>(
+  definition: DefineToolConfig<In, Out>
+): DefinedTool<In, Out> {
+  const { name, title, description, annotations, input, output, format, handler } = definition;
+  const logger = (definition.logger ?? new Logger(name)).child({ toolName: name });
+  const inputSchema = z.object(input);
+  const outputSchema = output ? z.object(output) : undefined;
+
+  const run = async (args: unknown, context: ToolContext): Promise<Result<unknown, MCPError>> => {
+    const parsed = inputSchema.safeParse(args);
+    if (!parsed.success) {
+      return { success: false, error: ValidationError.fromZod(parsed.error, `Invalid arguments for tool ${name}`) };
+    }
+
+    let result: Result<unknown, MCPError>;
+    try {
+      result = await handler(parsed.data, context);
+    } catch (error) {
+      return { success: false, error: toMCPError(error) };
+    }
+    if (!result.success || !outputSchema) {
+      return result;
+    }
+
+    const checked = outputSchema.safeParse(result.data);
+    if (!checked.success) {
+      const issues = ValidationError.fromZod(checked.error).details.issues;
+      return {
+        success: false,
+        error: new MCPError(`Tool ${name} returned invalid output`, 'INTERNAL_ERROR', { issues }),
+      };
+    }
+    return { success: true, data: checked.data };
+  };
+
+  const call = async (args: unknown, extra?: ToolExtra): Promise<CallToolResult> => {
+    const start = performance.now();
+    logger.info(`Calling ${name}`, { args });
+
+    const result = await run(args, { logger, signal: extra?.signal ?? new AbortController().signal, extra });
+    const durationMs = Math.round(performance.now() - start);
+
+    if (!result.success) {
+      const { error } = result;
+      if (error.code === 'INTERNAL_ERROR') {
+        logger.error(`${name} failed after ${durationMs} ms`, error);
+      } else {
+        logger.warn(`${name} failed`, { code: error.code, message: error.message, durationMs });
+      }
+      return createErrorResponse(error);
+    }
+
+    logger.info(`${name} completed`, { durationMs });
+    return toToolResult(result.data, format as ((data: unknown) => string) | undefined);
+  };
+
+  const config = { title, description, inputSchema: input, outputSchema: output, annotations };
+  return {
+    name,
+    config,
+    call,
+    register: server => server.registerTool(
+      name,
+      config as { inputSchema: z.ZodRawShape; outputSchema?: z.ZodRawShape },
+      ((args: unknown, extra: ToolExtra) => call(args, extra)) as never
+    ),
+  };
+}
+
+function toToolResult(data: unknown, format?: (data: unknown) => string): CallToolResult {
+  const isObject = typeof data === 'object' && data !== null && !Array.isArray(data);
+  const text = format ? format(data) : typeof data === 'string' ? data : JSON.stringify(data, null, 2);
+  return {
+    content: [{ type: 'text', text }],
+    ...(isObject && { structuredContent: data as Record<string, unknown> }),
+  };
+}
@@ -0,0 +1,12 @@
+/**
+ * Tool definition helpers
+ */
+
+export {
+  defineTool,
+  type DefinedTool,
+  type DefineToolConfig,
+  type ToolContext,
+  type ToolExtra,
+  type ToolOutput,
+} from './defineTool.js';
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  Tracer,
+  activeSpanContext,
+  formatTraceparent,
+  parseTraceparent,
+  withSpan,
+} from './Tracer.js';
+import { InMemorySpanExporter, OtlpFileExporter, toOtlpJson } from './exporters.js';
+
+describe('Tracer', () => {
+  let exporter: InMemorySpanExporter;
+  let tracer: Tracer;
+
+  beforeEach(() => {
+    exporter = new InMemorySpanExporter();
+    tracer = new Tracer({ serviceName: 'test-service', exporters: [exporter] });
+  });
+
+  afterEach(async () => {
+    await tracer.shutdown();
+  });
+
+  it('parents nested spans to the active span', async () => {
+    await tracer.trace('outer', {}, async outer => {
+      await tracer.trace('inner', { kind: 'client' }, async inner => {
+        expect(inner.context.traceId).toBe(outer.context.traceId);
+        expect(inner.parentSpanId).toBe(outer.context.spanId);
+        expect(activeSpanContext()).toEqual(inner.context);
+      });
+      expect(activeSpanContext()).toEqual(outer.context);
+    });
+    await tracer.flush();
+
+    expect(activeSpanContext()).toBeUndefined();
+    expect(exporter.spans.map(span => span.name)).toEqual(['inner', 'outer']);
+    expect(exporter.spans[0]!.kind).toBe('client');
+    expect(exporter.spans[1]!.parentSpanId).toBeUndefined();
+  });
+
+  it('starts a new trace when the parent is null', async () => {
+    await tracer.trace('outer', {}, async outer => {
+      const span = tracer.startSpan('detached', { parent: null });
+      expect(span.context.traceId).not.toBe(outer.context.traceId);
+      expect(span.parentSpanId).toBeUndefined();
+      span.end();
+    });
+  });
+
+  it('records errors thrown inside a span and rethrows them', async () => {
+    await expect(tracer.trace('failing', {}, async () => {
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+    await tracer.flush();
+
+    const [span] = exporter.spans;
+    expect(span!.status).toEqual({ code: 'error', message: 'boom' });
+    expect(span!.events[0]).toMatchObject({
+      name: 'exception',
+      attributes: { 'exception.type': 'Error', 'exception.message': 'boom' },
+    });
+  });
+
+  it('drops undefined attributes and ignores repeated end() calls', async () => {
+    const span = tracer.startSpan('op', { attributes: { present: 1, missing: undefined } });
+    span.end();
+    span.end();
+    await tracer.flush();
+
+    expect(span.attributes).toEqual({ present: 1 });
+    expect(exporter.spans).toHaveLength(1);
+  });
+
+  it('exports once the batch is full', async () => {
+    await tracer.shutdown();
+    tracer = new Tracer({ exporters: [exporter], batchSize: 2, flushIntervalMs: 60_000 });
+
+    tracer.startSpan('first').end();
+    expect(exporter.spans).toHaveLength(0);
+    tracer.startSpan('second').end();
+    await Promise.resolve();
+
+    expect(exporter.spans.map(span => span.name)).toEqual(['first', 'second']);
+  });
+
+  it('does not export unsampled spans', async () => {
+    const parent = { traceId: 'a'.repeat(32), spanId: 'b'.repeat(16), sampled: false };
+    withSpan(parent, () => tracer.startSpan('unsampled').end());
+    await tracer.flush();
+
+    expect(exporter.spans).toHaveLength(0);
+  });
+});
+
+describe('traceparent', () => {
+  it('round-trips a span context', () => {
+    const context = { traceId: '4bf92f3577b34da6a3ce929d0e0e4736', spanId: '00f067aa0ba902b7', sampled: true };
+    const header = formatTraceparent(context);
+
+    expect(header).toBe('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01');
+    expect(parseTraceparent(header)).toEqual(context);
+  });
+
+  it('rejects malformed values', () => {
+    expect(parseTraceparent(undefined)).toBeUndefined();
+    expect(parseTraceparent('00-abc-def-01')).toBeUndefined();
+    expect(parseTraceparent(`00-${'0'.repeat(32)}-00f067aa0ba902b7-01`)).toBeUndefined();
+    expect(parseTraceparent(`ff-${'a'.repeat(32)}-00f067aa0ba902b7-01`)).toBeUndefined();
+  });
+});
+
+describe('OTLP/JSON export', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'tracing-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('encodes spans with OTLP enum values and string timestamps', () => {
+    const tracer = new Tracer();
+    const span = tracer.startSpan('tools/call echo', {
+      kind: 'server',
+      attributes: { 'mcp.tool.name': 'echo', count: 3, ratio: 0.5, ok: true, tags: ['a', 'b'] },
+    });
+    span.setStatus('error', 'failed');
+    span.end();
+
+    const request = toOtlpJson([span], { 'service.name': 'test-service' });
+    const [otlpSpan] = request.resourceSpans[0]!.scopeSpans[0]!.spans;
+
+    expect(request.resourceSpans[0]!.resource.attributes).toEqual([
+      { key: 'service.name', value: { stringValue: 'test-service' } },
+    ]);
+    expect(otlpSpan).toMatchObject({
+      traceId: span.context.traceId,
+      spanId: span.context.spanId,
+      name: 'tools/call echo',
+      kind: 2,
+      status: { code: 2, message: 'failed' },
+    });
+    expect(otlpSpan!.startTimeUnixNano).toMatch(/^\d{19}$/);
+    expect(otlpSpan!.attributes).toEqual([
+      { key: 'mcp.tool.name', value: { stringValue: 'echo' } },
+      { key: 'count', value: { intValue: '3' } },
+      { key: 'ratio', value: { doubleValue: 0.5 } },
+      { key: 'ok', value: { boolValue: true } },
+      { key: 'tags', value: { arrayValue: { values: [{ stringValue: 'a' }, { stringValue: 'b' }] } } },
+    ]);
+  });
+
+  it('appends one export request per line to a file', async () => {
+    const path = join(dir, 'nested', 'traces.jsonl');
+    const tracer = new Tracer({ serviceName: 'file-service', exporters: [new OtlpFileExporter({ path })] });
+
+    tracer.startSpan('first').end();
+    await tracer.flush();
+    tracer.startSpan('second').end();
+    await tracer.shutdown();
+
+    const lines = (await readFile(path, 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+    expect(lines).toHaveLength(2);
+    expect(lines.map(line => line.resourceSpans[0].scopeSpans[0].spans[0].name)).toEqual(['first', 'second']);
+    expect(lines[0].resourceSpans[0].resource.attributes[0].value.stringValue).toBe('file-service');
+  });
+});
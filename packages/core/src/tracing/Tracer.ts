@@ -0,0 +1,333 @@
+/**
+ * Lightweight OpenTelemetry-style tracing
+ *
+ * Spans are kept in an AsyncLocalStorage context so nested work (an MCP
+ * request handler, the sampling request it sends, the LLM call behind it)
+ * becomes a tree, and the context crosses process boundaries as a W3C
+ * `traceparent` (see injectTraceContext() / extractTraceContext()).
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomBytes } from 'node:crypto';
+import { Logger } from '../utils/logger.js';
+import type { SpanExporter } from './exporters.js';
+import { OtlpFileExporter, OtlpHttpExporter } from './exporters.js';
+
+const logger = new Logger('tracing');
+
+export type SpanKind = 'internal' | 'server' | 'client';
+export type SpanStatusCode = 'unset' | 'ok' | 'error';
+export type AttributeValue = string | number | boolean | string[] | number[];
+export type Attributes = Record<string, AttributeValue | undefined>;
+
+/**
+ * What identifies a span across processes
+ */
+export interface SpanContext {
+  /** 32 hex characters */
+  traceId: string;
+  /** 16 hex characters */
+  spanId: string;
+  /** Unsampled spans are propagated but not exported */
+  sampled: boolean;
+}
+
+export interface SpanEvent {
+  name: string;
+  /** Milliseconds since the epoch (fractional) */
+  time: number;
+  attributes: Record<string, AttributeValue>;
+}
+
+export interface SpanOptions {
+  kind?: SpanKind;
+  attributes?: Attributes;
+  /** Parent span; defaults to the active span, null starts a new trace */
+  parent?: SpanContext | null;
+}
+
+export class Span {
+  readonly context: SpanContext;
+  readonly parentSpanId?: string;
+  readonly kind: SpanKind;
+  /** Milliseconds since the epoch (fractional) */
+  readonly startTime: number;
+  endTime?: number;
+  attributes: Record<string, AttributeValue> = {};
+  events: SpanEvent[] = [];
+  status: { code: SpanStatusCode; message?: string } = { code: 'unset' };
+
+  constructor(
+    public name: string,
+    options: SpanOptions,
+    private onEnd: (span: Span) => void
+  ) {
+    const parent = options.parent;
+    this.context = {
+      traceId: parent?.traceId ?? randomHex(16),
+      spanId: randomHex(8),
+      sampled: parent?.sampled ?? true
+    };
+    this.parentSpanId = parent?.spanId;
+    this.kind = options.kind ?? 'internal';
+    this.startTime = now();
+    this.setAttributes(options.attributes ?? {});
+  }
+
+  get ended(): boolean {
+    return this.endTime !== undefined;
+  }
+
+  setAttribute(key: string, value: AttributeValue | undefined): this {
+    if (value !== undefined) {
+      this.attributes[key] = value;
+    }
+    return this;
+  }
+
+  /** Sets every attribute whose value isn't undefined */
+  setAttributes(attributes: Attributes): this {
+    for (const [key, value] of Object.entries(attributes)) {
+      this.setAttribute(key, value);
+    }
+    return this;
+  }
+
+  addEvent(name: string, attributes: Record<string, AttributeValue> = {}): this {
+    this.events.push({ name, time: now(), attributes });
+    return this;
+  }
+
+  setStatus(code: SpanStatusCode, message?: string): this {
+    this.status = { code, ...(message !== undefined && { message }) };
+    return this;
+  }
+
+  /**
+   * Adds an `exception` event and marks the span as failed
+   */
+  recordException(error: unknown): this {
+    const err = error instanceof Error ? error : new Error(String(error));
+    this.addEvent('exception', {
+      'exception.type': err.name,
+      'exception.message': err.message,
+      ...(err.stack && { 'exception.stacktrace': err.stack })
+    });
+    return this.setStatus('error', err.message);
+  }
+
+  /** Ends the span; later calls are ignored */
+  end(): void {
+    if (this.ended) {
+      return;
+    }
+    this.endTime = now();
+    this.onEnd(this);
+  }
+}
+
+export interface TracerOptions {
+  /** `service.name` of exported spans (default: 'unknown_service') */
+  serviceName?: string;
+  /** Extra resource attributes, e.g. `service.version` */
+  resourceAttributes?: Record<string, AttributeValue>;
+  /** Where finished spans go; without exporters spans only propagate context */
+  exporters?: SpanExporter[];
+  /** Spans buffered before an export is forced (default: 100) */
+  batchSize?: number;
+  /** Longest a finished span waits to be exported (default: 2000 ms) */
+  flushIntervalMs?: number;
+}
+
+const contextStorage = new AsyncLocalStorage<SpanContext>();
+
+/**
+ * Creates spans and exports them in batches
+ *
+ * @example
+ * ```typescript
+ * setTracer(Tracer.fromEnv('dev-tools-server'));
+ *
+ * const result = await getTracer().trace('format_code', { attributes: { language } }, async span => {
+ *   const formatted = await format(code);
+ *   span.setAttribute('code.length', formatted.length);
+ *   return formatted;
+ * });
+ * ```
+ */
+export class Tracer {
+  readonly serviceName: string;
+  readonly resourceAttributes: Record<string, AttributeValue>;
+  private exporters: SpanExporter[];
+  private batchSize: number;
+  private flushIntervalMs: number;
+  private buffer: Span[] = [];
+  private flushTimer?: ReturnType<typeof setTimeout>;
+  private pendingExports = new Set<Promise<void>>();
+
+  constructor(options: TracerOptions = {}) {
+    this.serviceName = options.serviceName ?? 'unknown_service';
+    this.resourceAttributes = options.resourceAttributes ?? {};
+    this.exporters = options.exporters ?? [];
+    this.batchSize = options.batchSize ?? 100;
+    this.flushIntervalMs = options.flushIntervalMs ?? 2000;
+  }
+
+  /**
+   * Tracer configured from the standard OpenTelemetry variables:
+   * - OTEL_SERVICE_NAME overrides the service name
+   * - OTEL_EXPORTER_OTLP_TRACES_ENDPOINT (full URL) or OTEL_EXPORTER_OTLP_ENDPOINT
+   *   (base URL, /v1/traces is appended) export to a collector over OTLP/HTTP JSON
+   * - TRACE_FILE appends OTLP/JSON lines to a file
+   */
+  static fromEnv(serviceName?: string): Tracer {
+    const env = process.env;
+    const exporters: SpanExporter[] = [];
+
+    const endpoint = env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT
+      ?? (env.OTEL_EXPORTER_OTLP_ENDPOINT && `${env.OTEL_EXPORTER_OTLP_ENDPOINT.replace(/\/$/, '')}/v1/traces`);
+    if (endpoint) {
+      exporters.push(new OtlpHttpExporter({ url: endpoint }));
+    }
+    if (env.TRACE_FILE) {
+      exporters.push(new OtlpFileExporter({ path: env.TRACE_FILE }));
+    }
+
+    return new Tracer({ serviceName: env.OTEL_SERVICE_NAME || serviceName, exporters });
+  }
+
+  /** Whether finished spans go anywhere */
+  get enabled(): boolean {
+    return this.exporters.length > 0;
+  }
+
+  /**
+   * Starts a span without making it active; end() it when done
+   */
+  startSpan(name: string, options: SpanOptions = {}): Span {
+    const parent = options.parent === undefined ? activeSpanContext() : options.parent;
+    return new Span(name, { ...options, parent }, span => this.onEnd(span));
+  }
+
+  /**
+   * Runs fn inside a new active span, which ends when fn settles. Errors are
+   * recorded on the span and rethrown.
+   */
+  async trace<T>(name: string, options: SpanOptions, fn: (span: Span) => Promise<T> | T): Promise<T> {
+    const span = this.startSpan(name, options);
+    try {
+      return await withSpan(span, () => fn(span));
+    } catch (error) {
+      span.recordException(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Exports buffered spans now
+   */
+  async flush(): Promise<void> {
+    clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
+
+    const spans = this.buffer;
+    this.buffer = [];
+    if (spans.length > 0) {
+      const resource = { 'service.name': this.serviceName, ...this.resourceAttributes };
+      const exported = Promise.all(this.exporters.map(exporter =>
+        exporter.export(spans, resource).catch(error => {
+          logger.warn('Span export failed', { exporter: exporter.constructor.name, error });
+        })
+      )).then(() => undefined);
+      this.pendingExports.add(exported);
+      exported.finally(() => this.pendingExports.delete(exported));
+    }
+    await Promise.all(this.pendingExports);
+  }
+
+  /**
+   * Exports what's left and shuts the exporters down
+   */
+  async shutdown(): Promise<void> {
+    await this.flush();
+    await Promise.all(this.exporters.map(exporter => exporter.shutdown?.()));
+  }
+
+  private onEnd(span: Span): void {
+    if (!span.context.sampled || this.exporters.length === 0) {
+      return;
+    }
+
+    this.buffer.push(span);
+    if (this.buffer.length >= this.batchSize) {
+      void this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => void this.flush(), this.flushIntervalMs);
+      // Pending spans must not keep the process alive
+      this.flushTimer.unref?.();
+    }
+  }
+}
+
+/**
+ * Runs fn with the span (or a remote span context) as the active parent
+ */
+export function withSpan<T>(span: Span | SpanContext, fn: () => T): T {
+  return contextStorage.run(span instanceof Span ? span.context : span, fn);
+}
+
+/**
+ * Context of the span new spans are parented to, if any
+ */
+export function activeSpanContext(): SpanContext | undefined {
+  return contextStorage.getStore();
+}
+
+/**
+ * W3C trace context header value for a span
+ */
+export function formatTraceparent(context: SpanContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.sampled ? '01' : '00'}`;
+}
+
+/**
+ * Parses a W3C traceparent; undefined when it's malformed
+ */
+export function parseTraceparent(value: unknown): SpanContext | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const match = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/.exec(value.trim().toLowerCase());
+  if (!match || match[1] === 'ff' || /^0+$/.test(match[2]!) || /^0+$/.test(match[3]!)) {
+    return undefined;
+  }
+  return {
+    traceId: match[2]!,
+    spanId: match[3]!,
+    sampled: (parseInt(match[4]!, 16) & 1) === 1
+  };
+}
+
+let globalTracer: Tracer | undefined;
+
+/**
+ * The process-wide tracer (Tracer.fromEnv() until setTracer() is called)
+ */
+export function getTracer(): Tracer {
+  globalTracer ??= Tracer.fromEnv();
+  return globalTracer;
+}
+
+export function setTracer(tracer: Tracer): void {
+  globalTracer = tracer;
+}
+
+function randomHex(bytes: number): string {
+  return randomBytes(bytes).toString('hex');
+}
+
+function now(): number {
+  return performance.timeOrigin + performance.now();
+}
@@ -0,0 +1,180 @@
+/**
+ * Span exporters writing the OTLP/JSON encoding
+ */
+
+import { appendFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { AttributeValue, Span, SpanKind, SpanStatusCode } from './Tracer.js';
+
+export interface SpanExporter {
+  /**
+   * @param resource Attributes of the process that produced the spans, `service.name` included
+   */
+  export(spans: readonly Span[], resource: Record<string, AttributeValue>): Promise<void>;
+  shutdown?(): Promise<void>;
+}
+
+const INSTRUMENTATION_SCOPE = { name: '@mcp-demo/core', version: '1.0.0' };
+
+// Enum values of the OTLP protobuf definitions
+const OTLP_SPAN_KIND: Record<SpanKind, number> = { internal: 1, server: 2, client: 3 };
+const OTLP_STATUS_CODE: Record<SpanStatusCode, number> = { unset: 0, ok: 1, error: 2 };
+
+type OtlpAnyValue =
+  | { stringValue: string }
+  | { boolValue: boolean }
+  | { intValue: string }
+  | { doubleValue: number }
+  | { arrayValue: { values: OtlpAnyValue[] } };
+
+interface OtlpKeyValue {
+  key: string;
+  value: OtlpAnyValue;
+}
+
+/**
+ * An OTLP `ExportTraceServiceRequest` in its JSON encoding
+ */
+export interface OtlpTraceRequest {
+  resourceSpans: {
+    resource: { attributes: OtlpKeyValue[] };
+    scopeSpans: {
+      scope: { name: string; version: string };
+      spans: OtlpSpan[];
+    }[];
+  }[];
+}
+
+export interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpKeyValue[];
+  events: { timeUnixNano: string; name: string; attributes: OtlpKeyValue[] }[];
+  status: { code: number; message?: string };
+}
+
+/**
+ * Encodes finished spans as an OTLP/JSON export request
+ */
+export function toOtlpJson(spans: readonly Span[], resource: Record<string, AttributeValue>): OtlpTraceRequest {
+  return {
+    resourceSpans: [{
+      resource: { attributes: toKeyValues(resource) },
+      scopeSpans: [{
+        scope: INSTRUMENTATION_SCOPE,
+        spans: spans.map(span => ({
+          traceId: span.context.traceId,
+          spanId: span.context.spanId,
+          ...(span.parentSpanId && { parentSpanId: span.parentSpanId }),
+          name: span.name,
+          kind: OTLP_SPAN_KIND[span.kind],
+          startTimeUnixNano: toUnixNano(span.startTime),
+          endTimeUnixNano: toUnixNano(span.endTime ?? span.startTime),
+          attributes: toKeyValues(span.attributes),
+          events: span.events.map(event => ({
+            timeUnixNano: toUnixNano(event.time),
+            name: event.name,
+            attributes: toKeyValues(event.attributes)
+          })),
+          status: {
+            code: OTLP_STATUS_CODE[span.status.code],
+            ...(span.status.message !== undefined && { message: span.status.message })
+          }
+        }))
+      }]
+    }]
+  };
+}
+
+export interface OtlpFileExporterOptions {
+  path: string;
+}
+
+/**
+ * Appends one OTLP/JSON export request per line, the format of the
+ * OpenTelemetry Collector's file exporter
+ */
+export class OtlpFileExporter implements SpanExporter {
+  private ready?: Promise<unknown>;
+
+  constructor(private options: OtlpFileExporterOptions) {}
+
+  async export(spans: readonly Span[], resource: Record<string, AttributeValue>): Promise<void> {
+    this.ready ??= mkdir(dirname(this.options.path), { recursive: true });
+    await this.ready;
+    await appendFile(this.options.path, `${JSON.stringify(toOtlpJson(spans, resource))}\n`);
+  }
+}
+
+export interface OtlpHttpExporterOptions {
+  /** Traces endpoint of the collector (default: http://localhost:4318/v1/traces) */
+  url?: string;
+  headers?: Record<string, string>;
+  /** Request timeout (default: 10000 ms) */
+  timeoutMs?: number;
+}
+
+/**
+ * Posts spans to an OpenTelemetry collector over OTLP/HTTP with JSON bodies
+ */
+export class OtlpHttpExporter implements SpanExporter {
+  readonly url: string;
+
+  constructor(private options: OtlpHttpExporterOptions = {}) {
+    this.url = options.url ?? 'http://localhost:4318/v1/traces';
+  }
+
+  async export(spans: readonly Span[], resource: Record<string, AttributeValue>): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.options.headers },
+      body: JSON.stringify(toOtlpJson(spans, resource)),
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? 10000)
+    });
+    if (!response.ok) {
+      throw new Error(`Collector responded ${response.status} ${response.statusText}`);
+    }
+  }
+}
+
+/**
+ * Keeps exported spans in memory, for tests
+ */
+export class InMemorySpanExporter implements SpanExporter {
+  spans: Span[] = [];
+
+  async export(spans: readonly Span[]): Promise<void> {
+    this.spans.push(...spans);
+  }
+
+  reset(): void {
+    this.spans = [];
+  }
+}
+
+function toKeyValues(attributes: Record<string, AttributeValue>): OtlpKeyValue[] {
+  return Object.entries(attributes).map(([key, value]) => ({ key, value: toAnyValue(value) }));
+}
+
+function toAnyValue(value: AttributeValue | string | number): OtlpAnyValue {
+  if (Array.isArray(value)) {
+    return { arrayValue: { values: (value as (string | number)[]).map(toAnyValue) } };
+  }
+  if (typeof value === 'boolean') {
+    return { boolValue: value };
+  }
+  if (typeof value === 'number') {
+    // int64 values are strings in OTLP/JSON
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  }
+  return { stringValue: value };
+}
+
+function toUnixNano(ms: number): string {
+  return (BigInt(Math.floor(ms)) * 1_000_000n + BigInt(Math.round((ms % 1) * 1_000_000))).toString();
+}
@@ -0,0 +1,46 @@
+/**
+ * Tracing utilities
+ *
+ * OpenTelemetry-style spans for MCP requests and LLM provider calls,
+ * exported as OTLP/JSON to a file or a collector.
+ */
+
+export {
+  Tracer,
+  Span,
+  withSpan,
+  activeSpanContext,
+  formatTraceparent,
+  parseTraceparent,
+  getTracer,
+  setTracer,
+  type SpanKind,
+  type SpanStatusCode,
+  type SpanContext,
+  type SpanEvent,
+  type SpanOptions,
+  type AttributeValue,
+  type Attributes,
+  type TracerOptions,
+} from './Tracer.js';
+
+export {
+  OtlpFileExporter,
+  OtlpHttpExporter,
+  InMemorySpanExporter,
+  toOtlpJson,
+  type SpanExporter,
+  type OtlpTraceRequest,
+  type OtlpSpan,
+  type OtlpFileExporterOptions,
+  type OtlpHttpExporterOptions,
+} from './exporters.js';
+
+export {
+  instrumentMcp,
+  injectTraceContext,
+  extractTraceContext,
+  TRACEPARENT_META_KEY,
+} from './mcp.js';
+
+export { traceProvider } from './llm.js';
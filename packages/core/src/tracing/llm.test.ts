@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { LocalProvider } from '../llm/providers/LocalProvider.js';
+import { Tracer } from './Tracer.js';
+import { InMemorySpanExporter } from './exporters.js';
+import { traceProvider } from './llm.js';
+
+describe('traceProvider', () => {
+  let exporter: InMemorySpanExporter;
+  let tracer: Tracer;
+  let provider: LocalProvider;
+
+  beforeEach(() => {
+    exporter = new InMemorySpanExporter();
+    tracer = new Tracer({ exporters: [exporter] });
+    provider = traceProvider(new LocalProvider({ name: 'local', mock: true }), tracer);
+  });
+
+  afterEach(async () => {
+    await tracer.shutdown();
+  });
+
+  it('traces completions with GenAI attributes', async () => {
+    await tracer.trace('handler', {}, () => provider.complete('Hello there', { maxTokens: 50 }));
+    await tracer.flush();
+
+    const [chat, handler] = exporter.spans;
+    expect(chat!.name).toMatch(/^chat /);
+    expect(chat!.kind).toBe('client');
+    expect(chat!.parentSpanId).toBe(handler!.context.spanId);
+    expect(chat!.attributes).toMatchObject({
+      'gen_ai.system': 'local',
+      'gen_ai.operation.name': 'chat',
+      'gen_ai.request.max_tokens': 50,
+      'gen_ai.response.finish_reasons': ['stop'],
+    });
+    expect(chat!.attributes['gen_ai.usage.input_tokens']).toBeGreaterThan(0);
+    expect(chat!.attributes['gen_ai.usage.output_tokens']).toBeGreaterThan(0);
+  });
+
+  it('ends stream spans when the stream is consumed', async () => {
+    const chunks = [];
+    for await (const chunk of provider.stream('Hello there')) {
+      chunks.push(chunk);
+    }
+    await tracer.flush();
+
+    expect(chunks.length).toBeGreaterThan(0);
+    expect(exporter.spans).toHaveLength(1);
+    expect(exporter.spans[0]!.attributes).toMatchObject({
+      'gen_ai.request.stream': true,
+      'gen_ai.response.finish_reasons': ['stop'],
+    });
+  });
+
+  it('ends stream spans when the consumer stops early', async () => {
+    for await (const _chunk of provider.stream('Hello there, how are you today?')) {
+      break;
+    }
+    await tracer.flush();
+
+    expect(exporter.spans).toHaveLength(1);
+    expect(exporter.spans[0]!.ended).toBe(true);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Tracing of LLM provider calls, with OpenTelemetry GenAI attribute names
+ */
+
+import type {
+  LLMProvider,
+  ChatCompletionOptions,
+  CompletionResponse,
+  EmbeddingOptions,
+  StreamingChunk
+} from '../llm/types.js';
+import { Tracer, getTracer, type Attributes, type Span } from './Tracer.js';
+
+/**
+ * Wraps the provider's chatCompletion, chatCompletionStream and embed in
+ * client spans (complete() and stream() go through them in the built-in
+ * providers). The provider is changed in place and returned.
+ */
+export function traceProvider<P extends LLMProvider>(provider: P, tracer?: Tracer): P {
+  const getActiveTracer = () => tracer ?? getTracer();
+
+  const chatCompletion = provider.chatCompletion?.bind(provider);
+  if (chatCompletion) {
+    provider.chatCompletion = options => getActiveTracer().trace(
+      `chat ${options.model ?? provider.name}`,
+      { kind: 'client', attributes: chatAttributes(provider, options) },
+      async span => {
+        const response = await chatCompletion(options);
+        setResponseAttributes(span, response.model, response.usage, response.finishReason);
+        return response;
+      }
+    );
+  }
+
+  const chatCompletionStream = provider.chatCompletionStream?.bind(provider);
+  if (chatCompletionStream) {
+    provider.chatCompletionStream = options => traceStream(getActiveTracer(), provider, options, chatCompletionStream);
+  }
+
+  const embed = provider.embed?.bind(provider);
+  if (embed) {
+    provider.embed = (texts: string[], options: EmbeddingOptions = {}) => getActiveTracer().trace(
+      `embeddings ${options.model ?? provider.name}`,
+      {
+        kind: 'client',
+        attributes: {
+          'gen_ai.system': provider.name,
+          'gen_ai.operation.name': 'embeddings',
+          'gen_ai.request.model': options.model,
+          'gen_ai.request.embedding.count': texts.length
+        }
+      },
+      async span => {
+        const response = await embed(texts, options);
+        span.setAttributes({
+          'gen_ai.response.model': response.model,
+          'gen_ai.usage.input_tokens': response.usage?.promptTokens
+        });
+        return response;
+      }
+    );
+  }
+
+  return provider;
+}
+
+async function* traceStream(
+  tracer: Tracer,
+  provider: LLMProvider,
+  options: ChatCompletionOptions,
+  stream: (options: ChatCompletionOptions) => AsyncIterable<StreamingChunk>
+): AsyncIterable<StreamingChunk> {
+  const span = tracer.startSpan(`chat ${options.model ?? provider.name}`, {
+    kind: 'client',
+    attributes: { ...chatAttributes(provider, options), 'gen_ai.request.stream': true }
+  });
+  let usage: CompletionResponse['usage'];
+  let finishReason: string | undefined;
+
+  try {
+    for await (const chunk of stream(options)) {
+      usage = chunk.usage ?? usage;
+      finishReason = chunk.finishReason ?? finishReason;
+      yield chunk;
+    }
+    setResponseAttributes(span, undefined, usage, finishReason);
+  } catch (error) {
+    span.recordException(error);
+    throw error;
+  } finally {
+    // Also ends the span when the consumer stops reading early
+    span.end();
+  }
+}
+
+function chatAttributes(provider: LLMProvider, options: ChatCompletionOptions): Attributes {
+  return {
+    'gen_ai.system': provider.name,
+    'gen_ai.operation.name': 'chat',
+    'gen_ai.request.model': options.model,
+    'gen_ai.request.max_tokens': options.maxTokens,
+    'gen_ai.request.temperature': options.temperature,
+    'gen_ai.request.message.count': options.messages.length,
+    'gen_ai.request.tool.count': options.tools?.length
+  };
+}
+
+function setResponseAttributes(
+  span: Span,
+  model: string | undefined,
+  usage: CompletionResponse['usage'],
+  finishReason: string | undefined
+): void {
+  span.setAttributes({
+    'gen_ai.response.model': model,
+    'gen_ai.usage.input_tokens': usage?.promptTokens,
+    'gen_ai.usage.output_tokens': usage?.completionTokens,
+    'gen_ai.response.finish_reasons': finishReason ? [finishReason] : undefined
+  });
+}
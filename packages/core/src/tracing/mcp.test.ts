@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CreateMessageRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { Tracer, formatTraceparent } from './Tracer.js';
+import { InMemorySpanExporter } from './exporters.js';
+import { instrumentMcp, injectTraceContext, extractTraceContext, TRACEPARENT_META_KEY } from './mcp.js';
+
+describe('instrumentMcp', () => {
+  let exporter: InMemorySpanExporter;
+  let tracer: Tracer;
+  let server: McpServer;
+  let client: Client;
+  let receivedMeta: Record<string, unknown> | undefined;
+
+  beforeEach(async () => {
+    exporter = new InMemorySpanExporter();
+    tracer = new Tracer({ exporters: [exporter] });
+
+    server = new McpServer({ name: 'test-server', version: '1.0.0' }, { capabilities: {} });
+    instrumentMcp(server.server, tracer);
+    server.tool('echo', { text: z.string() }, async ({ text }, extra) => {
+      receivedMeta = extra._meta;
+      return { content: [{ type: 'text', text }] };
+    });
+    server.tool('fail', {}, async () => ({ content: [{ type: 'text', text: 'nope' }], isError: true }));
+    server.tool('ask', {}, async () => {
+      const result = await server.server.createMessage({
+        messages: [{ role: 'user', content: { type: 'text', text: 'Hi' } }],
+        maxTokens: 10,
+      });
+      return { content: [result.content as { type: 'text'; text: string }] };
+    });
+
+    client = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: { sampling: {} } });
+    instrumentMcp(client, tracer);
+    client.setRequestHandler(CreateMessageRequestSchema, async () => ({
+      role: 'assistant',
+      content: { type: 'text', text: 'Hello' },
+      model: 'test-model',
+    }));
+
+    receivedMeta = undefined;
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+    await tracer.shutdown();
+  });
+
+  it('continues the caller trace in the tool handler', async () => {
+    await client.callTool({ name: 'echo', arguments: { text: 'hi' } });
+    await tracer.flush();
+
+    const clientSpan = exporter.spans.find(span => span.kind === 'client');
+    const serverSpan = exporter.spans.find(span => span.kind === 'server');
+    expect(clientSpan).toMatchObject({ name: 'tools/call echo' });
+    expect(serverSpan).toMatchObject({ name: 'tools/call echo', attributes: { 'mcp.tool.name': 'echo' } });
+    expect(serverSpan!.context.traceId).toBe(clientSpan!.context.traceId);
+    expect(serverSpan!.parentSpanId).toBe(clientSpan!.context.spanId);
+    expect(receivedMeta?.[TRACEPARENT_META_KEY]).toBe(formatTraceparent(clientSpan!.context));
+  });
+
+  it('marks tool results with isError as failed', async () => {
+    await client.callTool({ name: 'fail', arguments: {} });
+    await tracer.flush();
+
+    expect(exporter.spans).toHaveLength(2);
+    expect(exporter.spans.every(span => span.status.code === 'error')).toBe(true);
+  });
+
+  it('carries the context through sampling requests back to the client', async () => {
+    await client.callTool({ name: 'ask', arguments: {} });
+    await tracer.flush();
+
+    const names = exporter.spans.map(span => `${span.kind} ${span.name}`);
+    expect(names).toEqual(expect.arrayContaining([
+      'client tools/call ask',
+      'server tools/call ask',
+      'client sampling/createMessage',
+      'server sampling/createMessage',
+    ]));
+    expect(new Set(exporter.spans.map(span => span.context.traceId)).size).toBe(1);
+
+    const toolSpan = exporter.spans.find(span => span.kind === 'server' && span.name === 'tools/call ask');
+    const samplingSpan = exporter.spans.find(span => span.kind === 'client' && span.name === 'sampling/createMessage');
+    expect(samplingSpan!.parentSpanId).toBe(toolSpan!.context.spanId);
+    expect(samplingSpan!.attributes['gen_ai.request.max_tokens']).toBe(10);
+  });
+
+  it('leaves untraced methods alone', async () => {
+    await client.listTools();
+    await tracer.flush();
+
+    expect(exporter.spans).toHaveLength(0);
+  });
+});
+
+describe('trace context in _meta', () => {
+  it('injects nothing without an active span', () => {
+    expect(injectTraceContext({ progressToken: 1 })).toEqual({ progressToken: 1 });
+  });
+
+  it('round-trips through _meta', () => {
+    const context = { traceId: 'a'.repeat(32), spanId: 'b'.repeat(16), sampled: true };
+    const meta = injectTraceContext({ progressToken: 1 }, context);
+
+    expect(meta).toEqual({ progressToken: 1, traceparent: formatTraceparent(context) });
+    expect(extractTraceContext(meta)).toEqual(context);
+    expect(extractTraceContext({ traceparent: 'garbage' })).toBeUndefined();
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Tracing of MCP requests, with trace context carried in `_meta`
+ */
+
+import type { Protocol } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { wrapRequestHandlers } from '../utils/requestHandlers.js';
+import {
+  Tracer,
+  getTracer,
+  activeSpanContext,
+  formatTraceparent,
+  parseTraceparent,
+  type Attributes,
+  type SpanContext
+} from './Tracer.js';
+
+/** `_meta` key holding the W3C traceparent of the sending span */
+export const TRACEPARENT_META_KEY = 'traceparent';
+
+type Params = Record<string, unknown> & { _meta?: Record<string, unknown> };
+
+/** Requests that get a span, with the attributes describing their target */
+const TRACED_METHODS: Record<string, (params: Params) => { target?: string; attributes: Attributes }> = {
+  'tools/call': params => ({ target: str(params.name), attributes: { 'mcp.tool.name': str(params.name) } }),
+  'resources/read': params => ({ target: str(params.uri), attributes: { 'mcp.resource.uri': str(params.uri) } }),
+  'prompts/get': params => ({ target: str(params.name), attributes: { 'mcp.prompt.name': str(params.name) } }),
+  'sampling/createMessage': params => ({ attributes: { 'gen_ai.request.max_tokens': num(params.maxTokens) } }),
+  'elicitation/create': () => ({ attributes: {} })
+};
+
+/**
+ * Adds the traceparent of the active span (or the given one) to request `_meta`
+ */
+export function injectTraceContext(
+  meta: Record<string, unknown> | undefined,
+  context: SpanContext | undefined = activeSpanContext()
+): Record<string, unknown> | undefined {
+  if (!context) {
+    return meta;
+  }
+  return { ...meta, [TRACEPARENT_META_KEY]: formatTraceparent(context) };
+}
+
+/**
+ * Trace context sent along with a request, if any
+ */
+export function extractTraceContext(meta: Record<string, unknown> | undefined): SpanContext | undefined {
+  return parseTraceparent(meta?.[TRACEPARENT_META_KEY]);
+}
+
+/**
+ * Traces tools/call, resources/read, prompts/get, sampling/createMessage and
+ * elicitation/create on an MCP Client or Server (McpServer's `server`):
+ *
+ * - requests it sends get a client span, whose traceparent is added to
+ *   the request's `_meta`
+ * - requests it handles get a server span, parented to the traceparent in
+ *   `_meta` when the sender provided one
+ */
+export function instrumentMcp(protocol: Protocol<any, any, any>, tracer?: Tracer): void {
+  const getActiveTracer = () => tracer ?? getTracer();
+
+  const request = protocol.request.bind(protocol);
+  protocol.request = ((req: { method: string; params?: Params }, resultSchema: any, options?: any) => {
+    const describe = TRACED_METHODS[req.method];
+    if (!describe) {
+      return request(req, resultSchema, options);
+    }
+
+    const { target, attributes } = describe(req.params ?? {});
+    return getActiveTracer().trace(
+      spanName(req.method, target),
+      { kind: 'client', attributes: { 'mcp.method.name': req.method, ...attributes } },
+      async span => {
+        const params = { ...req.params, _meta: injectTraceContext(req.params?._meta) };
+        const result = await request({ ...req, params }, resultSchema, options);
+        if (result?.isError) {
+          span.setStatus('error', 'Tool returned an error');
+        }
+        return result;
+      }
+    );
+  }) as typeof protocol.request;
+
+  wrapRequestHandlers(protocol, (handler, method) => {
+    const describe = TRACED_METHODS[method];
+    if (!describe) {
+      return handler;
+    }
+
+    return (req, extra) => {
+      const { target, attributes } = describe(req.params ?? {});
+      const parent = extractTraceContext(req.params?._meta);
+      return getActiveTracer().trace(
+        spanName(method, target),
+        {
+          kind: 'server',
+          // Without a remote parent the handler starts its own trace
+          parent: parent ?? null,
+          attributes: { 'mcp.method.name': method, 'mcp.session.id': extra?.sessionId, ...attributes }
+        },
+        async span => {
+          const result = await handler(req, extra) as { isError?: boolean } | undefined;
+          if (result?.isError) {
+            span.setStatus('error', 'Tool returned an error');
+          }
+          return result;
+        }
+      );
+    };
+  });
+}
+
+function spanName(method: string, target?: string): string {
+  return target ? `${method} ${target}` : method;
+}
+
+function str(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function num(value: unknown): number | undefined {
+  return typeof value === 'number' ? value : undefined;
+}
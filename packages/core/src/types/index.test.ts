@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { MCPError, Result, ServerConfig, ClientConfig, ResourceMetadata } from './index.js';
+import { MCPError, Result, ServerConfig, ClientConfig, ResourceMetadata, serverConfigSchema } from './index.js';
 
 describe('MCPError', () => {
   it('should create error with message and code', () => {
@@ -164,6 +164,26 @@ describe('ServerConfig type', () => {
 
     expect(config.transport).toBe('stdio');
   });
+
+  it('should fill defaults when parsed', () => {
+    const config = serverConfigSchema.parse({ name: 'test-server', version: '1.0.0' });
+
+    expect(config).toEqual({
+      name: 'test-server',
+      version: '1.0.0',
+      transport: 'stdio',
+      httpPort: 3000,
+      legacySse: true,
+      corsOrigin: '*',
+      shutdownTimeoutMs: 5000
+    });
+  });
+
+  it('should reject invalid configuration', () => {
+    expect(serverConfigSchema.safeParse({ name: '', version: '1.0.0' }).success).toBe(false);
+    expect(serverConfigSchema.safeParse({ name: 'a', version: '1.0.0', httpPort: 70000 }).success).toBe(false);
+    expect(serverConfigSchema.safeParse({ name: 'a', version: '1.0.0', transport: 'ws' }).success).toBe(false);
+  });
 });
 
 describe('ClientConfig type', () => {
@@ -1,13 +1,30 @@
-// Remove unused import
+import { z } from 'zod';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 
-// Common server configuration type
-export interface ServerConfig {
-  name: string;
-  version: string;
-  description?: string;
-  transport?: 'stdio' | 'http';
-  httpPort?: number;
-}
+/**
+ * Configuration of an MCP server started with createServerApp()
+ */
+export const serverConfigSchema = z.object({
+  /** Server name reported to clients, e.g. 'dev-tools-server' */
+  name: z.string().min(1),
+  version: z.string().min(1),
+  description: z.string().optional(),
+  transport: z.enum(['stdio', 'http']).default('stdio'),
+  /** Port of the HTTP transport; 0 picks a free one */
+  httpPort: z.number().int().min(0).max(65535).default(3000),
+  /** Interface the HTTP transport binds to (default: all) */
+  host: z.string().optional(),
+  /** Also serve the deprecated HTTP+SSE transport on /sse and /messages */
+  legacySse: z.boolean().default(true),
+  /** Origins allowed to call the HTTP endpoints */
+  corsOrigin: z.union([z.string(), z.array(z.string())]).default('*'),
+  /** Longest a graceful shutdown waits for sessions to close */
+  shutdownTimeoutMs: z.number().int().positive().default(5000)
+});
+
+/** Server configuration as written; defaults fill the optional fields */
+export type ServerConfig = z.input<typeof serverConfigSchema>;
+export type ResolvedServerConfig = z.output<typeof serverConfigSchema>;
 
 // Common client configuration type
 export interface ClientConfig {
@@ -17,6 +34,9 @@ export interface ClientConfig {
 
 // Enhanced error types
 export class MCPError extends Error {
+  /** JSON-RPC error code sent when this error fails a request (see errors/) */
+  readonly jsonRpcCode: number = ErrorCode.InternalError;
+
   constructor(
     message: string,
     public code: string,
@@ -248,6 +248,16 @@ describe('createErrorResponse', () => {
 
     expect(response.content[0].text).toBe('Test error');
   });
+
+  it('should add structured error data for MCPErrors', () => {
+    const response = createErrorResponse(new MCPError('Too many tasks', 'TASK_QUOTA_EXCEEDED', { limit: 2 }), 'Queueing');
+
+    expect(response.content[0].text).toBe('Queueing: Too many tasks');
+    expect(response.structuredContent).toEqual({
+      error: { code: 'TASK_QUOTA_EXCEEDED', message: 'Too many tasks', details: { limit: 2 } }
+    });
+    expect(createErrorResponse(new Error('plain')).structuredContent).toBeUndefined();
+  });
 });
 
 describe('createSuccessResponse', () => {
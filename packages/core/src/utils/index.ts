@@ -1,4 +1,5 @@
 import { MCPError, Result } from '../types/index.js';
+import { toErrorData } from '../errors/errors.js';
 
 // Safe error handling wrapper
 export async function safeAsync<T>(
@@ -21,49 +22,13 @@ export async function safeAsync<T>(
   }
 }
 
-// Logger utility
-export enum LogLevel {
-  DEBUG = 'debug',
-  INFO = 'info',
-  WARN = 'warn',
-  ERROR = 'error'
-}
-
-export class Logger {
-  constructor(private name: string) {}
-
-  private log(level: LogLevel, message: string, data?: unknown) {
-    const timestamp = new Date().toISOString();
-    const logEntry = {
-      timestamp,
-      level,
-      logger: this.name,
-      message,
-    };
-    
-    if (data) {
-      (logEntry as any).data = data;
-    }
-    
-    console.error(JSON.stringify(logEntry));
-  }
-
-  debug(message: string, data?: unknown) {
-    this.log(LogLevel.DEBUG, message, data);
-  }
+// Result combinators
+export * from './result.js';
 
-  info(message: string, data?: unknown) {
-    this.log(LogLevel.INFO, message, data);
-  }
-
-  warn(message: string, data?: unknown) {
-    this.log(LogLevel.WARN, message, data);
-  }
-
-  error(message: string, error?: unknown) {
-    this.log(LogLevel.ERROR, message, error);
-  }
-}
+// Logger utility
+export * from './logger.js';
+export * from './mcpLogging.js';
+export * from './requestHandlers.js';
 
 // Path utilities
 export function normalizeUri(uri: string): string {
@@ -79,6 +44,9 @@ export function generateSessionId(): string {
 /**
  * Creates a standardized error response for MCP tools
  * Ensures consistent error handling across all servers
+ *
+ * MCPErrors also go into `structuredContent.error` as `{ code, message, details }`
+ * (see errorFromToolResult)
  */
 export function createErrorResponse(error: unknown, context?: string) {
   const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -91,6 +59,7 @@ export function createErrorResponse(error: unknown, context?: string) {
         text: fullMessage,
       },
     ],
+    ...(error instanceof MCPError && { structuredContent: { error: toErrorData(error) } }),
     isError: true,
   };
 }
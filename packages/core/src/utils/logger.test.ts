@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  Logger,
+  LogLevel,
+  LogEntry,
+  LogSink,
+  McpLogSink,
+  RotatingFileSink,
+  redact
+} from './logger.js';
+
+// Keeps entries in memory
+class MemorySink implements LogSink {
+  entries: LogEntry[] = [];
+  write(entry: LogEntry) {
+    this.entries.push(entry);
+  }
+}
+
+describe('Logger', () => {
+  let sink: MemorySink;
+
+  beforeEach(() => {
+    sink = new MemorySink();
+    Logger.configure({ sinks: [sink] });
+  });
+
+  afterEach(() => {
+    Logger.resetConfiguration();
+    vi.unstubAllEnvs();
+  });
+
+  it('should drop entries below the minimum level', () => {
+    const logger = new Logger('test', { level: LogLevel.WARN });
+    logger.debug('debug');
+    logger.info('info');
+    logger.warn('warn');
+    logger.error('error');
+
+    expect(sink.entries.map(e => e.level)).toEqual(['warn', 'error']);
+    expect(logger.isLevelEnabled(LogLevel.INFO)).toBe(false);
+  });
+
+  it('should take the minimum level from configure() or LOG_LEVEL', () => {
+    const logger = new Logger('test');
+
+    vi.stubEnv('LOG_LEVEL', 'ERROR');
+    expect(logger.level).toBe(LogLevel.ERROR);
+
+    Logger.configure({ level: LogLevel.INFO });
+    expect(logger.level).toBe(LogLevel.INFO);
+
+    logger.setLevel(LogLevel.DEBUG);
+    expect(logger.level).toBe(LogLevel.DEBUG);
+  });
+
+  it('should ignore an unknown LOG_LEVEL', () => {
+    vi.stubEnv('LOG_LEVEL', 'verbose');
+    expect(new Logger('test').level).toBe(LogLevel.DEBUG);
+  });
+
+  it('should bind context in child loggers that follow the parent level', () => {
+    const logger = new Logger('server');
+    const session = logger.child({ sessionId: 's1' });
+    const tool = session.child({ toolName: 'read_file' }, 'tools');
+
+    tool.info('Reading', { path: 'a.txt' });
+    logger.setLevel(LogLevel.WARN);
+    tool.info('Dropped');
+
+    expect(sink.entries).toHaveLength(1);
+    expect(sink.entries[0]).toMatchObject({
+      logger: 'tools',
+      message: 'Reading',
+      context: { sessionId: 's1', toolName: 'read_file' },
+      data: { path: 'a.txt' }
+    });
+  });
+
+  it('should redact configured keys in data and context', () => {
+    const logger = new Logger('test', { redact: ['ssn', /^x-/i] }).child({ ssn: '123' });
+    logger.info('Custom rules', { name: 'Ann', 'X-Trace': 'abc' });
+
+    expect(sink.entries[0]?.context).toEqual({ ssn: '[REDACTED]' });
+    expect(sink.entries[0]?.data).toEqual({ name: 'Ann', 'X-Trace': '[REDACTED]' });
+  });
+
+  it('should keep logging when a sink throws', () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    Logger.configure({ sinks: [{ write: () => { throw new Error('disk full'); } }, sink] });
+
+    new Logger('test').info('Still written');
+
+    expect(sink.entries).toHaveLength(1);
+    expect(consoleSpy).toHaveBeenCalledWith('Log sink failed: disk full');
+    consoleSpy.mockRestore();
+  });
+});
+
+describe('redact', () => {
+  it('should redact credentials by default at any depth', () => {
+    const result = redact({
+      config: { apiKey: 'sk-1', headers: { Authorization: 'Bearer x' } },
+      users: [{ password: 'p', name: 'n' }],
+      access_token: 't',
+      maxTokens: 100
+    });
+
+    expect(result).toEqual({
+      config: { apiKey: '[REDACTED]', headers: { Authorization: '[REDACTED]' } },
+      users: [{ password: '[REDACTED]', name: 'n' }],
+      access_token: '[REDACTED]',
+      maxTokens: 100
+    });
+  });
+
+  it('should serialize errors and survive cycles', () => {
+    const data: Record<string, unknown> = { error: new Error('boom') };
+    data.self = data;
+
+    const result = redact(data) as Record<string, any>;
+
+    expect(result.error.message).toBe('boom');
+    expect(result.error.stack).toContain('boom');
+    expect(result.self).toBe('[Circular]');
+  });
+
+  it('should keep objects referenced more than once without a cycle', () => {
+    const ctx = { requestId: 'r-1', token: 't' };
+
+    const result = redact({ request: ctx, retry: ctx, attempts: [ctx, ctx] });
+
+    const copy = { requestId: 'r-1', token: '[REDACTED]' };
+    expect(result).toEqual({ request: copy, retry: copy, attempts: [copy, copy] });
+  });
+});
+
+describe('RotatingFileSink', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'logger-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should rotate the file and keep maxFiles old ones', () => {
+    const path = join(dir, 'logs', 'server.log');
+    const sink = new RotatingFileSink({ path, maxBytes: 100, maxFiles: 2 });
+    const entry = (message: string): LogEntry => ({ timestamp: 't', level: LogLevel.INFO, logger: 'test', message });
+
+    for (const message of ['one', 'two', 'three', 'four']) {
+      sink.write(entry(message));
+    }
+
+    const lines = (file: string) => readFileSync(file, 'utf-8').trim().split('\n').map(l => JSON.parse(l).message);
+    expect(lines(path)).toEqual(['four']);
+    expect(lines(`${path}.1`)).toEqual(['three']);
+    expect(lines(`${path}.2`)).toEqual(['two']);
+    expect(existsSync(`${path}.3`)).toBe(false);
+  });
+});
+
+describe('McpLogSink', () => {
+  it('should send entries as MCP logging notifications', async () => {
+    const sendLoggingMessage = vi.fn().mockResolvedValue(undefined);
+    const sink = new McpLogSink({ sendLoggingMessage }, 'session-1');
+
+    sink.write({ timestamp: 't', level: LogLevel.WARN, logger: 'dev-tools', message: 'Slow', context: { toolName: 'x' } });
+
+    expect(sendLoggingMessage).toHaveBeenCalledWith({
+      level: 'warning',
+      logger: 'dev-tools',
+      data: { message: 'Slow', context: { toolName: 'x' } }
+    }, 'session-1');
+  });
+
+  it('should ignore failures to send', async () => {
+    const sink = new McpLogSink({ sendLoggingMessage: vi.fn().mockRejectedValue(new Error('Not connected')) });
+
+    expect(() => sink.write({ timestamp: 't', level: LogLevel.INFO, logger: 'x', message: 'm' })).not.toThrow();
+  });
+});
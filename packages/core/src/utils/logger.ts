@@ -0,0 +1,378 @@
+/**
+ * Structured logging with levels, child loggers, pluggable sinks and redaction
+ */
+
+import { appendFileSync, existsSync, mkdirSync, renameSync, rmSync, statSync } from 'node:fs';
+import { dirname } from 'node:path';
+
+export enum LogLevel {
+  DEBUG = 'debug',
+  INFO = 'info',
+  WARN = 'warn',
+  ERROR = 'error'
+}
+
+const LEVEL_SEVERITY: Record<LogLevel, number> = {
+  [LogLevel.DEBUG]: 0,
+  [LogLevel.INFO]: 1,
+  [LogLevel.WARN]: 2,
+  [LogLevel.ERROR]: 3
+};
+
+export interface LogEntry {
+  timestamp: string;
+  level: LogLevel;
+  logger: string;
+  message: string;
+  /** Context bound with child(), e.g. sessionId, toolName or taskId */
+  context?: Record<string, unknown>;
+  data?: unknown;
+}
+
+/**
+ * Destination for log entries. Entries arrive already filtered by level and redacted.
+ */
+export interface LogSink {
+  write(entry: LogEntry): void;
+}
+
+/**
+ * A key whose value is redacted: strings match the key exactly (ignoring
+ * case), regular expressions are tested against it
+ */
+export type RedactionRule = string | RegExp;
+
+export const DEFAULT_REDACTION_RULES: RedactionRule[] = [
+  /api[-_]?key/i,
+  /secret/i,
+  /password/i,
+  /^(authorization|cookie|set-cookie)$/i,
+  /^(access|refresh|id|auth|bearer|session)?[-_]?token$/i
+];
+
+export const REDACTED = '[REDACTED]';
+
+export interface LoggerOptions {
+  /** Minimum level written (default: the LOG_LEVEL env var, else debug) */
+  level?: LogLevel;
+  /** Where entries go (default: stderr, plus a rotating file when LOG_FILE is set) */
+  sinks?: LogSink[];
+  /** Keys whose values are replaced with [REDACTED] (default: DEFAULT_REDACTION_RULES) */
+  redact?: RedactionRule[];
+  /** Context added to every entry */
+  context?: Record<string, unknown>;
+}
+
+/**
+ * Writes each entry as a JSON line to stderr (stdout carries the MCP stdio transport)
+ */
+export class StderrSink implements LogSink {
+  write(entry: LogEntry): void {
+    console.error(JSON.stringify(entry));
+  }
+}
+
+export interface RotatingFileSinkOptions {
+  path: string;
+  /** Size at which the file is rotated (default: 10 MB) */
+  maxBytes?: number;
+  /** Rotated files kept as path.1 (newest) to path.N (default: 5) */
+  maxFiles?: number;
+}
+
+/**
+ * Appends JSON lines to a file, rotating it once it reaches maxBytes
+ */
+export class RotatingFileSink implements LogSink {
+  private path: string;
+  private maxBytes: number;
+  private maxFiles: number;
+  private size: number;
+
+  constructor(options: RotatingFileSinkOptions) {
+    this.path = options.path;
+    this.maxBytes = options.maxBytes ?? 10 * 1024 * 1024;
+    this.maxFiles = options.maxFiles ?? 5;
+
+    mkdirSync(dirname(this.path), { recursive: true });
+    this.size = existsSync(this.path) ? statSync(this.path).size : 0;
+  }
+
+  write(entry: LogEntry): void {
+    const line = `${JSON.stringify(entry)}\n`;
+    const bytes = Buffer.byteLength(line);
+    if (this.size > 0 && this.size + bytes > this.maxBytes) {
+      this.rotate();
+    }
+    appendFileSync(this.path, line);
+    this.size += bytes;
+  }
+
+  private rotate(): void {
+    if (this.maxFiles < 1) {
+      rmSync(this.path, { force: true });
+    } else {
+      for (let i = this.maxFiles - 1; i >= 1; i--) {
+        if (existsSync(`${this.path}.${i}`)) {
+          renameSync(`${this.path}.${i}`, `${this.path}.${i + 1}`);
+        }
+      }
+      renameSync(this.path, `${this.path}.1`);
+    }
+    this.size = 0;
+  }
+}
+
+/** Severity levels of MCP `notifications/message` */
+export type McpLoggingLevel = 'debug' | 'info' | 'notice' | 'warning' | 'error' | 'critical' | 'alert' | 'emergency';
+
+/** MCP logging levels from least to most severe */
+export const MCP_LOGGING_LEVELS: McpLoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+const MCP_LEVELS: Record<LogLevel, McpLoggingLevel> = {
+  [LogLevel.DEBUG]: 'debug',
+  [LogLevel.INFO]: 'info',
+  [LogLevel.WARN]: 'warning',
+  [LogLevel.ERROR]: 'error'
+};
+
+/**
+ * Anything that can send MCP logging notifications, such as the SDK's Server
+ * (McpServer exposes it as `server.server`)
+ */
+export interface LoggingMessageSender {
+  sendLoggingMessage(
+    params: { level: McpLoggingLevel; logger?: string; data: unknown },
+    sessionId?: string
+  ): Promise<void>;
+}
+
+/**
+ * Sends entries to the client as MCP `notifications/message`. See
+ * attachLogger() for a sink that follows the client's `logging/setLevel`.
+ */
+export class McpLogSink implements LogSink {
+  /** Entries below this MCP level are not sent (default: all are) */
+  level?: McpLoggingLevel;
+
+  constructor(private server: LoggingMessageSender, private sessionId?: string) {}
+
+  write(entry: LogEntry): void {
+    const level = MCP_LEVELS[entry.level];
+    if (this.level && MCP_LOGGING_LEVELS.indexOf(level) < MCP_LOGGING_LEVELS.indexOf(this.level)) {
+      return;
+    }
+
+    const { message, context, data } = entry;
+    this.server
+      .sendLoggingMessage({
+        level,
+        logger: entry.logger,
+        data: { message, ...(context && { context }), ...(data !== undefined && { data }) }
+      }, this.sessionId)
+      // A client that disconnected just misses the message
+      .catch(() => {});
+  }
+}
+
+/**
+ * JSON logger. Entries below the minimum level are dropped; the rest are
+ * redacted and handed to every sink.
+ *
+ * Settings not given to the constructor come from the parent (for child
+ * loggers), then from Logger.configure(), then from the environment.
+ *
+ * @example
+ * ```typescript
+ * Logger.configure({ level: LogLevel.INFO, sinks: [new StderrSink(), new RotatingFileSink({ path: 'logs/server.log' })] });
+ *
+ * const logger = new Logger('dev-tools-server');
+ * const toolLogger = logger.child({ sessionId, toolName: 'read_file' });
+ * toolLogger.info('Reading file', { path, apiKey }); // apiKey is written as [REDACTED]
+ * ```
+ */
+export class Logger {
+  private static defaults: LoggerOptions = {};
+
+  private options: LoggerOptions;
+  private parent?: Logger;
+  private addedSinks: LogSink[] = [];
+
+  constructor(private name: string, options: LoggerOptions = {}) {
+    this.options = { ...options };
+  }
+
+  /**
+   * Default settings of every logger, including ones already created
+   */
+  static configure(options: LoggerOptions): void {
+    Logger.defaults = { ...Logger.defaults, ...options };
+  }
+
+  /**
+   * Forget settings made with configure()
+   */
+  static resetConfiguration(): void {
+    Logger.defaults = {};
+    envSinks = undefined;
+  }
+
+  get level(): LogLevel {
+    return this.options.level ?? this.parent?.level ?? Logger.defaults.level ?? levelFromEnv() ?? LogLevel.DEBUG;
+  }
+
+  /**
+   * Change the minimum level of this logger and children that don't set their own
+   */
+  setLevel(level: LogLevel): void {
+    this.options.level = level;
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    return LEVEL_SEVERITY[level] >= LEVEL_SEVERITY[this.level];
+  }
+
+  /**
+   * Logger whose entries carry the given context on top of this logger's
+   */
+  child(context: Record<string, unknown>, name: string = this.name): Logger {
+    const child = new Logger(name, { context: { ...this.context, ...context } });
+    child.parent = this;
+    return child;
+  }
+
+  /**
+   * Also send this logger's entries, and its children's, to the sink.
+   * Returns a function that removes it again.
+   */
+  addSink(sink: LogSink): () => void {
+    this.addedSinks.push(sink);
+    return () => {
+      this.addedSinks = this.addedSinks.filter(s => s !== sink);
+    };
+  }
+
+  debug(message: string, data?: unknown) {
+    this.log(LogLevel.DEBUG, message, data);
+  }
+
+  info(message: string, data?: unknown) {
+    this.log(LogLevel.INFO, message, data);
+  }
+
+  warn(message: string, data?: unknown) {
+    this.log(LogLevel.WARN, message, data);
+  }
+
+  error(message: string, error?: unknown) {
+    this.log(LogLevel.ERROR, message, error);
+  }
+
+  private get context(): Record<string, unknown> | undefined {
+    return this.options.context;
+  }
+
+  private get sinks(): LogSink[] {
+    const sinks = this.options.sinks ?? this.parent?.sinks ?? Logger.defaults.sinks ?? sinksFromEnv();
+    return this.addedSinks.length > 0 ? [...sinks, ...this.addedSinks] : sinks;
+  }
+
+  private get redactionRules(): RedactionRule[] {
+    return this.options.redact ?? this.parent?.redactionRules ?? Logger.defaults.redact ?? DEFAULT_REDACTION_RULES;
+  }
+
+  private log(level: LogLevel, message: string, data?: unknown) {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+
+    const rules = this.redactionRules;
+    const entry: LogEntry = {
+      timestamp: new Date().toISOString(),
+      level,
+      logger: this.name,
+      message,
+    };
+    const context = { ...Logger.defaults.context, ...this.context };
+    if (Object.keys(context).length > 0) {
+      entry.context = redact(context, rules) as Record<string, unknown>;
+    }
+    if (data !== undefined) {
+      entry.data = redact(data, rules);
+    }
+
+    for (const sink of this.sinks) {
+      try {
+        sink.write(entry);
+      } catch (error) {
+        // A broken sink must not break the code that logged
+        console.error(`Log sink failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+}
+
+function levelFromEnv(): LogLevel | undefined {
+  const level = process.env.LOG_LEVEL?.toLowerCase();
+  return Object.values(LogLevel).find(l => l === level);
+}
+
+// Created on first use so LOG_FILE is read after the process has set up its environment
+let envSinks: LogSink[] | undefined;
+
+function sinksFromEnv(): LogSink[] {
+  if (!envSinks) {
+    const file = process.env.LOG_FILE;
+    envSinks = file
+      ? [new StderrSink(), new RotatingFileSink({ path: file })]
+      : [new StderrSink()];
+  }
+  return envSinks;
+}
+
+/**
+ * Copy of a value with the values of matching keys replaced by [REDACTED].
+ * Errors become plain objects so their message and stack survive JSON.
+ */
+export function redact(value: unknown, rules: RedactionRule[] = DEFAULT_REDACTION_RULES): unknown {
+  // Objects on the path from the root, so shared references that aren't cycles are kept
+  const ancestors = new WeakSet<object>();
+
+  const visit = (current: unknown, depth: number): unknown => {
+    if (current === null || typeof current !== 'object' || current instanceof Date) {
+      return current;
+    }
+    if (ancestors.has(current)) {
+      return '[Circular]';
+    }
+    if (depth > 10) {
+      return '[Truncated]';
+    }
+    ancestors.add(current);
+
+    let result: unknown;
+    if (Array.isArray(current)) {
+      result = current.map(item => visit(item, depth + 1));
+    } else {
+      const source: Record<string, unknown> = current instanceof Error
+        ? { ...current, name: current.name, message: current.message, stack: current.stack }
+        : current as Record<string, unknown>;
+      const copy: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(source)) {
+        copy[key] = isRedactedKey(key, rules) ? REDACTED : visit(item, depth + 1);
+      }
+      result = copy;
+    }
+
+    ancestors.delete(current);
+    return result;
+  };
+
+  return visit(value, 0);
+}
+
+function isRedactedKey(key: string, rules: RedactionRule[]): boolean {
+  return rules.some(rule => typeof rule === 'string'
+    ? rule.toLowerCase() === key.toLowerCase()
+    : rule.test(key));
+}
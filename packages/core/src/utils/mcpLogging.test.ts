@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { LoggingMessageNotificationSchema, type LoggingMessageNotification } from '@modelcontextprotocol/sdk/types.js';
+import { Logger, LogLevel } from './logger.js';
+import { attachLogger } from './mcpLogging.js';
+import { waitFor } from '../../test/helpers.js';
+
+describe('attachLogger', () => {
+  let rootLogger: Logger;
+  let logger: Logger;
+  let server: McpServer;
+  let client: Client;
+  let messages: LoggingMessageNotification['params'][];
+
+  beforeEach(async () => {
+    rootLogger = new Logger('test-server', { sinks: [] });
+    server = new McpServer({ name: 'test-server', version: '1.0.0' }, { capabilities: { logging: {} } });
+    logger = attachLogger(rootLogger, server.server);
+
+    messages = [];
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    client.setNotificationHandler(LoggingMessageNotificationSchema, notification => {
+      messages.push(notification.params);
+    });
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+  });
+
+  it('should send entries at info and above until the client sets a level', async () => {
+    logger.debug('Hidden');
+    logger.child({ toolName: 'read_file' }).info('Reading', { path: 'a.txt', apiKey: 'sk-1' });
+
+    await waitFor(() => messages.length === 1);
+    expect(messages[0]).toEqual({
+      level: 'info',
+      logger: 'test-server',
+      data: { message: 'Reading', context: { toolName: 'read_file' }, data: { path: 'a.txt', apiKey: '[REDACTED]' } }
+    });
+  });
+
+  it('should follow logging/setLevel', async () => {
+    await client.setLoggingLevel('warning');
+    logger.info('Hidden');
+    logger.warn('Slow response');
+    await waitFor(() => messages.length === 1);
+
+    await client.setLoggingLevel('debug');
+    logger.debug('Details');
+    await waitFor(() => messages.length === 2);
+
+    expect(messages.map(m => m.level)).toEqual(['warning', 'debug']);
+  });
+
+  it('should never send entries below the logger level', async () => {
+    rootLogger.setLevel(LogLevel.ERROR);
+    await client.setLoggingLevel('debug');
+
+    logger.warn('Hidden');
+    logger.error('Failed');
+
+    await waitFor(() => messages.length === 1);
+    expect(messages[0]?.level).toBe('error');
+  });
+
+  it('should only send entries of its own session', async () => {
+    const other = new McpServer({ name: 'test-server', version: '1.0.0' }, { capabilities: { logging: {} } });
+    const otherLogger = attachLogger(rootLogger, other.server);
+    const otherClient = new Client({ name: 'other-client', version: '1.0.0' });
+    const otherMessages: LoggingMessageNotification['params'][] = [];
+    otherClient.setNotificationHandler(LoggingMessageNotificationSchema, notification => {
+      otherMessages.push(notification.params);
+    });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([otherClient.connect(clientTransport), other.connect(serverTransport)]);
+
+    rootLogger.info('Process only');
+    otherLogger.info('Other session', { content: 'private' });
+    logger.info('This session');
+    await waitFor(() => messages.length === 1 && otherMessages.length === 1);
+
+    expect(messages.map(m => (m.data as { message: string }).message)).toEqual(['This session']);
+    expect(otherMessages.map(m => (m.data as { message: string }).message)).toEqual(['Other session']);
+
+    await otherClient.close();
+    await other.close();
+  });
+
+  it('should stop sending once the server closes', async () => {
+    await server.close();
+    logger.info('After close');
+
+    // The sink was removed, so nothing is attempted on the closed transport
+    expect(logger['sinks']).toEqual([]);
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * MCP logging support backed by Logger
+ *
+ * Forwards a Logger's entries to the client of a server session as
+ * notifications/message and answers logging/setLevel, so every client
+ * receives its session's logs at the level it asked for.
+ */
+
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SetLevelRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { Logger, McpLogSink, type McpLoggingLevel } from './logger.js';
+
+export interface McpLoggingOptions {
+  /** Level sent until the client calls logging/setLevel (default: 'info') */
+  defaultLevel?: McpLoggingLevel;
+}
+
+/**
+ * Connects a Logger to a server session and returns the session's logger: a
+ * child of `logger` whose entries, and its children's, also go to this
+ * session's client. Entries logged through `logger` itself, or through
+ * another session's logger, are not sent, so one client never sees what
+ * another session logged. The server must declare the `logging` capability;
+ * pass McpServer's underlying `server`.
+ *
+ * The level is kept per session (the SDK's own handler keys it by transport
+ * session id, which per-session HTTP servers don't know when they are
+ * created). Entries below the Logger's own minimum level are never sent.
+ *
+ * The sink is removed when the server closes.
+ *
+ * @example
+ * ```typescript
+ * const mcpServer = new McpServer(info, { capabilities: { logging: {} } });
+ * const sessionLogger = attachLogger(logger, mcpServer.server);
+ * sessionLogger.info('Reading file', { path }); // also sent to this client
+ * ```
+ */
+export function attachLogger(logger: Logger, server: Server, options: McpLoggingOptions = {}): Logger {
+  const sink = new McpLogSink(server);
+  sink.level = options.defaultLevel ?? 'info';
+
+  server.setRequestHandler(SetLevelRequestSchema, async request => {
+    sink.level = request.params.level;
+    return {};
+  });
+
+  const sessionLogger = logger.child({});
+  const detach = sessionLogger.addSink(sink);
+  const onclose = server.onclose;
+  server.onclose = () => {
+    detach();
+    onclose?.();
+  };
+  return sessionLogger;
+}
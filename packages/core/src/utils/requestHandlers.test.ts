@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ListPromptsRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { wrapRequestHandlers, type RequestHandlerWrapper } from './requestHandlers.js';
+
+describe('wrapRequestHandlers', () => {
+  let server: Server;
+  let client: Client;
+  let calls: string[];
+
+  const tracing = (name: string): RequestHandlerWrapper => (handler, method) => async (req, extra) => {
+    calls.push(`${name}:${method}`);
+    return handler(req, extra);
+  };
+
+  const connect = async () => {
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  };
+
+  beforeEach(() => {
+    calls = [];
+    server = new Server({ name: 'test-server', version: '1.0.0' }, { capabilities: { tools: {}, prompts: {} } });
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it('nests wrappers in the order they were added, whenever handlers are registered', async () => {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      calls.push('prompts');
+      return { prompts: [] };
+    });
+    wrapRequestHandlers(server, tracing('outer'));
+    wrapRequestHandlers(server, tracing('inner'));
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
+      calls.push('tools');
+      return { tools: [] };
+    });
+    await connect();
+    calls = [];
+
+    await client.listPrompts();
+    await client.listTools();
+
+    expect(calls).toEqual(['outer:prompts/list', 'inner:prompts/list', 'prompts', 'outer:tools/list', 'inner:tools/list', 'tools']);
+  });
+
+  it('wraps the handlers the SDK registers itself', async () => {
+    wrapRequestHandlers(server, tracing('wrapped'));
+    await connect();
+
+    await client.ping();
+
+    expect(calls).toEqual(['wrapped:initialize', 'wrapped:ping']);
+  });
+
+  it('wraps a handler replaced after wrapping', async () => {
+    wrapRequestHandlers(server, tracing('wrapped'));
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [] }));
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
+      calls.push('replacement');
+      return { tools: [] };
+    });
+    await connect();
+    calls = [];
+
+    await client.listTools();
+
+    expect(calls).toEqual(['wrapped:tools/list', 'replacement']);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Middleware for the request handlers of an MCP server or client
+ */
+
+import type { Protocol, RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+
+export interface HandledRequest {
+  method: string;
+  params?: Record<string, unknown> & { _meta?: Record<string, unknown> };
+}
+
+export type RequestHandler = (request: HandledRequest, extra: RequestHandlerExtra<any, any>) => Promise<any>;
+
+/**
+ * Returns the handler to use in place of `handler` for requests of `method`
+ */
+export type RequestHandlerWrapper = (handler: RequestHandler, method: string) => RequestHandler;
+
+interface WrappedProtocol {
+  wrappers: RequestHandlerWrapper[];
+  /** Handlers as registered, by method */
+  unwrapped: Map<string, RequestHandler>;
+}
+
+const wrappedProtocols = new WeakMap<Protocol<any, any, any>, WrappedProtocol>();
+
+/**
+ * Wraps every request handler of `protocol`: those registered later as well
+ * as those already registered, such as the SDK's own initialize, ping,
+ * logging/setLevel and tasks/* handlers.
+ *
+ * Wrappers nest in the order they are added, whenever the handlers are
+ * registered: the first wrapper added is the outermost, so it sees each
+ * request first and its result (or error) last. createMCPServer() relies on
+ * this to trace the whole request (instrumentMcp), time it including error
+ * mapping (collectMcpMetrics), then map errors (mapMcpErrors) thrown by
+ * handlers that already have their session (attachSessionContext).
+ *
+ * Wrappers see requests before the SDK parses them against their schema, and
+ * tools/call results after the Server validates them.
+ */
+export function wrapRequestHandlers(protocol: Protocol<any, any, any>, wrapper: RequestHandlerWrapper): void {
+  // Protocol keeps its handlers in a private map; hooking its set() catches
+  // every registration, including those made by the SDK itself
+  const handlers = (protocol as unknown as { _requestHandlers: Map<string, RequestHandler> })._requestHandlers;
+
+  let wrapped = wrappedProtocols.get(protocol);
+  if (!wrapped) {
+    const state: WrappedProtocol = { wrappers: [], unwrapped: new Map(handlers) };
+    const set = handlers.set.bind(handlers);
+    handlers.set = (method, handler) => {
+      state.unwrapped.set(method, handler);
+      return set(method, compose(state.wrappers, handler, method));
+    };
+    wrappedProtocols.set(protocol, state);
+    wrapped = state;
+  }
+
+  wrapped.wrappers.push(wrapper);
+  for (const method of Array.from(handlers.keys())) {
+    handlers.set(method, wrapped.unwrapped.get(method)!);
+  }
+}
+
+function compose(wrappers: RequestHandlerWrapper[], handler: RequestHandler, method: string): RequestHandler {
+  return wrappers.reduceRight((inner, wrap) => wrap(inner, method), handler);
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { MCPError, type Result } from '../types/index.js';
+import { ok, err, mapResult, mapError, andThen, unwrap, unwrapOr } from './result.js';
+
+const failure: Result<number> = err(new MCPError('nope', 'FAILED'));
+
+describe('Result combinators', () => {
+  it('builds results', () => {
+    expect(ok(1)).toEqual({ success: true, data: 1 });
+    expect(failure).toEqual({ success: false, error: expect.any(MCPError) });
+  });
+
+  it('maps data and errors', () => {
+    expect(mapResult(ok(2), n => n * 2)).toEqual(ok(4));
+    expect(mapResult(failure, n => n * 2)).toBe(failure);
+
+    const renamed = mapError(failure, error => error.code);
+    expect(renamed).toEqual(err('FAILED'));
+    expect(mapError(ok(1), () => 'unused')).toEqual(ok(1));
+  });
+
+  it('chains steps until one fails', () => {
+    const half = (n: number): Result<number> =>
+      n % 2 === 0 ? ok(n / 2) : err(new MCPError(`${n} is odd`, 'ODD'));
+
+    expect(andThen(andThen(ok(8), half), half)).toEqual(ok(2));
+
+    const chained = andThen(andThen(ok(6), half), half);
+    expect(chained.success).toBe(false);
+    expect(!chained.success && chained.error.message).toBe('3 is odd');
+  });
+
+  it('unwraps results', () => {
+    expect(unwrap(ok('data'))).toBe('data');
+    expect(() => unwrap(failure)).toThrow('nope');
+    expect(unwrapOr(failure, 0)).toBe(0);
+    expect(unwrapOr(ok(5), 0)).toBe(5);
+  });
+});
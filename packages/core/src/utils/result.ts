@@ -0,0 +1,42 @@
+/**
+ * Result combinators
+ */
+
+import type { MCPError, Result } from '../types/index.js';
+
+export function ok<T>(data: T): Result<T, never> {
+  return { success: true, data };
+}
+
+export function err<E = MCPError>(error: E): Result<never, E> {
+  return { success: false, error };
+}
+
+export function mapResult<T, U, E>(result: Result<T, E>, fn: (data: T) => U): Result<U, E> {
+  return result.success ? ok(fn(result.data)) : result;
+}
+
+export function mapError<T, E, F>(result: Result<T, E>, fn: (error: E) => F): Result<T, F> {
+  return result.success ? result : err(fn(result.error));
+}
+
+/**
+ * Chains a step that can fail itself; failures skip the step
+ */
+export function andThen<T, U, E>(result: Result<T, E>, fn: (data: T) => Result<U, E>): Result<U, E> {
+  return result.success ? fn(result.data) : result;
+}
+
+/**
+ * The data of a successful result; throws the error of a failed one
+ */
+export function unwrap<T, E>(result: Result<T, E>): T {
+  if (!result.success) {
+    throw result.error;
+  }
+  return result.data;
+}
+
+export function unwrapOr<T, E>(result: Result<T, E>, fallback: T): T {
+  return result.success ? result.data : fallback;
+}
@@ -0,0 +1,25 @@
+/**
+ * Helpers shared by core's tests
+ */
+
+/**
+ * Resolves once `check` returns true, polling every 10 ms
+ *
+ * @throws Error if it is still false after `timeoutMs`
+ */
+export async function waitFor(check: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!check()) {
+    if (Date.now() - start > timeoutMs) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+/**
+ * Reads a stream to the end
+ */
+export async function collect<T>(stream: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of stream) items.push(item);
+  return items;
+}
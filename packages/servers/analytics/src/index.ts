@@ -1,33 +1,30 @@
 #!/usr/bin/env node
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
-import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
-import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
-import express from 'express';
-import cors from 'cors';
-import { randomUUID } from 'node:crypto';
 import { z } from 'zod';
-import { Logger, createErrorResponse } from '@mcp-demo/core';
+import { Logger, attachLogger, Tracer, setTracer, instrumentMcp, collectMcpMetrics, mapMcpErrors, createServerApp, parseServerArgs, defineTool, ok, err, PermissionDeniedError, TaskManager, createTaskStore, withTaskSupport, registerTaskTool } from '@mcp-demo/core';
 import { writeFile } from 'fs/promises';
 import * as d3 from 'd3';
 
-const logger = new Logger('analytics-server');
+const serverLogger = new Logger('analytics-server');
+setTracer(Tracer.fromEnv('analytics-server'));
 
-// Command line argument parsing
-const args = process.argv.slice(2);
-const hasHttpFlag = args.includes('--http');
-const transportArg = args.find(arg => arg.startsWith('--transport='))?.split('=')[1] || (hasHttpFlag ? 'http' : 'stdio');
-const portArg = args.find(arg => arg.startsWith('--port='))?.split('=')[1];
-const port = portArg ? parseInt(portArg, 10) : 3002;
+// Shared by every session so the worker pool limits apply server-wide.
+// Dataset runs are CPU heavy, so cap how many run at once and per client.
+// Tasks are kept in the store selected by TASK_STORE.
+const taskManager = new TaskManager({
+  store: createTaskStore('analytics-server'),
+  maxConcurrentTasks: 4,
+  maxTasksPerSession: 2,
+  maxQueuedPerSession: 10,
+});
 
 // Create MCP server factory function
 function createMCPServer(): { mcpServer: McpServer, baseServer: any } {
-  const server = new McpServer({
+  const server: McpServer = new McpServer({
     name: 'analytics-server',
     version: '1.0.0',
-  }, { 
+  }, withTaskSupport({ 
     capabilities: { 
       logging: {},
       elicitation: {},
@@ -41,13 +38,18 @@ function createMCPServer(): { mcpServer: McpServer, baseServer: any } {
       },
       sampling: {}
     } 
-  });
+  }, taskManager, {
+    // Route task notifications to the session that created the task
+    sendNotification: (notification) => baseServer.notification(notification),
+  }));
   
   // Access the underlying base server for elicitation capabilities
   const baseServer = (server as any).server;
-
-  // Store active progress tokens
-  const activeProgressTokens = new Map<string | number, boolean>();
+  // Session handlers log through this child so their entries reach only this client
+  const logger = attachLogger(serverLogger, baseServer);
+  instrumentMcp(baseServer);
+  collectMcpMetrics(baseServer);
+  mapMcpErrors(baseServer);
 
 // Sample data generator for testing
 function generateSampleData(count: number = 100): Array<Record<string, any>> {
@@ -70,525 +72,442 @@ function generateSampleData(count: number = 100): Array<Record<string, any>> {
 }
 
 // Register tools
-server.registerTool(
-  'analyze_csv',
-  {
-    title: 'Analyze CSV Data',
-    description: 'Analyze CSV file and provide statistical insights',
-    inputSchema: {
-      filePath: z.string().describe('Path to the CSV file'),
-      columns: z.array(z.string()).optional().describe('Specific columns to analyze (optional)'),
-    },
-    annotations: {
-      readOnlyHint: true,
-      idempotentHint: true,
-      destructiveHint: false,
-    },
+defineTool({
+  name: 'analyze_csv',
+  title: 'Analyze CSV Data',
+  description: 'Analyze CSV file and provide statistical insights',
+  input: {
+    filePath: z.string().describe('Path to the CSV file'),
+    columns: z.array(z.string()).optional().describe('Specific columns to analyze (optional)'),
   },
-  async ({ filePath, columns }) => {
-    logger.info('Analyzing CSV data', { filePath, columns });
-
-    try {
-      // Basic security check
-      if (filePath.includes('..')) {
-        throw new Error('Path traversal not allowed');
-      }
+  annotations: {
+    readOnlyHint: true,
+    idempotentHint: true,
+    destructiveHint: false,
+  },
+  logger,
+  handler: async ({ filePath }) => {
+    // Basic security check
+    if (filePath.includes('..')) {
+      return err(new PermissionDeniedError('Path traversal not allowed', { action: 'read', resource: filePath }));
+    }
 
-      // In a full implementation, you would parse the actual CSV file
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `# CSV Analysis Report\n\nFile: ${filePath}\n\nNote: This is a demo implementation. In a real scenario, this would parse and analyze the actual CSV file.\n\nTo fully implement CSV analysis:\n1. Install csv-parser dependency\n2. Parse the CSV file\n3. Generate statistical insights\n4. Return formatted analysis`,
-          },
-        ],
-        metadata: {
-          filePath,
-          demoMode: true,
-        },
-      };
-      
-      /*
-      // Full CSV parsing implementation (commented out due to dependency issues)
-      return new Promise((resolve) => {
-        createReadStream(filePath)
-          .pipe(csvParse())
-          .on('data', (row: any) => data.push(row))
-          .on('end', () => {
-            try {
-              const analysis = analyzeDataset(data, columns);
-              
-              resolve({
-                content: [
-                  {
-                    type: 'text',
-                    text: `# CSV Analysis Report\n\n${formatAnalysisReport(analysis)}`,
-                  },
-                ],
-                metadata: {
-                  filePath,
-                  recordCount: data.length,
-                  columnCount: Object.keys(data[0] || {}).length,
+    // In a full implementation, you would parse the actual CSV file
+    return ok(`# CSV Analysis Report\n\nFile: ${filePath}\n\nNote: This is a demo implementation. In a real scenario, this would parse and analyze the actual CSV file.\n\nTo fully implement CSV analysis:\n1. Install csv-parser dependency\n2. Parse the CSV file\n3. Generate statistical insights\n4. Return formatted analysis`);
+    
+    /*
+    // Full CSV parsing implementation (commented out due to dependency issues)
+    return new Promise((resolve) => {
+      createReadStream(filePath)
+        .pipe(csvParse())
+        .on('data', (row: any) => data.push(row))
+        .on('end', () => {
+          try {
+            const analysis = analyzeDataset(data, columns);
+            
+            resolve({
+              content: [
+                {
+                  type: 'text',
+                  text: `# CSV Analysis Report\n\n${formatAnalysisReport(analysis)}`,
                 },
-              });
-            } catch (error) {
-              resolve({
-                content: [
-                  {
-                    type: 'text',
-                    text: `Analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-                  },
-                ],
-                isError: true,
-              });
-            }
-          })
-          .on('error', (error) => {
+              ],
+              metadata: {
+                filePath,
+                recordCount: data.length,
+                columnCount: Object.keys(data[0] || {}).length,
+              },
+            });
+          } catch (error) {
             resolve({
               content: [
                 {
                   type: 'text',
-                  text: `CSV parsing failed: ${error.message}`,
+                  text: `Analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
                 },
               ],
               isError: true,
             });
+          }
+        })
+        .on('error', (error) => {
+          resolve({
+            content: [
+              {
+                type: 'text',
+                text: `CSV parsing failed: ${error.message}`,
+              },
+            ],
+            isError: true,
           });
-      });
-      */
-    } catch (error) {
-      logger.error('CSV analysis failed', error);
-      return createErrorResponse(error, 'CSV analysis failed');
-    }
-  }
-);
-
-server.registerTool(
-  'generate_sample_data',
-  {
-    title: 'Generate Sample Data',
-    description: 'Generate sample dataset for testing analytics',
-    inputSchema: {
-      format: z.enum(['json', 'csv']).describe('Output format'),
-      recordCount: z.number().min(1).max(10000).default(100).describe('Number of records to generate'),
-      outputPath: z.string().optional().describe('Optional file path to save the data'),
-    },
-    annotations: {
-      readOnlyHint: false,
-      idempotentHint: false,
-      destructiveHint: false,
-    },
+        });
+    });
+    */
   },
-  async ({ format, recordCount, outputPath }) => {
-    logger.info('Generating sample data', { format, recordCount, outputPath });
-
-    try {
-      const data = generateSampleData(recordCount);
-      let output: string;
-      
-      if (format === 'json') {
-        output = JSON.stringify(data, null, 2);
-      } else {
-        // Simple CSV conversion for demo
-        if (data.length > 0) {
-          const firstRow = data[0];
-          if (firstRow) {
-            const headers = Object.keys(firstRow);
-            const csvRows = [headers.join(',')];
-            data.forEach(row => {
-              const values = headers.map(header => JSON.stringify(row[header] || ''));
-              csvRows.push(values.join(','));
-            });
-            output = csvRows.join('\n');
-          } else {
-            output = '';
-          }
+}).register(server);
+
+defineTool({
+  name: 'generate_sample_data',
+  title: 'Generate Sample Data',
+  description: 'Generate sample dataset for testing analytics',
+  input: {
+    format: z.enum(['json', 'csv']).describe('Output format'),
+    recordCount: z.number().min(1).max(10000).default(100).describe('Number of records to generate'),
+    outputPath: z.string().optional().describe('Optional file path to save the data'),
+  },
+  annotations: {
+    readOnlyHint: false,
+    idempotentHint: false,
+    destructiveHint: false,
+  },
+  logger,
+  handler: async ({ format, recordCount, outputPath }) => {
+    const data = generateSampleData(recordCount);
+    let output: string;
+    
+    if (format === 'json') {
+      output = JSON.stringify(data, null, 2);
+    } else {
+      // Simple CSV conversion for demo
+      if (data.length > 0) {
+        const firstRow = data[0];
+        if (firstRow) {
+          const headers = Object.keys(firstRow);
+          const csvRows = [headers.join(',')];
+          data.forEach(row => {
+            const values = headers.map(header => JSON.stringify(row[header] || ''));
+            csvRows.push(values.join(','));
+          });
+          output = csvRows.join('\n');
         } else {
           output = '';
         }
+      } else {
+        output = '';
       }
+    }
 
-      if (outputPath) {
-        await writeFile(outputPath, output, 'utf-8');
-      }
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: outputPath 
-              ? `Sample data generated and saved to ${outputPath}\n\nFirst 3 records:\n\`\`\`${format}\n${format === 'json' ? JSON.stringify(data.slice(0, 3), null, 2) : output.split('\n').slice(0, 4).join('\n')}\n\`\`\``
-              : `Sample data generated:\n\n\`\`\`${format}\n${output}\n\`\`\``,
-          },
-        ],
-        metadata: {
-          recordCount: data.length,
-          format,
-          outputPath,
-        },
-      };
-    } catch (error) {
-      logger.error('Sample data generation failed', error);
-      return createErrorResponse(error, 'Sample data generation failed');
+    if (outputPath) {
+      await writeFile(outputPath, output, 'utf-8');
     }
-  }
-);
 
-server.registerTool(
-  'calculate_statistics',
-  {
-    title: 'Calculate Statistics',
-    description: 'Calculate statistical measures for numeric data',
-    inputSchema: {
-      data: z.array(z.number()).describe('Array of numeric values'),
-      measures: z.array(z.enum(['mean', 'median', 'mode', 'std', 'min', 'max', 'quartiles']))
-        .default(['mean', 'median', 'std', 'min', 'max'])
-        .describe('Statistical measures to calculate'),
-    },
-    annotations: {
-      readOnlyHint: true,
-      idempotentHint: true,
-      destructiveHint: false,
-    },
+    return ok(outputPath
+      ? `Sample data generated and saved to ${outputPath}\n\nFirst 3 records:\n\`\`\`${format}\n${format === 'json' ? JSON.stringify(data.slice(0, 3), null, 2) : output.split('\n').slice(0, 4).join('\n')}\n\`\`\``
+      : `Sample data generated:\n\n\`\`\`${format}\n${output}\n\`\`\``);
   },
-  async ({ data, measures }) => {
-    logger.info('Calculating statistics', { dataLength: data.length, measures });
-
-    try {
-      const stats: Record<string, any> = {};
-      
-      if (measures.includes('mean')) {
-        stats.mean = d3.mean(data);
-      }
-      
-      if (measures.includes('median')) {
-        stats.median = d3.median(data);
-      }
-      
-      if (measures.includes('min')) {
-        stats.min = d3.min(data);
-      }
-      
-      if (measures.includes('max')) {
-        stats.max = d3.max(data);
-      }
-      
-      if (measures.includes('std')) {
-        stats.standardDeviation = d3.deviation(data);
-      }
-      
-      if (measures.includes('quartiles')) {
-        const sorted = data.sort((a, b) => a - b);
-        stats.quartiles = {
-          q1: d3.quantile(sorted, 0.25),
-          q2: d3.quantile(sorted, 0.5), // median
-          q3: d3.quantile(sorted, 0.75),
-        };
-      }
-      
-      if (measures.includes('mode')) {
-        const frequency = d3.rollup(data, v => v.length, d => d);
-        const maxFreq = d3.max(frequency.values());
-        stats.mode = Array.from(frequency.entries())
-          .filter(([, freq]: [number, number]) => freq === maxFreq)
-          .map(([value]: [number, number]) => value);
-      }
-
-      const report = Object.entries(stats)
-        .map(([key, value]) => {
-          if (key === 'quartiles') {
-            return `**${key}**: Q1=${value.q1}, Q2=${value.q2}, Q3=${value.q3}`;
-          } else if (key === 'mode') {
-            return `**${key}**: ${Array.isArray(value) ? value.join(', ') : value}`;
-          } else {
-            return `**${key}**: ${typeof value === 'number' ? value.toFixed(4) : value}`;
-          }
-        })
-        .join('\n');
+}).register(server);
+
+defineTool({
+  name: 'calculate_statistics',
+  title: 'Calculate Statistics',
+  description: 'Calculate statistical measures for numeric data',
+  input: {
+    data: z.array(z.number()).describe('Array of numeric values'),
+    measures: z.array(z.enum(['mean', 'median', 'mode', 'std', 'min', 'max', 'quartiles']))
+      .default(['mean', 'median', 'std', 'min', 'max'])
+      .describe('Statistical measures to calculate'),
+  },
+  output: {
+    sampleSize: z.number(),
+    measures: z.array(z.string()),
+    statistics: z.record(z.string(), z.any()).describe('Requested measures by name; standardDeviation for std'),
+  },
+  annotations: {
+    readOnlyHint: true,
+    idempotentHint: true,
+    destructiveHint: false,
+  },
+  logger,
+  format: ({ sampleSize, statistics }) => {
+    const report = Object.entries(statistics)
+      .map(([key, value]) => {
+        if (key === 'quartiles') {
+          return `**${key}**: Q1=${value.q1}, Q2=${value.q2}, Q3=${value.q3}`;
+        } else if (key === 'mode') {
+          return `**${key}**: ${Array.isArray(value) ? value.join(', ') : value}`;
+        } else {
+          return `**${key}**: ${typeof value === 'number' ? value.toFixed(4) : value}`;
+        }
+      })
+      .join('\n');
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `# Statistical Analysis\n\n${report}\n\n**Sample size**: ${data.length}`,
-          },
-        ],
-        metadata: {
-          sampleSize: data.length,
-          measures,
-          statistics: stats,
-        },
+    return `# Statistical Analysis\n\n${report}\n\n**Sample size**: ${sampleSize}`;
+  },
+  handler: async ({ data, measures }) => {
+    const stats: Record<string, any> = {};
+    
+    if (measures.includes('mean')) {
+      stats.mean = d3.mean(data);
+    }
+    
+    if (measures.includes('median')) {
+      stats.median = d3.median(data);
+    }
+    
+    if (measures.includes('min')) {
+      stats.min = d3.min(data);
+    }
+    
+    if (measures.includes('max')) {
+      stats.max = d3.max(data);
+    }
+    
+    if (measures.includes('std')) {
+      stats.standardDeviation = d3.deviation(data);
+    }
+    
+    if (measures.includes('quartiles')) {
+      const sorted = data.sort((a, b) => a - b);
+      stats.quartiles = {
+        q1: d3.quantile(sorted, 0.25),
+        q2: d3.quantile(sorted, 0.5), // median
+        q3: d3.quantile(sorted, 0.75),
       };
-    } catch (error) {
-      logger.error('Statistics calculation failed', error);
-      return createErrorResponse(error, 'Statistics calculation failed');
     }
-  }
-);
+    
+    if (measures.includes('mode')) {
+      const frequency = d3.rollup(data, v => v.length, d => d);
+      const maxFreq = d3.max(frequency.values());
+      stats.mode = Array.from(frequency.entries())
+        .filter(([, freq]: [number, number]) => freq === maxFreq)
+        .map(([value]: [number, number]) => value);
+    }
 
-server.registerTool(
-  'interactive_data_analysis',
-  {
-    title: 'Interactive Data Analysis',
-    description: 'Interactive tool for comprehensive data analysis with user-guided parameter selection',
-    inputSchema: {
-      dataPath: z.string().describe('Path to data file or dataset identifier'),
-    },
-    annotations: {
-      readOnlyHint: true,
-      idempotentHint: true,
-      destructiveHint: false,
-    },
+    return ok({ sampleSize: data.length, measures, statistics: stats });
   },
-  async ({ dataPath }) => {
-    logger.info('Starting interactive data analysis', { dataPath });
-
-    try {
-      // First, get analysis preferences from the user
-      const analysisPrefs = await baseServer.elicitInput({
-        message: `Starting data analysis for: ${dataPath}\n\nPlease configure your analysis preferences:`,
-        requestedSchema: {
-          $schema: 'https://json-schema.org/draft/2020-12/schema',
-          type: 'object',
-          properties: {
-            analysisType: {
-              type: 'string',
-              enum: ['exploratory', 'statistical', 'comparative', 'trend'],
-              enumNames: ['Exploratory Data Analysis', 'Statistical Analysis', 'Comparative Analysis', 'Trend Analysis'],
-              title: 'Analysis Type',
-              description: 'Select the type of analysis to perform'
-            },
-            includeVisualizations: {
-              type: 'boolean',
-              title: 'Include Visualizations',
-              description: 'Generate visualization recommendations',
-              default: true
-            },
-            focusColumns: {
-              type: 'string',
-              title: 'Focus Columns',
-              description: 'Comma-separated list of specific columns to focus on (optional)'
-            },
-            statisticalMeasures: {
-              type: 'string',
-              enum: ['basic', 'comprehensive', 'custom'],
-              enumNames: ['Basic (mean, median, std)', 'Comprehensive (all measures)', 'Custom Selection'],
-              title: 'Statistical Detail Level',
-              description: 'Level of statistical analysis to perform'
-            }
+}).register(server);
+
+defineTool({
+  name: 'interactive_data_analysis',
+  title: 'Interactive Data Analysis',
+  description: 'Interactive tool for comprehensive data analysis with user-guided parameter selection',
+  input: {
+    dataPath: z.string().describe('Path to data file or dataset identifier'),
+  },
+  annotations: {
+    readOnlyHint: true,
+    idempotentHint: true,
+    destructiveHint: false,
+  },
+  logger,
+  handler: async ({ dataPath }) => {
+    // First, get analysis preferences from the user
+    const analysisPrefs = await baseServer.elicitInput({
+      message: `Starting data analysis for: ${dataPath}\n\nPlease configure your analysis preferences:`,
+      requestedSchema: {
+        $schema: 'https://json-schema.org/draft/2020-12/schema',
+        type: 'object',
+        properties: {
+          analysisType: {
+            type: 'string',
+            enum: ['exploratory', 'statistical', 'comparative', 'trend'],
+            enumNames: ['Exploratory Data Analysis', 'Statistical Analysis', 'Comparative Analysis', 'Trend Analysis'],
+            title: 'Analysis Type',
+            description: 'Select the type of analysis to perform'
           },
-          required: ['analysisType', 'statisticalMeasures']
-        }
-      });
-
-      if (analysisPrefs.action !== 'accept') {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Analysis ${analysisPrefs.action}ed by user.`,
-            },
-          ],
-        };
+          includeVisualizations: {
+            type: 'boolean',
+            title: 'Include Visualizations',
+            description: 'Generate visualization recommendations',
+            default: true
+          },
+          focusColumns: {
+            type: 'string',
+            title: 'Focus Columns',
+            description: 'Comma-separated list of specific columns to focus on (optional)'
+          },
+          statisticalMeasures: {
+            type: 'string',
+            enum: ['basic', 'comprehensive', 'custom'],
+            enumNames: ['Basic (mean, median, std)', 'Comprehensive (all measures)', 'Custom Selection'],
+            title: 'Statistical Detail Level',
+            description: 'Level of statistical analysis to perform'
+          }
+        },
+        required: ['analysisType', 'statisticalMeasures']
       }
+    });
+
+    if (analysisPrefs.action !== 'accept') {
+      return ok(`Analysis ${analysisPrefs.action}ed by user.`);
+    }
 
-      const prefs = analysisPrefs.content;
+    const prefs = analysisPrefs.content;
 
-      // Generate sample data for demonstration
-      const sampleData = generateSampleData(100);
-      const numericColumns = ['value', 'score'];
+    // Generate sample data for demonstration
+    const sampleData = generateSampleData(100);
+    const numericColumns = ['value', 'score'];
+    
+    // Perform analysis based on user preferences
+    let analysisResults = `# Interactive Data Analysis Report\n\n`;
+    analysisResults += `**Dataset**: ${dataPath}\n`;
+    analysisResults += `**Analysis Type**: ${prefs.analysisType}\n`;
+    analysisResults += `**Records Analyzed**: ${sampleData.length}\n\n`;
+
+    // Statistical analysis based on user preference
+    if (prefs.statisticalMeasures === 'basic' || prefs.statisticalMeasures === 'comprehensive') {
+      analysisResults += `## Statistical Summary\n\n`;
       
-      // Perform analysis based on user preferences
-      let analysisResults = `# Interactive Data Analysis Report\n\n`;
-      analysisResults += `**Dataset**: ${dataPath}\n`;
-      analysisResults += `**Analysis Type**: ${prefs.analysisType}\n`;
-      analysisResults += `**Records Analyzed**: ${sampleData.length}\n\n`;
-
-      // Statistical analysis based on user preference
-      if (prefs.statisticalMeasures === 'basic' || prefs.statisticalMeasures === 'comprehensive') {
-        analysisResults += `## Statistical Summary\n\n`;
+      for (const column of numericColumns) {
+        const values = sampleData.map(row => row[column as keyof typeof row] as number);
         
-        for (const column of numericColumns) {
-          const values = sampleData.map(row => row[column as keyof typeof row] as number);
-          
-          analysisResults += `### ${column}\n`;
-          analysisResults += `- **Mean**: ${d3.mean(values)?.toFixed(4)}\n`;
-          analysisResults += `- **Median**: ${d3.median(values)?.toFixed(4)}\n`;
-          analysisResults += `- **Min**: ${d3.min(values)}\n`;
-          analysisResults += `- **Max**: ${d3.max(values)}\n`;
-          
-          if (prefs.statisticalMeasures === 'comprehensive') {
-            analysisResults += `- **Standard Deviation**: ${d3.deviation(values)?.toFixed(4)}\n`;
-            const sorted = values.sort((a, b) => a - b);
-            analysisResults += `- **Q1**: ${d3.quantile(sorted, 0.25)?.toFixed(4)}\n`;
-            analysisResults += `- **Q3**: ${d3.quantile(sorted, 0.75)?.toFixed(4)}\n`;
-          }
-          analysisResults += `\n`;
+        analysisResults += `### ${column}\n`;
+        analysisResults += `- **Mean**: ${d3.mean(values)?.toFixed(4)}\n`;
+        analysisResults += `- **Median**: ${d3.median(values)?.toFixed(4)}\n`;
+        analysisResults += `- **Min**: ${d3.min(values)}\n`;
+        analysisResults += `- **Max**: ${d3.max(values)}\n`;
+        
+        if (prefs.statisticalMeasures === 'comprehensive') {
+          analysisResults += `- **Standard Deviation**: ${d3.deviation(values)?.toFixed(4)}\n`;
+          const sorted = values.sort((a, b) => a - b);
+          analysisResults += `- **Q1**: ${d3.quantile(sorted, 0.25)?.toFixed(4)}\n`;
+          analysisResults += `- **Q3**: ${d3.quantile(sorted, 0.75)?.toFixed(4)}\n`;
         }
+        analysisResults += `\n`;
       }
+    }
 
-      // Analysis type specific insights
+    // Analysis type specific insights
+    switch (prefs.analysisType) {
+      case 'exploratory':
+        analysisResults += `## Exploratory Insights\n\n`;
+        analysisResults += `- **Categories Distribution**: ${Array.from(new Set(sampleData.map(r => r.category))).length} unique categories\n`;
+        analysisResults += `- **Regional Spread**: Data covers ${Array.from(new Set(sampleData.map(r => r.region))).length} regions\n`;
+        analysisResults += `- **Date Range**: Data spans multiple months in 2024\n`;
+        break;
+      case 'comparative':
+        analysisResults += `## Comparative Analysis\n\n`;
+        const categoryStats = d3.rollup(sampleData, 
+          v => ({ 
+            count: v.length, 
+            avgValue: d3.mean(v, d => d.value)?.toFixed(2) 
+          }), 
+          d => d.category
+        );
+        analysisResults += `**By Category:**\n`;
+        categoryStats.forEach((stats, category) => {
+          analysisResults += `- **${category}**: ${stats.count} records, avg value: ${stats.avgValue}\n`;
+        });
+        break;
+    }
+
+    // Visualization recommendations
+    if (prefs.includeVisualizations) {
+      analysisResults += `\n## Recommended Visualizations\n\n`;
+      analysisResults += `Based on your analysis type (${prefs.analysisType}), consider these visualizations:\n`;
+      
       switch (prefs.analysisType) {
         case 'exploratory':
-          analysisResults += `## Exploratory Insights\n\n`;
-          analysisResults += `- **Categories Distribution**: ${Array.from(new Set(sampleData.map(r => r.category))).length} unique categories\n`;
-          analysisResults += `- **Regional Spread**: Data covers ${Array.from(new Set(sampleData.map(r => r.region))).length} regions\n`;
-          analysisResults += `- **Date Range**: Data spans multiple months in 2024\n`;
+          analysisResults += `- Histograms for numeric distributions\n`;
+          analysisResults += `- Bar charts for categorical frequencies\n`;
+          analysisResults += `- Scatter plots for correlation analysis\n`;
           break;
         case 'comparative':
-          analysisResults += `## Comparative Analysis\n\n`;
-          const categoryStats = d3.rollup(sampleData, 
-            v => ({ 
-              count: v.length, 
-              avgValue: d3.mean(v, d => d.value)?.toFixed(2) 
-            }), 
-            d => d.category
-          );
-          analysisResults += `**By Category:**\n`;
-          categoryStats.forEach((stats, category) => {
-            analysisResults += `- **${category}**: ${stats.count} records, avg value: ${stats.avgValue}\n`;
-          });
+          analysisResults += `- Box plots for group comparisons\n`;
+          analysisResults += `- Grouped bar charts for category analysis\n`;
+          analysisResults += `- Side-by-side violin plots\n`;
+          break;
+        case 'trend':
+          analysisResults += `- Time series line charts\n`;
+          analysisResults += `- Moving average overlays\n`;
+          analysisResults += `- Seasonal decomposition plots\n`;
+          break;
+        case 'statistical':
+          analysisResults += `- Q-Q plots for normality testing\n`;
+          analysisResults += `- Correlation heatmaps\n`;
+          analysisResults += `- Distribution fitting plots\n`;
           break;
       }
-
-      // Visualization recommendations
-      if (prefs.includeVisualizations) {
-        analysisResults += `\n## Recommended Visualizations\n\n`;
-        analysisResults += `Based on your analysis type (${prefs.analysisType}), consider these visualizations:\n`;
-        
-        switch (prefs.analysisType) {
-          case 'exploratory':
-            analysisResults += `- Histograms for numeric distributions\n`;
-            analysisResults += `- Bar charts for categorical frequencies\n`;
-            analysisResults += `- Scatter plots for correlation analysis\n`;
-            break;
-          case 'comparative':
-            analysisResults += `- Box plots for group comparisons\n`;
-            analysisResults += `- Grouped bar charts for category analysis\n`;
-            analysisResults += `- Side-by-side violin plots\n`;
-            break;
-          case 'trend':
-            analysisResults += `- Time series line charts\n`;
-            analysisResults += `- Moving average overlays\n`;
-            analysisResults += `- Seasonal decomposition plots\n`;
-            break;
-          case 'statistical':
-            analysisResults += `- Q-Q plots for normality testing\n`;
-            analysisResults += `- Correlation heatmaps\n`;
-            analysisResults += `- Distribution fitting plots\n`;
-            break;
-        }
-      }
-
-      analysisResults += `\n## Next Steps\n\n`;
-      analysisResults += `- Consider deeper analysis of identified patterns\n`;
-      analysisResults += `- Validate findings with domain expertise\n`;
-      analysisResults += `- Prepare visualizations for stakeholder presentation\n`;
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: analysisResults,
-          },
-        ],
-        metadata: {
-          dataPath,
-          analysisType: prefs.analysisType,
-          recordsAnalyzed: sampleData.length,
-          userPreferences: prefs,
-        },
-      };
-    } catch (error) {
-      logger.error('Interactive data analysis failed', error);
-      return createErrorResponse(error, 'Interactive data analysis failed');
     }
-  }
-);
 
-server.registerTool(
-  'export_data',
-  {
-    title: 'Export Data',
-    description: 'Export analyzed data in various formats (JSON, CSV)',
-    inputSchema: {
-      data: z.array(z.record(z.any())).describe('Data array to export'),
-      format: z.enum(['json', 'csv']).describe('Export format'),
-      filename: z.string().optional().describe('Optional filename for the export'),
-    },
-    annotations: {
-      readOnlyHint: false,
-      idempotentHint: true,
-      destructiveHint: false,
-    },
-  },
-  async ({ data, format, filename }) => {
-    logger.info('Exporting data', { format, recordCount: data.length, filename });
-
-    try {
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-      const defaultFilename = `analytics_export_${timestamp}`;
-      const exportFilename = filename || defaultFilename;
+    analysisResults += `\n## Next Steps\n\n`;
+    analysisResults += `- Consider deeper analysis of identified patterns\n`;
+    analysisResults += `- Validate findings with domain expertise\n`;
+    analysisResults += `- Prepare visualizations for stakeholder presentation\n`;
 
-      let exportContent: string;
-      let mimeType: string;
-
-      if (format === 'json') {
-        exportContent = JSON.stringify(data, null, 2);
-        mimeType = 'application/json';
+    return ok(analysisResults);
+  },
+}).register(server);
+
+defineTool({
+  name: 'export_data',
+  title: 'Export Data',
+  description: 'Export analyzed data in various formats (JSON, CSV)',
+  input: {
+    data: z.array(z.record(z.any())).describe('Data array to export'),
+    format: z.enum(['json', 'csv']).describe('Export format'),
+    filename: z.string().optional().describe('Optional filename for the export'),
+  },
+  output: {
+    format: z.enum(['json', 'csv']),
+    filename: z.string(),
+    recordCount: z.number(),
+    size: z.number().describe('Length of the exported content in characters'),
+    mimeType: z.string(),
+    content: z.string().describe('The exported data'),
+  },
+  annotations: {
+    readOnlyHint: false,
+    idempotentHint: true,
+    destructiveHint: false,
+  },
+  logger,
+  format: ({ format, filename, recordCount, size, content }) =>
+    `# Data Export Complete\n\n**Format**: ${format.toUpperCase()}\n**Records**: ${recordCount}\n**Filename**: ${filename}\n**Size**: ${(size / 1024).toFixed(2)} KB\n\n## Export Preview\n\`\`\`${format}\n${content.substring(0, 500)}${size > 500 ? '...\n[truncated]' : ''}\n\`\`\``,
+  handler: async ({ data, format, filename }) => {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const defaultFilename = `analytics_export_${timestamp}`;
+    const exportFilename = filename || defaultFilename;
+
+    let exportContent: string;
+    let mimeType: string;
+
+    if (format === 'json') {
+      exportContent = JSON.stringify(data, null, 2);
+      mimeType = 'application/json';
+    } else {
+      // CSV format
+      if (data.length === 0) {
+        exportContent = '';
       } else {
-        // CSV format
-        if (data.length === 0) {
-          exportContent = '';
-        } else {
-          const headers = Object.keys(data[0]!);
-          const csvRows = [
-            headers.join(','),
-            ...data.map(row => 
-              headers.map(header => {
-                const value = row[header];
-                // Escape quotes and wrap in quotes if contains comma or quote
-                if (typeof value === 'string' && (value.includes(',') || value.includes('"'))) {
-                  return `"${value.replace(/"/g, '""')}"`;
-                }
-                return String(value);
-              }).join(',')
-            )
-          ];
-          exportContent = csvRows.join('\n');
-        }
-        mimeType = 'text/csv';
+        const headers = Object.keys(data[0]!);
+        const csvRows = [
+          headers.join(','),
+          ...data.map(row => 
+            headers.map(header => {
+              const value = row[header];
+              // Escape quotes and wrap in quotes if contains comma or quote
+              if (typeof value === 'string' && (value.includes(',') || value.includes('"'))) {
+                return `"${value.replace(/"/g, '""')}"`;
+              }
+              return String(value);
+            }).join(',')
+          )
+        ];
+        exportContent = csvRows.join('\n');
       }
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `# Data Export Complete\n\n**Format**: ${format.toUpperCase()}\n**Records**: ${data.length}\n**Filename**: ${exportFilename}.${format}\n**Size**: ${(exportContent.length / 1024).toFixed(2)} KB\n\n## Export Preview\n\`\`\`${format}\n${exportContent.substring(0, 500)}${exportContent.length > 500 ? '...\n[truncated]' : ''}\n\`\`\``,
-          },
-        ],
-        metadata: {
-          format,
-          filename: `${exportFilename}.${format}`,
-          recordCount: data.length,
-          size: exportContent.length,
-          mimeType,
-          exportTimestamp: new Date().toISOString(),
-        },
-      };
-    } catch (error) {
-      logger.error('Data export failed', error);
-      return createErrorResponse(error, 'Data export failed');
+      mimeType = 'text/csv';
     }
-  }
-);
 
-// Register a tool that demonstrates progress notifications
-server.registerTool(
+    return ok({
+      format,
+      filename: `${exportFilename}.${format}`,
+      recordCount: data.length,
+      size: exportContent.length,
+      mimeType,
+      content: exportContent,
+    });
+  },
+}).register(server);
+
+// Register a task-backed tool that demonstrates progress notifications
+registerTaskTool(
+  server,
+  taskManager,
   'process_large_dataset',
   {
     title: 'Process Large Dataset',
-    description: 'Process a large dataset with progress reporting using MCP progress notifications',
+    description: 'Process a large dataset with progress reporting using MCP progress notifications. Supports task-augmented calls that return a task handle immediately',
     inputSchema: {
       operation: z.enum(['aggregate', 'transform', 'filter', 'sort', 'analyze'])
         .describe('Type of processing operation to perform'),
@@ -604,189 +523,180 @@ server.registerTool(
       idempotentHint: false,
       destructiveHint: false,
     },
+    logger,
+    // Small runs finish quickly, so let them jump ahead of large ones in the queue
+    priority: ({ recordCount }) => (recordCount <= 1000 ? 1 : 0),
   },
-  async ({ operation, recordCount, batchSize, includeValidation }, extra) => {
+  async ({ operation, recordCount, batchSize, includeValidation }, { taskId, progressToken, reportProgress, signal }) => {
     logger.info('Starting large dataset processing with progress notifications', { 
-      operation, recordCount, batchSize, includeValidation 
+      taskId, operation, recordCount, batchSize, includeValidation 
     });
 
-    try {
-      // Check if progress token is provided in request metadata
-      const progressToken = extra?._meta?.progressToken;
-      
-      if (progressToken) {
-        logger.info(`Progress notifications enabled with token: ${progressToken}`);
-        activeProgressTokens.set(progressToken, true);
-      }
+    if (progressToken) {
+      logger.info(`Progress notifications enabled with token: ${progressToken}`);
+    }
 
-      // Helper function to send progress notifications
-      const sendProgress = async (progress: number, total: number, message: string) => {
-        if (progressToken && activeProgressTokens.has(progressToken)) {
-          try {
-            logger.info(`Sending progress notification: ${progress}/${total} - ${message}`);
-            
-            // Send progress notification via the base server
-            await baseServer.notification({
-              method: 'notifications/progress',
-              params: {
-                progressToken,
-                progress,
-                total,
-                message
-              }
-            });
-          } catch (error) {
-            logger.error('Failed to send progress notification', error);
-          }
-        }
-      };
+    // Progress is tracked on the task and forwarded as notifications/progress
+    const sendProgress = async (progress: number, total: number, message: string) => {
+      logger.info(`Reporting progress: ${progress}/${total} - ${message}`);
+      await reportProgress((progress / total) * 100, message);
+    };
 
-      // Start processing
-      await sendProgress(0, 100, `Starting ${operation} operation...`);
+    // Start processing
+    await sendProgress(0, 100, `Starting ${operation} operation...`);
 
-      // Step 1: Generate large dataset
-      await sendProgress(5, 100, `Generating ${recordCount} sample records...`);
-      const dataset = generateSampleData(recordCount);
-      
-      await sendProgress(15, 100, `Dataset generated with ${dataset.length} records`);
+    // Step 1: Generate large dataset
+    await sendProgress(5, 100, `Generating ${recordCount} sample records...`);
+    const dataset = generateSampleData(recordCount);
+    
+    await sendProgress(15, 100, `Dataset generated with ${dataset.length} records`);
 
-      // Step 2: Data validation (if enabled)
-      if (includeValidation) {
-        await sendProgress(20, 100, 'Validating data integrity...');
-        
-        let validRecords = 0;
-        let invalidRecords = 0;
-        
-        for (let i = 0; i < dataset.length; i++) {
-          const record = dataset[i];
-          if (record && record.id && record.value && record.category) {
-            validRecords++;
-          } else {
-            invalidRecords++;
-          }
-          
-          // Update progress for validation
-          if (i % Math.max(1, Math.floor(dataset.length / 10)) === 0) {
-            const validationProgress = 20 + Math.floor((i / dataset.length) * 10);
-            await sendProgress(validationProgress, 100, `Validating records... ${i}/${dataset.length}`);
-          }
+    // Step 2: Data validation (if enabled)
+    if (includeValidation) {
+      await sendProgress(20, 100, 'Validating data integrity...');
+      
+      let validRecords = 0;
+      let invalidRecords = 0;
+      
+      for (let i = 0; i < dataset.length; i++) {
+        const record = dataset[i];
+        if (record && record.id && record.value && record.category) {
+          validRecords++;
+        } else {
+          invalidRecords++;
         }
         
-        await sendProgress(30, 100, `Validation complete: ${validRecords} valid, ${invalidRecords} invalid`);
-      } else {
-        await sendProgress(30, 100, 'Skipping validation step');
+        // Update progress for validation
+        if (i % Math.max(1, Math.floor(dataset.length / 10)) === 0) {
+          const validationProgress = 20 + Math.floor((i / dataset.length) * 10);
+          await sendProgress(validationProgress, 100, `Validating records... ${i}/${dataset.length}`);
+        }
       }
+      
+      await sendProgress(30, 100, `Validation complete: ${validRecords} valid, ${invalidRecords} invalid`);
+    } else {
+      await sendProgress(30, 100, 'Skipping validation step');
+    }
 
-      // Step 3: Process data in batches
-      await sendProgress(35, 100, `Starting ${operation} processing in batches...`);
+    // Step 3: Process data in batches
+    await sendProgress(35, 100, `Starting ${operation} processing in batches...`);
+    
+    const results: any[] = [];
+    const batches = Math.ceil(dataset.length / batchSize);
+    
+    for (let batchIndex = 0; batchIndex < batches; batchIndex++) {
+      if (signal.aborted) {
+        logger.warn('Large dataset processing stopped early', { taskId, batchesProcessed: results.length });
+        break;
+      }
+
+      const batchStart = batchIndex * batchSize;
+      const batchEnd = Math.min(batchStart + batchSize, dataset.length);
+      const batch = dataset.slice(batchStart, batchEnd);
       
-      const results: any[] = [];
-      const batches = Math.ceil(dataset.length / batchSize);
+      const batchProgress = 35 + Math.floor((batchIndex / batches) * 50);
+      await sendProgress(batchProgress, 100, `Processing batch ${batchIndex + 1}/${batches} (${batch.length} records)`);
       
-      for (let batchIndex = 0; batchIndex < batches; batchIndex++) {
-        const batchStart = batchIndex * batchSize;
-        const batchEnd = Math.min(batchStart + batchSize, dataset.length);
-        const batch = dataset.slice(batchStart, batchEnd);
-        
-        const batchProgress = 35 + Math.floor((batchIndex / batches) * 50);
-        await sendProgress(batchProgress, 100, `Processing batch ${batchIndex + 1}/${batches} (${batch.length} records)`);
-        
-        // Simulate processing with different operations
-        let batchResult;
-        switch (operation) {
-          case 'aggregate':
-            batchResult = {
-              batchIndex: batchIndex + 1,
-              recordCount: batch.length,
-              totalValue: batch.reduce((sum, r) => sum + (r.value || 0), 0),
+      // Simulate processing with different operations
+      let batchResult;
+      switch (operation) {
+        case 'aggregate':
+          batchResult = {
+            batchIndex: batchIndex + 1,
+            recordCount: batch.length,
+            totalValue: batch.reduce((sum, r) => sum + (r.value || 0), 0),
+            avgScore: batch.reduce((sum, r) => sum + (r.score || 0), 0) / batch.length,
+            categories: [...new Set(batch.map(r => r.category))],
+          };
+          break;
+          
+        case 'transform':
+          batchResult = {
+            batchIndex: batchIndex + 1,
+            transformedRecords: batch.map(r => ({
+              ...r,
+              normalizedValue: (r.value || 0) / 1000,
+              scoreGrade: (r.score || 0) >= 80 ? 'A' : (r.score || 0) >= 60 ? 'B' : 'C',
+            })),
+          };
+          break;
+          
+        case 'filter':
+          const filtered = batch.filter(r => (r.score || 0) > 50);
+          batchResult = {
+            batchIndex: batchIndex + 1,
+            originalCount: batch.length,
+            filteredCount: filtered.length,
+            filteredRecords: filtered.slice(0, 5), // Sample
+          };
+          break;
+          
+        case 'sort':
+          const sorted = [...batch].sort((a, b) => (b.value || 0) - (a.value || 0));
+          batchResult = {
+            batchIndex: batchIndex + 1,
+            recordCount: sorted.length,
+            topRecords: sorted.slice(0, 3),
+            bottomRecords: sorted.slice(-3),
+          };
+          break;
+          
+        case 'analyze':
+          batchResult = {
+            batchIndex: batchIndex + 1,
+            statistics: {
+              count: batch.length,
+              avgValue: batch.reduce((sum, r) => sum + (r.value || 0), 0) / batch.length,
               avgScore: batch.reduce((sum, r) => sum + (r.score || 0), 0) / batch.length,
-              categories: [...new Set(batch.map(r => r.category))],
-            };
-            break;
-            
-          case 'transform':
-            batchResult = {
-              batchIndex: batchIndex + 1,
-              transformedRecords: batch.map(r => ({
-                ...r,
-                normalizedValue: (r.value || 0) / 1000,
-                scoreGrade: (r.score || 0) >= 80 ? 'A' : (r.score || 0) >= 60 ? 'B' : 'C',
-              })),
-            };
-            break;
-            
-          case 'filter':
-            const filtered = batch.filter(r => (r.score || 0) > 50);
-            batchResult = {
-              batchIndex: batchIndex + 1,
-              originalCount: batch.length,
-              filteredCount: filtered.length,
-              filteredRecords: filtered.slice(0, 5), // Sample
-            };
-            break;
-            
-          case 'sort':
-            const sorted = [...batch].sort((a, b) => (b.value || 0) - (a.value || 0));
-            batchResult = {
-              batchIndex: batchIndex + 1,
-              recordCount: sorted.length,
-              topRecords: sorted.slice(0, 3),
-              bottomRecords: sorted.slice(-3),
-            };
-            break;
-            
-          case 'analyze':
-            batchResult = {
-              batchIndex: batchIndex + 1,
-              statistics: {
-                count: batch.length,
-                avgValue: batch.reduce((sum, r) => sum + (r.value || 0), 0) / batch.length,
-                avgScore: batch.reduce((sum, r) => sum + (r.score || 0), 0) / batch.length,
-                valueRange: {
-                  min: Math.min(...batch.map(r => r.value || 0)),
-                  max: Math.max(...batch.map(r => r.value || 0)),
-                },
-                regionDistribution: batch.reduce((acc, r) => {
-                  acc[r.region || 'unknown'] = (acc[r.region || 'unknown'] || 0) + 1;
-                  return acc;
-                }, {} as Record<string, number>),
+              valueRange: {
+                min: Math.min(...batch.map(r => r.value || 0)),
+                max: Math.max(...batch.map(r => r.value || 0)),
               },
-            };
-            break;
-        }
-        
-        results.push(batchResult);
-        
-        // Small delay to make progress visible
-        if (progressToken) {
-          await new Promise(resolve => setTimeout(resolve, 50));
-        }
+              regionDistribution: batch.reduce((acc, r) => {
+                acc[r.region || 'unknown'] = (acc[r.region || 'unknown'] || 0) + 1;
+                return acc;
+              }, {} as Record<string, number>),
+            },
+          };
+          break;
       }
+      
+      results.push(batchResult);
+      
+      // Small delay to make progress visible
+      if (progressToken) {
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+    }
+
+    // Cancelled or timed out: report the batches finished so far
+    const stoppedEarly = signal.aborted;
+    const recordsProcessed = Math.min(results.length * batchSize, dataset.length);
 
+    if (!stoppedEarly) {
       await sendProgress(85, 100, 'Processing complete, generating report...');
+    }
 
-      // Step 4: Generate final summary
-      const processingTime = Math.max(1, Math.floor(recordCount * 0.001)); // Simulated time
+    // Step 4: Generate final summary
+    const processingTime = Math.max(1, Math.floor(recordsProcessed * 0.001)); // Simulated time
 
+    if (!stoppedEarly) {
       await sendProgress(95, 100, 'Finalizing results...');
 
-      // Clean up progress token
-      if (progressToken) {
-        activeProgressTokens.delete(progressToken);
-      }
-
       await sendProgress(100, 100, 'Processing complete!');
+    }
 
-      // Generate detailed report
-      const reportText = `# Large Dataset Processing Results
+    // Generate detailed report
+    const reportText = `# Large Dataset Processing Results${stoppedEarly ? ' (Partial)' : ''}
 
 **Operation**: ${operation}
-**Records Processed**: ${recordCount.toLocaleString()}
+**Records Processed**: ${recordsProcessed.toLocaleString()}${stoppedEarly ? ` of ${recordCount.toLocaleString()}` : ''}
 **Batch Size**: ${batchSize}
 **Total Batches**: ${batches}
 **Validation**: ${includeValidation ? 'Enabled' : 'Disabled'}
 **Processing Time**: ~${processingTime}s
-
+${stoppedEarly ? `**Stopped Early**: ${signal.reason instanceof Error ? signal.reason.message : 'Cancelled'} after ${results.length}/${batches} batches
+` : ''}
 ## Operation Summary
 ${operation === 'aggregate' ? `
 **Total Value Sum**: ${results.reduce((sum, b) => sum + (b.totalValue || 0), 0).toLocaleString()}
@@ -796,7 +706,7 @@ ${operation === 'aggregate' ? `
 ${operation === 'filter' ? `
 **Original Records**: ${results.reduce((sum, b) => sum + (b.originalCount || 0), 0)}
 **Filtered Records**: ${results.reduce((sum, b) => sum + (b.filteredCount || 0), 0)}
-**Filter Rate**: ${((results.reduce((sum, b) => sum + (b.filteredCount || 0), 0) / recordCount) * 100).toFixed(1)}%
+**Filter Rate**: ${((results.reduce((sum, b) => sum + (b.filteredCount || 0), 0) / Math.max(1, recordsProcessed)) * 100).toFixed(1)}%
 ` : ''}
 ${operation === 'analyze' ? `
 **Overall Statistics**:
@@ -806,42 +716,33 @@ ${operation === 'analyze' ? `
 
 ## Batch Results (First 3)
 ${results.slice(0, 3).map((batch, i) => 
-  `### Batch ${i + 1}\n${JSON.stringify(batch, null, 2)}`
+`### Batch ${i + 1}\n${JSON.stringify(batch, null, 2)}`
 ).join('\n\n')}
 
 ${progressToken ? '\n*This processing used MCP progress notifications*' : ''}
 *Processing completed at: ${new Date().toLocaleString()}*`;
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: reportText,
-          },
-        ],
-        metadata: {
-          operation,
-          recordsProcessed: recordCount,
-          batchesProcessed: batches,
-          batchSize,
-          validationIncluded: includeValidation,
-          processingDuration: `${processingTime}s`,
-          progressNotificationsUsed: !!progressToken,
-          resultsGenerated: results.length,
+    return {
+      content: [
+        {
+          type: 'text',
+          text: reportText,
         },
-      };
-
-    } catch (error) {
-      logger.error('Large dataset processing failed', error);
-      
-      // Clean up progress token on error
-      const progressToken = extra?._meta?.progressToken;
-      if (progressToken && activeProgressTokens.has(progressToken)) {
-        activeProgressTokens.delete(progressToken);
-      }
-      
-      return createErrorResponse(error, 'Large dataset processing failed');
-    }
+      ],
+      metadata: {
+        operation,
+        recordsProcessed,
+        batchesProcessed: results.length,
+        totalBatches: batches,
+        stoppedEarly,
+        batchSize,
+        validationIncluded: includeValidation,
+        processingDuration: `${processingTime}s`,
+        progressNotificationsUsed: !!progressToken,
+        resultsGenerated: results.length,
+        taskId,
+      },
+    };
   }
 );
 
@@ -1757,182 +1658,18 @@ function formatAnalysisReport(analysis: any): string {
   return { mcpServer: server, baseServer };
 }
 
-// Store transports by session ID for HTTP mode
-const transports: Record<string, StreamableHTTPServerTransport | SSEServerTransport> = {};
-
-async function startStdioServer() {
-  logger.info('Starting MCP Analytics Server (stdio mode)');
-
-  try {
-    const { mcpServer } = createMCPServer();
-    const transport = new StdioServerTransport();
-    await mcpServer.connect(transport);
-    
-    logger.info('Analytics Server connected and ready (stdio)');
-    
-    // Handle graceful shutdown
-    process.on('SIGINT', async () => {
-      logger.info('Shutting down server...');
-      await mcpServer.close();
-      process.exit(0);
-    });
-
-    process.on('SIGTERM', async () => {
-      logger.info('Shutting down server...');
-      await mcpServer.close();
-      process.exit(0);
-    });
-  } catch (error) {
-    logger.error('Failed to start stdio server', error);
-    process.exit(1);
-  }
-}
-
-async function startHttpServer() {
-  logger.info(`Starting MCP Analytics Server (HTTP mode on port ${port})`);
-
-  const app = express();
-  app.use(express.json());
-  
-  // Configure CORS
-  app.use(cors({
-    origin: '*',
-    exposedHeaders: ['Mcp-Session-Id']
-  }));
-
-  // Health check endpoint
-  app.get('/health', (_req, res) => {
-    res.json({ status: 'ok', server: 'analytics-server', version: '1.0.0' });
-  });
-
-  // Server info endpoint
-  app.get('/', (_req, res) => {
-    res.json({
-      server: 'analytics-server',
-      version: '1.0.0',
-      description: 'MCP Analytics Server',
-      endpoints: ['/health', '/mcp', '/sse'],
-      protocol: 'MCP 2025-03-26',
-      capabilities: ['tools', 'resources', 'prompts', 'sampling', 'elicitation']
-    });
-  });
-
-  // STREAMABLE HTTP TRANSPORT (PROTOCOL VERSION 2025-03-26)
-  app.all('/mcp', async (req, res) => {
-    logger.info(`Received ${req.method} request to /mcp`);
-    
-    try {
-      const sessionId = req.headers['mcp-session-id'] as string;
-      let transport: StreamableHTTPServerTransport;
-
-      if (sessionId && transports[sessionId]) {
-        const existingTransport = transports[sessionId];
-        if (existingTransport instanceof StreamableHTTPServerTransport) {
-          transport = existingTransport;
-        } else {
-          res.status(400).json({
-            jsonrpc: '2.0',
-            error: { code: -32000, message: 'Bad Request: Session exists but uses a different transport protocol' },
-            id: null,
-          });
-          return;
-        }
-      } else if (!sessionId && req.method === 'POST' && isInitializeRequest(req.body)) {
-        transport = new StreamableHTTPServerTransport({
-          sessionIdGenerator: () => randomUUID(),
-          onsessioninitialized: (sessionId: string) => {
-            logger.info(`StreamableHTTP session initialized with ID: ${sessionId}`);
-            transports[sessionId] = transport;
-          }
-        });
-
-        transport.onclose = () => {
-          const sid = transport.sessionId;
-          if (sid && transports[sid]) {
-            logger.info(`Transport closed for session ${sid}, removing from transports map`);
-            delete transports[sid];
-          }
-        };
-
-        const { mcpServer } = createMCPServer();
-        await mcpServer.connect(transport);
-      } else {
-        res.status(400).json({
-          jsonrpc: '2.0',
-          error: { code: -32000, message: 'Bad Request: No valid session ID provided' },
-          id: null,
-        });
-        return;
-      }
-
-      await transport.handleRequest(req, res, req.body);
-    } catch (error) {
-      logger.error('Error handling MCP request:', error);
-      if (!res.headersSent) {
-        res.status(500).json({
-          jsonrpc: '2.0',
-          error: { code: -32603, message: 'Internal server error' },
-          id: null,
-        });
-      }
-    }
-  });
-
-  // Start the server
-  app.listen(port, (error?: Error) => {
-    if (error) {
-      logger.error('Failed to start HTTP server:', error);
-      process.exit(1);
-    }
-    
-    logger.info(`Analytics HTTP Server listening on port ${port}`);
-    console.log(`
-==============================================
-MCP ANALYTICS SERVER
-
-Transport: HTTP/SSE
-Port: ${port}
-
-Available Tools:
-- analyze_csv: Analyze CSV file and provide insights
-- generate_sample_data: Generate sample dataset
-- calculate_statistics: Calculate statistical measures
-
-Available Resources:
-- analytics://datasets/samples: Sample datasets
-
-Available Prompts:
-- data_analysis_workflow: Data analysis workflow guide
-==============================================
-`);
-  });
-
-  // Handle server shutdown
-  process.on('SIGINT', async () => {
-    logger.info('Shutting down HTTP server...');
-    for (const sessionId in transports) {
-      try {
-        await transports[sessionId]!.close();
-        delete transports[sessionId];
-      } catch (error) {
-        logger.error(`Error closing transport for session ${sessionId}:`, error);
-      }
-    }
-    process.exit(0);
-  });
-}
-
 // Main execution
 async function main() {
-  if (transportArg === 'http') {
-    await startHttpServer();
-  } else {
-    await startStdioServer();
-  }
+  const app = createServerApp(
+    { name: 'analytics-server', version: '1.0.0', description: 'MCP Analytics Server', httpPort: 3002, ...parseServerArgs() },
+    createMCPServer,
+    { onClose: () => { taskManager.close(); } }
+  );
+  await app.start();
 }
 
 // Run the server
 main().catch((error) => {
-  logger.error('Failed to start server:', error);
+  serverLogger.error('Failed to start server:', error);
   process.exit(1);
-});
\ No newline at end of file
+});
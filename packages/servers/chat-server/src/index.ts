@@ -2,25 +2,167 @@
 
 import express from 'express';
 import cors from 'cors';
-import Anthropic from '@anthropic-ai/sdk';
+import { randomUUID } from 'node:crypto';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
 import { CreateMessageRequestSchema, ElicitRequestSchema } from '@modelcontextprotocol/sdk/types.js';
 import { 
   Logger,
+  Tracer,
+  getTracer,
+  setTracer,
+  instrumentMcp,
+  metricsHandler,
+  parseTraceparent,
   LLMProviderManager,
+  LLMError,
+  LocalConfig,
+  ReplayConfig,
+  ReplayMode,
+  ReplayProvider,
+  RateLimiter,
+  ConversationManager,
+  ContextStrategy,
+  getContextWindow,
+  summarizeWith,
   StreamingChunk,
   Message as LLMMessage,
   ChatCompletionOptions,
-  ToolCall
+  ContentPart,
+  MessageContent,
+  ToolCall,
+  ToolDefinition,
+  LLMProvider,
+  getTextContent,
+  getUnsupportedInputFormats
 } from '@mcp-demo/core';
 
 const logger = new Logger('chat-server');
+setTracer(Tracer.fromEnv('chat-server'));
 
 // Configuration
 const PORT = 4000;
 const DEV_TOOLS_URL = 'http://localhost:3001/mcp';
 const SKIP_MCP_CONNECTION = process.env.SKIP_MCP_CONNECTION === 'true';
+// OpenAI-compatible local server (Ollama, llama.cpp, vLLM); LOCAL_LLM_MOCK=true needs no server
+const LOCAL_LLM_BASE_URL = process.env.LOCAL_LLM_BASE_URL;
+const LOCAL_LLM_MODEL = process.env.LOCAL_LLM_MODEL;
+const LOCAL_LLM_MOCK = process.env.LOCAL_LLM_MOCK === 'true';
+const LOCAL_LLM_ENABLED = Boolean(LOCAL_LLM_BASE_URL) || LOCAL_LLM_MOCK;
+// Cassette of recorded LLM exchanges; replay mode serves it without API keys
+const LLM_CASSETTE = process.env.LLM_CASSETTE;
+const LLM_CASSETTE_MODE = (process.env.LLM_CASSETTE_MODE || 'replay') as ReplayMode;
+const LLM_REPLAY_ONLY = Boolean(LLM_CASSETTE) && LLM_CASSETTE_MODE === 'replay';
+
+// Models used by the chat loop; local providers use their configured default
+const CHAT_MODELS: Record<string, string | undefined> = {
+  claude: 'claude-3-5-haiku-20241022',
+  openai: 'gpt-4o-mini'
+};
+
+// Multi-turn sessions: older turns are summarized (or dropped with 'truncate') to fit the model
+const CHAT_CONTEXT_STRATEGY = (process.env.CHAT_CONTEXT_STRATEGY || 'summarize') as ContextStrategy;
+// Least recently used sessions are forgotten beyond this many
+const MAX_CHAT_SESSIONS = 100;
+
+function optionalNumber(value: string | undefined): number | undefined {
+  return value ? Number(value) : undefined;
+}
+
+// Client-side limits shared by all LLM providers
+const llmRateLimiter = new RateLimiter({
+  requestsPerMinute: optionalNumber(process.env.LLM_RATE_LIMIT_RPM),
+  tokensPerMinute: optionalNumber(process.env.LLM_RATE_LIMIT_TPM),
+  dailyTokenBudget: optionalNumber(process.env.LLM_DAILY_TOKEN_BUDGET),
+  dailyCostBudget: optionalNumber(process.env.LLM_DAILY_COST_BUDGET),
+});
+
+// Files sent along with a chat message
+interface ChatAttachment {
+  type: 'image' | 'document';
+  mediaType?: string;
+  /** Base64-encoded file contents */
+  data?: string;
+  url?: string;
+  name?: string;
+}
+
+// Builds the user message content from the request's message and attachments
+function buildUserContent(message: string, attachments: ChatAttachment[] = []): MessageContent {
+  if (attachments.length === 0) {
+    return message;
+  }
+  return [{ type: 'text', text: message }, ...attachments.map(toContentPart)];
+}
+
+function toContentPart(attachment: ChatAttachment, index: number): ContentPart {
+  const label = attachment.name || `attachment ${index + 1}`;
+  if (attachment.type !== 'image' && attachment.type !== 'document') {
+    throw new Error(`${label}: type must be 'image' or 'document'`);
+  }
+  if (!attachment.data && !attachment.url) {
+    throw new Error(`${label}: either data (base64) or url is required`);
+  }
+  if (attachment.data && !attachment.mediaType) {
+    throw new Error(`${label}: mediaType is required with data`);
+  }
+
+  if (attachment.type === 'image') {
+    return {
+      type: 'image',
+      source: attachment.data
+        ? { type: 'base64', mediaType: attachment.mediaType!, data: attachment.data }
+        : { type: 'url', url: attachment.url! }
+    };
+  }
+
+  // Text files are decoded so every provider can read them
+  if (attachment.data && attachment.mediaType!.startsWith('text/')) {
+    return {
+      type: 'document',
+      source: { type: 'text', text: Buffer.from(attachment.data, 'base64').toString('utf-8') },
+      name: attachment.name
+    };
+  }
+  return {
+    type: 'document',
+    source: attachment.data
+      ? { type: 'base64', mediaType: attachment.mediaType!, data: attachment.data }
+      : { type: 'url', url: attachment.url! },
+    name: attachment.name
+  };
+}
+
+// Answers a tool call in the next request; providers translate it to their own format
+function toolResultMessage(toolCall: ToolCall, content: unknown): LLMMessage {
+  return {
+    role: 'tool',
+    content: typeof content === 'string' ? content : JSON.stringify(content || {}),
+    toolCallId: toolCall.id
+  };
+}
+
+// Runs a route handler in a server span, continuing the caller's trace if it sent a traceparent header
+function traced(
+  name: string,
+  handler: (req: express.Request, res: express.Response) => Promise<unknown>
+): (req: express.Request, res: express.Response) => Promise<void> {
+  return (req, res) => getTracer().trace(
+    name,
+    {
+      kind: 'server',
+      parent: parseTraceparent(req.get('traceparent')) ?? null,
+      attributes: { 'http.request.method': req.method, 'url.path': req.path }
+    },
+    async span => {
+      await handler(req, res);
+      span.setAttribute('http.response.status_code', res.statusCode);
+      if (res.statusCode >= 500) {
+        span.setStatus('error');
+      }
+    }
+  );
+}
 
 // Elicitation request tracking
 interface PendingElicitation {
@@ -34,43 +176,67 @@ interface PendingElicitation {
 
 // Enhanced Chat Service with LLM Provider Support
 class EnhancedChatService {
-  private anthropic: Anthropic; // Keep for backward compatibility
   private devToolsClient: Client | null = null;
   private pendingElicitations: Map<string, PendingElicitation> = new Map();
   private llmManager: LLMProviderManager;
   private currentProvider: string = 'claude';
+  private conversations: Map<string, ConversationManager> = new Map();
 
-  constructor(apiKey: string, openaiKey?: string) {
-    this.anthropic = new Anthropic({
-      apiKey: apiKey,
-    });
-    
+  constructor(apiKey?: string, openaiKey?: string) {
     // Initialize LLM provider manager
     this.llmManager = new LLMProviderManager();
     this.initializeProviders(apiKey, openaiKey);
   }
 
-  private async initializeProviders(claudeKey: string, openaiKey?: string): Promise<void> {
-    try {
-      // Add Claude provider
-      await this.llmManager.addProvider('claude', 'claude', {
-        name: 'Claude',
-        apiKey: claudeKey
-      });
-      
-      // Add OpenAI provider if key is available
-      if (openaiKey) {
-        await this.llmManager.addProvider('openai', 'openai', {
-          name: 'OpenAI',
-          apiKey: openaiKey
-        });
+  private async initializeProviders(claudeKey?: string, openaiKey?: string): Promise<void> {
+    const localConfig: LocalConfig = {
+      name: 'Local',
+      apiKey: process.env.LOCAL_LLM_API_KEY,
+      baseUrl: LOCAL_LLM_BASE_URL,
+      defaultModel: LOCAL_LLM_MODEL,
+      mock: LOCAL_LLM_MOCK,
+      vision: process.env.LOCAL_LLM_VISION === 'true',
+      rateLimiter: llmRateLimiter
+    };
+    const replayConfig: ReplayConfig = {
+      name: 'Replay',
+      apiKey: '',
+      cassette: LLM_CASSETTE,
+      mode: LLM_CASSETTE_MODE,
+      recordFrom: claudeKey ? { type: 'claude', config: { name: 'Claude', apiKey: claudeKey, rateLimiter: llmRateLimiter } } : undefined
+    };
+
+    // Each provider is added on its own so an unreachable one doesn't block the rest
+    const providers = [
+      { name: 'claude', enabled: Boolean(claudeKey), config: { name: 'Claude', apiKey: claudeKey || '', rateLimiter: llmRateLimiter } },
+      { name: 'openai', enabled: Boolean(openaiKey), config: { name: 'OpenAI', apiKey: openaiKey || '', rateLimiter: llmRateLimiter } },
+      { name: 'local', enabled: LOCAL_LLM_ENABLED, config: localConfig },
+      { name: 'replay', enabled: Boolean(LLM_CASSETTE), config: replayConfig }
+    ] as const;
+
+    for (const { name, enabled, config } of providers) {
+      if (!enabled) continue;
+      try {
+        await this.llmManager.addProvider(name, name, config);
+      } catch (error) {
+        logger.error(`❌ Failed to initialize LLM provider ${name}:`, error);
       }
-      
-      logger.info('✅ LLM providers initialized successfully');
-      logger.info('📋 Available providers:', this.llmManager.listProviders());
-    } catch (error) {
-      logger.error('❌ Failed to initialize LLM providers:', error);
     }
+
+    // Prefer Claude, then OpenAI, then the local model when providers keep failing
+    const available = this.llmManager.listProviders().map(p => p.name);
+    this.llmManager.setFallbackChain(
+      providers.map(p => p.name).filter(name => name !== 'replay' && available.includes(name))
+    );
+    if (available.includes('replay')) {
+      // A configured cassette takes over so runs are deterministic
+      this.currentProvider = 'replay';
+    } else if (!available.includes(this.currentProvider) && available[0]) {
+      this.currentProvider = available[0];
+    }
+
+    logger.info('✅ LLM providers initialized');
+    logger.info('📋 Available providers:', this.llmManager.listProviders());
   }
 
   async connectToDevTools(): Promise<void> {
@@ -86,6 +252,8 @@ class EnhancedChatService {
           elicitation: {}
         }
       });
+      // Tool calls and the sampling requests they trigger share the chat request's trace
+      instrumentMcp(this.devToolsClient);
 
       const transport = new StreamableHTTPClientTransport(new URL(DEV_TOOLS_URL));
       await this.devToolsClient.connect(transport);
@@ -103,8 +271,6 @@ class EnhancedChatService {
             throw new Error('Invalid messages in sampling request');
           }
 
-          logger.info('📤 Forwarding sampling request to Claude API...');
-
           // Convert MCP message format to Claude API format
           const claudeMessages = messages.map((msg: any) => ({
             role: msg.role,
@@ -113,21 +279,23 @@ class EnhancedChatService {
                     JSON.stringify(msg.content)
           }));
 
-          // Use our Claude service to handle the sampling request
-          const response = await this.anthropic.messages.create({
-            model: modelPreferences?.hints?.[0]?.name || 'claude-3-5-haiku-20241022',
-            max_tokens: maxTokens || 1000,
-            messages: claudeMessages
-          });
-
-          // Extract the first text content from Claude's response array
-          const textContent = response.content.find((item: any) => item.type === 'text');
-          
+          // Through the provider manager, so sampling counts against the rate limits and budgets
+          logger.info(`📤 Forwarding sampling request to ${this.currentProvider}...`);
+          const modelHint = modelPreferences?.hints?.[0]?.name;
+          const completion = await this.llmManager.chatCompletion(
+            {
+              messages: claudeMessages,
+              maxTokens: maxTokens || 1000,
+              // Model hints name Claude models, so other providers use their default
+              ...(this.currentProvider === 'claude' && modelHint && { model: modelHint })
+            },
+            { provider: this.currentProvider }
+          );
           const result = {
-            model: response.model,
-            content: textContent || { type: 'text' as const, text: 'No response generated' },
+            model: completion.model,
+            content: { type: 'text' as const, text: completion.content || 'No response generated' },
             role: 'assistant' as const,
-            stopReason: response.stop_reason || 'end_turn'
+            stopReason: completion.finishReason === 'length' ? 'maxTokens' : 'endTurn'
           };
 
           logger.info('📥 MCP SAMPLING RESPONSE sent back to server:');
@@ -189,7 +357,8 @@ class EnhancedChatService {
             }, 30000); // 30 second timeout for testing
           });
           
-          logger.info('📥 Elicitation response received:', response);
+          // The answers themselves are user data and stay out of the logs
+          logger.info('📥 Elicitation response received:', { action: response.action });
           return response;
           
         } catch (error) {
@@ -217,7 +386,7 @@ class EnhancedChatService {
       return;
     }
     
-    logger.info(`✅ Processing elicitation response for ${elicitationId}:`, response);
+    logger.info(`✅ Processing elicitation response for ${elicitationId}:`, { action: response?.action });
     
     // Resolve the promise with the user's response
     pendingRequest.resolve(response);
@@ -252,6 +421,23 @@ class EnhancedChatService {
     }
   }
 
+  // Dev-tools tools in the provider-neutral format of chat requests
+  private async getLLMTools(): Promise<ToolDefinition[]> {
+    const tools = await this.getAvailableTools();
+    return tools.map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.input_schema
+    }));
+  }
+
+  // Replayed exchanges follow the conventions of the provider they were recorded from
+  private wireProviderOf(llmProvider: LLMProvider): string {
+    return llmProvider instanceof ReplayProvider
+      ? llmProvider.recordedProvider ?? llmProvider.name
+      : llmProvider.name;
+  }
+
   async executeToolCall(toolName: string, args: any): Promise<any> {
     if (!this.devToolsClient) {
       logger.info('Dev-tools client not connected, cannot execute tool calls');
@@ -283,37 +469,34 @@ class EnhancedChatService {
   }
 
   // Enhanced streaming chat method with tool execution support
-  async *chatStream(userMessage: string, provider?: string): AsyncIterable<StreamingChunk> {
+  async *chatStream(userMessage: MessageContent, provider?: string, sessionId?: string): AsyncIterable<StreamingChunk> {
     try {
-      logger.info('Processing streaming chat request with tool support:', userMessage);
+      logger.info('Processing streaming chat request with tool support:', getTextContent(userMessage));
+
+      // getProvider skips providers that are cooling down after repeated failures
+      const llmProvider = this.llmManager.getProvider(provider || this.currentProvider);
+      const selectedProvider = llmProvider.name;
+      const wireProvider = this.wireProviderOf(llmProvider);
+      // OpenAI and local providers stream tool call arguments as JSON fragments
+      const usesOpenAIFormat = wireProvider !== 'claude';
 
-      const selectedProvider = provider || this.currentProvider;
-      
       // Check if provider supports chat completion streaming
-      const llmProvider = this.llmManager.getProvider(selectedProvider);
       if (!llmProvider.chatCompletionStream) {
         // Fall back to simple streaming without tool execution
         logger.warn(`Provider ${selectedProvider} doesn't support chatCompletionStream, falling back to simple streaming`);
-        yield* this.simpleStream(userMessage, selectedProvider);
+        yield* this.simpleStream(getTextContent(userMessage), selectedProvider);
         return;
       }
 
-      // Get available tools from dev-tools server
-      const tools = await this.getAvailableTools();
-      
-      const messages: LLMMessage[] = [
-        {
-          role: 'user',
-          content: userMessage
-        }
-      ];
-      
-      // Convert MCP tools to LLM tool format
-      const llmTools = tools.map(tool => ({
-        name: tool.name,
-        description: tool.description,
-        parameters: tool.input_schema
-      }));
+      const llmTools = await this.getLLMTools();
+
+      // Earlier turns of the session, trimmed to fit the model's context window
+      const conversation = this.getConversation(sessionId);
+      const messages: LLMMessage[] = await conversation.getContext(
+        { ...getContextWindow(llmProvider, CHAT_MODELS[wireProvider]), tools: llmTools },
+        [{ role: 'user', content: userMessage }]
+      );
+      const turnStart = messages.length - 1;
 
       // Tool execution loop for streaming
       while (true) {
@@ -321,7 +504,7 @@ class EnhancedChatService {
           messages,
           tools: llmTools,
           maxTokens: 4096,
-          model: selectedProvider === 'openai' ? 'gpt-4o-mini' : 'claude-3-5-haiku-20241022'
+          model: CHAT_MODELS[wireProvider]
         };
 
         // Accumulate tool calls from streaming chunks
@@ -331,7 +514,8 @@ class EnhancedChatService {
         let hasYieldedContent = false;
         
         // Stream the response
-        for await (const chunk of llmProvider.chatCompletionStream(chatOptions)) {
+        // Retries stay on the selected provider since tool handling below is provider-specific
+        for await (const chunk of this.llmManager.chatCompletionStream(chatOptions, { provider: selectedProvider, fallback: false })) {
           // Yield content chunks to client immediately
           if (chunk.content) {
             accumulatedContent += chunk.content;
@@ -367,7 +551,7 @@ class EnhancedChatService {
                 
                 // Handle arguments - OpenAI sends them as strings that need to be accumulated
                 if (toolCall && partialToolCall.arguments !== undefined) {
-                  if (selectedProvider === 'openai' && typeof partialToolCall.arguments === 'string') {
+                  if (usesOpenAIFormat && typeof partialToolCall.arguments === 'string') {
                     // For OpenAI, accumulate argument strings
                     // Use any casting for the temporary argumentsStr property
                     const toolCallAny = toolCall as any;
@@ -404,7 +588,7 @@ class EnhancedChatService {
         }
 
         // Final parse of accumulated arguments for OpenAI (in case parsing failed during streaming)
-        if (selectedProvider === 'openai') {
+        if (usesOpenAIFormat) {
           for (const toolCall of accumulatedToolCalls) {
             if ((toolCall as any).argumentsStr && Object.keys(toolCall.arguments).length === 0) {
               try {
@@ -442,7 +626,7 @@ class EnhancedChatService {
         });
 
         // Check if we need to execute tools
-        if (accumulatedToolCalls.length > 0 && (finishReason === 'tool_calls' || selectedProvider === 'claude')) {
+        if (accumulatedToolCalls.length > 0 && (finishReason === 'tool_calls' || wireProvider === 'claude')) {
           logger.info(`${selectedProvider} wants to use tools in streaming:`, accumulatedToolCalls.map(tc => tc.name));
           logger.info('Tool calls with arguments:', accumulatedToolCalls.map(tc => ({ 
             name: tc.name, 
@@ -466,12 +650,12 @@ class EnhancedChatService {
               
               // For OpenAI with empty arguments, provide defaults based on context
               let toolArgs = toolCall.arguments;
-              if (selectedProvider === 'openai' && Object.keys(toolArgs).length === 0) {
+              if (usesOpenAIFormat && Object.keys(toolArgs).length === 0) {
                 logger.warn(`Empty arguments for tool ${toolCall.name}, attempting to extract from context`);
                 
                 if (toolCall.name === 'format_code') {
                   // Extract code from the user message - handle multiline code
-                  const codeMatch = userMessage.match(/format this code[:\s]*(.+)/is);
+                  const codeMatch = getTextContent(userMessage).match(/format this code[:\s]*(.+)/is);
                   if (codeMatch && codeMatch[1]) {
                     toolArgs = {
                       code: codeMatch[1].trim(),
@@ -480,7 +664,7 @@ class EnhancedChatService {
                   }
                 } else if (toolCall.name === 'read_file') {
                   // Extract file path from user message
-                  const pathMatch = userMessage.match(/read\s+(?:file\s+)?([\w\/.]+)/i);
+                  const pathMatch = getTextContent(userMessage).match(/read\s+(?:file\s+)?([\w\/.]+)/i);
                   if (pathMatch && pathMatch[1]) {
                     toolArgs = {
                       path: pathMatch[1]
@@ -497,48 +681,14 @@ class EnhancedChatService {
               );
               
               // Add tool result to messages
-              if (selectedProvider === 'openai') {
-                messages.push({
-                  role: 'tool',
-                  content: toolResult && typeof toolResult.content === 'string' 
-                    ? toolResult.content 
-                    : JSON.stringify(toolResult?.content || {}),
-                  toolCallId: toolCall.id
-                });
-              } else {
-                messages.push({
-                  role: 'user',
-                  content: JSON.stringify([{
-                    type: 'tool_result',
-                    tool_use_id: toolCall.id,
-                    content: toolResult.content,
-                    is_error: toolResult.isError
-                  }])
-                });
-              }
+              messages.push(toolResultMessage(toolCall, toolResult?.content));
             } catch (error) {
               logger.error(`Tool execution failed for ${toolCall.name}:`, error);
               
               // Yield error indicator
               yield { content: `[Tool execution failed: ${error}]\n` };
               
-              if (selectedProvider === 'openai') {
-                messages.push({
-                  role: 'tool',
-                  content: `Tool execution failed: ${error}`,
-                  toolCallId: toolCall.id
-                });
-              } else {
-                messages.push({
-                  role: 'user',
-                  content: JSON.stringify([{
-                    type: 'tool_result',
-                    tool_use_id: toolCall.id,
-                    content: `Tool execution failed: ${error}`,
-                    is_error: true
-                  }])
-                });
-              }
+              messages.push(toolResultMessage(toolCall, `Tool execution failed: ${error}`));
             }
           }
           
@@ -550,6 +700,7 @@ class EnhancedChatService {
         }
         
         // No tool calls or tools completed, we're done
+        conversation.add(...messages.slice(turnStart));
         logger.info('Streaming chat completed');
         break;
       }
@@ -577,215 +728,49 @@ class EnhancedChatService {
     const streamOptions = {
       tools: llmTools,
       maxTokens: 4096,
-      model: provider === 'openai' ? 'gpt-4o-mini' : 'claude-3-5-haiku-20241022'
+      model: CHAT_MODELS[provider]
     };
 
     // Stream the response without tool execution
     yield* llmProvider.stream(userMessage, streamOptions);
   }
 
-  // Enhanced chat method with provider selection using provider-specific implementations
-  async chat(userMessage: string, provider?: string): Promise<string> {
-    try {
-      logger.info('Processing chat request:', userMessage);
-      
-      const selectedProvider = provider || this.currentProvider;
-      
-      // For Claude, use the legacy implementation that has proper tool handling
-      if (selectedProvider === 'claude') {
-        return this.legacyChat(userMessage);
-      }
-      
-      // For OpenAI, implement tool handling directly
-      if (selectedProvider === 'openai') {
-        return this.openAIChat(userMessage);
-      }
-      
-      // For other providers, fall back to simple completion without tool execution
-      const llmProvider = this.llmManager.getProvider(selectedProvider);
-      const response = await llmProvider.complete(userMessage, { maxTokens: 4096 });
-      return response.content;
-      
-    } catch (error) {
-      logger.error('Chat processing failed:', error);
-      throw error;
-    }
-  }
-
-  // OpenAI-specific chat implementation with tool handling
-  private async openAIChat(userMessage: string): Promise<string> {
+  // Chat with tool execution, through the provider manager like chatStream()
+  async chat(userMessage: MessageContent, provider?: string, sessionId?: string): Promise<string> {
     try {
-      logger.info('Processing OpenAI chat request:', userMessage);
+      logger.info('Processing chat request:', getTextContent(userMessage));
 
-      // Get available tools from dev-tools server
-      const tools = await this.getAvailableTools();
-      
-      // We'll need to make direct API calls to OpenAI
-      const openaiApiKey = process.env.OPENAI_API_KEY;
-      if (!openaiApiKey) {
-        throw new Error('OPENAI_API_KEY not configured');
-      }
+      const llmProvider = this.llmManager.getProvider(provider || this.currentProvider);
+      const selectedProvider = llmProvider.name;
+      const wireProvider = this.wireProviderOf(llmProvider);
+      const llmTools = await this.getLLMTools();
 
-      const messages: any[] = [
-        {
-          role: 'user',
-          content: userMessage
-        }
-      ];
-
-      // Convert MCP tools to OpenAI format
-      const openAITools = tools.map(tool => ({
-        type: 'function',
-        function: {
-          name: tool.name,
-          description: tool.description,
-          parameters: tool.input_schema
-        }
-      }));
+      const conversation = this.getConversation(sessionId);
+      const messages: LLMMessage[] = await conversation.getContext(
+        { ...getContextWindow(llmProvider, CHAT_MODELS[wireProvider]), tools: llmTools },
+        [{ role: 'user', content: userMessage }]
+      );
+      const turnStart = messages.length - 1;
 
       // Tool execution loop
       while (true) {
-        const response = await fetch('https://api.openai.com/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${openaiApiKey}`
-          },
-          body: JSON.stringify({
-            model: 'gpt-4o-mini',
-            messages: messages,
-            tools: openAITools,
-            tool_choice: 'auto',
-            max_tokens: 4096
-          })
-        });
-
-        if (!response.ok) {
-          throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`);
-        }
-
-        const data = await response.json();
-        const choice = data.choices[0];
-        const message = choice.message;
-
-        // Add assistant's response to conversation
-        messages.push(message);
-
-        // Check if OpenAI wants to use tools
-        if (message.tool_calls && message.tool_calls.length > 0) {
-          logger.info('OpenAI wants to use tools:', message.tool_calls.map((tc: any) => tc.function.name));
-          
-          // Execute all tool calls
-          for (const toolCall of message.tool_calls) {
-            try {
-              logger.info(`Executing tool: ${toolCall.function.name} with args:`, toolCall.function.arguments);
-              
-              const args = JSON.parse(toolCall.function.arguments);
-              const toolResult = await this.executeToolCall(
-                toolCall.function.name,
-                args
-              );
-              
-              // Add tool result as a tool message
-              messages.push({
-                role: 'tool',
-                content: toolResult && typeof toolResult.content === 'string' 
-                  ? toolResult.content 
-                  : JSON.stringify(toolResult?.content || {}),
-                tool_call_id: toolCall.id
-              });
-            } catch (error) {
-              logger.error(`Tool execution failed for ${toolCall.function.name}:`, error);
-              
-              // Add error result
-              messages.push({
-                role: 'tool',
-                content: `Tool execution failed: ${error}`,
-                tool_call_id: toolCall.id
-              });
-            }
-          }
-          
-          // Continue the loop to get the final response after tool execution
-          continue;
-        }
-        
-        // No tool calls, return the final response
-        logger.info('OpenAI chat completed');
-        return message.content || '';
-      }
-    } catch (error) {
-      logger.error('OpenAI chat processing failed:', error);
-      throw error;
-    }
-  }
-
-  // Legacy method for backward compatibility
-  async legacyChat(userMessage: string): Promise<string> {
-    try {
-      logger.info('Processing legacy chat request:', userMessage);
-
-      // Get available tools from dev-tools server
-      const tools = await this.getAvailableTools();
-      
-      const messages: Anthropic.Messages.MessageParam[] = [
-        {
-          role: 'user',
-          content: userMessage
+        // Retries stay on the selected provider, which the earlier tool calls came from
+        const response = await this.llmManager.chatCompletion(
+          { messages, tools: llmTools, maxTokens: 4096, model: CHAT_MODELS[wireProvider] },
+          { provider: selectedProvider, fallback: false }
+        );
+        messages.push({ role: 'assistant', content: response.content, ...(response.toolCalls && { toolCalls: response.toolCalls }) });
+
+        if (!response.toolCalls?.length) {
+          conversation.add(...messages.slice(turnStart));
+          logger.info('Chat completed');
+          return response.content;
         }
-      ];
-
-      // Chat loop - similar to Python reference
-      while (true) {
-        const response = await this.anthropic.messages.create({
-          model: 'claude-3-5-haiku-20241022',
-          max_tokens: 4096,
-          messages: messages,
-          tools: tools
-        });
-
-        // Add Claude's response to conversation
-        messages.push({
-          role: 'assistant',
-          content: response.content
-        });
-
-        // Check if Claude wants to use tools
-        if (response.stop_reason === 'tool_use') {
-          logger.info('Claude wants to use tools');
-          
-          const toolResults: any[] = [];
-          
-          for (const content of response.content) {
-            if (content.type === 'tool_use') {
-              const toolResult = await this.executeToolCall(
-                content.name,
-                content.input
-              );
-              
-              toolResults.push({
-                type: 'tool_result',
-                tool_use_id: content.id,
-                content: toolResult.content,
-                is_error: toolResult.isError
-              });
-            }
-          }
 
-          // Add tool results back to conversation
-          messages.push({
-            role: 'user',
-            content: toolResults
-          });
-        } else {
-          // Claude is done, extract final response
-          const finalResponse = response.content
-            .filter(content => content.type === 'text')
-            .map(content => (content as any).text)
-            .join('\n');
-          
-          logger.info('Chat completed');
-          return finalResponse;
+        logger.info(`${selectedProvider} wants to use tools:`, response.toolCalls.map(tc => tc.name));
+        for (const toolCall of response.toolCalls) {
+          const toolResult = await this.executeToolCall(toolCall.name, toolCall.arguments);
+          messages.push(toolResultMessage(toolCall, toolResult.content));
         }
       }
     } catch (error) {
@@ -799,6 +784,16 @@ class EnhancedChatService {
     return this.llmManager.listProviders();
   }
 
+  getUsage() {
+    return this.llmManager.getUsage();
+  }
+
+  // Input formats in the content that the provider can't read
+  getUnsupportedInputFormats(content: MessageContent, provider?: string) {
+    const { capabilities } = this.llmManager.getProviderCapabilities(provider || this.currentProvider);
+    return getUnsupportedInputFormats([{ role: 'user', content }], capabilities);
+  }
+
   setCurrentProvider(providerName: string) {
     this.currentProvider = providerName;
     logger.info(`Switched to provider: ${providerName}`);
@@ -807,25 +802,57 @@ class EnhancedChatService {
   getCurrentProvider() {
     return this.currentProvider;
   }
+
+  // Session history; without a session id the exchange isn't remembered
+  private getConversation(sessionId?: string): ConversationManager {
+    if (!sessionId) {
+      return new ConversationManager();
+    }
+
+    let conversation = this.conversations.get(sessionId);
+    if (conversation) {
+      // Re-inserting keeps the map in least recently used order
+      this.conversations.delete(sessionId);
+    } else {
+      conversation = new ConversationManager({
+        strategy: CHAT_CONTEXT_STRATEGY,
+        summarizer: summarizeWith({
+          complete: (prompt, options) => this.llmManager.complete(prompt, options, { provider: this.currentProvider })
+        })
+      });
+    }
+    this.conversations.set(sessionId, conversation);
+
+    if (this.conversations.size > MAX_CHAT_SESSIONS) {
+      this.conversations.delete(this.conversations.keys().next().value!);
+    }
+    return conversation;
+  }
+
+  endSession(sessionId: string): boolean {
+    return this.conversations.delete(sessionId);
+  }
 }
 
 // Express server setup
 async function startServer() {
   const app = express();
   
-  app.use(express.json());
+  // Attachments arrive base64-encoded in the JSON body
+  app.use(express.json({ limit: '20mb' }));
   app.use(cors({
     origin: '*',
-    methods: ['GET', 'POST'],
-    allowedHeaders: ['Content-Type']
+    methods: ['GET', 'POST', 'DELETE'],
+    allowedHeaders: ['Content-Type', 'traceparent'],
+    exposedHeaders: ['X-Session-Id']
   }));
 
   // Check for API keys
   const claudeApiKey = process.env.ANTHROPIC_API_KEY;
   const openaiApiKey = process.env.OPENAI_API_KEY;
   
-  if (!claudeApiKey) {
-    logger.error('ANTHROPIC_API_KEY environment variable is required');
+  if (!claudeApiKey && !LOCAL_LLM_ENABLED && !LLM_REPLAY_ONLY) {
+    logger.error('ANTHROPIC_API_KEY environment variable is required (or LOCAL_LLM_BASE_URL / LOCAL_LLM_MOCK / LLM_CASSETTE for offline use)');
     process.exit(1);
   }
 
@@ -856,15 +883,45 @@ async function startServer() {
     });
   });
 
+  // Prometheus scrape endpoint (LLM requests and token usage)
+  app.get('/metrics', metricsHandler());
+
   // Chat endpoint with provider selection
-  app.post('/chat', async (req, res) => {
+  app.post('/chat', traced('POST /chat', async (req, res) => {
     try {
-      const { message, provider, stream = false } = req.body;
+      const { message, provider, stream = false, attachments = [] } = req.body;
+      // Messages sharing a session id continue the same conversation
+      const sessionId: string = req.body.sessionId || randomUUID();
       
       if (!message) {
         return res.status(400).json({ error: 'Message is required' });
       }
 
+      if (!Array.isArray(attachments)) {
+        return res.status(400).json({ error: 'Attachments must be an array' });
+      }
+
+      let content: MessageContent;
+      try {
+        content = buildUserContent(message, attachments);
+      } catch (error) {
+        return res.status(400).json({
+          error: 'Invalid attachment',
+          message: error instanceof Error ? error.message : String(error)
+        });
+      }
+
+      const unsupported = chatService.getUnsupportedInputFormats(content, provider);
+      if (unsupported.length > 0) {
+        return res.status(400).json({
+          error: 'Provider does not support these attachments',
+          provider: provider || chatService.getCurrentProvider(),
+          unsupported
+        });
+      }
+
+      res.setHeader('X-Session-Id', sessionId);
+
       if (stream) {
         // Set up Server-Sent Events for streaming
         res.writeHead(200, {
@@ -876,7 +933,7 @@ async function startServer() {
         });
 
         try {
-          for await (const chunk of chatService.chatStream(message, provider)) {
+          for await (const chunk of chatService.chatStream(content, provider, sessionId)) {
             const data = JSON.stringify(chunk);
             res.write(`data: ${data}\n\n`);
           }
@@ -894,10 +951,11 @@ async function startServer() {
         }
       } else {
         // Regular chat response
-        const response = await chatService.chat(message, provider);
+        const response = await chatService.chat(content, provider, sessionId);
         
         return res.json({ 
           response,
+          sessionId,
           provider: provider || chatService.getCurrentProvider(),
           timestamp: new Date().toISOString()
         });
@@ -907,11 +965,36 @@ async function startServer() {
       return;
     } catch (error) {
       logger.error('Chat endpoint error:', error);
+      if (error instanceof LLMError && error.code === 'UNSUPPORTED_CONTENT') {
+        return res.status(400).json({
+          error: 'Provider does not support these attachments',
+          message: error.message,
+          details: error.details
+        });
+      }
+      if (error instanceof LLMError && (error.rateLimited || error.code === 'BUDGET_EXCEEDED')) {
+        if (error.retryAfterMs !== undefined) {
+          res.setHeader('Retry-After', Math.ceil(error.retryAfterMs / 1000));
+        }
+        return res.status(429).json({
+          error: error.code === 'BUDGET_EXCEEDED' ? 'LLM budget exceeded' : 'LLM rate limit reached',
+          message: error.message,
+          details: error.details
+        });
+      }
       return res.status(500).json({ 
         error: 'Internal server error',
         message: error instanceof Error ? error.message : 'Unknown error'
       });
     }
+  }));
+
+  // Forget a session's conversation history
+  app.delete('/sessions/:id', (req, res) => {
+    if (!chatService.endSession(req.params.id)) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    return res.status(204).end();
   });
 
   // Provider management endpoints
@@ -934,6 +1017,22 @@ async function startServer() {
     }
   });
 
+  // Usage counters and remaining budgets; providers share one limiter, so their counters match
+  app.get('/usage', async (_req, res) => {
+    try {
+      return res.json({
+        providers: await chatService.getUsage(),
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      logger.error('Error fetching usage:', error);
+      return res.status(500).json({ 
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
   app.post('/providers/:name/select', (req, res) => {
     try {
       const { name } = req.params;
@@ -1047,8 +1146,9 @@ Features:
   });
 
   // Graceful shutdown
-  process.on('SIGINT', () => {
+  process.on('SIGINT', async () => {
     logger.info('Shutting down chat server...');
+    await getTracer().shutdown();
     process.exit(0);
   });
 }
@@ -0,0 +1,27 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { HashingEmbedder } from '@mcp-demo/core';
+import { createEmbedder } from './embedder.js';
+
+describe('createEmbedder', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('falls back to the offline hashing embedder', async () => {
+    vi.stubEnv('KNOWLEDGE_EMBEDDER', undefined);
+
+    expect(await createEmbedder()).toBeInstanceOf(HashingEmbedder);
+  });
+
+  it('reads the provider from KNOWLEDGE_EMBEDDER', async () => {
+    vi.stubEnv('KNOWLEDGE_EMBEDDER', 'word2vec');
+
+    await expect(createEmbedder()).rejects.toThrow(/Unknown embedder "word2vec"/);
+  });
+
+  it('fails at startup when the provider is not configured', async () => {
+    vi.stubEnv('OPENAI_API_KEY', '');
+
+    await expect(createEmbedder({ provider: 'openai' })).rejects.toThrow(/configuration validation failed/);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Embedder selection for semantic search
+ *
+ * KNOWLEDGE_EMBEDDER picks an embedding provider; without one, embeddings
+ * come from the offline HashingEmbedder, which matches shared words and
+ * word fragments but knows nothing about meaning.
+ */
+
+import { HashingEmbedder, LLMProviderManager, type ClaudeConfig, type Embedder, type LocalConfig, type OpenAIConfig } from '@mcp-demo/core';
+
+export interface EmbedderOptions {
+  /** 'hashing' (default), 'openai', 'voyage' or 'local' */
+  provider?: string;
+  /** Embedding model (default: the provider's default embedding model) */
+  model?: string;
+}
+
+/**
+ * Creates the embedder named by `provider` (default: KNOWLEDGE_EMBEDDER)
+ * using `model` (default: KNOWLEDGE_EMBEDDING_MODEL). Provider credentials
+ * come from the same variables the chat server reads:
+ * - openai: OPENAI_API_KEY
+ * - voyage: VOYAGE_API_KEY, plus ANTHROPIC_API_KEY (Voyage is reached through the Claude provider)
+ * - local: LOCAL_LLM_BASE_URL and optionally LOCAL_LLM_API_KEY (e.g. Ollama with nomic-embed-text)
+ *
+ * The provider's configuration is checked here, so a missing key fails at
+ * startup rather than on the first search.
+ */
+export async function createEmbedder(options: EmbedderOptions = {}): Promise<Embedder> {
+  const {
+    provider = process.env.KNOWLEDGE_EMBEDDER ?? 'hashing',
+    model = process.env.KNOWLEDGE_EMBEDDING_MODEL,
+  } = options;
+  const env = process.env;
+  const manager = new LLMProviderManager();
+
+  switch (provider) {
+    case 'hashing':
+      return new HashingEmbedder();
+    case 'openai': {
+      const config: OpenAIConfig = { name: 'OpenAI', apiKey: env.OPENAI_API_KEY ?? '', embeddingModel: model };
+      await manager.addProvider('openai', 'openai', config);
+      break;
+    }
+    case 'voyage': {
+      const config: ClaudeConfig = {
+        name: 'Claude',
+        apiKey: env.ANTHROPIC_API_KEY ?? '',
+        voyageApiKey: env.VOYAGE_API_KEY,
+        embeddingModel: model,
+      };
+      await manager.addProvider('voyage', 'claude', config);
+      break;
+    }
+    case 'local': {
+      const config: LocalConfig = {
+        name: 'Local',
+        apiKey: env.LOCAL_LLM_API_KEY,
+        baseUrl: env.LOCAL_LLM_BASE_URL,
+        embeddingModel: model,
+      };
+      await manager.addProvider('local', 'local', config);
+      break;
+    }
+    default:
+      throw new Error(`Unknown embedder "${provider}" (expected hashing, openai, voyage or local)`);
+  }
+
+  // Vectors of different models can't be compared, so never fall back to another provider
+  return {
+    embed: (texts, embedOptions) => manager.embed(texts, embedOptions, { provider, fallback: false }),
+  };
+}
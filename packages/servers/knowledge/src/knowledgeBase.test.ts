@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { createKnowledgeSessions, refreshSearchIndex } from './knowledgeBase.js';
+import { SEED_DOCUMENTS, type Document } from './repository/index.js';
+
+const note: Document = {
+  id: 'doc-note',
+  title: 'Private note',
+  content: 'Only for this session',
+  tags: [],
+  category: 'notes',
+  createdAt: '2024-01-01T10:00:00Z',
+  updatedAt: '2024-01-01T10:00:00Z',
+};
+
+describe('createKnowledgeSessions', () => {
+  it('gives every session its own seeded knowledge base', async () => {
+    const { sessions } = createKnowledgeSessions({});
+    const first = sessions.get('session-1').store;
+    const second = sessions.get('session-2').store;
+
+    first.repository.save(note);
+    await refreshSearchIndex(first);
+    await refreshSearchIndex(second);
+
+    expect(second.repository.get(note.id)).toBeUndefined();
+    expect(second.repository.list()).toHaveLength(SEED_DOCUMENTS.length);
+    expect((await second.searchIndex.search('private note')).map(hit => hit.document.id)).not.toContain(note.id);
+    expect((await first.searchIndex.search('private note'))[0]?.document.id).toBe(note.id);
+  });
+
+  it('shares one knowledge base with the shared scope', () => {
+    const { sessions, close } = createKnowledgeSessions({ scope: 'shared' });
+
+    sessions.get('session-1').store.repository.save(note);
+
+    expect(sessions.get('session-2').store.repository.get(note.id)?.title).toBe('Private note');
+    close();
+  });
+
+  it('shares durable stores unless told otherwise', () => {
+    const { sessions, close } = createKnowledgeSessions({ store: { type: 'sqlite', path: ':memory:' } });
+
+    sessions.get('session-1').store.repository.save(note);
+
+    expect(sessions.get('session-2').store.repository.get(note.id)?.title).toBe('Private note');
+    close();
+  });
+
+  it('rejects durable stores with the session scope and unknown scopes', () => {
+    expect(() => createKnowledgeSessions({ scope: 'session', store: { type: 'sqlite' } })).toThrow(/can't be used with KNOWLEDGE_SCOPE=session/);
+    expect(() => createKnowledgeSessions({ scope: 'tenant' })).toThrow(/Unknown knowledge scope "tenant"/);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Knowledge bases: a document repository with its search index
+ *
+ * Each session gets a knowledge base of its own, seeded with the sample
+ * documents, so one client's documents are invisible to the others. With
+ * KNOWLEDGE_SCOPE=shared every session uses the same one instead, which is
+ * also the only scope that can keep documents in a durable store, and the
+ * default when one is configured.
+ */
+
+import { HashingEmbedder, SessionManager, getSessionContext, type Embedder } from '@mcp-demo/core';
+import { createDocumentRepository, type DocumentRepository, type DocumentRepositoryOptions } from './repository/index.js';
+import { HybridSearchIndex } from './search/index.js';
+
+export interface KnowledgeBase {
+  repository: DocumentRepository;
+  /** Keyword + semantic index over the repository's document chunks */
+  searchIndex: HybridSearchIndex;
+}
+
+export interface KnowledgeSessionOptions {
+  /** 'session' or 'shared' (default: KNOWLEDGE_SCOPE, else 'shared' for a durable store and 'session' otherwise) */
+  scope?: string;
+  /** Store of the shared knowledge base (default: KNOWLEDGE_STORE and KNOWLEDGE_STORE_PATH); sessions always use an in-memory one */
+  store?: DocumentRepositoryOptions;
+  /** Embeds chunks and queries for semantic search (default: HashingEmbedder) */
+  embedder?: Embedder;
+}
+
+export function openKnowledgeBase(repository: DocumentRepository, embedder: Embedder = new HashingEmbedder()): KnowledgeBase {
+  return { repository, searchIndex: new HybridSearchIndex({ embedder }) };
+}
+
+/**
+ * Brings the search index up to date after documents change
+ */
+export function refreshSearchIndex({ repository, searchIndex }: KnowledgeBase): Promise<void> {
+  return searchIndex.sync(repository.list());
+}
+
+export interface KnowledgeSessions {
+  /** Hands each request its session's knowledge base; see knowledgeOf() */
+  sessions: SessionManager<KnowledgeBase>;
+  /** Closes the shared knowledge base, if any */
+  close(): void;
+}
+
+/**
+ * Session manager whose contexts hold a knowledge base: a fresh one per
+ * session, or the same one for all with the 'shared' scope. A session's
+ * knowledge base is dropped when the session ends.
+ *
+ * @throws Error for an unknown scope, or a durable store (KNOWLEDGE_STORE
+ * fs or sqlite) with the 'session' scope: per-session documents are gone
+ * when the session ends, so persisting them would only fill the disk
+ */
+export function createKnowledgeSessions(options: KnowledgeSessionOptions = {}): KnowledgeSessions {
+  const {
+    store = { type: process.env.KNOWLEDGE_STORE, path: process.env.KNOWLEDGE_STORE_PATH },
+    embedder,
+  } = options;
+  const durable = Boolean(store.type) && store.type !== 'memory';
+  const scope = options.scope ?? process.env.KNOWLEDGE_SCOPE ?? (durable ? 'shared' : 'session');
+
+  if (scope === 'shared') {
+    const shared = openKnowledgeBase(createDocumentRepository(store), embedder);
+    return {
+      sessions: new SessionManager({ createStore: () => shared }),
+      close: () => shared.repository.close?.(),
+    };
+  }
+  if (scope !== 'session') {
+    throw new Error(`Unknown knowledge scope "${scope}" (expected session or shared)`);
+  }
+  if (durable) {
+    throw new Error(`KNOWLEDGE_STORE=${store.type} keeps documents across restarts and can't be used with KNOWLEDGE_SCOPE=session`);
+  }
+
+  return {
+    sessions: new SessionManager({
+      createStore: () => openKnowledgeBase(createDocumentRepository({ type: 'memory' }), embedder),
+    }),
+    close: () => {},
+  };
+}
+
+/**
+ * The knowledge base of a request handled by a server set up with
+ * attachSessionContext()
+ */
+export function knowledgeOf(extra: object | undefined): KnowledgeBase {
+  return getSessionContext<KnowledgeBase>(extra ?? {}).store;
+}
@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Logger, LogLevel, type LogEntry } from '@mcp-demo/core';
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  InMemoryDocumentRepository,
+  FileSystemDocumentRepository,
+  SqliteDocumentRepository,
+  createDocumentRepository,
+  serializeDocument,
+  parseDocument,
+  documentEtag,
+  type Document,
+  type DocumentRepository,
+} from './DocumentRepository.js';
+import { SEED_DOCUMENTS } from './seed.js';
+
+const guide: Document = {
+  id: 'doc-guide',
+  title: 'Writing: a "guide"',
+  content: '# Guide\n\n---\n\nBody with a rule above.',
+  tags: ['writing', 'guide'],
+  category: 'tutorial',
+  createdAt: '2024-02-01T10:00:00Z',
+  updatedAt: '2024-02-02T10:00:00Z',
+  author: 'Docs Team',
+};
+
+const older: Document = {
+  id: 'doc-older',
+  title: 'Older',
+  content: 'Older content',
+  tags: [],
+  category: 'api',
+  createdAt: '2024-01-01T10:00:00Z',
+  updatedAt: '2024-01-01T10:00:00Z',
+};
+
+describe('serializeDocument / parseDocument', () => {
+  it('round-trips a document', () => {
+    expect(parseDocument(serializeDocument(guide))).toEqual({ ...guide, summary: undefined });
+  });
+
+  it('reads hand-written unquoted values', () => {
+    const document = parseDocument([
+      '---',
+      'id: doc-hand',
+      'title: Hand written',
+      'category: guide',
+      'tags: ["a", "b"]',
+      'createdAt: 2024-03-01T00:00:00Z',
+      'updatedAt: 2024-03-01T00:00:00Z',
+      '---',
+      '',
+      'Content',
+    ].join('\n'));
+
+    expect(document).toMatchObject({ id: 'doc-hand', title: 'Hand written', tags: ['a', 'b'], content: 'Content' });
+  });
+
+  it('rejects files without required front-matter', () => {
+    expect(() => parseDocument('no front-matter')).toThrow('Document has no front-matter');
+    expect(() => parseDocument('---\nid: x\n---\n')).toThrow('Document front-matter is missing "title"');
+  });
+});
+
+describe('documentEtag', () => {
+  it('changes with any field and survives storage', () => {
+    const etag = documentEtag(guide);
+
+    expect(documentEtag({ ...guide, tags: [...guide.tags] })).toBe(etag);
+    expect(documentEtag({ ...guide, content: `${guide.content}!` })).not.toBe(etag);
+    expect(documentEtag({ ...guide, updatedAt: '2024-02-03T10:00:00Z' })).not.toBe(etag);
+    expect(documentEtag(parseDocument(serializeDocument(guide)))).toBe(etag);
+  });
+});
+
+describe.each([
+  ['InMemoryDocumentRepository', () => new InMemoryDocumentRepository()],
+  ['SqliteDocumentRepository', () => new SqliteDocumentRepository(':memory:')],
+])('%s', (_name, create: () => DocumentRepository) => {
+  let repository: DocumentRepository;
+
+  beforeEach(() => {
+    repository = create();
+  });
+
+  afterEach(() => {
+    repository.close?.();
+  });
+
+  it('saves, lists oldest first and deletes documents', () => {
+    repository.save(guide);
+    repository.save(older);
+
+    expect(repository.get('doc-guide')).toEqual(guide);
+    expect(repository.list().map(doc => doc.id)).toEqual(['doc-older', 'doc-guide']);
+    expect(repository.delete('doc-older')).toBe(true);
+    expect(repository.delete('doc-older')).toBe(false);
+    expect(repository.get('doc-older')).toBeUndefined();
+  });
+
+  it('replaces documents on save and returns copies', () => {
+    repository.save(guide);
+    repository.save({ ...guide, title: 'Renamed' });
+    repository.get('doc-guide')!.tags.push('mutated');
+
+    expect(repository.list()).toHaveLength(1);
+    expect(repository.get('doc-guide')).toMatchObject({ title: 'Renamed', tags: ['writing', 'guide'] });
+  });
+
+  it('records numbered revisions that outlive the document', () => {
+    expect(repository.save(guide, 'alice')).toMatchObject({ documentId: 'doc-guide', revision: 1, author: 'alice' });
+    expect(repository.save({ ...guide, content: 'Rewritten' })).toMatchObject({ revision: 2, author: undefined });
+    repository.delete('doc-guide');
+
+    expect(repository.listRevisions('doc-guide').map(rev => [rev.revision, rev.document.content])).toEqual([
+      [1, guide.content],
+      [2, 'Rewritten'],
+    ]);
+    expect(repository.getRevision('doc-guide', 1)?.document).toEqual(guide);
+    expect(repository.getRevision('doc-guide', 3)).toBeUndefined();
+    expect(repository.listRevisions('doc-missing')).toEqual([]);
+  });
+});
+
+describe('persistent repositories', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'knowledge-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('keeps documents as Markdown files across instances', () => {
+    const first = new FileSystemDocumentRepository(directory);
+    first.save(guide);
+    first.save(older);
+    first.delete('doc-older');
+
+    expect(readdirSync(directory).sort()).toEqual(['.revisions', 'doc-guide.md']);
+    expect(readFileSync(join(directory, 'doc-guide.md'), 'utf-8')).toContain('# Guide');
+
+    writeFileSync(join(directory, 'doc-manual.md'), serializeDocument({ ...older, id: 'doc-manual' }));
+    const second = new FileSystemDocumentRepository(directory);
+    expect(second.list().map(doc => doc.id)).toEqual(['doc-manual', 'doc-guide']);
+    expect(second.listRevisions('doc-older')).toHaveLength(1);
+    expect(second.save(guide).revision).toBe(2);
+  });
+
+  it('skips and logs malformed Markdown files', () => {
+    writeFileSync(join(directory, 'doc-guide.md'), serializeDocument(guide));
+    writeFileSync(join(directory, 'broken.md'), '# No front-matter here');
+    const entries: LogEntry[] = [];
+    const logger = new Logger('test', { level: LogLevel.WARN, sinks: [{ write: entry => entries.push(entry) }] });
+
+    const repository = new FileSystemDocumentRepository(directory, logger);
+
+    expect(repository.list().map(doc => doc.id)).toEqual(['doc-guide']);
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ message: 'Skipping malformed document file', data: { file: join(directory, 'broken.md') } });
+    expect(readdirSync(directory)).toContain('broken.md');
+  });
+
+  it('keeps documents in an SQLite file across instances', () => {
+    const file = join(directory, 'nested', 'knowledge.db');
+    const first = new SqliteDocumentRepository(file);
+    first.save(guide);
+    first.close();
+
+    const second = new SqliteDocumentRepository(file);
+    expect(second.get('doc-guide')).toEqual(guide);
+    expect(second.save(guide, 'bob')).toMatchObject({ revision: 2, author: 'bob' });
+    second.close();
+  });
+
+  it('seeds new stores only', () => {
+    const path = join(directory, 'store');
+    const seeded = createDocumentRepository({ type: 'fs', path });
+    expect(seeded.list()).toHaveLength(SEED_DOCUMENTS.length);
+
+    for (const document of SEED_DOCUMENTS) {
+      seeded.delete(document.id);
+    }
+    expect(createDocumentRepository({ type: 'fs', path }).list()).toEqual([]);
+    expect(createDocumentRepository({ type: 'fs', path: directory }).list()).toEqual([]);
+  });
+
+  it('rejects unknown store types', () => {
+    expect(() => createDocumentRepository({ type: 'redis' })).toThrow('Unknown document store "redis"');
+  });
+});
@@ -0,0 +1,465 @@
+/**
+ * DocumentRepository - Pluggable storage for knowledge base documents
+ *
+ * Repositories are synchronous, like core's TaskStore, so the many tools,
+ * resources and prompts reading documents stay synchronous. Every save
+ * records a numbered revision, which outlives the document as an audit
+ * trail. Three implementations are provided:
+ * - InMemoryDocumentRepository: process-local Map (default, no persistence)
+ * - FileSystemDocumentRepository: one Markdown file with front-matter per document
+ * - SqliteDocumentRepository: an embedded SQLite database file (via better-sqlite3)
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { createRequire } from 'node:module';
+import { createHash } from 'node:crypto';
+import type BetterSqlite3 from 'better-sqlite3';
+import { Logger } from '@mcp-demo/core';
+import { SEED_DOCUMENTS } from './seed.js';
+
+/**
+ * Document interface representing a knowledge base document
+ * @interface Document
+ */
+export interface Document {
+  /** Unique identifier for the document */
+  id: string;
+  /** Human-readable title of the document */
+  title: string;
+  /** Main content of the document (supports Markdown) */
+  content: string;
+  /** Array of tags for categorization and search */
+  tags: string[];
+  /** Category classification for the document */
+  category: string;
+  /** ISO timestamp when the document was created */
+  createdAt: string;
+  /** ISO timestamp when the document was last updated */
+  updatedAt: string;
+  /** Optional author name */
+  author?: string;
+  /** Optional brief summary of the document */
+  summary?: string;
+}
+
+/**
+ * A numbered snapshot of a document, recorded on every save
+ */
+export interface DocumentRevision {
+  documentId: string;
+  /** 1 for the first save, incremented on each change */
+  revision: number;
+  /** Who made the change, when known */
+  author?: string;
+  /** ISO timestamp when the revision was recorded */
+  createdAt: string;
+  /** The document as saved */
+  document: Document;
+}
+
+export interface DocumentRepository {
+  /** Returns a document by ID, or undefined if it is not stored */
+  get(id: string): Document | undefined;
+  /** Returns every document, oldest first */
+  list(): Document[];
+  /** Inserts or replaces a document and records it as a new revision */
+  save(document: Document, author?: string): DocumentRevision;
+  /** Removes a document (its revisions are kept); false when there was none */
+  delete(id: string): boolean;
+  /** Returns the revisions of a document, oldest first */
+  listRevisions(id: string): DocumentRevision[];
+  /** Returns one revision of a document, or undefined if it does not exist */
+  getRevision(id: string, revision: number): DocumentRevision | undefined;
+  /** Releases any underlying resources (file handles, connections) */
+  close?(): void;
+}
+
+/**
+ * Keeps documents in a process-local Map. State is lost when the process exits.
+ */
+export class InMemoryDocumentRepository implements DocumentRepository {
+  private documents = new Map<string, Document>();
+  private revisions = new Map<string, DocumentRevision[]>();
+
+  get(id: string): Document | undefined {
+    const document = this.documents.get(id);
+    return document ? copy(document) : undefined;
+  }
+
+  list(): Document[] {
+    return sortByCreation(Array.from(this.documents.values(), copy));
+  }
+
+  save(document: Document, author?: string): DocumentRevision {
+    const revisions = this.revisions.get(document.id) ?? [];
+    const revision = createRevision(document, revisions.length + 1, author);
+    this.documents.set(document.id, copy(document));
+    this.revisions.set(document.id, [...revisions, revision]);
+    return copyRevision(revision);
+  }
+
+  delete(id: string): boolean {
+    return this.documents.delete(id);
+  }
+
+  listRevisions(id: string): DocumentRevision[] {
+    return (this.revisions.get(id) ?? []).map(copyRevision);
+  }
+
+  getRevision(id: string, revision: number): DocumentRevision | undefined {
+    const found = this.revisions.get(id)?.[revision - 1];
+    return found ? copyRevision(found) : undefined;
+  }
+}
+
+/**
+ * Stores each document as `<id>.md` in a directory: front-matter holding
+ * the metadata, followed by the Markdown content. The files can be edited
+ * by hand; they are read once on construction and written through on each
+ * change (via a temporary file and rename). Revisions are appended to
+ * `.revisions/<id>.jsonl`, one JSON revision per line.
+ */
+export class FileSystemDocumentRepository implements DocumentRepository {
+  private documents = new Map<string, Document>();
+  private revisions = new Map<string, DocumentRevision[]>();
+
+  /**
+   * Loads the documents in `directory`. Files that aren't valid documents
+   * (e.g. a hand edit that broke the front-matter) are logged and skipped, so
+   * one bad file doesn't keep the server from starting; they are left on disk
+   * to be fixed.
+   */
+  constructor(private directory: string, logger: Logger = new Logger('document-repository')) {
+    mkdirSync(directory, { recursive: true });
+    for (const file of readdirSync(directory)) {
+      if (!file.endsWith('.md')) continue;
+      try {
+        const document = parseDocument(readFileSync(join(directory, file), 'utf-8'));
+        this.documents.set(document.id, document);
+      } catch (error) {
+        logger.warn('Skipping malformed document file', {
+          file: join(directory, file),
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  get(id: string): Document | undefined {
+    const document = this.documents.get(id);
+    return document ? copy(document) : undefined;
+  }
+
+  list(): Document[] {
+    return sortByCreation(Array.from(this.documents.values(), copy));
+  }
+
+  save(document: Document, author?: string): DocumentRevision {
+    const revisions = this.loadRevisions(document.id);
+    const revision = createRevision(document, revisions.length + 1, author);
+
+    const path = this.pathOf(document.id);
+    writeFileSync(`${path}.tmp`, serializeDocument(document), 'utf-8');
+    renameSync(`${path}.tmp`, path);
+    mkdirSync(join(this.directory, '.revisions'), { recursive: true });
+    appendFileSync(this.revisionsPathOf(document.id), `${JSON.stringify(revision)}\n`, 'utf-8');
+
+    this.documents.set(document.id, copy(document));
+    revisions.push(revision);
+    return copyRevision(revision);
+  }
+
+  delete(id: string): boolean {
+    if (!this.documents.delete(id)) {
+      return false;
+    }
+    rmSync(this.pathOf(id), { force: true });
+    return true;
+  }
+
+  listRevisions(id: string): DocumentRevision[] {
+    return this.loadRevisions(id).map(copyRevision);
+  }
+
+  getRevision(id: string, revision: number): DocumentRevision | undefined {
+    const found = this.loadRevisions(id)[revision - 1];
+    return found ? copyRevision(found) : undefined;
+  }
+
+  private loadRevisions(id: string): DocumentRevision[] {
+    let revisions = this.revisions.get(id);
+    if (!revisions) {
+      const path = this.revisionsPathOf(id);
+      revisions = existsSync(path)
+        ? readFileSync(path, 'utf-8')
+            .split('\n')
+            .filter(line => line.trim())
+            .map(line => JSON.parse(line) as DocumentRevision)
+        : [];
+      this.revisions.set(id, revisions);
+    }
+    return revisions;
+  }
+
+  private pathOf(id: string): string {
+    return join(this.directory, `${encodeURIComponent(id)}.md`);
+  }
+
+  private revisionsPathOf(id: string): string {
+    return join(this.directory, '.revisions', `${encodeURIComponent(id)}.jsonl`);
+  }
+}
+
+/**
+ * Stores documents in an SQLite database file.
+ *
+ * better-sqlite3 is loaded lazily so the native module is only required
+ * when this repository is actually used.
+ */
+export class SqliteDocumentRepository implements DocumentRepository {
+  private db: BetterSqlite3.Database;
+
+  constructor(filePath: string) {
+    if (filePath !== ':memory:') {
+      mkdirSync(dirname(filePath), { recursive: true });
+    }
+
+    const require = createRequire(import.meta.url);
+    const Database = require('better-sqlite3') as typeof BetterSqlite3;
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS documents (
+        id TEXT PRIMARY KEY,
+        category TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_documents_category ON documents (category);
+      CREATE TABLE IF NOT EXISTS document_revisions (
+        document_id TEXT NOT NULL,
+        revision INTEGER NOT NULL,
+        author TEXT,
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (document_id, revision)
+      );
+    `);
+  }
+
+  get(id: string): Document | undefined {
+    const row = this.db
+      .prepare('SELECT data FROM documents WHERE id = ?')
+      .get(id) as { data: string } | undefined;
+    return row ? (JSON.parse(row.data) as Document) : undefined;
+  }
+
+  list(): Document[] {
+    const rows = this.db
+      .prepare('SELECT data FROM documents ORDER BY created_at, id')
+      .all() as { data: string }[];
+    return rows.map(row => JSON.parse(row.data) as Document);
+  }
+
+  save(document: Document, author?: string): DocumentRevision {
+    return this.db.transaction(() => {
+      const { latest } = this.db
+        .prepare('SELECT MAX(revision) AS latest FROM document_revisions WHERE document_id = ?')
+        .get(document.id) as { latest: number | null };
+      const revision = createRevision(document, (latest ?? 0) + 1, author);
+
+      this.db
+        .prepare(
+          `INSERT INTO documents (id, category, created_at, data) VALUES (?, ?, ?, ?)
+           ON CONFLICT(id) DO UPDATE SET category = excluded.category,
+             created_at = excluded.created_at, data = excluded.data`
+        )
+        .run(document.id, document.category, document.createdAt, JSON.stringify(document));
+      this.db
+        .prepare('INSERT INTO document_revisions (document_id, revision, author, created_at, data) VALUES (?, ?, ?, ?, ?)')
+        .run(document.id, revision.revision, author ?? null, revision.createdAt, JSON.stringify(document));
+      return revision;
+    })();
+  }
+
+  delete(id: string): boolean {
+    return this.db.prepare('DELETE FROM documents WHERE id = ?').run(id).changes > 0;
+  }
+
+  listRevisions(id: string): DocumentRevision[] {
+    const rows = this.db
+      .prepare('SELECT * FROM document_revisions WHERE document_id = ? ORDER BY revision')
+      .all(id) as RevisionRow[];
+    return rows.map(rowToRevision);
+  }
+
+  getRevision(id: string, revision: number): DocumentRevision | undefined {
+    const row = this.db
+      .prepare('SELECT * FROM document_revisions WHERE document_id = ? AND revision = ?')
+      .get(id, revision) as RevisionRow | undefined;
+    return row ? rowToRevision(row) : undefined;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+interface RevisionRow {
+  document_id: string;
+  revision: number;
+  author: string | null;
+  created_at: string;
+  data: string;
+}
+
+function rowToRevision(row: RevisionRow): DocumentRevision {
+  return {
+    documentId: row.document_id,
+    revision: row.revision,
+    author: row.author ?? undefined,
+    createdAt: row.created_at,
+    document: JSON.parse(row.data) as Document,
+  };
+}
+
+const FRONT_MATTER_KEYS = ['id', 'title', 'category', 'tags', 'author', 'summary', 'createdAt', 'updatedAt'] as const;
+
+/**
+ * Entity tag of a document's current version. Any change to the document
+ * (including its updatedAt) yields a new tag, so writers can pass the tag
+ * they read to detect concurrent edits.
+ */
+export function documentEtag(document: Document): string {
+  const hash = createHash('sha256');
+  for (const key of [...FRONT_MATTER_KEYS, 'content'] as const) {
+    hash.update(`${key}\0${JSON.stringify(document[key] ?? null)}\0`);
+  }
+  return hash.digest('hex').slice(0, 16);
+}
+
+/**
+ * Renders a document as Markdown with front-matter. Values are written as
+ * JSON, which is also valid YAML.
+ */
+export function serializeDocument(document: Document): string {
+  const lines = FRONT_MATTER_KEYS
+    .filter(key => document[key] !== undefined)
+    .map(key => `${key}: ${JSON.stringify(document[key])}`);
+  return `---\n${lines.join('\n')}\n---\n\n${document.content}\n`;
+}
+
+/**
+ * Reads a document written by serializeDocument(). Unquoted values, as
+ * someone editing the file might write them, are taken as plain strings.
+ *
+ * @throws Error when the front-matter or a required field is missing
+ */
+export function parseDocument(source: string): Document {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/.exec(source);
+  if (!match) {
+    throw new Error('Document has no front-matter');
+  }
+  const [, header = '', body = ''] = match;
+
+  const fields: Record<string, unknown> = {};
+  for (const line of header.split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+    const key = line.slice(0, separator).trim();
+    const raw = line.slice(separator + 1).trim();
+    try {
+      fields[key] = JSON.parse(raw);
+    } catch {
+      fields[key] = raw;
+    }
+  }
+
+  for (const key of ['id', 'title', 'category', 'createdAt', 'updatedAt']) {
+    if (typeof fields[key] !== 'string') {
+      throw new Error(`Document front-matter is missing "${key}"`);
+    }
+  }
+
+  return {
+    id: fields.id as string,
+    title: fields.title as string,
+    content: body.replace(/^\r?\n/, '').replace(/\r?\n$/, ''),
+    tags: Array.isArray(fields.tags) ? fields.tags.map(String) : [],
+    category: fields.category as string,
+    createdAt: fields.createdAt as string,
+    updatedAt: fields.updatedAt as string,
+    author: typeof fields.author === 'string' ? fields.author : undefined,
+    summary: typeof fields.summary === 'string' ? fields.summary : undefined,
+  };
+}
+
+export interface DocumentRepositoryOptions {
+  /** 'memory' (default), 'fs' or 'sqlite' */
+  type?: string;
+  /** Directory ('fs') or database file ('sqlite') */
+  path?: string;
+  /** Documents to add when the store is created (default: the built-in guides) */
+  seed?: Document[];
+}
+
+/**
+ * Opens the repository selected by KNOWLEDGE_STORE (memory, fs or sqlite)
+ * and KNOWLEDGE_STORE_PATH, seeding it if its directory or database file
+ * doesn't exist yet. A store whose documents were all deleted stays empty.
+ */
+export function createDocumentRepository(options: DocumentRepositoryOptions = {
+  type: process.env.KNOWLEDGE_STORE,
+  path: process.env.KNOWLEDGE_STORE_PATH,
+}): DocumentRepository {
+  const { repository, created } = openRepository(options.type ?? 'memory', options.path);
+  if (created) {
+    for (const document of options.seed ?? SEED_DOCUMENTS) {
+      repository.save(document, document.author);
+    }
+  }
+  return repository;
+}
+
+function openRepository(type: string, path: string | undefined): { repository: DocumentRepository; created: boolean } {
+  switch (type) {
+    case 'memory':
+      return { repository: new InMemoryDocumentRepository(), created: true };
+    case 'fs': {
+      const directory = path ?? join('data', 'knowledge');
+      // Checked before the repository creates it
+      const created = !existsSync(directory);
+      return { repository: new FileSystemDocumentRepository(directory), created };
+    }
+    case 'sqlite': {
+      const file = path ?? join('data', 'knowledge.db');
+      const created = file === ':memory:' || !existsSync(file);
+      return { repository: new SqliteDocumentRepository(file), created };
+    }
+    default:
+      throw new Error(`Unknown document store "${type}" (expected memory, fs or sqlite)`);
+  }
+}
+
+function copy(document: Document): Document {
+  return { ...document, tags: [...document.tags] };
+}
+
+function createRevision(document: Document, revision: number, author: string | undefined): DocumentRevision {
+  return {
+    documentId: document.id,
+    revision,
+    author,
+    createdAt: new Date().toISOString(),
+    document: copy(document),
+  };
+}
+
+function copyRevision(revision: DocumentRevision): DocumentRevision {
+  return { ...revision, document: copy(revision.document) };
+}
+
+function sortByCreation(documents: Document[]): Document[] {
+  return documents.sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id));
+}
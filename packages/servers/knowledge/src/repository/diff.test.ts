@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { unifiedDiff } from './diff.js';
+
+const lines = (count: number) => Array.from({ length: count }, (_, i) => `line ${i + 1}`);
+
+describe('unifiedDiff', () => {
+  it('returns an empty string for equal texts', () => {
+    expect(unifiedDiff('same\ntext', 'same\ntext')).toBe('');
+  });
+
+  it('renders changes with context like diff -u', () => {
+    const before = lines(5).join('\n');
+    const after = ['line 1', 'line 2', 'line three', 'line 4', 'line 5', 'line 6'].join('\n');
+
+    expect(unifiedDiff(before, after, { fromLabel: 'doc@1', toLabel: 'doc@2', context: 1 })).toBe([
+      '--- doc@1',
+      '+++ doc@2',
+      '@@ -2,4 +2,5 @@',
+      ' line 2',
+      '-line 3',
+      '+line three',
+      ' line 4',
+      ' line 5',
+      '+line 6',
+      '',
+    ].join('\n'));
+  });
+
+  it('merges changes up to twice the context apart into one hunk', () => {
+    const before = lines(30);
+    const after = [...before];
+    after[4] = 'changed 5';
+    after[10] = 'changed 11';
+    after[24] = 'changed 25';
+
+    const diff = unifiedDiff(before.join('\n'), after.join('\n'));
+    expect(diff.match(/^@@.*@@$/gm)).toEqual(['@@ -2,13 +2,13 @@', '@@ -22,7 +22,7 @@']);
+  });
+
+  it('handles empty texts', () => {
+    expect(unifiedDiff('', 'a\nb')).toBe('--- a\n+++ b\n@@ -0,0 +1,2 @@\n+a\n+b\n');
+    expect(unifiedDiff('a', '')).toBe('--- a\n+++ b\n@@ -1 +0,0 @@\n-a\n');
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Line-based unified diff for comparing document revisions
+ */
+
+export interface UnifiedDiffOptions {
+  /** Label of the old text in the `---` header */
+  fromLabel?: string;
+  /** Label of the new text in the `+++` header */
+  toLabel?: string;
+  /** Unchanged lines shown around each change (default: 3) */
+  context?: number;
+}
+
+type Edit = { type: ' ' | '-' | '+'; line: string };
+
+/**
+ * Renders the changes from `oldText` to `newText` in unified diff format,
+ * as produced by `diff -u`. Returns an empty string when the texts are equal.
+ */
+export function unifiedDiff(oldText: string, newText: string, options: UnifiedDiffOptions = {}): string {
+  const { fromLabel = 'a', toLabel = 'b', context = 3 } = options;
+  const edits = diffLines(splitLines(oldText), splitLines(newText));
+  if (edits.every(edit => edit.type === ' ')) {
+    return '';
+  }
+
+  const output = [`--- ${fromLabel}`, `+++ ${toLabel}`];
+  let index = 0;
+  // Line numbers (1-based) of edits[index] in the old and new text
+  let oldLine = 1;
+  let newLine = 1;
+
+  while (index < edits.length) {
+    const change = edits.findIndex((edit, i) => i >= index && edit.type !== ' ');
+    if (change === -1) break;
+
+    // Skip unchanged lines up to the hunk's leading context
+    const start = Math.max(index, change - context);
+    for (; index < start; index++) {
+      oldLine++;
+      newLine++;
+    }
+
+    // Extend the hunk while changes are at most 2 * context lines apart
+    let end = change;
+    let unchanged = 0;
+    for (let i = change; i < edits.length; i++) {
+      if (edits[i]!.type === ' ') {
+        if (++unchanged > context * 2) break;
+      } else {
+        unchanged = 0;
+        end = i;
+      }
+    }
+    end = Math.min(edits.length, end + context + 1);
+
+    const hunk = edits.slice(start, end);
+    const oldCount = hunk.filter(edit => edit.type !== '+').length;
+    const newCount = hunk.filter(edit => edit.type !== '-').length;
+    output.push(`@@ -${range(oldLine, oldCount)} +${range(newLine, newCount)} @@`);
+    output.push(...hunk.map(edit => `${edit.type}${edit.line}`));
+
+    oldLine += oldCount;
+    newLine += newCount;
+    index = end;
+  }
+
+  return `${output.join('\n')}\n`;
+}
+
+function splitLines(text: string): string[] {
+  return text === '' ? [] : text.replace(/\r?\n$/, '').split(/\r?\n/);
+}
+
+// Hunk ranges name the line before an empty range, as diff -u does
+function range(start: number, count: number): string {
+  return count === 1 ? `${start}` : `${count === 0 ? start - 1 : start},${count}`;
+}
+
+/**
+ * Shortest edit script between two line arrays, from their longest common
+ * subsequence. Documents are small, so the O(n * m) table is fine.
+ */
+function diffLines(a: string[], b: string[]): Edit[] {
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i]![j] = a[i] === b[j] ? lcs[i + 1]![j + 1]! + 1 : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+
+  const edits: Edit[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      edits.push({ type: ' ', line: a[i++]! });
+      j++;
+    } else if (lcs[i + 1]![j]! >= lcs[i]![j + 1]!) {
+      edits.push({ type: '-', line: a[i++]! });
+    } else {
+      edits.push({ type: '+', line: b[j++]! });
+    }
+  }
+  while (i < a.length) edits.push({ type: '-', line: a[i++]! });
+  while (j < b.length) edits.push({ type: '+', line: b[j++]! });
+  return edits;
+}
@@ -0,0 +1,22 @@
+/**
+ * Document storage
+ *
+ * Repositories behind the knowledge base, selected with KNOWLEDGE_STORE,
+ * and the revision history they record.
+ */
+
+export {
+  InMemoryDocumentRepository,
+  FileSystemDocumentRepository,
+  SqliteDocumentRepository,
+  createDocumentRepository,
+  documentEtag,
+  serializeDocument,
+  parseDocument,
+  type Document,
+  type DocumentRepository,
+  type DocumentRepositoryOptions,
+  type DocumentRevision,
+} from './DocumentRepository.js';
+export { unifiedDiff, type UnifiedDiffOptions } from './diff.js';
+export { SEED_DOCUMENTS } from './seed.js';
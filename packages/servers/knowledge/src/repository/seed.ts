@@ -0,0 +1,113 @@
+/**
+ * Built-in guides a new knowledge base starts with
+ */
+
+import type { Document } from './DocumentRepository.js';
+
+export const SEED_DOCUMENTS: Document[] = [
+  {
+    id: 'doc-1',
+    title: 'MCP Protocol Overview',
+    content: `# Model Context Protocol (MCP)
+
+The Model Context Protocol (MCP) is an open standard for connecting AI assistants to data sources and tools. It provides a standardized way for AI models to securely access and interact with various resources.
+
+## Key Features
+
+- **Standardized Communication**: JSON-RPC 2.0 based protocol
+- **Security**: Built-in authentication and authorization
+- **Flexibility**: Supports various transport methods
+- **Extensibility**: Pluggable architecture for tools and resources
+
+## Architecture
+
+MCP follows a client-server architecture where:
+- **Clients** (AI assistants) consume capabilities
+- **Servers** provide tools, resources, and prompts
+- **Hosts** manage the connection between clients and servers`,
+    tags: ['mcp', 'protocol', 'overview'],
+    category: 'documentation',
+    createdAt: '2024-01-15T10:00:00Z',
+    updatedAt: '2024-01-15T10:00:00Z',
+    author: 'MCP Team',
+    summary: 'Introduction to the Model Context Protocol and its architecture',
+  },
+  {
+    id: 'doc-2',
+    title: 'TypeScript SDK Guide',
+    content: `# MCP TypeScript SDK
+
+The official TypeScript SDK for building MCP servers and clients.
+
+## Installation
+
+\`\`\`bash
+npm install @modelcontextprotocol/sdk
+\`\`\`
+
+## Creating a Server
+
+\`\`\`typescript
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+
+const server = new McpServer({
+  name: 'my-server',
+  version: '1.0.0',
+});
+
+// Register tools, resources, and prompts
+server.registerTool('my-tool', /* ... */);
+\`\`\`
+
+## Best Practices
+
+- Use proper error handling
+- Implement security checks
+- Document your tools and resources
+- Test with MCP Inspector`,
+    tags: ['typescript', 'sdk', 'tutorial'],
+    category: 'development',
+    createdAt: '2024-01-16T14:30:00Z',
+    updatedAt: '2024-01-16T14:30:00Z',
+    author: 'SDK Team',
+    summary: 'Guide for using the TypeScript SDK to build MCP servers',
+  },
+  {
+    id: 'doc-3',
+    title: 'Security Best Practices',
+    content: `# MCP Security Best Practices
+
+Security is crucial when building MCP servers and clients.
+
+## Input Validation
+
+Always validate user inputs:
+- Use schema validation (Zod recommended)
+- Sanitize file paths
+- Prevent path traversal attacks
+
+## Authentication
+
+- Implement proper OAuth 2.1 flows
+- Use secure token storage
+- Rotate credentials regularly
+
+## Authorization
+
+- Implement role-based access control
+- Use the principle of least privilege
+- Audit access patterns
+
+## Transport Security
+
+- Use HTTPS for HTTP transport
+- Validate certificates
+- Implement rate limiting`,
+    tags: ['security', 'best-practices', 'oauth'],
+    category: 'security',
+    createdAt: '2024-01-17T09:15:00Z',
+    updatedAt: '2024-01-17T09:15:00Z',
+    author: 'Security Team',
+    summary: 'Essential security practices for MCP implementations',
+  },
+];
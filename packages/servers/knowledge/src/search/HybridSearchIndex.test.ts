@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { HashingEmbedder, type Embedder } from '@mcp-demo/core';
+import type { Document } from '../repository/index.js';
+import { HybridSearchIndex, makeSnippet } from './HybridSearchIndex.js';
+
+function doc(id: string, title: string, content: string, extra: Partial<Document> = {}): Document {
+  return {
+    id,
+    title,
+    content,
+    tags: [],
+    category: 'guide',
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z',
+    ...extra,
+  };
+}
+
+const documents = [
+  doc('auth', 'Security Guide', 'Authentication uses OAuth tokens.\n\nRotate credentials regularly and authenticate every request.', { category: 'security', tags: ['oauth'] }),
+  doc('install', 'Getting Started', '# Setup\n\nIntro.\n\n## Install\n\nInstall the SDK with npm and create your first server.'),
+  doc('bread', 'Baking', 'Knead the dough and bake the bread for forty minutes.', { category: 'recipes' }),
+];
+
+describe('HybridSearchIndex', () => {
+  let embedder: Embedder & { calls: string[][] };
+  let index: HybridSearchIndex;
+
+  beforeEach(async () => {
+    const hashing = new HashingEmbedder();
+    embedder = {
+      calls: [],
+      embed(texts, options) {
+        embedder.calls.push(texts);
+        return hashing.embed(texts, options);
+      },
+    };
+    index = new HybridSearchIndex({ embedder });
+    await index.sync(documents);
+  });
+
+  it('ranks keyword matches first and reports both scores', async () => {
+    const [first, ...rest] = await index.search('oauth tokens');
+
+    expect(first?.document.id).toBe('auth');
+    expect(first?.keywordScore).toBeGreaterThan(0);
+    expect(first?.semanticScore).toBeGreaterThan(0.2);
+    expect(first?.score).toBeCloseTo(2 / 61);
+    expect(rest.every(hit => hit.score < first!.score)).toBe(true);
+  });
+
+  it('finds documents that share only word fragments with the query', async () => {
+    const hits = await index.search('authenticating');
+
+    expect(hits[0]?.document.id).toBe('auth');
+    expect(hits[0]?.keywordScore).toBeUndefined();
+    expect(hits[0]?.semanticScore).toBeGreaterThan(0.2);
+  });
+
+  it('returns highlighted snippets with their section', async () => {
+    const [hit] = await index.search('install npm');
+
+    expect(hit?.snippets[0]).toEqual({
+      chunk: 1,
+      text: '**Install** the SDK with **npm** and create your first server.',
+      matchedTerms: ['install', 'npm'],
+      anchor: 'install',
+      breadcrumb: ['Setup', 'Install'],
+    });
+  });
+
+  it('applies filters before ranking', async () => {
+    const hits = await index.search('bread security', { filter: document => document.category === 'recipes' });
+    expect(hits.map(hit => hit.document.id)).toEqual(['bread']);
+  });
+
+  it('only re-embeds changed documents and drops deleted ones', async () => {
+    embedder.calls = [];
+    await index.sync([{ ...documents[0]!, content: 'Passkeys replace passwords.' }, documents[1]!]);
+
+    expect(embedder.calls).toEqual([['Security Guide\noauth\n\nPasskeys replace passwords.']]);
+    expect(index.size).toBe(2);
+    expect(await index.search('bread')).toEqual([]);
+    expect((await index.search('passkeys'))[0]?.document.id).toBe('auth');
+  });
+});
+
+describe('makeSnippet', () => {
+  it('highlights whole words in any case', () => {
+    const snippet = makeSnippet({ id: 'd#0', documentId: 'd', index: 0, text: 'SDK docs cover sdks and the Sdk.', headings: [] }, ['sdk']);
+    expect(snippet.text).toBe('**SDK** docs cover sdks and the **Sdk**.');
+  });
+
+  it('centres long chunks on the first matched term', () => {
+    const text = `${'filler '.repeat(60)}the keyword appears here ${'tail '.repeat(60)}`;
+    const snippet = makeSnippet({ id: 'd#0', documentId: 'd', index: 0, text, headings: [] }, ['keyword']);
+
+    expect(snippet.text.startsWith('…')).toBe(true);
+    expect(snippet.text.endsWith('…')).toBe(true);
+    expect(snippet.text).toContain('the **keyword** appears here');
+    expect(snippet.text.length).toBeLessThanOrEqual(206);
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * HybridSearchIndex - Keyword and semantic search over document chunks
+ *
+ * Documents are split into chunks that are indexed twice: in a BM25 keyword
+ * index and, as embeddings, in a vector index. A query ranks the chunks in
+ * both, merges the two rankings with reciprocal rank fusion (RRF), and
+ * reports each document once with its best chunks as snippets.
+ */
+
+import { HashingEmbedder, type Embedder } from '@mcp-demo/core';
+import { documentEtag, type Document } from '../repository/index.js';
+import { Bm25Index, tokenize } from './bm25.js';
+import { VectorIndex } from './VectorIndex.js';
+import { chunkDocument, type ChunkOptions, type DocumentChunk } from './chunking.js';
+
+export interface HybridSearchOptions {
+  /** Turns chunks and queries into vectors (default: an offline HashingEmbedder) */
+  embedder?: Embedder;
+  /** RRF constant; larger values flatten the difference between ranks (default: 60) */
+  rrfK?: number;
+  /** Chunks taken from each ranking before fusion (default: 50) */
+  candidates?: number;
+  /** Chunks less similar to the query than this are not semantic matches (default: 0.2) */
+  minSimilarity?: number;
+  chunking?: ChunkOptions;
+}
+
+export interface SearchSnippet {
+  /** Index of the chunk the snippet comes from */
+  chunk: number;
+  /** Excerpt of the chunk with the query terms in `**bold**` */
+  text: string;
+  /** Query terms found in the chunk */
+  matchedTerms: string[];
+  /** Anchor of the chunk's section, for get_document's `section` */
+  anchor?: string;
+  /** Headings enclosing the chunk, outermost first */
+  breadcrumb: string[];
+}
+
+export interface SearchHit {
+  document: Document;
+  /** Fused RRF score of the document's best chunk */
+  score: number;
+  /** Best BM25 score among the document's chunks; absent without keyword matches */
+  keywordScore?: number;
+  /** Best cosine similarity among the document's chunks; absent without semantic matches */
+  semanticScore?: number;
+  /** Best matching chunks, best first */
+  snippets: SearchSnippet[];
+}
+
+export interface SearchQueryOptions {
+  /** Maximum number of documents (default: 10) */
+  limit?: number;
+  /** Only documents passing the filter are ranked */
+  filter?: (document: Document) => boolean;
+  /** Snippets per document (default: 2) */
+  snippets?: number;
+}
+
+interface IndexedDocument {
+  document: Document;
+  etag: string;
+  chunks: DocumentChunk[];
+}
+
+export class HybridSearchIndex {
+  private documents = new Map<string, IndexedDocument>();
+  private chunks = new Map<string, DocumentChunk>();
+  private keywords = new Bm25Index();
+  private vectors = new VectorIndex();
+  private embedder: Embedder;
+  private rrfK: number;
+  private candidates: number;
+  private minSimilarity: number;
+  private chunking: ChunkOptions;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(options: HybridSearchOptions = {}) {
+    this.embedder = options.embedder ?? new HashingEmbedder();
+    this.rrfK = options.rrfK ?? 60;
+    this.candidates = options.candidates ?? 50;
+    this.minSimilarity = options.minSimilarity ?? 0.2;
+    this.chunking = options.chunking ?? {};
+  }
+
+  /** Number of indexed documents */
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Brings the index in line with `documents`: new and changed documents
+   * (by etag) are chunked and embedded, missing ones are dropped. Calls are
+   * applied one after another.
+   */
+  sync(documents: Document[]): Promise<void> {
+    const next = this.pending.then(() => this.apply(documents));
+    // A failed sync must not block later ones; the caller still sees the error
+    this.pending = next.catch(() => undefined);
+    return next;
+  }
+
+  async search(query: string, options: SearchQueryOptions = {}): Promise<SearchHit[]> {
+    await this.pending;
+    const { limit = 10, filter, snippets = 2 } = options;
+    const included = (chunkId: string) => {
+      const chunk = this.chunks.get(chunkId);
+      return chunk !== undefined && (!filter || filter(this.documents.get(chunk.documentId)!.document));
+    };
+
+    const keywordRanking = this.keywords.search(query).filter(hit => included(hit.id)).slice(0, this.candidates);
+
+    const [queryVector] = (await this.embedder.embed([query], { inputType: 'query' })).embeddings;
+    const semanticRanking = queryVector
+      ? this.vectors.search(queryVector, this.vectors.size, this.minSimilarity)
+          .filter(hit => included(hit.id))
+          .slice(0, this.candidates)
+      : [];
+
+    // Reciprocal rank fusion: each ranking adds 1 / (k + rank) to a chunk
+    const fused = new Map<string, { score: number; keyword?: number; semantic?: number }>();
+    keywordRanking.forEach((hit, rank) => {
+      fused.set(hit.id, { score: 1 / (this.rrfK + rank + 1), keyword: hit.score });
+    });
+    semanticRanking.forEach((hit, rank) => {
+      const entry = fused.get(hit.id) ?? { score: 0 };
+      entry.score += 1 / (this.rrfK + rank + 1);
+      entry.semantic = hit.score;
+      fused.set(hit.id, entry);
+    });
+
+    const byDocument = new Map<string, Array<{ chunk: DocumentChunk; score: number; keyword?: number; semantic?: number }>>();
+    for (const [chunkId, entry] of fused) {
+      const chunk = this.chunks.get(chunkId)!;
+      const hits = byDocument.get(chunk.documentId) ?? [];
+      hits.push({ chunk, ...entry });
+      byDocument.set(chunk.documentId, hits);
+    }
+
+    const terms = [...new Set(tokenize(query))];
+    const results: SearchHit[] = [];
+    for (const [documentId, hits] of byDocument) {
+      hits.sort((a, b) => b.score - a.score);
+      const keywordScores = hits.flatMap(hit => hit.keyword ?? []);
+      const semanticScores = hits.flatMap(hit => hit.semantic ?? []);
+      results.push({
+        document: this.documents.get(documentId)!.document,
+        score: hits[0]!.score,
+        keywordScore: keywordScores.length > 0 ? Math.max(...keywordScores) : undefined,
+        semanticScore: semanticScores.length > 0 ? Math.max(...semanticScores) : undefined,
+        snippets: hits.slice(0, snippets).map(hit => makeSnippet(hit.chunk, terms)),
+      });
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  private async apply(documents: Document[]): Promise<void> {
+    const seen = new Set<string>();
+    const changed: Array<{ document: Document; etag: string }> = [];
+    for (const document of documents) {
+      seen.add(document.id);
+      const etag = documentEtag(document);
+      if (this.documents.get(document.id)?.etag !== etag) {
+        changed.push({ document, etag });
+      }
+    }
+
+    for (const id of this.documents.keys()) {
+      if (!seen.has(id)) {
+        this.removeDocument(id);
+      }
+    }
+    if (changed.length === 0) {
+      return;
+    }
+
+    const chunked = changed.map(({ document, etag }) => ({ document, etag, chunks: chunkDocument(document, this.chunking) }));
+    const texts = chunked.flatMap(({ document, chunks }) => chunks.map(chunk => indexText(document, chunk)));
+    const { embeddings } = await this.embedder.embed(texts, { inputType: 'document' });
+
+    let next = 0;
+    for (const entry of chunked) {
+      this.removeDocument(entry.document.id);
+      this.documents.set(entry.document.id, entry);
+      for (const chunk of entry.chunks) {
+        const text = texts[next]!;
+        this.chunks.set(chunk.id, chunk);
+        this.keywords.add(chunk.id, text);
+        this.vectors.upsert(chunk.id, embeddings[next++]!);
+      }
+    }
+  }
+
+  private removeDocument(id: string): void {
+    for (const chunk of this.documents.get(id)?.chunks ?? []) {
+      this.chunks.delete(chunk.id);
+      this.keywords.remove(chunk.id);
+      this.vectors.remove(chunk.id);
+    }
+    this.documents.delete(id);
+  }
+}
+
+// Chunks carry their document's title, tags and headings, so a query naming
+// the topic of a document or section matches all of its chunks
+function indexText(document: Document, chunk: DocumentChunk): string {
+  const header = [document.title, document.tags.join(' '), chunk.headings.join(' > ')].filter(Boolean);
+  return `${header.join('\n')}\n\n${chunk.text}`;
+}
+
+const SNIPPET_LENGTH = 200;
+
+/**
+ * Up to SNIPPET_LENGTH characters of a chunk, centred on the first query
+ * term it contains (or its start when it only matched semantically), with
+ * the query terms highlighted
+ */
+export function makeSnippet(chunk: DocumentChunk, terms: string[]): SearchSnippet {
+  // A heading without text of its own is represented by the heading
+  const text = (chunk.text || chunk.headings[chunk.headings.length - 1] || '').replace(/\s+/g, ' ').trim();
+  const matches = terms
+    .map(term => ({ term, index: text.search(termPattern(term, 'iu')) }))
+    .filter(match => match.index >= 0);
+
+  const firstMatch = Math.min(...matches.map(match => match.index));
+  let start = Number.isFinite(firstMatch) ? Math.max(0, firstMatch - SNIPPET_LENGTH / 3) : 0;
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  start = Math.max(0, end - SNIPPET_LENGTH);
+
+  // Cut at word boundaries
+  if (start > 0) start = text.indexOf(' ', start) + 1 || start;
+  if (end < text.length) end = text.lastIndexOf(' ', end) > start ? text.lastIndexOf(' ', end) : end;
+
+  let excerpt = text.slice(start, end);
+  for (const { term } of matches) {
+    excerpt = excerpt.replace(termPattern(term, 'giu'), '**$&**');
+  }
+
+  return {
+    chunk: chunk.index,
+    text: `${start > 0 ? '…' : ''}${excerpt}${end < text.length ? '…' : ''}`,
+    matchedTerms: matches.map(match => match.term),
+    anchor: chunk.anchor,
+    breadcrumb: chunk.headings,
+  };
+}
+
+// Matches `term` as a whole word (tokens are words, so 'sdk' does not match 'sdks')
+function termPattern(term: string, flags: string): RegExp {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, flags);
+}
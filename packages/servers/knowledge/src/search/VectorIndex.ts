@@ -0,0 +1,37 @@
+/**
+ * In-memory vector index with exact cosine-similarity search
+ */
+
+import { cosineSimilarity } from '@mcp-demo/core';
+
+export class VectorIndex {
+  private vectors = new Map<string, number[]>();
+
+  get size(): number {
+    return this.vectors.size;
+  }
+
+  upsert(id: string, vector: number[]): void {
+    this.vectors.set(id, vector);
+  }
+
+  remove(id: string): boolean {
+    return this.vectors.delete(id);
+  }
+
+  /**
+   * The `limit` entries most similar to `vector` with a similarity of at
+   * least `minSimilarity`, best first. Compares against every entry, which is
+   * fast enough for a knowledge base of a few thousand chunks.
+   */
+  search(vector: number[], limit: number, minSimilarity = 0): Array<{ id: string; score: number }> {
+    const results: Array<{ id: string; score: number }> = [];
+    for (const [id, candidate] of this.vectors) {
+      const score = cosineSimilarity(vector, candidate);
+      if (score >= minSimilarity) {
+        results.push({ id, score });
+      }
+    }
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { Bm25Index, tokenize } from './bm25.js';
+
+describe('tokenize', () => {
+  it('lower-cases words and drops stop words', () => {
+    expect(tokenize('How to use the JSON-RPC API?')).toEqual(['use', 'json', 'rpc', 'api']);
+  });
+});
+
+describe('Bm25Index', () => {
+  it('scores rare terms and repeated terms higher', () => {
+    const index = new Bm25Index();
+    index.add('a', 'server server configuration');
+    index.add('b', 'server deployment');
+    index.add('c', 'client configuration guide');
+
+    const [top, ...rest] = index.search('server configuration');
+    expect(top?.id).toBe('a');
+    expect(rest.map(hit => hit.id).sort()).toEqual(['b', 'c']);
+    expect(index.search('unrelated')).toEqual([]);
+  });
+
+  it('replaces and removes entries', () => {
+    const index = new Bm25Index();
+    index.add('a', 'alpha');
+    index.add('a', 'beta');
+
+    expect(index.search('alpha')).toEqual([]);
+    expect(index.search('beta').map(hit => hit.id)).toEqual(['a']);
+    expect(index.remove('a')).toBe(true);
+    expect(index.size).toBe(0);
+    expect(index.search('beta')).toEqual([]);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Okapi BM25 keyword index
+ */
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'what', 'with',
+]);
+
+/**
+ * Lower-cased words and numbers of a text, without stop words
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(token => !STOP_WORDS.has(token));
+}
+
+export interface Bm25Options {
+  /** Term frequency saturation (default: 1.2) */
+  k1?: number;
+  /** Length normalization, 0 to 1 (default: 0.75) */
+  b?: number;
+}
+
+interface Entry {
+  length: number;
+  frequencies: Map<string, number>;
+}
+
+export class Bm25Index {
+  private entries = new Map<string, Entry>();
+  /** Number of entries containing each term */
+  private documentFrequencies = new Map<string, number>();
+  private totalLength = 0;
+  private k1: number;
+  private b: number;
+
+  constructor(options: Bm25Options = {}) {
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Indexes `text` under `id`, replacing what was indexed there before
+   */
+  add(id: string, text: string): void {
+    this.remove(id);
+
+    const tokens = tokenize(text);
+    const frequencies = new Map<string, number>();
+    for (const token of tokens) {
+      frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+    }
+    for (const term of frequencies.keys()) {
+      this.documentFrequencies.set(term, (this.documentFrequencies.get(term) ?? 0) + 1);
+    }
+
+    this.entries.set(id, { length: tokens.length, frequencies });
+    this.totalLength += tokens.length;
+  }
+
+  remove(id: string): boolean {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return false;
+    }
+    for (const term of entry.frequencies.keys()) {
+      const count = this.documentFrequencies.get(term)! - 1;
+      if (count === 0) {
+        this.documentFrequencies.delete(term);
+      } else {
+        this.documentFrequencies.set(term, count);
+      }
+    }
+    this.entries.delete(id);
+    this.totalLength -= entry.length;
+    return true;
+  }
+
+  /**
+   * Entries containing at least one query term, best first
+   */
+  search(query: string): Array<{ id: string; score: number }> {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0 || this.entries.size === 0) {
+      return [];
+    }
+
+    const averageLength = this.totalLength / this.entries.size || 1;
+    const results: Array<{ id: string; score: number }> = [];
+
+    for (const [id, entry] of this.entries) {
+      let score = 0;
+      for (const term of terms) {
+        const frequency = entry.frequencies.get(term);
+        if (!frequency) continue;
+        const df = this.documentFrequencies.get(term)!;
+        const idf = Math.log(1 + (this.entries.size - df + 0.5) / (df + 0.5));
+        const norm = this.k1 * (1 - this.b + this.b * (entry.length / averageLength));
+        score += idf * ((frequency * (this.k1 + 1)) / (frequency + norm));
+      }
+      if (score > 0) {
+        results.push({ id, score });
+      }
+    }
+
+    return results.sort((x, y) => y.score - x.score);
+  }
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import type { Document } from '../repository/index.js';
+import { chunkDocument } from './chunking.js';
+
+const document = (content: string): Document => ({
+  id: 'doc',
+  title: 'Doc',
+  content,
+  tags: [],
+  category: 'guide',
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+});
+
+describe('chunkDocument', () => {
+  it('never lets a chunk span two sections', () => {
+    const chunks = chunkDocument(document('Preamble.\n\n# A\n\nOne.\n\nTwo.\n\n## B\n\nThree.\n\n# C'));
+
+    expect(chunks.map(({ id, text, anchor, headings }) => ({ id, text, anchor, headings }))).toEqual([
+      { id: 'doc#0', text: 'Preamble.', anchor: undefined, headings: [] },
+      { id: 'doc#1', text: 'One.\n\nTwo.', anchor: 'a', headings: ['A'] },
+      { id: 'doc#2', text: 'Three.', anchor: 'b', headings: ['A', 'B'] },
+      { id: 'doc#3', text: '', anchor: 'c', headings: ['C'] },
+    ]);
+  });
+
+  it('packs paragraphs and splits long ones into overlapping windows', () => {
+    const words = Array.from({ length: 25 }, (_, i) => `w${i}`).join(' ');
+    const chunks = chunkDocument(document(`short one\n\nshort two\n\n${words}`), { maxWords: 10, overlap: 2 });
+
+    expect(chunks.map(chunk => chunk.text.split(' ')[0])).toEqual(['short', 'w0', 'w8', 'w16']);
+    expect(chunks[0]?.text).toBe('short one\n\nshort two');
+    expect(chunks[3]?.text.split(' ')).toHaveLength(9);
+  });
+
+  it('gives empty documents one chunk', () => {
+    expect(chunkDocument(document(''))).toHaveLength(1);
+  });
+});
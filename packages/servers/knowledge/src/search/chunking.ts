@@ -0,0 +1,93 @@
+/**
+ * Splits documents into chunks small enough to embed and score on their own
+ */
+
+import type { Document } from '../repository/index.js';
+import { parseSections } from './sections.js';
+
+export interface DocumentChunk {
+  /** `<documentId>#<index>` */
+  id: string;
+  documentId: string;
+  /** Position of the chunk in its document, from 0 */
+  index: number;
+  /** The chunk's Markdown, without its section heading */
+  text: string;
+  /** Anchor of the section the chunk belongs to; undefined before the first heading */
+  anchor?: string;
+  /** Headings enclosing the chunk, outermost first */
+  headings: string[];
+}
+
+export interface ChunkOptions {
+  /** Target chunk size in words (default: 120) */
+  maxWords?: number;
+  /** Words repeated from the previous chunk when a paragraph is split (default: 20) */
+  overlap?: number;
+}
+
+/**
+ * Splits a document at its headings, then packs each section's paragraphs
+ * into chunks of up to `maxWords` words. Chunks never span two sections, so
+ * every chunk can name the section it came from.
+ */
+export function chunkDocument(document: Document, options: ChunkOptions = {}): DocumentChunk[] {
+  const maxWords = options.maxWords ?? 120;
+  const overlap = Math.min(options.overlap ?? 20, maxWords - 1);
+
+  const chunks: Array<Omit<DocumentChunk, 'id' | 'documentId' | 'index'>> = [];
+  for (const section of parseSections(document.content)) {
+    for (const text of packParagraphs(section.content, maxWords, overlap)) {
+      chunks.push({ text, anchor: section.anchor, headings: section.breadcrumb });
+    }
+    // A heading without text of its own still makes its section findable
+    if (!section.content && section.level > 0) {
+      chunks.push({ text: '', anchor: section.anchor, headings: section.breadcrumb });
+    }
+  }
+
+  // An empty document still gets a chunk, so its title and tags are searchable
+  if (chunks.length === 0) {
+    chunks.push({ text: '', headings: [] });
+  }
+
+  return chunks.map((chunk, index) => ({ id: `${document.id}#${index}`, documentId: document.id, index, ...chunk }));
+}
+
+/**
+ * Packs paragraphs into texts of up to `maxWords` words. Paragraphs longer
+ * than that are cut into overlapping word windows, so a match near a cut
+ * still has some context in one of the chunks.
+ */
+function packParagraphs(content: string, maxWords: number, overlap: number): string[] {
+  const texts: string[] = [];
+  let current: string[] = [];
+  let currentWords = 0;
+  const flush = () => {
+    if (current.length > 0) {
+      texts.push(current.join('\n\n'));
+      current = [];
+      currentWords = 0;
+    }
+  };
+
+  for (const paragraph of content.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean)) {
+    const words = paragraph.split(/\s+/);
+    if (words.length > maxWords) {
+      flush();
+      for (let start = 0; start < words.length; start += maxWords - overlap) {
+        texts.push(words.slice(start, start + maxWords).join(' '));
+        if (start + maxWords >= words.length) break;
+      }
+      continue;
+    }
+    if (currentWords + words.length > maxWords) {
+      flush();
+    }
+    current.push(paragraph);
+    currentWords += words.length;
+  }
+  flush();
+
+  return texts;
+}
@@ -0,0 +1,19 @@
+/**
+ * Document search
+ *
+ * Hybrid keyword (BM25) and semantic (embedding) search over heading-aware
+ * document chunks, fused with reciprocal rank fusion.
+ */
+
+export {
+  HybridSearchIndex,
+  makeSnippet,
+  type HybridSearchOptions,
+  type SearchHit,
+  type SearchQueryOptions,
+  type SearchSnippet,
+} from './HybridSearchIndex.js';
+export { Bm25Index, tokenize, type Bm25Options } from './bm25.js';
+export { VectorIndex } from './VectorIndex.js';
+export { chunkDocument, type ChunkOptions, type DocumentChunk } from './chunking.js';
+export { parseSections, extractSection, slugify, type MarkdownSection } from './sections.js';
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { parseSections, extractSection, slugify } from './sections.js';
+
+const markdown = `Intro before any heading.
+
+# Guide
+
+Welcome.
+
+## Install
+
+Run npm install.
+
+\`\`\`bash
+# not a heading
+npm install
+\`\`\`
+
+### Options
+
+Flags.
+
+## Usage
+
+Call it.
+
+## Usage
+`;
+
+describe('parseSections', () => {
+  it('splits at headings with anchors and breadcrumbs', () => {
+    expect(parseSections(markdown).map(({ anchor, level, breadcrumb }) => [anchor, level, breadcrumb])).toEqual([
+      [undefined, 0, []],
+      ['guide', 1, ['Guide']],
+      ['install', 2, ['Guide', 'Install']],
+      ['options', 3, ['Guide', 'Install', 'Options']],
+      ['usage', 2, ['Guide', 'Usage']],
+      ['usage-1', 2, ['Guide', 'Usage']],
+    ]);
+  });
+
+  it('keeps fenced code with its section', () => {
+    const install = parseSections(markdown).find(section => section.anchor === 'install');
+    expect(install?.content).toBe('Run npm install.\n\n```bash\n# not a heading\nnpm install\n```');
+  });
+});
+
+describe('extractSection', () => {
+  it('returns a section with its subsections', () => {
+    expect(extractSection(markdown, 'install')).toBe(
+      '## Install\n\nRun npm install.\n\n```bash\n# not a heading\nnpm install\n```\n\n### Options\n\nFlags.'
+    );
+    expect(extractSection(markdown, 'usage')).toBe('## Usage\n\nCall it.');
+    expect(extractSection(markdown, 'missing')).toBeUndefined();
+  });
+});
+
+describe('slugify', () => {
+  it('builds GitHub-style anchors', () => {
+    expect(slugify('Step 1: Set-up the SDK (v2)!')).toBe('step-1-set-up-the-sdk-v2');
+  });
+});
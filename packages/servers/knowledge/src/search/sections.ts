@@ -0,0 +1,112 @@
+/**
+ * Markdown heading structure: sections, anchors and breadcrumbs
+ */
+
+export interface MarkdownSection {
+  /** GitHub-style slug of the heading, unique within the document; undefined for text before the first heading */
+  anchor?: string;
+  /** Heading text; empty for text before the first heading */
+  title: string;
+  /** Heading level 1-6; 0 for text before the first heading */
+  level: number;
+  /** Titles of the enclosing headings, outermost first, ending with this one */
+  breadcrumb: string[];
+  /** Text between this heading and the next heading of any level */
+  content: string;
+}
+
+const HEADING = /^ {0,3}(#{1,6})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Splits Markdown at its ATX headings (`#` to `######`), ignoring `#` lines
+ * inside fenced code blocks
+ */
+export function parseSections(markdown: string): MarkdownSection[] {
+  const sections: MarkdownSection[] = [];
+  const slugs = new Map<string, number>();
+  const trail: Array<{ level: number; title: string }> = [];
+  let current: MarkdownSection = { title: '', level: 0, breadcrumb: [], content: '' };
+  let lines: string[] = [];
+  let fence: string | undefined;
+
+  const close = () => {
+    current.content = lines.join('\n').trim();
+    if (current.level > 0 || current.content) {
+      sections.push(current);
+    }
+    lines = [];
+  };
+
+  for (const line of markdown.split(/\r?\n/)) {
+    const fenceMatch = FENCE.exec(line);
+    if (fenceMatch) {
+      const marker = fenceMatch[1]!;
+      if (!fence) {
+        fence = marker;
+      } else if (marker[0] === fence[0] && marker.length >= fence.length) {
+        fence = undefined;
+      }
+    }
+
+    const heading = fence ? null : HEADING.exec(line);
+    if (!heading || fenceMatch) {
+      lines.push(line);
+      continue;
+    }
+
+    close();
+    const level = heading[1]!.length;
+    const title = heading[2]!.trim();
+    while (trail.length > 0 && trail[trail.length - 1]!.level >= level) {
+      trail.pop();
+    }
+    trail.push({ level, title });
+    current = { anchor: uniqueSlug(title, slugs), title, level, breadcrumb: trail.map(entry => entry.title), content: '' };
+  }
+  close();
+
+  return sections;
+}
+
+/**
+ * The Markdown of the section with `anchor`: its heading and everything up
+ * to the next heading of the same or a higher level (so subsections are
+ * included). Undefined when no heading has that anchor.
+ */
+export function extractSection(markdown: string, anchor: string): string | undefined {
+  const sections = parseSections(markdown);
+  const start = sections.findIndex(section => section.anchor === anchor);
+  if (start === -1) {
+    return undefined;
+  }
+
+  const level = sections[start]!.level;
+  const parts: string[] = [];
+  for (let i = start; i < sections.length; i++) {
+    const section = sections[i]!;
+    if (i > start && section.level <= level) break;
+    parts.push(`${'#'.repeat(section.level)} ${section.title}`);
+    if (section.content) parts.push(section.content);
+  }
+  return parts.join('\n\n');
+}
+
+/**
+ * GitHub's heading anchor: lower case, punctuation removed, spaces as hyphens
+ */
+export function slugify(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .trim()
+    .replace(/\s/g, '-');
+}
+
+// Repeated headings get -1, -2, ... like on GitHub
+function uniqueSlug(title: string, seen: Map<string, number>): string {
+  const slug = slugify(title);
+  const count = seen.get(slug) ?? 0;
+  seen.set(slug, count + 1);
+  return count === 0 ? slug : `${slug}-${count}`;
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { Logger, LogLevel, TaskManager, ConflictError, NotFoundError, ValidationError, errorFromToolResult } from '@mcp-demo/core';
+import { createKnowledgeSessions, type KnowledgeSessions } from './knowledgeBase.js';
+import { createMCPServer } from './server.js';
+
+describe('knowledge server tools', () => {
+  let knowledge: KnowledgeSessions;
+  let taskManager: TaskManager;
+  let client: Client;
+
+  const call = async (name: string, args: Record<string, unknown>) =>
+    (await client.callTool({ name, arguments: args })) as CallToolResult;
+
+  const data = (result: CallToolResult) => {
+    expect(result.isError).toBeFalsy();
+    return result.structuredContent as Record<string, any>;
+  };
+
+  const etagOf = async (documentId: string): Promise<string> =>
+    data(await call('get_document', { documentId })).etag;
+
+  beforeEach(async () => {
+    knowledge = createKnowledgeSessions({ scope: 'session', store: { type: 'memory' } });
+    taskManager = new TaskManager();
+    const { mcpServer } = createMCPServer({ knowledge, taskManager, logger: new Logger('knowledge-server', { level: LogLevel.ERROR }) });
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([mcpServer.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    taskManager.close();
+    knowledge.close();
+  });
+
+  describe('create_document', () => {
+    it('returns the new document and counts it in list_categories', async () => {
+      const before = data(await call('list_categories', {}));
+
+      const created = data(await call('create_document', { title: 'Runbook', content: 'Steps', category: 'Ops', tags: ['On-Call'] }));
+
+      expect(created).toMatchObject({ title: 'Runbook', category: 'ops', tags: ['on-call'] });
+      expect(await etagOf(created.documentId)).toBe(created.etag);
+      const after = data(await call('list_categories', {}));
+      expect(after.totalDocuments).toBe(before.totalDocuments + 1);
+      expect(after.categories.ops).toBe(1);
+      expect(after.tags).toContain('on-call');
+    });
+  });
+
+  describe('update_document', () => {
+    it('applies the patch and returns the new etag', async () => {
+      const etag = await etagOf('doc-1');
+
+      const updated = data(await call('update_document', { documentId: 'doc-1', etag, title: 'MCP in a Nutshell' }));
+
+      expect(updated).toMatchObject({ documentId: 'doc-1', revision: 2, updatedFields: ['title'] });
+      expect(updated.etag).not.toBe(etag);
+      expect(await etagOf('doc-1')).toBe(updated.etag);
+    });
+
+    it('rejects a stale etag with a ConflictError', async () => {
+      const etag = await etagOf('doc-1');
+      data(await call('update_document', { documentId: 'doc-1', etag, title: 'First edit' }));
+
+      const result = await call('update_document', { documentId: 'doc-1', etag, title: 'Second edit' });
+
+      expect(errorFromToolResult(result)).toBeInstanceOf(ConflictError);
+      expect(data(await call('get_document', { documentId: 'doc-1' })).title).toBe('First edit');
+    });
+
+    it('rejects a missing document with a NotFoundError', async () => {
+      const result = await call('update_document', { documentId: 'doc-404', etag: 'any', title: 'Ghost' });
+
+      expect(errorFromToolResult(result)).toBeInstanceOf(NotFoundError);
+    });
+
+    it('rejects an empty patch with a ValidationError', async () => {
+      const result = await call('update_document', { documentId: 'doc-1', etag: await etagOf('doc-1') });
+
+      expect(errorFromToolResult(result)).toBeInstanceOf(ValidationError);
+    });
+  });
+
+  describe('delete_document', () => {
+    it('removes the document from search', async () => {
+      const found = async () =>
+        data(await call('search_documents', { query: 'TypeScript SDK' })).results.map((r: { documentId: string }) => r.documentId);
+      expect(await found()).toContain('doc-2');
+
+      data(await call('delete_document', { documentId: 'doc-2', etag: await etagOf('doc-2') }));
+
+      expect(await found()).not.toContain('doc-2');
+      expect(errorFromToolResult(await call('get_document', { documentId: 'doc-2' }))).toBeInstanceOf(NotFoundError);
+    });
+
+    it('rejects a stale etag with a ConflictError', async () => {
+      const etag = await etagOf('doc-2');
+      data(await call('update_document', { documentId: 'doc-2', etag, tags: ['sdk'] }));
+
+      expect(errorFromToolResult(await call('delete_document', { documentId: 'doc-2', etag }))).toBeInstanceOf(ConflictError);
+    });
+  });
+
+  describe('revisions', () => {
+    it('restores an earlier revision as a new revision', async () => {
+      const original = data(await call('get_document', { documentId: 'doc-1' }));
+      const edited = data(await call('update_document', { documentId: 'doc-1', etag: original.etag, title: 'Renamed', content: 'Rewritten' }));
+
+      const restored = data(await call('restore_revision', { documentId: 'doc-1', revision: 1, etag: edited.etag }));
+
+      expect(restored).toMatchObject({ documentId: 'doc-1', restoredRevision: 1, revision: 3 });
+      const current = data(await call('get_document', { documentId: 'doc-1' }));
+      expect(current).toMatchObject({ title: original.title, content: original.content, etag: restored.etag });
+    });
+
+    it('rejects restoring with a stale etag or an unknown revision', async () => {
+      const etag = await etagOf('doc-1');
+      const edited = data(await call('update_document', { documentId: 'doc-1', etag, title: 'Renamed' }));
+
+      expect(errorFromToolResult(await call('restore_revision', { documentId: 'doc-1', revision: 1, etag }))).toBeInstanceOf(ConflictError);
+      expect(errorFromToolResult(await call('restore_revision', { documentId: 'doc-1', revision: 9, etag: edited.etag }))).toBeInstanceOf(NotFoundError);
+    });
+
+    it('diffs the content of two revisions', async () => {
+      const { etag, content } = data(await call('get_document', { documentId: 'doc-1' }));
+      data(await call('update_document', { documentId: 'doc-1', etag, content: `${content}\n\nA new closing line.` }));
+
+      const { diff, from, to } = data(await call('diff_revisions', { documentId: 'doc-1', from: 1 }));
+
+      expect({ from, to }).toEqual({ from: 1, to: 2 });
+      expect(diff).toContain('--- doc-1@1');
+      expect(diff).toContain('+A new closing line.');
+      expect(errorFromToolResult(await call('diff_revisions', { documentId: 'doc-1', from: 1, to: 5 }))).toBeInstanceOf(NotFoundError);
+    });
+  });
+
+  describe('get_document', () => {
+    it('returns a single section', async () => {
+      const section = data(await call('get_document', { documentId: 'doc-2', section: 'installation' }));
+
+      expect(section.content).toContain('npm install @modelcontextprotocol/sdk');
+      expect(section.content).not.toContain('Creating a Server');
+    });
+
+    it('reports an unknown section with the available anchors', async () => {
+      const result = await call('get_document', { documentId: 'doc-2', section: 'uninstall' });
+
+      const error = errorFromToolResult(result);
+      expect(error).toBeInstanceOf(NotFoundError);
+      expect(error?.message).toMatch(/Section "uninstall" not found in document "doc-2"; available sections: .*installation/);
+    });
+  });
+});